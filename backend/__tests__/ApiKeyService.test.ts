@@ -0,0 +1,147 @@
+import { ApiKeyService } from '../src/services/ApiKeyService';
+
+// The ApiKey and ApiKeyUsage tables, standing in for the database
+const mockDb = {
+  keys: [] as any[],
+  usage: new Map<string, number>(),
+};
+
+jest.mock('../src/services/Database', () => {
+  const findKey = (where: any) => mockDb.keys.find((row) => (where.id ? row.id === where.id : row.prefix === where.prefix));
+
+  const prisma = {
+    apiKey: {
+      create: async ({ data }: any) => {
+        const row = {
+          id: `key-${mockDb.keys.length + 1}`,
+          usageCount: 0,
+          lastUsedAt: null,
+          rotatedAt: null,
+          revokedAt: null,
+          createdAt: new Date(),
+          ...data,
+        };
+        mockDb.keys.push(row);
+        return row;
+      },
+      findUnique: async ({ where }: any) => findKey(where) ?? null,
+      update: async ({ where, data }: any) => {
+        const row = findKey(where);
+        const { usageCount, ...rest } = data;
+        Object.assign(row, rest, usageCount ? { usageCount: row.usageCount + usageCount.increment } : {});
+        return row;
+      },
+    },
+    apiKeyUsage: {
+      upsert: async ({ where }: any) => {
+        const { apiKeyId, day } = where.apiKeyId_day;
+        const key = `${apiKeyId} ${day.toISOString()}`;
+        mockDb.usage.set(key, (mockDb.usage.get(key) ?? 0) + 1);
+        return { count: mockDb.usage.get(key) };
+      },
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  };
+
+  return { prisma };
+});
+
+const service = new ApiKeyService();
+
+const KEY_PATTERN = /^ipr_([0-9a-f]{12})_([A-Za-z0-9_-]{32})$/;
+
+const issue = (overrides: Partial<{ scopes: any[]; rateLimit: number; dailyQuota: number }> = {}) =>
+  service.issue({ name: 'test', scopes: ['reverse'], ...overrides } as any);
+
+beforeEach(() => {
+  mockDb.keys = [];
+  mockDb.usage = new Map();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  delete process.env.ADMIN_API_KEY;
+});
+
+describe('ApiKeyService.issue', () => {
+  test('returns the plaintext key once and stores only a hash of its secret', async () => {
+    const { apiKey, key } = await issue({ rateLimit: 60, dailyQuota: 1000 });
+
+    const [, prefix, secret] = KEY_PATTERN.exec(key)!;
+    expect(apiKey).toMatchObject({ id: 'key-1', prefix, scopes: ['reverse'], rateLimit: 60, dailyQuota: 1000 });
+    expect(apiKey).not.toHaveProperty('secretHash');
+    expect(mockDb.keys[0].secretHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(mockDb.keys[0])).not.toContain(secret);
+  });
+
+  test('issues a different key every time', async () => {
+    const first = await issue();
+    const second = await issue();
+
+    expect(second.key).not.toBe(first.key);
+    expect(second.apiKey.prefix).not.toBe(first.apiKey.prefix);
+  });
+});
+
+describe('ApiKeyService.verify', () => {
+  test('resolves an issued key to its id, scopes and limits', async () => {
+    const { key } = await issue({ scopes: ['reverse', 'read-history'], rateLimit: 60 });
+
+    expect(await service.verify(key)).toEqual({
+      id: 'key-1',
+      name: 'test',
+      scopes: ['reverse', 'read-history'],
+      rateLimit: 60,
+      dailyQuota: null,
+    });
+  });
+
+  test('refuses malformed keys, unknown prefixes and wrong secrets', async () => {
+    const { key } = await issue();
+    const [, prefix, secret] = KEY_PATTERN.exec(key)!;
+
+    expect(await service.verify('not-a-key')).toBeNull();
+    expect(await service.verify(`ipr_${'0'.repeat(12)}_${secret}`)).toBeNull();
+    expect(await service.verify(`ipr_${prefix}_${'A'.repeat(32)}`)).toBeNull();
+  });
+
+  test('refuses revoked keys and the old secret of rotated ones', async () => {
+    const revoked = await issue();
+    const rotated = await issue();
+    await service.revoke(revoked.apiKey.id);
+
+    const replacement = await service.rotate(rotated.apiKey.id);
+
+    expect(await service.verify(revoked.key)).toBeNull();
+    expect(await service.verify(rotated.key)).toBeNull();
+    expect(await service.verify(replacement!.key)).toMatchObject({ id: rotated.apiKey.id });
+    expect(await service.rotate(revoked.apiKey.id)).toBeNull();
+  });
+
+  test('accepts ADMIN_API_KEY as an admin key without an id', async () => {
+    process.env.ADMIN_API_KEY = 'bootstrap-secret';
+
+    expect(await service.verify('bootstrap-secret')).toEqual({
+      id: null,
+      name: 'bootstrap-admin',
+      scopes: ['admin'],
+      rateLimit: null,
+      dailyQuota: null,
+    });
+    expect(await service.verify('bootstrap-secreT')).toBeNull();
+  });
+});
+
+describe('ApiKeyService.recordUsage', () => {
+  test('counts requests per UTC day', async () => {
+    const { apiKey } = await issue();
+    jest.useFakeTimers({ now: new Date('2025-10-01T23:59:00Z') });
+
+    expect(await service.recordUsage(apiKey.id)).toBe(1);
+    expect(await service.recordUsage(apiKey.id)).toBe(2);
+    jest.setSystemTime(new Date('2025-10-02T00:01:00Z'));
+    expect(await service.recordUsage(apiKey.id)).toBe(1);
+
+    expect(mockDb.keys[0]).toMatchObject({ usageCount: 3, lastUsedAt: new Date('2025-10-02T00:01:00Z') });
+  });
+});
@@ -0,0 +1,136 @@
+import type { Request, Response } from 'express';
+import { extractApiKey, requireApiKey, requireScope, resolveApiKey } from '../src/middleware/AuthMiddleware';
+import { apiKeyService } from '../src/services/ApiKeyService';
+import { AppError } from '../src/utils/Errors';
+import type { ApiKeyScope, AuthenticatedApiKey } from '../src/types/index';
+
+jest.mock('../src/services/Database', () => ({ prisma: {} }));
+
+const request = (scopes?: ApiKeyScope[]): Request => ({
+  headers: {},
+  apiKey: scopes ? { id: 'key-1', name: 'test', scopes, rateLimit: null, dailyQuota: null } as AuthenticatedApiKey : undefined,
+}) as Request;
+
+// The error a middleware passes on, or null if it lets the request through
+const run = (middleware: (req: Request, res: Response, next: (error?: unknown) => void) => void, req: Request): AppError | null => {
+  let result: unknown = 'not called';
+  middleware(req, {} as Response, (error?: unknown) => {
+    result = error ?? null;
+  });
+  if (result === 'not called') {
+    throw new Error('Middleware did not call next');
+  }
+  return result as AppError | null;
+};
+
+describe('requireScope', () => {
+  test('lets anonymous requests through for non-admin scopes without API_KEY_REQUIRED', () => {
+    expect(run(requireScope('reverse'), request())).toBeNull();
+  });
+
+  test('refuses anonymous requests for the admin scope', () => {
+    expect(run(requireScope('admin'), request())).toMatchObject({ status: 401, code: 'API_KEY_REQUIRED' });
+  });
+
+  test('refuses keys without the scope and lets admin keys through', () => {
+    expect(run(requireScope('reverse'), request(['read-history']))).toMatchObject({
+      status: 403,
+      code: 'INSUFFICIENT_SCOPE',
+      details: { requiredScope: 'reverse', grantedScopes: ['read-history'] },
+    });
+    expect(run(requireScope('reverse'), request(['admin']))).toBeNull();
+  });
+});
+
+describe('requireApiKey', () => {
+  test('refuses anonymous requests even without API_KEY_REQUIRED', () => {
+    const error = run(requireApiKey('reverse'), request());
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ status: 401, code: 'API_KEY_REQUIRED' });
+  });
+
+  test('checks the scope of authenticated keys', () => {
+    expect(run(requireApiKey('reverse'), request(['reverse']))).toBeNull();
+    expect(run(requireApiKey('reverse'), request(['admin']))).toBeNull();
+    expect(run(requireApiKey('reverse'), request(['read-history']))).toMatchObject({ status: 403 });
+  });
+});
+
+describe('extractApiKey', () => {
+  const headers = (values: Record<string, string>) => ({ headers: values }) as Request;
+
+  test('reads a bearer token or the X-API-Key header', () => {
+    expect(extractApiKey(headers({ authorization: 'Bearer ipr_key' }))).toBe('ipr_key');
+    expect(extractApiKey(headers({ authorization: 'bearer  ipr_key' }))).toBe('ipr_key');
+    expect(extractApiKey(headers({ 'x-api-key': ' ipr_key ' }))).toBe('ipr_key');
+  });
+
+  test('ignores other authorization schemes and missing headers', () => {
+    expect(extractApiKey(headers({ authorization: 'Basic dXNlcjpwYXNz' }))).toBeNull();
+    expect(extractApiKey(headers({}))).toBeNull();
+  });
+});
+
+describe('resolveApiKey', () => {
+  const withKey = (): Request => ({ headers: { 'x-api-key': 'ipr_key' } }) as unknown as Request;
+  const apiKey = (dailyQuota: number | null, id: string | null = 'key-1'): AuthenticatedApiKey =>
+    ({ id, name: 'test', scopes: ['reverse'], rateLimit: null, dailyQuota });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  test('lets requests without a key continue anonymously', async () => {
+    const verify = jest.spyOn(apiKeyService, 'verify');
+    const req = request();
+
+    expect(await resolveApiKey(req)).toBeNull();
+    expect(req.apiKey).toBeUndefined();
+    expect(verify).not.toHaveBeenCalled();
+  });
+
+  test('refuses unknown or revoked keys', async () => {
+    jest.spyOn(apiKeyService, 'verify').mockResolvedValue(null);
+
+    expect(await resolveApiKey(withKey())).toMatchObject({
+      status: 401,
+      code: 'INVALID_API_KEY',
+      headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' },
+    });
+  });
+
+  test('counts the request and authenticates it while the key is within its daily quota', async () => {
+    jest.spyOn(apiKeyService, 'verify').mockResolvedValue(apiKey(100));
+    const recordUsage = jest.spyOn(apiKeyService, 'recordUsage').mockResolvedValue(100);
+    const req = withKey();
+
+    expect(await resolveApiKey(req)).toBeNull();
+    expect(recordUsage).toHaveBeenCalledWith('key-1');
+    expect(req.apiKey).toMatchObject({ id: 'key-1' });
+  });
+
+  test('refuses requests over the daily quota until the next UTC day', async () => {
+    jest.useFakeTimers({ now: new Date('2025-10-01T23:00:00Z') });
+    jest.spyOn(apiKeyService, 'verify').mockResolvedValue(apiKey(100));
+    jest.spyOn(apiKeyService, 'recordUsage').mockResolvedValue(101);
+    const req = withKey();
+
+    expect(await resolveApiKey(req)).toMatchObject({
+      status: 429,
+      code: 'QUOTA_EXCEEDED',
+      details: { dailyQuota: 100, resetsAt: '2025-10-02T00:00:00.000Z' },
+      headers: { 'Retry-After': 3600 },
+    });
+    expect(req.apiKey).toBeUndefined();
+  });
+
+  test('does not count the bootstrap admin key', async () => {
+    jest.spyOn(apiKeyService, 'verify').mockResolvedValue({ ...apiKey(null, null), scopes: ['admin'] });
+    const recordUsage = jest.spyOn(apiKeyService, 'recordUsage');
+
+    expect(await resolveApiKey(withKey())).toBeNull();
+    expect(recordUsage).not.toHaveBeenCalled();
+  });
+});
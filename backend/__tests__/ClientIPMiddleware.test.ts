@@ -0,0 +1,36 @@
+type Middleware = typeof import('../src/middleware/ClientIPMiddleware');
+
+// TRUSTED_PROXIES is read when ClientIPMiddleware loads, so each test loads its own copy
+const load = async (trustedProxies: string) => {
+  const previous = { ...process.env };
+  process.env.TRUSTED_PROXIES = trustedProxies;
+  try {
+    let middleware!: Middleware;
+    await jest.isolateModulesAsync(async () => {
+      middleware = await import('../src/middleware/ClientIPMiddleware');
+    });
+    return middleware;
+  } finally {
+    process.env = previous;
+  }
+};
+
+describe('TRUSTED_PROXIES', () => {
+  test('accepts CIDR blocks, addresses and presets', async () => {
+    const { trustedProxyErrors, isTrustedProxy } = await load('loopback, 203.0.113.0/24,2001:db8::1');
+
+    expect(trustedProxyErrors()).toEqual([]);
+    expect(['127.0.0.1', '::ffff:203.0.113.9', '2001:db8::1', '10.0.0.1'].map(isTrustedProxy)).toEqual([true, true, true, false]);
+  });
+
+  test('reports invalid entries instead of failing to load, and trusts the valid ones', async () => {
+    const { trustedProxyErrors, isTrustedProxy } = await load('10.0.0.0/33,203.0.113.0/24,proxy.internal');
+
+    expect(trustedProxyErrors()).toEqual([
+      "TRUSTED_PROXIES: invalid entry '10.0.0.0/33' (expected a CIDR block, an address, or one of: loopback, linklocal, uniquelocal)",
+      "TRUSTED_PROXIES: invalid entry 'proxy.internal' (expected a CIDR block, an address, or one of: loopback, linklocal, uniquelocal)",
+    ]);
+    expect(isTrustedProxy('203.0.113.9')).toBe(true);
+    expect(isTrustedProxy('10.0.0.1')).toBe(false);
+  });
+});
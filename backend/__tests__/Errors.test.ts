@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  fromPrismaError,
+  toAppError,
+  toProblemDetails,
+} from '../src/utils/Errors';
+
+const knownRequestError = (code: string, meta?: Record<string, unknown>) =>
+  new Prisma.PrismaClientKnownRequestError(`Prisma error ${code}`, { code, clientVersion: 'test', meta });
+
+describe('AppError', () => {
+  test('subclasses carry their status, code and details', () => {
+    const error = new NotFoundError('History entry not found', 'HISTORY_ENTRY_NOT_FOUND', { details: { id: 'x' } });
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.name).toBe('NotFoundError');
+    expect(error.status).toBe(404);
+    expect(error.toJSON()).toMatchObject({
+      success: false,
+      error: { message: 'History entry not found', code: 'HISTORY_ENTRY_NOT_FOUND', details: { id: 'x' } },
+    });
+  });
+
+  test('default codes are stable', () => {
+    expect(new ValidationError('Bad input').code).toBe('VALIDATION_ERROR');
+    expect(new ConflictError('Taken').code).toBe('CONFLICT');
+  });
+});
+
+describe('fromPrismaError', () => {
+  test.each([
+    // Prisma code, status, app code
+    ['P1001', 503, 'DATABASE_UNAVAILABLE'],
+    ['P1017', 503, 'DATABASE_UNAVAILABLE'],
+    ['P2024', 503, 'DATABASE_TIMEOUT'],
+    ['P2002', 409, 'DUPLICATE_RECORD'],
+    ['P2003', 409, 'INVALID_REFERENCE'],
+    ['P2025', 404, 'RECORD_NOT_FOUND'],
+    ['P2034', 409, 'TRANSACTION_CONFLICT'],
+    ['P2000', 400, 'VALUE_TOO_LONG'],
+  ])('maps %s to %i %s', (prismaCode, status, code) => {
+    const error = fromPrismaError(knownRequestError(prismaCode));
+
+    expect(error?.status).toBe(status);
+    expect(error?.code).toBe(code);
+  });
+
+  test('asks clients to retry when the database is down', () => {
+    const error = fromPrismaError(new Prisma.PrismaClientInitializationError("Can't reach database server", 'test'));
+
+    expect(error?.status).toBe(503);
+    expect(error?.headers['Retry-After']).toBeGreaterThan(0);
+  });
+
+  test('maps failed raw queries by their SQLSTATE', () => {
+    expect(fromPrismaError(knownRequestError('P2010', { code: '23505' }))?.code).toBe('DUPLICATE_RECORD');
+    expect(fromPrismaError(knownRequestError('P2010', { code: '57014' }))?.code).toBe('DATABASE_TIMEOUT');
+    expect(fromPrismaError(knownRequestError('P2010', { code: '08006' }))?.code).toBe('DATABASE_UNAVAILABLE');
+    expect(fromPrismaError(knownRequestError('P2010', { code: '42P01' }))).toBeNull();
+  });
+
+  test('leaves other errors alone', () => {
+    expect(fromPrismaError(knownRequestError('P2021'))).toBeNull();
+    expect(fromPrismaError(new Error('boom'))).toBeNull();
+  });
+});
+
+describe('toAppError', () => {
+  test('passes AppErrors through', () => {
+    const error = new ConflictError('Taken');
+    expect(toAppError(error)).toBe(error);
+  });
+
+  test('maps body parser errors', () => {
+    const parseError = Object.assign(new SyntaxError('Unexpected token'), { type: 'entity.parse.failed', status: 400 });
+    const tooLarge = Object.assign(new Error('request entity too large'), { type: 'entity.too.large', status: 413 });
+
+    expect(toAppError(parseError)).toMatchObject({ status: 400, code: 'INVALID_JSON' });
+    expect(toAppError(tooLarge)).toMatchObject({ status: 413, code: 'PAYLOAD_TOO_LARGE' });
+  });
+
+  test('turns anything else into a 500 that keeps the original as its cause', () => {
+    const original = new TypeError('x is undefined');
+    const error = toAppError(original, 'Internal server error while retrieving history');
+
+    expect(error).toMatchObject({ status: 500, code: 'INTERNAL_ERROR', message: 'Internal server error while retrieving history' });
+    expect(error.cause).toBe(original);
+  });
+});
+
+describe('toProblemDetails', () => {
+  test('converts an APIError body into an RFC 7807 document', () => {
+    const problem = toProblemDetails(
+      {
+        success: false,
+        error: { message: 'Invalid IP address format', code: 'INVALID_IP', details: { providedIP: 'nope' } },
+        timestamp: '2025-11-01T00:00:00.000Z',
+        requestId: '6f1c2a9e-52a4-4d0e-9b8f-0c3d5e7a1b2c',
+      },
+      400,
+      '/api/ip/reverse'
+    );
+
+    expect(problem).toEqual({
+      type: 'urn:problem-type:ip-reverser:invalid-ip',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Invalid IP address format',
+      instance: '/api/ip/reverse',
+      code: 'INVALID_IP',
+      details: { providedIP: 'nope' },
+      requestId: '6f1c2a9e-52a4-4d0e-9b8f-0c3d5e7a1b2c',
+      timestamp: '2025-11-01T00:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'events';
+import type { Request, Response } from 'express';
+import { ipController } from '../src/controllers/IpController';
+import { ipService } from '../src/services/IpService';
+import {
+  CSV_COLUMNS,
+  escapeCSVField,
+  exportEpilogue,
+  exportPrologue,
+  serializeEntries,
+} from '../src/utils/ExportUtils';
+import type { ExportFormat, IPHistoryEntry } from '../src/types/index';
+
+// The history is read through a spied streamHistory, so nothing reaches the database
+jest.mock('../src/services/Database', () => ({ prisma: {} }));
+
+const entry = (id: string, overrides: Partial<IPHistoryEntry> = {}): IPHistoryEntry => ({
+  id,
+  originalIP: '10.0.0.1',
+  reversedIP: '1.0.0.10',
+  format: 'octets',
+  prefixLength: null,
+  family: 'IPv4',
+  requestIP: '198.51.100.7',
+  userAgent: null,
+  apiKeyId: null,
+  ipClass: 'private',
+  country: null,
+  city: null,
+  asn: null,
+  asOrg: null,
+  requestCountry: null,
+  requestAsn: null,
+  notes: null,
+  tags: [],
+  timestamp: '2025-10-01T12:00:00.000Z',
+  createdAt: '2025-10-01T12:00:00.000Z',
+  ...overrides,
+});
+
+// A whole export of the given chunks, the way exportHistory writes it
+const exportText = (format: ExportFormat, chunks: IPHistoryEntry[][]): string =>
+  exportPrologue(format)
+  + chunks.map((entries, i) => serializeEntries(format, entries, i === 0)).join('')
+  + exportEpilogue(format, chunks.length === 0);
+
+describe('escapeCSVField', () => {
+  test.each([
+    [null, ''],
+    [undefined, ''],
+    [42, '42'],
+    ['plain', 'plain'],
+    ['a,b', '"a,b"'],
+    ['say "hi"', '"say ""hi"""'],
+    ['line one\nline two', '"line one\nline two"'],
+    ['carriage\rreturn', '"carriage\rreturn"'],
+    [['web', 'scanner'], 'web scanner'],
+  ])('%j -> %j', (value, expected) => {
+    expect(escapeCSVField(value)).toBe(expected);
+  });
+
+  test.each([
+    ['=HYPERLINK("http://example.test")', `"'=HYPERLINK(""http://example.test"")"`],
+    ['+1', "'+1"],
+    ['-1+2', "'-1+2"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\tcmd', "'\tcmd"],
+    ['\r=1', `"'\r=1"`],
+  ])('neutralises formulas: %j -> %j', (value, expected) => {
+    expect(escapeCSVField(value)).toBe(expected);
+  });
+
+  test('leaves formula characters alone past the first position', () => {
+    expect(escapeCSVField('a=b')).toBe('a=b');
+    expect(escapeCSVField('2001:db8::1')).toBe('2001:db8::1');
+  });
+});
+
+describe('serializeEntries', () => {
+  test('writes a CSV header and one CRLF-terminated row per entry', () => {
+    const text = exportText('csv', [[entry('a', { userAgent: 'Mozilla/5.0 (X11, Linux)', tags: ['web', 'scanner'] })]]);
+
+    const [header, row, rest] = text.split('\r\n');
+    expect(header).toBe(CSV_COLUMNS.join(','));
+    expect(row).toBe('a,10.0.0.1,1.0.0.10,octets,,IPv4,private,,,,,198.51.100.7,"Mozilla/5.0 (X11, Linux)",,,,,web scanner,'
+      + '2025-10-01T12:00:00.000Z,2025-10-01T12:00:00.000Z');
+    expect(rest).toBe('');
+  });
+
+  test('writes one JSON object per line as NDJSON', () => {
+    const text = exportText('ndjson', [[entry('a')], [entry('b'), entry('c')]]);
+
+    expect(text.trimEnd().split('\n').map((line) => JSON.parse(line).id)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('joins JSON chunks into one array', () => {
+    const text = exportText('json', [[entry('a'), entry('b')], [entry('c')]]);
+
+    expect(JSON.parse(text).map((item: IPHistoryEntry) => item.id)).toEqual(['a', 'b', 'c']);
+    expect(JSON.parse(exportText('json', []))).toEqual([]);
+  });
+});
+
+describe('GET /api/ip/export streaming', () => {
+  // A response whose socket buffer is full after its `fullAt`-th write, until it drains
+  class SlowResponse extends EventEmitter {
+    headers: Record<string, unknown> = {};
+    body = '';
+    ended = false;
+    private writes = 0;
+
+    constructor(private readonly fullAt: number) {
+      super();
+    }
+
+    status(): this {
+      return this;
+    }
+
+    setHeader(name: string, value: unknown): void {
+      this.headers[name] = value;
+    }
+
+    flushHeaders(): void {}
+
+    write(chunk: string): boolean {
+      this.body += chunk;
+      return ++this.writes !== this.fullAt;
+    }
+
+    end(chunk = ''): void {
+      this.body += chunk;
+      this.ended = true;
+    }
+
+    destroy(): void {}
+  }
+
+  // Chunks of history, recording how many have been read
+  let reads: number;
+  const streamChunks = (chunks: IPHistoryEntry[][]) => {
+    reads = 0;
+    jest.spyOn(ipService, 'streamHistory').mockImplementation(async function* () {
+      for (const chunk of chunks) {
+        reads++;
+        yield chunk;
+      }
+    });
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const request = (format: ExportFormat) => ({ query: { format } }) as unknown as Request<{}, any, {}, any>;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reads the next chunk only after the response has drained', async () => {
+    streamChunks([[entry('a')], [entry('b')], [entry('c')]]);
+    // The prologue fits, then the buffer is full after the first chunk
+    const res = new SlowResponse(2);
+
+    const exported = ipController.exportHistory(request('ndjson'), res as unknown as Response);
+    await flush();
+
+    expect(reads).toBe(1);
+    expect(res.ended).toBe(false);
+
+    res.emit('drain');
+    await exported;
+
+    expect(reads).toBe(3);
+    expect(res.body.trimEnd().split('\n').map((line) => JSON.parse(line).id)).toEqual(['a', 'b', 'c']);
+    expect(res.headers).toMatchObject({ 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+  });
+
+  test('stops reading once the client has gone away', async () => {
+    streamChunks([[entry('a')], [entry('b')], [entry('c')]]);
+    const res = new SlowResponse(2);
+
+    const exported = ipController.exportHistory(request('json'), res as unknown as Response);
+    await flush();
+    res.emit('close');
+    await exported;
+
+    expect(reads).toBe(2);
+    expect(res.ended).toBe(false);
+  });
+
+  test('writes a complete JSON array across chunks', async () => {
+    streamChunks([[entry('a'), entry('b')], [entry('c')]]);
+    // 0: the buffer never fills
+    const res = new SlowResponse(0);
+
+    await ipController.exportHistory(request('json'), res as unknown as Response);
+
+    expect(res.ended).toBe(true);
+    expect(JSON.parse(res.body).map((item: IPHistoryEntry) => item.id)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,186 @@
+import type { Stats } from 'fs';
+
+const CITY_PATH = '/data/GeoLite2-City.mmdb';
+const ASN_PATH = '/data/GeoLite2-ASN.mmdb';
+
+// The databases on "disk": path -> records by IP (`ipv6` marks databases with IPv6 data)
+const mockFiles = new Map<string, Record<string, unknown>>();
+const mockWatchers = new Map<string, (curr: Stats, prev: Stats) => void>();
+
+// Readers answer from the records the file held when it was opened
+jest.mock('maxmind', () => ({
+  open: jest.fn(async (path: string) => {
+    const records = mockFiles.get(path);
+    if (!records) {
+      throw Object.assign(new Error(`ENOENT: no such file or directory, open '${path}'`), { code: 'ENOENT' });
+    }
+    return {
+      metadata: { databaseType: path.includes('ASN') ? 'GeoLite2-ASN' : 'GeoLite2-City', buildEpoch: new Date('2025-10-01T00:00:00Z') },
+      get: (ip: string) => {
+        if (ip.includes(':') && !records.ipv6) {
+          throw new Error(`Cannot lookup IPv6 address ${ip} in IPv4-only database`);
+        }
+        return records[ip] ?? null;
+      },
+    };
+  }),
+}));
+
+jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
+  watchFile: jest.fn((path: string, options: unknown, listener: (curr: Stats, prev: Stats) => void) => {
+    mockWatchers.set(path, listener);
+  }),
+  unwatchFile: jest.fn((path: string) => {
+    mockWatchers.delete(path);
+  }),
+}));
+
+type Service = typeof import('../src/services/GeoIpService')['geoIpService'];
+
+const { open } = jest.requireMock('maxmind');
+const { watchFile } = jest.requireMock('fs');
+
+// GEOIP_* is read when GeoIpService loads, so each test loads its own copy
+const load = async (env: Record<string, string>): Promise<Service> => {
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let service!: Service;
+    await jest.isolateModulesAsync(async () => {
+      ({ geoIpService: service } = await import('../src/services/GeoIpService'));
+    });
+    return service;
+  } finally {
+    process.env = previous;
+  }
+};
+
+const stats = (mtimeMs: number) => ({ mtimeMs }) as Stats;
+
+const cityRecord = (country: string, city: string) => ({ country: { iso_code: country }, city: { names: { en: city } } });
+
+// Lets the loads started by start() and by the watchers finish
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+let service: Service | null = null;
+
+beforeEach(() => {
+  mockFiles.clear();
+  mockWatchers.clear();
+  open.mockClear();
+  watchFile.mockClear();
+  mockFiles.set(CITY_PATH, { '8.8.8.8': cityRecord('US', 'Mountain View'), '10.0.0.0': cityRecord('DE', 'Berlin') });
+  mockFiles.set(ASN_PATH, {
+    '8.8.8.8': { autonomous_system_number: 15169, autonomous_system_organization: 'GOOGLE' },
+    '2001:db8::1': { autonomous_system_number: 64496, autonomous_system_organization: 'EXAMPLE' },
+    ipv6: true,
+  });
+});
+
+afterEach(() => {
+  service?.stop();
+  service = null;
+});
+
+describe('GeoIPService lookups', () => {
+  beforeEach(async () => {
+    service = await load({ GEOIP_DATABASE_PATH: CITY_PATH, GEOIP_ASN_DATABASE_PATH: ASN_PATH });
+    await service.load();
+  });
+
+  test('merge the records of every database', () => {
+    expect(service!.lookup('8.8.8.8')).toEqual({ country: 'US', city: 'Mountain View', asn: 15169, asOrg: 'GOOGLE' });
+  });
+
+  test('look up CIDR blocks by their network address', () => {
+    expect(service!.lookup('10.0.0.0/8')).toEqual({ country: 'DE', city: 'Berlin', asn: null, asOrg: null });
+  });
+
+  test('return null for unknown addresses and for anything that is not an IP', () => {
+    expect(service!.lookup('192.0.2.1')).toBeNull();
+    expect(service!.lookup('not-an-ip')).toBeNull();
+  });
+
+  test('skip a database that cannot hold the address family', () => {
+    expect(service!.lookup('2001:db8::1')).toEqual({ country: null, city: null, asn: 64496, asOrg: 'EXAMPLE' });
+  });
+
+  test('report what each database loaded', () => {
+    expect(service!.getStatus()).toEqual([
+      expect.objectContaining({ path: CITY_PATH, loaded: true, databaseType: 'GeoLite2-City', buildEpoch: '2025-10-01T00:00:00.000Z', error: null }),
+      expect.objectContaining({ path: ASN_PATH, loaded: true, databaseType: 'GeoLite2-ASN', error: null }),
+    ]);
+  });
+});
+
+describe('GeoIPService without a database', () => {
+  test('is disabled when no path is configured', async () => {
+    service = await load({ GEOIP_DATABASE_PATH: '', GEOIP_ASN_DATABASE_PATH: '' });
+    service.start();
+
+    expect(service.isEnabled()).toBe(false);
+    expect(service.lookup('8.8.8.8')).toBeNull();
+    expect(open).not.toHaveBeenCalled();
+    expect(watchFile).not.toHaveBeenCalled();
+  });
+
+  test('serves the other database when one file is missing', async () => {
+    mockFiles.delete(CITY_PATH);
+    service = await load({ GEOIP_DATABASE_PATH: CITY_PATH, GEOIP_ASN_DATABASE_PATH: ASN_PATH });
+
+    await service.load();
+
+    expect(service.lookup('8.8.8.8')).toEqual({ country: null, city: null, asn: 15169, asOrg: 'GOOGLE' });
+    expect(service.getStatus()[0]).toMatchObject({ loaded: false, error: expect.stringContaining('ENOENT') });
+  });
+
+  test('keeps the loaded version when a reload fails', async () => {
+    service = await load({ GEOIP_DATABASE_PATH: CITY_PATH });
+    await service.load();
+    mockFiles.delete(CITY_PATH);
+
+    await service.load();
+
+    expect(service.lookup('8.8.8.8')).toMatchObject({ country: 'US' });
+    expect(service.getStatus()[0]).toMatchObject({ loaded: true, error: expect.stringContaining('ENOENT') });
+  });
+});
+
+describe('GeoIPService reloading', () => {
+  beforeEach(async () => {
+    service = await load({ GEOIP_DATABASE_PATH: CITY_PATH, GEOIP_RELOAD_INTERVAL_MS: '5000' });
+    service.start();
+    await flush();
+  });
+
+  test('polls each database file', () => {
+    expect(watchFile).toHaveBeenCalledWith(CITY_PATH, { interval: 5000, persistent: false }, expect.any(Function));
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+
+  test('loads a file again when it changes', async () => {
+    mockFiles.set(CITY_PATH, { '8.8.8.8': cityRecord('US', 'San Jose') });
+
+    mockWatchers.get(CITY_PATH)!(stats(2000), stats(1000));
+    await flush();
+
+    expect(open).toHaveBeenCalledTimes(2);
+    expect(service!.lookup('8.8.8.8')).toMatchObject({ city: 'San Jose' });
+  });
+
+  test('keeps serving the loaded version while the file is removed or unchanged', async () => {
+    mockWatchers.get(CITY_PATH)!(stats(0), stats(1000));
+    mockWatchers.get(CITY_PATH)!(stats(1000), stats(1000));
+    await flush();
+
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(service!.lookup('8.8.8.8')).toMatchObject({ city: 'Mountain View' });
+  });
+
+  test('stops polling on stop', () => {
+    service!.stop();
+
+    expect(mockWatchers.size).toBe(0);
+  });
+});
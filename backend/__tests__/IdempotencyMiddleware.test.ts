@@ -0,0 +1,256 @@
+import { createHash } from 'crypto';
+import type { Request, Response } from 'express';
+import { idempotency, requestFingerprint } from '../src/middleware/IdempotencyMiddleware';
+import { IdempotencyService } from '../src/services/IdempotencyService';
+import { AppError } from '../src/utils/Errors';
+
+// The IdempotencyKey table, standing in for the database
+const mockKeys = new Map<string, any>();
+
+jest.mock('../src/services/Database', () => {
+  const { Prisma } = jest.requireActual('@prisma/client');
+
+  // The claim of IdempotencyService.begin: insert, or take over an expired or abandoned key
+  const $queryRaw = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const [key, fingerprint, owner, lockedUntil, now, expiresAt] = Prisma.sql(strings, ...values).values;
+    const existing = mockKeys.get(key);
+    const takeOver = !existing
+      || existing.expiresAt <= now
+      || (existing.status === 'in_progress' && existing.lockedUntil <= now && existing.fingerprint === fingerprint);
+    if (!takeOver) {
+      return [];
+    }
+
+    mockKeys.set(key, { key, fingerprint, status: 'in_progress', owner, lockedUntil, responseStatus: null, responseBody: null, createdAt: now, expiresAt });
+    return [{ owner }];
+  };
+
+  const matching = (where: any) => [...mockKeys.values()].filter((row) =>
+    row.key === where.key && row.owner === where.owner && row.status === where.status);
+
+  return {
+    prisma: {
+      $queryRaw,
+      idempotencyKey: {
+        findUnique: async ({ where }: any) => mockKeys.get(where.key) ?? null,
+        updateMany: async ({ where, data }: any) => {
+          const rows = matching(where);
+          rows.forEach((row) => Object.assign(row, data));
+          return { count: rows.length };
+        },
+        deleteMany: async ({ where }: any) => {
+          const rows = matching(where);
+          rows.forEach((row) => mockKeys.delete(row.key));
+          return { count: rows.length };
+        },
+      },
+    },
+  };
+});
+
+const request = (body: unknown, headers: Record<string, string> = {}, extra: Partial<Request> = {}): Request => ({
+  method: 'POST',
+  baseUrl: '/api',
+  path: '/reverse',
+  query: {},
+  body,
+  ip: '198.51.100.7',
+  get: (name: string) => headers[name.toLowerCase()],
+  ...extra,
+}) as unknown as Request;
+
+// A response that records what was sent
+const response = () => {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    headersSent: false,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      res.headersSent = true;
+      return res;
+    },
+  };
+  return res;
+};
+
+type TestResponse = ReturnType<typeof response>;
+
+// Runs the middleware and, if it lets the request through, a handler answering with `status` and `body`
+const send = async (req: Request, status: number = 200, body: unknown = { ok: true }): Promise<TestResponse & { handled: boolean }> => {
+  const res = response();
+  let handled = false;
+  await idempotency()(req, res as unknown as Response, () => {
+    handled = true;
+    res.status(status).json(body);
+  });
+  // Let the claim settle before the response goes out
+  await new Promise((resolve) => setImmediate(resolve));
+  return Object.assign(res, { handled });
+};
+
+const caught = async (promise: Promise<unknown>): Promise<AppError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as AppError;
+  }
+  throw new Error('Expected the request to be refused');
+};
+
+beforeEach(() => {
+  mockKeys.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('IdempotencyService', () => {
+  const service = new IdempotencyService();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-01T12:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+  });
+
+  test('lets the first request with a key run and replays its response', async () => {
+    const claim = await service.begin('key', 'fingerprint');
+    expect(claim).toMatchObject({ outcome: 'started' });
+
+    await service.complete('key', (claim as { owner: string }).owner, 201, { id: 'entry-1' });
+
+    expect(await service.begin('key', 'fingerprint')).toEqual({ outcome: 'replay', status: 201, body: { id: 'entry-1' } });
+  });
+
+  test('refuses the key for another request and while the first one runs', async () => {
+    await service.begin('key', 'fingerprint');
+
+    expect(await service.begin('key', 'other')).toEqual({ outcome: 'mismatch' });
+    expect(await service.begin('key', 'fingerprint')).toEqual({ outcome: 'in-progress' });
+  });
+
+  test('hands an abandoned claim to a retry of the same request only', async () => {
+    const first = await service.begin('key', 'fingerprint');
+    jest.setSystemTime(new Date('2025-10-01T12:01:00Z'));
+
+    expect(await service.begin('key', 'other')).toEqual({ outcome: 'mismatch' });
+    const retry = await service.begin('key', 'fingerprint');
+    expect(retry).toMatchObject({ outcome: 'started' });
+
+    // The first request finishing late doesn't overwrite the retry's claim
+    await service.complete('key', (first as { owner: string }).owner, 200, { late: true });
+    expect(await service.begin('key', 'fingerprint')).toEqual({ outcome: 'in-progress' });
+  });
+
+  test('starts over once a key has expired', async () => {
+    const claim = await service.begin('key', 'fingerprint');
+    await service.complete('key', (claim as { owner: string }).owner, 200, { ok: true });
+    jest.setSystemTime(new Date('2025-10-02T12:00:00Z'));
+
+    expect(await service.begin('key', 'other')).toMatchObject({ outcome: 'started' });
+  });
+
+  test('a released claim lets the next request run', async () => {
+    const claim = await service.begin('key', 'fingerprint');
+
+    await service.release('key', (claim as { owner: string }).owner);
+
+    expect(await service.begin('key', 'fingerprint')).toMatchObject({ outcome: 'started' });
+  });
+});
+
+describe('idempotency middleware', () => {
+  test('lets requests without the header through', async () => {
+    const res = await send(request({ ip: '10.0.0.1' }));
+
+    expect(res.handled).toBe(true);
+    expect(mockKeys.size).toBe(0);
+  });
+
+  test('rejects malformed keys', async () => {
+    const error = await caught(send(request({ ip: '10.0.0.1' }, { 'idempotency-key': 'with space' })));
+
+    expect(error).toMatchObject({ status: 400, code: 'INVALID_IDEMPOTENCY_KEY' });
+  });
+
+  test('replays a stored response with Idempotent-Replayed', async () => {
+    const headers = { 'idempotency-key': 'retry-1' };
+    await send(request({ ip: '10.0.0.1' }, headers), 201, { id: 'entry-1' });
+
+    const res = await send(request({ ip: '10.0.0.1' }, headers), 201, { id: 'entry-2' });
+
+    expect(res.handled).toBe(false);
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toEqual({ id: 'entry-1' });
+    expect(res.headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  test('refuses a key reused with another body with a 422', async () => {
+    const headers = { 'idempotency-key': 'retry-1' };
+    await send(request({ ip: '10.0.0.1' }, headers));
+
+    const error = await caught(send(request({ ip: '10.0.0.2' }, headers)));
+
+    expect(error).toMatchObject({ status: 422, code: 'IDEMPOTENCY_KEY_REUSED' });
+  });
+
+  test('refuses a retry while the first request runs with a 409 and Retry-After', async () => {
+    const headers = { 'idempotency-key': 'retry-1' };
+    await idempotency()(request({ ip: '10.0.0.1' }, headers), response() as unknown as Response, () => undefined);
+
+    const error = await caught(send(request({ ip: '10.0.0.1' }, headers)));
+
+    expect(error).toMatchObject({ status: 409, code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS', headers: { 'Retry-After': 1 } });
+  });
+
+  test('does not store failed responses, so they can be retried', async () => {
+    const headers = { 'idempotency-key': 'retry-1' };
+    const failed = await send(request({ ip: '10.0.0.1' }, headers), 503, { error: 'unavailable' });
+
+    const retry = await send(request({ ip: '10.0.0.1' }, headers));
+
+    expect(failed.body).toEqual({ error: 'unavailable' });
+    expect(retry.handled).toBe(true);
+    expect(retry.body).toEqual({ ok: true });
+  });
+
+  test('scopes keys per API key, or per hashed client IP without one', async () => {
+    const headers = { 'idempotency-key': 'retry-1' };
+    const apiKey = { id: 'key-1', name: 'test', scopes: [], rateLimit: null, dailyQuota: null };
+    await send(request({ ip: '10.0.0.1' }, headers));
+    await send(request({ ip: '10.0.0.1' }, headers, { ip: '198.51.100.8' }));
+    await send(request({ ip: '10.0.0.1' }, headers, { apiKey }));
+
+    const ipHash = (ip: string) => createHash('sha256').update(ip).digest('hex');
+    expect([...mockKeys.keys()].sort()).toEqual([
+      `ip:sha256:${ipHash('198.51.100.7')}:retry-1`,
+      `ip:sha256:${ipHash('198.51.100.8')}:retry-1`,
+      'key:key-1:retry-1',
+    ].sort());
+  });
+});
+
+describe('requestFingerprint', () => {
+  test('ignores the key order of the body', () => {
+    expect(requestFingerprint(request({ ip: '10.0.0.1', format: 'ptr' })))
+      .toBe(requestFingerprint(request({ format: 'ptr', ip: '10.0.0.1' })));
+  });
+
+  test('depends on the method, path, query and body', () => {
+    const fingerprint = requestFingerprint(request({ ip: '10.0.0.1' }));
+
+    expect(requestFingerprint(request({ ip: '10.0.0.1' }, {}, { method: 'PUT' }))).not.toBe(fingerprint);
+    expect(requestFingerprint(request({ ip: '10.0.0.1' }, {}, { path: '/batch' }))).not.toBe(fingerprint);
+    expect(requestFingerprint(request({ ip: '10.0.0.1' }, {}, { query: { dryRun: 'true' } }))).not.toBe(fingerprint);
+    expect(requestFingerprint(request({ ip: '10.0.0.2' }))).not.toBe(fingerprint);
+  });
+});
@@ -0,0 +1,71 @@
+import { importService } from '../src/services/ImportService';
+
+// Dry runs only validate, so nothing reaches the database
+jest.mock('../src/services/Database', () => ({ prisma: {} }));
+
+const NOW = new Date('2025-10-01T12:00:00Z');
+
+const dryRun = (records: Record<string, unknown>[]) =>
+  importService.importHistory(records.map((record) => JSON.stringify(record)), { format: 'ndjson', dryRun: true });
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ImportService timestamps', () => {
+  test('accept past timestamps and ones within the clock skew allowance', async () => {
+    const report = await dryRun([
+      { originalIP: '10.0.0.1', timestamp: '2024-01-01T00:00:00Z' },
+      { originalIP: '10.0.0.2', timestamp: '2025-10-01T12:04:59Z' },
+      { originalIP: '10.0.0.3', timestamp: NOW.getTime() },
+      { originalIP: '10.0.0.4' },
+    ]);
+
+    expect(report).toMatchObject({ total: 4, accepted: 4, rejected: 0, acceptedLines: [1, 2, 3, 4] });
+  });
+
+  test('reject timestamps in the future', async () => {
+    const report = await dryRun([
+      { originalIP: '10.0.0.1', timestamp: '2025-10-01T12:05:01Z' },
+      { originalIP: '10.0.0.2', timestamp: '2030-01-01T00:00:00Z' },
+      { originalIP: '10.0.0.3', timestamp: 'tomorrow' },
+    ]);
+
+    expect(report).toMatchObject({ accepted: 0, rejected: 3 });
+    expect(report.rejectedLines).toEqual([
+      { line: 1, error: { message: 'timestamp is in the future', code: 'INVALID_TIMESTAMP' } },
+      { line: 2, error: { message: 'timestamp is in the future', code: 'INVALID_TIMESTAMP' } },
+      { line: 3, error: { message: 'timestamp is not a valid date', code: 'INVALID_TIMESTAMP' } },
+    ]);
+  });
+});
+
+describe('ImportService.configErrors', () => {
+  // IMPORT_BATCH_SIZE is read when ImportService loads, so each test loads its own copy
+  const load = async (env: Record<string, string>) => {
+    const previous = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+      let service!: typeof importService;
+      await jest.isolateModulesAsync(async () => {
+        ({ importService: service } = await import('../src/services/ImportService'));
+      });
+      return service;
+    } finally {
+      process.env = previous;
+    }
+  };
+
+  test.each(['0', 'all', '500rows'])('reports IMPORT_BATCH_SIZE=%s', async (batchSize) => {
+    expect((await load({ IMPORT_BATCH_SIZE: batchSize })).configErrors())
+      .toEqual(['IMPORT_BATCH_SIZE must be a positive integer']);
+  });
+
+  test('accepts a positive batch size', async () => {
+    expect((await load({ IMPORT_BATCH_SIZE: '250' })).configErrors()).toEqual([]);
+  });
+});
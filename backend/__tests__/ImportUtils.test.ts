@@ -0,0 +1,103 @@
+import { parseCSVRecord, parseImportLines } from '../src/utils/ImportUtils';
+import type { ParsedImportRecord } from '../src/utils/ImportUtils';
+import type { ImportFormat } from '../src/types/index';
+
+const parse = async (text: string, format: ImportFormat): Promise<ParsedImportRecord[]> => {
+  const records: ParsedImportRecord[] = [];
+  for await (const record of parseImportLines(text.split(/\r?\n/), format)) {
+    records.push(record);
+  }
+  return records;
+};
+
+describe('parseCSVRecord', () => {
+  test.each([
+    ['1.2.3.4,curl', ['1.2.3.4', 'curl']],
+    ['1.2.3.4,,', ['1.2.3.4', '', '']],
+    ['', ['']],
+    ['"1.2.3.4","Mozilla/5.0 (X11, Linux)"', ['1.2.3.4', 'Mozilla/5.0 (X11, Linux)']],
+    // Doubled quotes inside a quoted field are one quote
+    ['"say ""hi""",x', ['say "hi"', 'x']],
+    ['""""', ['"']],
+    // Quotes only open a field at its start; elsewhere they are literal
+    ['a"b,c', ['a"b', 'c']],
+    ['"a"b,c', ['ab', 'c']],
+    ['"line one\nline two",x', ['line one\nline two', 'x']],
+  ])('%j', (text, fields) => {
+    expect(parseCSVRecord(text)).toEqual(fields);
+  });
+
+  test.each([
+    '"open',
+    '1.2.3.4,"Mozilla',
+    '"say ""hi""',
+    '"line one\n',
+  ])('returns null while a quoted field is open: %j', (text) => {
+    expect(parseCSVRecord(text)).toBeNull();
+  });
+});
+
+describe('parseImportLines (csv)', () => {
+  test('keys records by the header columns, with the line they start on', async () => {
+    const records = await parse('originalIP,userAgent\n1.2.3.4,curl\n\n5.6.7.8,wget', 'csv');
+
+    expect(records).toEqual([
+      { line: 2, fields: { originalIP: '1.2.3.4', userAgent: 'curl' } },
+      { line: 4, fields: { originalIP: '5.6.7.8', userAgent: 'wget' } },
+    ]);
+  });
+
+  test('joins a quoted field spanning lines into one record', async () => {
+    const records = await parse('originalIP,userAgent\n1.2.3.4,"first\n\nthird"\n5.6.7.8,wget', 'csv');
+
+    expect(records).toEqual([
+      { line: 2, fields: { originalIP: '1.2.3.4', userAgent: 'first\n\nthird' } },
+      { line: 5, fields: { originalIP: '5.6.7.8', userAgent: 'wget' } },
+    ]);
+  });
+
+  test('handles CRLF line endings and a byte order mark', async () => {
+    const records = await parse('\uFEFForiginalIP,userAgent\r\n1.2.3.4,"a\r\nb"\r\n', 'csv');
+
+    expect(records).toEqual([{ line: 2, fields: { originalIP: '1.2.3.4', userAgent: 'a\nb' } }]);
+  });
+
+  test('rejects rows with the wrong number of columns and keeps going', async () => {
+    const records = await parse('originalIP,userAgent\n1.2.3.4\n5.6.7.8,wget', 'csv');
+
+    expect(records).toEqual([
+      { line: 2, error: { message: 'Expected 2 columns, got 1', code: 'INVALID_CSV_ROW' } },
+      { line: 3, fields: { originalIP: '5.6.7.8', userAgent: 'wget' } },
+    ]);
+  });
+
+  test('reports a quoted field left open at the end of the file', async () => {
+    const records = await parse('originalIP,userAgent\n1.2.3.4,curl\n5.6.7.8,"unterminated\nrest', 'csv');
+
+    expect(records).toEqual([
+      { line: 2, fields: { originalIP: '1.2.3.4', userAgent: 'curl' } },
+      { line: 3, error: { message: 'Unterminated quoted field', code: 'INVALID_CSV_ROW' } },
+    ]);
+  });
+
+  test('stops at a header without an originalIP column', async () => {
+    const records = await parse('ip,userAgent\n1.2.3.4,curl', 'csv');
+
+    expect(records).toEqual([
+      { line: 1, error: { message: 'CSV header must include an originalIP column', code: 'INVALID_HEADER' } },
+    ]);
+  });
+});
+
+describe('parseImportLines (ndjson)', () => {
+  test('parses one object per line and rejects everything else', async () => {
+    const records = await parse('{"originalIP":"1.2.3.4"}\n\nnot json\n[1]\n{"originalIP":"5.6.7.8"}', 'ndjson');
+
+    expect(records).toEqual([
+      { line: 1, fields: { originalIP: '1.2.3.4' } },
+      { line: 3, error: { message: 'Line is not valid JSON', code: 'INVALID_JSON' } },
+      { line: 4, error: { message: 'Line must be a JSON object', code: 'INVALID_JSON' } },
+      { line: 5, fields: { originalIP: '5.6.7.8' } },
+    ]);
+  });
+});
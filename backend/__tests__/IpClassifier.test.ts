@@ -0,0 +1,71 @@
+import { classifyIP } from '../src/utils/IpClassifier';
+
+describe('classifyIP', () => {
+  test.each([
+    // input, class, matched registry block
+    ['8.8.8.8', 'public', '0.0.0.0/0'],
+    ['10.1.2.3', 'private', '10.0.0.0/8'],
+    ['172.31.255.255', 'private', '172.16.0.0/12'],
+    ['172.32.0.1', 'public', '0.0.0.0/0'],
+    ['192.168.0.1', 'private', '192.168.0.0/16'],
+    ['100.64.0.1', 'cgnat', '100.64.0.0/10'],
+    ['100.128.0.1', 'public', '0.0.0.0/0'],
+    ['127.0.0.1', 'loopback', '127.0.0.0/8'],
+    ['169.254.1.1', 'link-local', '169.254.0.0/16'],
+    ['224.0.0.251', 'multicast', '224.0.0.0/4'],
+    ['192.0.2.10', 'documentation', '192.0.2.0/24'],
+    ['198.51.100.1', 'documentation', '198.51.100.0/24'],
+    ['203.0.113.77', 'documentation', '203.0.113.0/24'],
+    ['0.0.0.0', 'reserved', '0.0.0.0/8'],
+    ['198.19.0.1', 'reserved', '198.18.0.0/15'],
+    ['240.0.0.1', 'reserved', '240.0.0.0/4'],
+    ['255.255.255.255', 'reserved', '255.255.255.255/32'],
+    ['2606:4700:4700::1111', 'public', '2000::/3'],
+    ['fd12:3456::1', 'private', 'fc00::/7'],
+    ['::1', 'loopback', '::1/128'],
+    ['::', 'reserved', '::/128'],
+    ['fe80::1%eth0', 'link-local', 'fe80::/10'],
+    ['ff02::1', 'multicast', 'ff00::/8'],
+    ['2001:db8::1', 'documentation', '2001:db8::/32'],
+    ['3fff::1', 'documentation', '3fff::/20'],
+    ['::ffff:10.0.0.1', 'ipv4-mapped', '::ffff:0:0/96'],
+    ['2002:c000:0204::1', '6to4', '2002::/16'],
+    ['2001:0:4136:e378:8000:63bf:3fff:fdd2', 'teredo', '2001::/32'],
+    ['2001:2::1', 'reserved', '2001:2::/48'],
+    ['64:ff9b::808:808', 'nat64', '64:ff9b::/96'],
+    ['100::1', 'reserved', '100::/64'],
+    ['4000::1', 'reserved', '::/0'],
+  ])('%s -> %s (%s)', (ip, ipClass, range) => {
+    const classification = classifyIP(ip);
+    expect(classification?.ipClass).toBe(ipClass);
+    expect(classification?.range).toBe(range);
+  });
+
+  test('reports the reference and reachability of the registry entry', () => {
+    expect(classifyIP('10.0.0.1')).toMatchObject({ reference: 'RFC 1918', globallyReachable: false });
+    expect(classifyIP('1.1.1.1')).toMatchObject({ reference: null, globallyReachable: true });
+  });
+
+  test.each([
+    ['::ffff:192.0.2.1', '192.0.2.1'],
+    ['64:ff9b::c000:201', '192.0.2.1'],
+    ['2002:c000:0204::1', '192.0.2.4'],
+    // Teredo stores the client address inverted in the last 32 bits
+    ['2001:0:4136:e378:8000:63bf:3fff:fdd2', '192.0.2.45'],
+    ['10.0.0.1', null],
+  ])('embedded IPv4 of %s is %s', (ip, embedded) => {
+    expect(classifyIP(ip)?.embeddedIPv4).toBe(embedded);
+  });
+
+  test('classifies CIDR blocks by the registry block containing all of them', () => {
+    expect(classifyIP('10.20.0.0/16')?.ipClass).toBe('private');
+    expect(classifyIP('2001:db8:1::/48')?.ipClass).toBe('documentation');
+    // Spans 10.0.0.0/8 and public space
+    expect(classifyIP('10.0.0.0/7')?.ipClass).toBe('public');
+    expect(classifyIP('10.0.0.0/7')?.embeddedIPv4).toBeNull();
+  });
+
+  test.each(['not-an-ip', '', '10.0.0.0/33', '1.2.3'])('returns null for %p', (input) => {
+    expect(classifyIP(input)).toBeNull();
+  });
+});
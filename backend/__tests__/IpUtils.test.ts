@@ -0,0 +1,333 @@
+import {
+  IPAddress,
+  cidrSearchRange,
+  compileCIDRMatcher,
+  compileTrustedProxies,
+  isValidTrustedProxy,
+  isValidIP,
+  isValidIPv4,
+  isValidIPv6,
+  normalizeIP,
+  parseForwardedHeader,
+  resolveClientIP,
+  reverseIP,
+  reverseIPWithFormat,
+  toReverseZone,
+  truncateIP,
+} from '../src/utils/IpUtils';
+
+describe('IPAddress.parse', () => {
+  test.each([
+    // input, family, canonical, expanded, zoneId
+    ['192.168.1.1', 'IPv4', '192.168.1.1', '192.168.1.1', null],
+    ['0.0.0.0', 'IPv4', '0.0.0.0', '0.0.0.0', null],
+    ['255.255.255.255', 'IPv4', '255.255.255.255', '255.255.255.255', null],
+    ['::', 'IPv6', '::', '0000:0000:0000:0000:0000:0000:0000:0000', null],
+    ['::1', 'IPv6', '::1', '0000:0000:0000:0000:0000:0000:0000:0001', null],
+    ['1::', 'IPv6', '1::', '0001:0000:0000:0000:0000:0000:0000:0000', null],
+    ['2001:DB8::1', 'IPv6', '2001:db8::1', '2001:0db8:0000:0000:0000:0000:0000:0001', null],
+    ['2001:0db8:0000:0000:0000:0000:0000:0001', 'IPv6', '2001:db8::1', '2001:0db8:0000:0000:0000:0000:0000:0001', null],
+    // RFC 5952 4.2.2: a single zero group is not compressed
+    ['2001:db8:0:1:1:1:1:1', 'IPv6', '2001:db8:0:1:1:1:1:1', '2001:0db8:0000:0001:0001:0001:0001:0001', null],
+    // RFC 5952 4.2.3: the first of two equal-length zero runs is compressed
+    ['2001:0:0:1:0:0:0:1', 'IPv6', '2001:0:0:1::1', '2001:0000:0000:0001:0000:0000:0000:0001', null],
+    ['2001:db8:0:0:1:0:0:1', 'IPv6', '2001:db8::1:0:0:1', '2001:0db8:0000:0000:0001:0000:0000:0001', null],
+    ['fe80::1%eth0', 'IPv6', 'fe80::1%eth0', 'fe80:0000:0000:0000:0000:0000:0000:0001%eth0', 'eth0'],
+    ['FE80::ABCD%en0.1', 'IPv6', 'fe80::abcd%en0.1', 'fe80:0000:0000:0000:0000:0000:0000:abcd%en0.1', 'en0.1'],
+    ['::ffff:1.2.3.4', 'IPv6', '::ffff:1.2.3.4', '0000:0000:0000:0000:0000:ffff:0102:0304', null],
+    ['::ffff:0102:0304', 'IPv6', '::ffff:1.2.3.4', '0000:0000:0000:0000:0000:ffff:0102:0304', null],
+    ['64:ff9b::192.0.2.33', 'IPv6', '64:ff9b::c000:221', '0064:ff9b:0000:0000:0000:0000:c000:0221', null],
+    ['1:2:3:4:5:6:7.8.9.10', 'IPv6', '1:2:3:4:5:6:708:90a', '0001:0002:0003:0004:0005:0006:0708:090a', null],
+  ])('%s', (input, family, canonical, expanded, zoneId) => {
+    const address = IPAddress.parse(input);
+
+    expect(address.family).toBe(family);
+    expect(address.toString()).toBe(canonical);
+    expect(address.toExpandedString()).toBe(expanded);
+    expect(address.zoneId).toBe(zoneId);
+  });
+
+  test.each([
+    '',
+    '1.2.3',
+    '1.2.3.4.5',
+    '256.1.1.1',
+    '01.2.3.4',
+    '1.2.3.-4',
+    '1.2.3.4 ',
+    '1.2.3.4%eth0',
+    ':',
+    ':::',
+    '1:2:3:4:5:6:7',
+    '1:2:3:4:5:6:7:8:9',
+    '1:2:3:4:5:6:7:8::',
+    '::1::',
+    ':1:2:3:4:5:6:7',
+    '1:2:3:4:5:6:7:',
+    '12345::',
+    'g::1',
+    '::1.2.3',
+    '::1.2.3.4:5',
+    '1.2.3.4::',
+    'fe80::1%',
+    'fe80::1%eth 0',
+    '10.0.0.0/8',
+    'not-an-ip',
+  ])('rejects %p', (input) => {
+    expect(IPAddress.tryParse(input)).toBeNull();
+    expect(() => IPAddress.parse(input)).toThrow('Invalid IP address format');
+  });
+
+  test.each([undefined, null, 123, {}, []])('rejects non-string %p', (input) => {
+    expect(IPAddress.tryParse(input)).toBeNull();
+  });
+});
+
+describe('IPAddress.embeddedIPv4', () => {
+  test.each([
+    ['::ffff:1.2.3.4', '1.2.3.4'],
+    ['::ffff:c0a8:101', '192.168.1.1'],
+    ['64:ff9b::192.0.2.33', '192.0.2.33'],
+    ['::1', null],
+    ['2001:db8::1', null],
+    ['::1.2.3.4', null],
+    ['1.2.3.4', null],
+  ])('%s -> %s', (input, expected) => {
+    expect(IPAddress.parse(input).embeddedIPv4?.toString() ?? null).toBe(expected);
+  });
+});
+
+describe('IPAddress numeric conversions', () => {
+  test.each([
+    ['0.0.0.0', 0n],
+    ['192.168.1.1', 0xc0a80101n],
+    ['::1', 1n],
+    ['2001:db8::', 0x20010db8n << 96n],
+  ])('%s <-> %s', (input, value) => {
+    const address = IPAddress.parse(input);
+
+    expect(address.toBigInt()).toBe(value);
+    expect(IPAddress.fromBigInt(value, address.family).equals(address)).toBe(true);
+  });
+});
+
+describe('validators', () => {
+  test.each([
+    ['192.168.1.1', true, true, false],
+    ['2001:db8::1', true, false, true],
+    ['fe80::1%eth0', true, false, true],
+    ['::ffff:1.2.3.4', true, false, true],
+    ['999.1.1.1', false, false, false],
+    ['1.2.3.4/24', false, false, false],
+  ])('%s', (input, any, v4, v6) => {
+    expect(isValidIP(input)).toBe(any);
+    expect(isValidIPv4(input)).toBe(v4);
+    expect(isValidIPv6(input)).toBe(v6);
+  });
+});
+
+describe('reverseIP', () => {
+  test.each([
+    ['192.168.1.1', '1.1.168.192'],
+    ['2001:0db8:85a3:0000:0000:8a2e:0370:7334', '7334:0370:8a2e:0000:0000:85a3:0db8:2001'],
+    ['2001:db8::1', '0001:0000:0000:0000:0000:0000:0db8:2001'],
+    ['::ffff:1.2.3.4', '0304:0102:ffff:0000:0000:0000:0000:0000'],
+    ['fe80::1%eth0', '0001:0000:0000:0000:0000:0000:0000:fe80%eth0'],
+  ])('%s -> %s', (input, expected) => {
+    expect(reverseIP(input)).toBe(expected);
+  });
+
+  test('throws on invalid input', () => {
+    expect(() => reverseIP('1.2.3')).toThrow('Invalid IP address format');
+  });
+});
+
+describe('reverseIPWithFormat', () => {
+  test.each([
+    ['192.168.1.1', 'ptr', '1.1.168.192.in-addr.arpa'],
+    ['192.168.1.1', 'nibbles', '1.0.1.0.8.a.0.c'],
+    ['2001:db8::1', 'ptr', '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa'],
+    ['fe80::1%eth0', 'ptr', '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.e.f.ip6.arpa'],
+    ['::ffff:1.2.3.4', 'nibbles', '4.0.3.0.2.0.1.0.f.f.f.f.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0'],
+  ] as const)('%s (%s) -> %s', (input, format, expected) => {
+    expect(reverseIPWithFormat(input, format)).toBe(expected);
+  });
+});
+
+describe('normalizeIP', () => {
+  test.each([
+    ['::ffff:192.168.1.1', '192.168.1.1'],
+    ['::FFFF:C0A8:0101', '192.168.1.1'],
+    ['2001:0DB8::0001', '2001:db8::1'],
+    ['192.168.1.1', '192.168.1.1'],
+    ['unknown', 'unknown'],
+  ])('%s -> %s', (input, expected) => {
+    expect(normalizeIP(input)).toBe(expected);
+  });
+});
+
+describe('cidrSearchRange', () => {
+  test.each([
+    ['10.0.0.0/8', 'IPv4', '00000000000000000000ffff0a000000', '00000000000000000000ffff0affffff'],
+    ['192.168.1.77/24', 'IPv4', '00000000000000000000ffffc0a80100', '00000000000000000000ffffc0a801ff'],
+    ['1.2.3.4', 'IPv4', '00000000000000000000ffff01020304', '00000000000000000000ffff01020304'],
+    ['2001:db8::/32', 'IPv6', '20010db8000000000000000000000000', '20010db8ffffffffffffffffffffffff'],
+    ['::/0', 'IPv6', '00000000000000000000000000000000', 'ffffffffffffffffffffffffffffffff'],
+  ])('%s', (input, family, start, end) => {
+    expect(cidrSearchRange(input)).toEqual({ family, start, end });
+  });
+
+  test('rejects invalid blocks', () => {
+    expect(() => cidrSearchRange('10.0.0.0/33')).toThrow('Invalid CIDR block');
+  });
+});
+
+describe('compileCIDRMatcher', () => {
+  const matches = compileCIDRMatcher(['10.0.0.0/8', '2001:db8::/32', '192.0.2.1']);
+
+  test.each([
+    ['10.1.2.3', true],
+    ['11.0.0.1', false],
+    ['2001:db8:ffff::1', true],
+    ['2001:db9::1', false],
+    ['192.0.2.1', true],
+    ['192.0.2.2', false],
+    ['not-an-ip', false],
+  ])('%s -> %s', (ip, expected) => {
+    expect(matches(ip)).toBe(expected);
+  });
+
+  test('matches nothing without blocks', () => {
+    expect(compileCIDRMatcher([])('10.1.2.3')).toBe(false);
+  });
+
+  test('rejects invalid blocks', () => {
+    expect(() => compileCIDRMatcher(['10.0.0.0/33'])).toThrow('Invalid CIDR block');
+  });
+});
+
+describe('toReverseZone', () => {
+  test.each([
+    ['192.0.2.0', 24, '2.0.192.in-addr.arpa'],
+    ['10.0.0.0', 8, '10.in-addr.arpa'],
+    ['0.0.0.0', 0, 'in-addr.arpa'],
+    // RFC 2317 classless delegation within a /24
+    ['192.0.2.64', 26, '64/26.2.0.192.in-addr.arpa'],
+    ['192.0.2.128', 25, '128/25.2.0.192.in-addr.arpa'],
+    // Shorter prefixes that aren't octet-aligned use the enclosing zone
+    ['192.168.16.0', 20, '168.192.in-addr.arpa'],
+    ['192.168.0.0', 23, '168.192.in-addr.arpa'],
+    ['172.16.0.0', 12, '172.in-addr.arpa'],
+    ['2001:db8::', 32, '8.b.d.0.1.0.0.2.ip6.arpa'],
+    ['2001:db8::', 30, 'b.d.0.1.0.0.2.ip6.arpa'],
+  ])('%s/%s -> %s', (network, prefixLength, zone) => {
+    expect(toReverseZone(network, prefixLength)).toBe(zone);
+  });
+});
+
+describe('truncateIP', () => {
+  test.each([
+    ['203.0.113.77', '203.0.113.0'],
+    ['::ffff:203.0.113.77', '203.0.113.0'],
+    ['2001:db8:1:2::5', '2001:db8:1::'],
+    ['2001:DB8:abcd:ffff:1:2:3:4', '2001:db8:abcd::'],
+    ['unknown', 'unknown'],
+  ])('%s -> %s', (input, expected) => {
+    expect(truncateIP(input)).toBe(expected);
+  });
+
+  test('uses the given prefix lengths', () => {
+    expect(truncateIP('203.0.113.77', 16)).toBe('203.0.0.0');
+    expect(truncateIP('2001:db8:1:2::5', 24, 64)).toBe('2001:db8:1:2::');
+  });
+});
+
+describe('compileTrustedProxies', () => {
+  const isTrusted = compileTrustedProxies(['loopback', '203.0.113.0/24', '2001:db8::1']);
+
+  test.each([
+    ['127.0.0.1', true],
+    ['::1', true],
+    ['203.0.113.200', true],
+    ['2001:db8::1', true],
+    ['2001:db8::2', false],
+    ['198.51.100.1', false],
+    ['not-an-ip', false],
+  ])('%s -> %s', (ip, expected) => {
+    expect(isTrusted(ip)).toBe(expected);
+  });
+
+  test('rejects invalid entries', () => {
+    expect(() => compileTrustedProxies(['10.0.0.0/33'])).toThrow('Invalid trusted proxy: 10.0.0.0/33');
+  });
+
+  test.each([
+    ['uniquelocal', true],
+    ['10.0.0.0/8', true],
+    ['2001:db8::1', true],
+    ['10.0.0.0/33', false],
+    ['localhost', false],
+    ['toString', false],
+  ])('isValidTrustedProxy(%s) -> %s', (entry, expected) => {
+    expect(isValidTrustedProxy(entry)).toBe(expected);
+  });
+});
+
+describe('parseForwardedHeader', () => {
+  test.each([
+    ['for=192.0.2.60;proto=http;by=203.0.113.43', ['192.0.2.60']],
+    ['for=192.0.2.43, for=198.51.100.17', ['192.0.2.43', '198.51.100.17']],
+    ['For="[2001:db8:cafe::17]:4711"', ['[2001:db8:cafe::17]:4711']],
+    ['for=unknown;proto=https, proto=http', ['unknown', 'unknown']],
+    ['for="_hidden, with a comma", for=192.0.2.1', ['_hidden, with a comma', '192.0.2.1']],
+  ])('%s', (header, expected) => {
+    expect(parseForwardedHeader(header)).toEqual(expected);
+  });
+
+  test('joins repeated headers', () => {
+    expect(parseForwardedHeader(['for=192.0.2.1', 'for=192.0.2.2'])).toEqual(['192.0.2.1', '192.0.2.2']);
+  });
+});
+
+describe('resolveClientIP', () => {
+  const isTrusted = compileTrustedProxies(['10.0.0.0/8']);
+  const request = (remoteAddress: string, headers: Record<string, string> = {}) => ({
+    socket: { remoteAddress },
+    headers,
+  });
+
+  test('ignores forwarding headers from untrusted peers', () => {
+    expect(resolveClientIP(request('198.51.100.7', { 'x-forwarded-for': '1.2.3.4' }), isTrusted))
+      .toEqual({ ip: '198.51.100.7', source: 'socket', trustedHops: 0 });
+  });
+
+  test('walks X-Forwarded-For from the right, skipping trusted proxies', () => {
+    const req = request('::ffff:10.0.0.1', { 'x-forwarded-for': '1.2.3.4, 198.51.100.9, 10.1.1.1' });
+    expect(resolveClientIP(req, isTrusted)).toEqual({ ip: '198.51.100.9', source: 'x-forwarded-for', trustedHops: 2 });
+  });
+
+  test('uses the leftmost hop when every proxy is trusted', () => {
+    const req = request('10.0.0.1', { 'x-forwarded-for': '::ffff:198.51.100.9, 10.1.1.1' });
+    expect(resolveClientIP(req, isTrusted)).toEqual({ ip: '198.51.100.9', source: 'x-forwarded-for', trustedHops: 2 });
+  });
+
+  test('prefers the Forwarded header', () => {
+    const req = request('10.0.0.1', {
+      forwarded: 'for="[2001:db8::17]:4711", for=10.2.2.2',
+      'x-forwarded-for': '1.2.3.4',
+    });
+    expect(resolveClientIP(req, isTrusted)).toEqual({ ip: '2001:db8::17', source: 'forwarded', trustedHops: 2 });
+  });
+
+  test('stops at hops that are not addresses', () => {
+    const req = request('10.0.0.1', { forwarded: 'for=198.51.100.9, for=unknown' });
+    expect(resolveClientIP(req, isTrusted)).toEqual({ ip: 'unknown', source: 'forwarded', trustedHops: 1 });
+  });
+
+  test('falls back to X-Real-IP and then the socket', () => {
+    expect(resolveClientIP(request('10.0.0.1', { 'x-real-ip': '198.51.100.9' }), isTrusted))
+      .toEqual({ ip: '198.51.100.9', source: 'x-real-ip', trustedHops: 1 });
+    expect(resolveClientIP(request('10.0.0.1'), isTrusted))
+      .toEqual({ ip: '10.0.0.1', source: 'socket', trustedHops: 0 });
+  });
+});
@@ -0,0 +1,131 @@
+import { LiveFeedService } from '../src/services/LiveFeedService';
+import type { LiveFeedClient } from '../src/services/LiveFeedService';
+import type { IPHistoryEntry } from '../src/types/index';
+
+// History rows, standing in for the database, and the 'stored' events of this replica
+const mockRows: IPHistoryEntry[] = [];
+const mockStored = new (require('events').EventEmitter)();
+
+jest.mock('../src/services/IpService', () => ({
+  ipService: {
+    onStored: (listener: (entries: IPHistoryEntry[]) => void) => {
+      mockStored.on('stored', listener);
+      return () => mockStored.off('stored', listener);
+    },
+    // Rows after the position, oldest first, like the history query
+    historyAfter: jest.fn(async (after: { createdAt: Date; id: string }, filters: unknown, limit: number) => mockRows
+      .filter((row) => {
+        const createdAt = new Date(row.createdAt).getTime();
+        return createdAt > after.createdAt.getTime() || (createdAt === after.createdAt.getTime() && row.id > after.id);
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+      .slice(0, limit)),
+  },
+}));
+
+const { ipService } = jest.requireMock('../src/services/IpService');
+
+const NOW = new Date('2025-10-01T12:00:00Z');
+const POLL_MS = 2000;
+const LOOKBACK_MS = 10000;
+
+const entry = (id: string, createdAt: string): IPHistoryEntry => ({
+  id,
+  originalIP: '10.0.0.1',
+  reversedIP: '1.0.0.10',
+  format: 'octets',
+  prefixLength: null,
+  family: 'IPv4',
+  requestIP: null,
+  userAgent: null,
+  apiKeyId: null,
+  ipClass: 'private',
+  country: null,
+  city: null,
+  asn: null,
+  asOrg: null,
+  requestCountry: null,
+  requestAsn: null,
+  notes: null,
+  tags: [],
+  timestamp: createdAt,
+  createdAt,
+});
+
+// A feed client that records the ids it was sent
+const client = (): LiveFeedClient & { sent: string[] } => {
+  const sent: string[] = [];
+  return { transport: 'sse', sent, send: (eventId, sentEntry) => sent.push(sentEntry.id), truncated() {}, heartbeat() {}, close() {} };
+};
+
+let service: LiveFeedService;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+  mockRows.length = 0;
+  ipService.historyAfter.mockClear();
+  service = new LiveFeedService();
+});
+
+afterEach(() => {
+  service.stop();
+  jest.useRealTimers();
+});
+
+// Store rows on this replica, announcing them like IpService does
+const storeHere = (...entries: IPHistoryEntry[]) => {
+  mockRows.push(...entries);
+  mockStored.emit('stored', entries);
+};
+
+describe('LiveFeedService dispatch and poll', () => {
+  test('send each entry once, whether it was stored here or found by the poll', async () => {
+    const feed = client();
+    await service.open(feed, {}, null);
+
+    storeHere(entry('a', '2025-10-01T12:00:00.500Z'));
+    mockRows.push(entry('b', '2025-10-01T12:00:01.000Z'));
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(feed.sent).toEqual(['a', 'b']);
+  });
+
+  test('only send entries matching the filters of a client', async () => {
+    const v4 = client();
+    const v6 = client();
+    await service.open(v4, { family: 'IPv4' }, null);
+    await service.open(v6, { cidr: '2001:db8::/32' }, null);
+
+    storeHere(entry('a', '2025-10-01T12:00:00.500Z'), { ...entry('b', '2025-10-01T12:00:00.600Z'), originalIP: '2001:db8::1', family: 'IPv6' });
+
+    expect([v4.sent, v6.sent]).toEqual([['a'], ['b']]);
+  });
+
+  test('hold back new entries until the missed ones were replayed', async () => {
+    mockRows.push(entry('a', '2025-10-01T11:59:00Z'), entry('b', '2025-10-01T11:59:30Z'));
+    const feed = client();
+
+    const opened = service.open(feed, {}, { createdAt: new Date('2025-10-01T11:58:00Z'), id: 'x', direction: 'prev' });
+    storeHere(entry('c', '2025-10-01T12:00:00.500Z'));
+    await opened;
+
+    expect(feed.sent).toEqual(['a', 'b', 'c']);
+  });
+
+  test('keep polling from the current time when an entry is timestamped in the future', async () => {
+    const feed = client();
+    await service.open(feed, {}, null);
+
+    // Another replica's clock runs an hour ahead
+    mockRows.push(entry('ahead', '2025-10-01T13:00:00Z'));
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+    mockRows.push(entry('late', '2025-10-01T12:00:02.500Z'));
+    await jest.advanceTimersByTimeAsync(POLL_MS);
+
+    // The poll window trails this server's clock, not the row from an hour ahead
+    const lastPoll = ipService.historyAfter.mock.calls.at(-1)[0];
+    expect(lastPoll.createdAt).toEqual(new Date(NOW.getTime() + POLL_MS - LOOKBACK_MS));
+    expect(feed.sent).toEqual(['ahead', 'late']);
+  });
+});
@@ -0,0 +1,75 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express, { Router } from 'express';
+import type { NextFunction, Request, Response } from 'express';
+import { metricsMiddleware, recordRouteBase } from '../src/middleware/MetricsMiddleware';
+import { metricsService } from '../src/services/MetricsService';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const ipRoutes = Router();
+  ipRoutes.get('/ok', (req: Request, res: Response) => {
+    res.json({ success: true });
+  });
+  ipRoutes.post('/reverse', () => {
+    throw new Error('database down');
+  });
+
+  const keyRoutes = Router();
+  keyRoutes.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+    next(new Error('not allowed'));
+  });
+
+  const app = express();
+  app.use(metricsMiddleware);
+  app.use('/api/ip', recordRouteBase, ipRoutes);
+  app.use('/api/keys', recordRouteBase, keyRoutes);
+  app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
+    res.status(500).json({ success: false });
+  });
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  metricsService.httpRequestsTotal.reset();
+});
+
+// The label sets of http_requests_total; the counter is updated when the response finishes
+const requestLabels = async () => {
+  await new Promise((resolve) => setImmediate(resolve));
+  const { values } = await metricsService.httpRequestsTotal.get();
+  return values.map((value) => value.labels);
+};
+
+describe('metricsMiddleware route labels', () => {
+  test('label a successful request with the full route pattern', async () => {
+    await fetch(`${baseUrl}/api/ip/ok`);
+
+    expect(await requestLabels()).toEqual([{ route: '/api/ip/ok', method: 'GET', status: '200' }]);
+  });
+
+  test('label a request that failed through the error handler with the full route pattern', async () => {
+    await fetch(`${baseUrl}/api/ip/reverse`, { method: 'POST' });
+    await fetch(`${baseUrl}/api/keys/key-1`);
+
+    expect(await requestLabels()).toEqual([
+      { route: '/api/ip/reverse', method: 'POST', status: '500' },
+      { route: '/api/keys/:id', method: 'GET', status: '500' },
+    ]);
+  });
+
+  test('label requests matching no route as not found', async () => {
+    await fetch(`${baseUrl}/api/ip/nothing-here`);
+
+    expect(await requestLabels()).toEqual([{ route: 'not_found', method: 'GET', status: '404' }]);
+  });
+});
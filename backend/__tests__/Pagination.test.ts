@@ -0,0 +1,230 @@
+import type { Request, Response } from 'express';
+import { ipController } from '../src/controllers/IpController';
+import { historyQuerySchema } from '../src/schemas/IpSchemas';
+import { ipService } from '../src/services/IpService';
+import { buildLinkHeader, decodeCursor, encodeCursor } from '../src/utils/Pagination';
+
+// History rows, standing in for the database
+const mockRows: any[] = [];
+
+// The subset of Prisma filters the history queries use
+const mockMatches = (row: any, where: any = {}): boolean => Object.entries(where).every(([field, condition]: [string, any]) => {
+  if (field === 'AND') {
+    return condition.every((part: any) => mockMatches(row, part));
+  }
+  if (field === 'OR') {
+    return condition.some((part: any) => mockMatches(row, part));
+  }
+  if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+    return condition instanceof Date ? row[field].getTime() === condition.getTime() : row[field] === condition;
+  }
+  return Object.entries(condition).every(([op, value]: [string, any]) => {
+    switch (op) {
+      case 'lt': return row[field] < value;
+      case 'gt': return row[field] > value;
+      default: throw new Error(`Unsupported filter ${op}`);
+    }
+  });
+});
+
+jest.mock('../src/services/Database', () => ({
+  prisma: {
+    reversedIP: {
+      count: async ({ where }: any) => mockRows.filter((row) => mockMatches(row, where)).length,
+      findMany: async ({ where, skip = 0, take, orderBy }: any) => {
+        const direction = orderBy[0].createdAt === 'asc' ? 1 : -1;
+        return mockRows
+          .filter((row) => mockMatches(row, where))
+          .sort((a, b) => direction * (a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id)))
+          .slice(skip, skip + take);
+      },
+    },
+  },
+}));
+
+const row = (id: string, createdAt: string): any => ({
+  id,
+  originalIP: '10.0.0.1',
+  reversedIP: '1.0.0.10',
+  format: 'octets',
+  prefixLength: null,
+  family: 'IPv4',
+  requestIP: '198.51.100.7',
+  userAgent: null,
+  apiKeyId: null,
+  ipClass: 'private',
+  country: null,
+  city: null,
+  asn: null,
+  asOrg: null,
+  requestCountry: null,
+  requestAsn: null,
+  notes: null,
+  tags: [],
+  timestamp: new Date(createdAt),
+  createdAt: new Date(createdAt),
+  deletedAt: null,
+});
+
+// A validated history request for GET /api/ip/history?<query>
+const historyRequest = (query: Record<string, string>): Request => {
+  const parsed = historyQuerySchema.parse(query);
+  if (!parsed.success) {
+    throw new Error('Invalid query');
+  }
+  return {
+    baseUrl: '/api/ip',
+    path: '/history',
+    protocol: 'http',
+    originalUrl: `/api/ip/history?${new URLSearchParams(query)}`,
+    query: parsed.data,
+    get: (name: string) => (name.toLowerCase() === 'host' ? 'example.test' : undefined),
+  } as unknown as Request;
+};
+
+const getHistory = async (query: Record<string, string>) => {
+  const headers: Record<string, unknown> = {};
+  let body: any;
+  const res = {
+    setHeader: (name: string, value: unknown) => {
+      headers[name] = value;
+    },
+    status: () => res,
+    json: (sent: unknown) => {
+      body = sent;
+      return res;
+    },
+  };
+  await ipController.getHistory(historyRequest(query) as any, res as unknown as Response);
+  return { headers, data: body.data };
+};
+
+const ids = (page: { entries: { id: string }[] }): string[] => page.entries.map((entry) => entry.id);
+
+beforeEach(() => {
+  // Newest first: e, d and c share a timestamp, so the id breaks the tie
+  mockRows.length = 0;
+  mockRows.push(
+    row('a', '2025-10-01T10:00:00Z'),
+    row('b', '2025-10-01T11:00:00Z'),
+    row('c', '2025-10-01T12:00:00Z'),
+    row('d', '2025-10-01T12:00:00Z'),
+    row('e', '2025-10-01T12:00:00Z'),
+    { ...row('x', '2025-10-01T12:30:00Z'), deletedAt: new Date('2025-10-02T00:00:00Z') },
+  );
+});
+
+describe('cursors', () => {
+  test('round-trip through an opaque token', () => {
+    const cursor = { createdAt: new Date('2025-10-01T12:00:00.123Z'), id: 'entry-1', direction: 'prev' as const };
+
+    const token = encodeCursor(cursor);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token)).toEqual(cursor);
+  });
+
+  test('decode to null when malformed', () => {
+    const token = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(token({ c: 'yesterday', i: 'a', d: 'next' }))).toBeNull();
+    expect(decodeCursor(token({ c: '2025-10-01T00:00:00Z', i: '', d: 'next' }))).toBeNull();
+    expect(decodeCursor(token({ c: '2025-10-01T00:00:00Z', i: 'a', d: 'up' }))).toBeNull();
+  });
+
+  test('are checked by the history query', () => {
+    const invalid = historyQuerySchema.parse({ cursor: 'bogus' });
+    const both = historyQuerySchema.parse({ page: '2', cursor: encodeCursor({ createdAt: new Date(), id: 'a', direction: 'next' }) });
+
+    expect(!invalid.success && invalid.issues[0]).toMatchObject({ path: 'cursor', code: 'INVALID_CURSOR' });
+    expect(!both.success && both.issues[0]).toMatchObject({ code: 'INVALID_PAGINATION' });
+  });
+});
+
+describe('buildLinkHeader', () => {
+  test('replaces the paging parameters and keeps the others as sent', () => {
+    const req = historyRequest({ page: '2', limit: '5' });
+    Object.assign(req, { originalUrl: '/api/ip/history?page=2&limit=5&q=10.0%2F8' });
+
+    expect(buildLinkHeader(req, { next: { cursor: 'abc', limit: 5 }, prev: undefined }, ['page', 'cursor']))
+      .toBe('</api/ip/history?limit=5&q=10.0%2F8&cursor=abc>; rel="next"');
+  });
+
+  test('is null without links', () => {
+    expect(buildLinkHeader(historyRequest({}), { next: undefined, prev: undefined })).toBeNull();
+  });
+});
+
+describe('history cursor pagination', () => {
+  test('pages through every entry once, ties on createdAt included', async () => {
+    const first = await ipService.getHistory({ limit: 2 });
+    const second = await ipService.getHistory({ cursor: decodeCursor(first.nextCursor!), limit: 2 });
+    const last = await ipService.getHistory({ cursor: decodeCursor(second.nextCursor!), limit: 2 });
+
+    expect([ids(first), ids(second), ids(last)]).toEqual([['e', 'd'], ['c', 'b'], ['a']]);
+    expect(first.prevCursor).toBeNull();
+    expect(second.prevCursor).not.toBeNull();
+    expect(last.nextCursor).toBeNull();
+  });
+
+  test('pages back to the first page with prevCursor', async () => {
+    const first = await ipService.getHistory({ limit: 2 });
+    const second = await ipService.getHistory({ cursor: decodeCursor(first.nextCursor!), limit: 2 });
+
+    const back = await ipService.getHistory({ cursor: decodeCursor(second.prevCursor!), limit: 2 });
+
+    expect(ids(back)).toEqual(['e', 'd']);
+    expect(back.prevCursor).toBeNull();
+    expect(decodeCursor(back.nextCursor!)).toMatchObject({ id: 'd', direction: 'next' });
+  });
+
+  test('has no next cursor when the last page is exactly full', async () => {
+    const page = await ipService.getHistory({ limit: 5 });
+
+    expect(ids(page)).toEqual(['e', 'd', 'c', 'b', 'a']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  test('offers a previous cursor from the second offset page on', async () => {
+    const page = await ipService.getHistory({ page: 2, limit: 2 });
+
+    expect(ids(page)).toEqual(['c', 'b']);
+    expect(decodeCursor(page.prevCursor!)).toMatchObject({ id: 'c', direction: 'prev' });
+    expect(decodeCursor(page.nextCursor!)).toMatchObject({ id: 'b', direction: 'next' });
+  });
+});
+
+describe('GET /api/ip/history headers', () => {
+  test('offset pages send X-Total-Count, X-Page, X-Per-Page and a Link header', async () => {
+    const { headers, data } = await getHistory({ page: '2', limit: '2' });
+
+    expect(headers).toEqual({
+      'X-Total-Count': 5,
+      'X-Page': 2,
+      'X-Per-Page': 2,
+      Link: `</api/ip/history?limit=2&cursor=${data.nextCursor}>; rel="next", `
+        + `</api/ip/history?limit=2&cursor=${data.prevCursor}>; rel="prev"`,
+    });
+  });
+
+  test('cursor pages only count on request', async () => {
+    const cursor = encodeCursor({ createdAt: new Date('2025-10-01T11:00:00Z'), id: 'b', direction: 'next' });
+
+    const { headers } = await getHistory({ cursor, limit: '2' });
+    const counted = await getHistory({ cursor, limit: '2', includeTotal: 'true' });
+
+    // Only 'a' is older than the cursor, so there is no next page
+    expect(headers).toEqual({
+      'X-Per-Page': 2,
+      Link: `</api/ip/history?limit=2&cursor=${encodeCursor({ createdAt: new Date('2025-10-01T10:00:00Z'), id: 'a', direction: 'prev' })}>; rel="prev"`,
+    });
+    expect(counted.headers).toMatchObject({ 'X-Total-Count': 5 });
+  });
+
+  test('a single page sends no Link header', async () => {
+    const { headers } = await getHistory({ limit: '10' });
+
+    expect(headers).toEqual({ 'X-Total-Count': 5, 'X-Page': 1, 'X-Per-Page': 10 });
+  });
+});
@@ -0,0 +1,111 @@
+import type { Request, Response } from 'express';
+import type { RateLimiterOptions } from '../src/middleware/RateLimitMiddleware';
+import type { ApiKeyScope, AuthenticatedApiKey } from '../src/types/index';
+
+// Read when RateLimitService loads, so the middleware is imported in beforeAll
+process.env.RATE_LIMIT_STORE = 'memory';
+process.env.API_KEY_DEFAULT_RATE_LIMIT = '3';
+
+jest.mock('../src/services/Database', () => ({ prisma: {} }));
+
+type Middleware = typeof import('../src/middleware/RateLimitMiddleware');
+
+let checkRateLimit: Middleware['checkRateLimit'];
+let rateLimiter: Middleware['rateLimiter'];
+
+beforeAll(async () => {
+  ({ checkRateLimit, rateLimiter } = await import('../src/middleware/RateLimitMiddleware'));
+});
+
+// Like the 'api-key' limiter of the IP routes: a key's own rateLimit replaces the policy's
+const apiKeyLimit: RateLimiterOptions = {
+  policy: 'api-key',
+  points: (req: Request): number | undefined => req.apiKey?.rateLimit ?? undefined,
+};
+
+let clients = 0;
+
+// A request from a client no other test has used
+const request = (key: Partial<AuthenticatedApiKey> | null = null, scopes: ApiKeyScope[] = ['reverse']): Request => {
+  clients++;
+  return {
+    headers: {},
+    ip: `198.51.100.${clients}`,
+    apiKey: key ? { id: `key-${clients}`, name: 'test', scopes, rateLimit: null, dailyQuota: null, ...key } : undefined,
+  } as unknown as Request;
+};
+
+const spend = async (options: RateLimiterOptions, req: Request, times: number) => {
+  const checks = [];
+  for (let i = 0; i < times; i++) {
+    checks.push(await checkRateLimit(options, req));
+  }
+  return checks;
+};
+
+describe('per-key rate limits', () => {
+  test('limit a key to the default rate without its own', async () => {
+    const checks = await spend(apiKeyLimit, request({}), 4);
+
+    expect(checks.map((check) => check?.allowed)).toEqual([true, true, true, false]);
+    expect(checks[0]).toMatchObject({ limit: 3, remaining: 2, resetSeconds: 60 });
+  });
+
+  test("use a key's own rate limit instead of the default", async () => {
+    const checks = await spend(apiKeyLimit, request({ rateLimit: 5 }), 6);
+
+    expect(checks.map((check) => check?.allowed)).toEqual([true, true, true, true, true, false]);
+    expect(checks[4]).toMatchObject({ limit: 5, remaining: 0 });
+  });
+
+  test('count each key on its own, whatever IP it comes from', async () => {
+    const first = request({});
+    const second = { ...request({}), ip: first.ip } as Request;
+    await spend(apiKeyLimit, first, 3);
+
+    expect(await checkRateLimit(apiKeyLimit, second)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(await checkRateLimit(apiKeyLimit, { ...first, ip: '203.0.113.1' } as Request)).toMatchObject({ allowed: false });
+  });
+
+  test('leave anonymous requests to the other policies', async () => {
+    expect(await checkRateLimit(apiKeyLimit, request())).toBeNull();
+    // 'general' is the other way round
+    expect(await checkRateLimit({ policy: 'general' }, request({}))).toBeNull();
+    expect(await checkRateLimit({ policy: 'general' }, request())).toMatchObject({ limit: 100 });
+  });
+
+  test('apply the admin points to admin keys', async () => {
+    expect(await checkRateLimit({ policy: 'admin' }, request({}, ['admin']))).toMatchObject({ limit: 100 });
+  });
+});
+
+describe('rateLimiter', () => {
+  const run = async (req: Request) => {
+    const headers: Record<string, unknown> = {};
+    const res = {
+      setHeader: (name: string, value: unknown) => {
+        headers[name] = value;
+      },
+      get: (name: string) => headers[name],
+    } as unknown as Response;
+    let error: unknown;
+    await rateLimiter(apiKeyLimit)(req, res, (failure?: unknown) => {
+      error = failure;
+    });
+    return { headers, error };
+  };
+
+  test('sets the RateLimit headers and refuses requests over the limit with a 429', async () => {
+    const req = request({ rateLimit: 1 });
+
+    const allowed = await run(req);
+    const refused = await run(req);
+
+    expect(allowed).toEqual({
+      headers: { 'RateLimit-Limit': 1, 'RateLimit-Remaining': 0, 'RateLimit-Reset': 60 },
+      error: undefined,
+    });
+    expect(refused.headers['Retry-After']).toBe(60);
+    expect(refused.error).toMatchObject({ status: 429, code: 'RATE_LIMIT_EXCEEDED', details: { retryAfter: 60 } });
+  });
+});
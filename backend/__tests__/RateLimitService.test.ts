@@ -0,0 +1,84 @@
+jest.mock('../src/services/Database', () => ({ prisma: {} }));
+
+// RATE_LIMIT_* is read when RateLimitService loads, so each test loads its own copy
+const load = async (env: Record<string, string>) => {
+  const previous = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let service!: typeof import('../src/services/RateLimitService')['rateLimitService'];
+    await jest.isolateModulesAsync(async () => {
+      ({ rateLimitService: service } = await import('../src/services/RateLimitService'));
+    });
+    return service;
+  } finally {
+    process.env = previous;
+  }
+};
+
+describe('RateLimitService policies', () => {
+  test('uses the defaults without RATE_LIMIT_POLICIES', async () => {
+    const service = await load({ RATE_LIMIT_STORE: 'memory' });
+
+    expect(service.getPolicy('general')).toEqual({
+      windowMs: 15 * 60 * 1000,
+      points: { anonymous: 100, apiKey: null, admin: null },
+    });
+    expect(service.configErrors()).toEqual([]);
+  });
+
+  test('applies overrides and keeps the defaults of omitted fields', async () => {
+    const service = await load({
+      RATE_LIMIT_STORE: 'memory',
+      RATE_LIMIT_POLICIES: JSON.stringify({
+        general: { windowMs: 60000, points: { anonymous: 30 } },
+        strict: { points: { apiKey: 50, admin: null } },
+      }),
+    });
+
+    expect(service.getPolicy('general')).toEqual({ windowMs: 60000, points: { anonymous: 30, apiKey: null, admin: null } });
+    expect(service.getPolicy('strict')).toEqual({ windowMs: 5 * 60 * 1000, points: { anonymous: 20, apiKey: 50, admin: null } });
+    expect(service.configErrors()).toEqual([]);
+  });
+
+  test('reports invalid overrides and ignores them', async () => {
+    const service = await load({
+      RATE_LIMIT_STORE: 'memory',
+      RATE_LIMIT_POLICIES: JSON.stringify({
+        general: { windowMs: 0, points: { anonymous: -1, robots: 5 } },
+        unknown: {},
+      }),
+    });
+
+    expect(service.getPolicy('general')).toEqual({
+      windowMs: 15 * 60 * 1000,
+      points: { anonymous: 100, apiKey: null, admin: null },
+    });
+    expect(service.configErrors()).toEqual([
+      'RATE_LIMIT_POLICIES: general.windowMs must be a positive integer',
+      'RATE_LIMIT_POLICIES: general.points.anonymous must be a non-negative integer or null',
+      "RATE_LIMIT_POLICIES: unknown client class 'general.points.robots' (classes: anonymous, apiKey, admin)",
+      "RATE_LIMIT_POLICIES: unknown policy 'unknown' (policies: api-key, general, strict, batch, export, admin)",
+    ]);
+  });
+
+  test('reports RATE_LIMIT_POLICIES that is not a JSON object', async () => {
+    expect((await load({ RATE_LIMIT_POLICIES: '{general' })).configErrors())
+      .toEqual(['RATE_LIMIT_POLICIES must be valid JSON']);
+    expect((await load({ RATE_LIMIT_POLICIES: '[]' })).configErrors())
+      .toEqual(['RATE_LIMIT_POLICIES must be a JSON object keyed by policy name']);
+  });
+
+  test('reports an unknown store', async () => {
+    expect((await load({ RATE_LIMIT_STORE: 'redis' })).configErrors())
+      .toEqual(['RATE_LIMIT_STORE must be one of: postgres, memory']);
+  });
+
+  test('counts each policy in its own window', async () => {
+    const service = await load({ RATE_LIMIT_STORE: 'memory' });
+
+    await service.consume('strict', 'ip:a', 20, 20);
+
+    expect(await service.consume('strict', 'ip:a', 1, 20)).toMatchObject({ allowed: false });
+    expect(await service.consume('general', 'ip:a', 1, 100)).toMatchObject({ allowed: true, used: 1 });
+  });
+});
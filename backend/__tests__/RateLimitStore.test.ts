@@ -0,0 +1,179 @@
+import {
+  FallbackRateLimitStore,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+} from '../src/services/RateLimitStore';
+import type { RateLimitStore } from '../src/services/RateLimitStore';
+import { metricsService } from '../src/services/MetricsService';
+
+// The RateLimitBucket table, standing in for the database
+const mockBuckets = new Map<string, { used: number; allowed: boolean; resetAt: Date }>();
+
+jest.mock('../src/services/Database', () => {
+  const { Prisma } = jest.requireActual('@prisma/client');
+
+  return {
+    prisma: {
+      // The upsert of PostgresRateLimitStore.consume
+      $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const [key, used, allowed, resetAt, now, cost, points] = Prisma.sql(strings, ...values).values;
+        const bucket = mockBuckets.get(key);
+        if (!bucket || bucket.resetAt <= now) {
+          mockBuckets.set(key, { used, allowed, resetAt });
+        } else {
+          bucket.allowed = bucket.used + cost <= points;
+          bucket.used += bucket.allowed ? cost : 0;
+        }
+        return [{ ...mockBuckets.get(key) }];
+      },
+      $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const [now] = Prisma.sql(strings, ...values).values;
+        const ended = [...mockBuckets].filter(([, bucket]) => bucket.resetAt <= now);
+        ended.forEach(([key]) => mockBuckets.delete(key));
+        return ended.length;
+      },
+    },
+  };
+});
+
+const MINUTE = 60 * 1000;
+
+beforeEach(() => {
+  mockBuckets.clear();
+  jest.useFakeTimers({ now: new Date('2025-10-01T12:00:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe.each([
+  ['MemoryRateLimitStore', () => new MemoryRateLimitStore()],
+  ['PostgresRateLimitStore', () => new PostgresRateLimitStore()],
+])('%s', (_name, create: () => RateLimitStore) => {
+  test('spends points until the window is full, rejected requests cost nothing', async () => {
+    const store = create();
+
+    expect(await store.consume('general:a', 2, 3, MINUTE)).toEqual({
+      allowed: true,
+      used: 2,
+      resetAt: new Date('2025-10-01T12:01:00Z'),
+    });
+    expect(await store.consume('general:a', 2, 3, MINUTE)).toMatchObject({ allowed: false, used: 2 });
+    expect(await store.consume('general:a', 1, 3, MINUTE)).toMatchObject({ allowed: true, used: 3 });
+  });
+
+  test('counts every key on its own', async () => {
+    const store = create();
+
+    await store.consume('general:a', 3, 3, MINUTE);
+
+    expect(await store.consume('general:b', 1, 3, MINUTE)).toMatchObject({ allowed: true, used: 1 });
+  });
+
+  test('starts a new window once the old one has ended', async () => {
+    const store = create();
+    await store.consume('general:a', 3, 3, MINUTE);
+    jest.advanceTimersByTime(30 * 1000);
+    expect(await store.consume('general:a', 1, 3, MINUTE)).toMatchObject({ allowed: false });
+
+    jest.advanceTimersByTime(30 * 1000);
+
+    expect(await store.consume('general:a', 1, 3, MINUTE)).toEqual({
+      allowed: true,
+      used: 1,
+      resetAt: new Date('2025-10-01T12:02:00Z'),
+    });
+  });
+
+  test('never allows a cost above the limit', async () => {
+    expect(await create().consume('batch:a', 5, 3, MINUTE)).toMatchObject({ allowed: false, used: 0 });
+  });
+
+  test('prunes the windows that have ended', async () => {
+    const store = create();
+    await store.consume('general:a', 1, 3, MINUTE);
+    await store.consume('general:b', 1, 3, 2 * MINUTE);
+    jest.advanceTimersByTime(MINUTE);
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.consume('general:b', 1, 3, MINUTE)).toMatchObject({ used: 2 });
+  });
+});
+
+describe('FallbackRateLimitStore', () => {
+  // A primary store whose availability the tests switch
+  const primaryStore = () => {
+    const memory = new MemoryRateLimitStore();
+    const primary = {
+      down: false,
+      calls: 0,
+      consume: async (key: string, cost: number, points: number, windowMs: number) => {
+        primary.calls++;
+        if (primary.down) {
+          throw new Error('connection refused');
+        }
+        return memory.consume(key, cost, points, windowMs);
+      },
+      prune: jest.fn(async () => 0),
+    };
+    return primary;
+  };
+
+  test('uses the primary store while it works', async () => {
+    const primary = primaryStore();
+    const store = new FallbackRateLimitStore(primary, new MemoryRateLimitStore(), 30 * 1000);
+
+    await store.consume('general:a', 1, 3, MINUTE);
+    await store.consume('general:a', 1, 3, MINUTE);
+
+    expect(primary.calls).toBe(2);
+    expect(await primary.consume('general:a', 0, 3, MINUTE)).toMatchObject({ used: 2 });
+  });
+
+  test('switches to the fallback store when the primary fails and skips it for a while', async () => {
+    const fallbacks = jest.spyOn(metricsService.rateLimitStoreFallbacksTotal, 'inc');
+    const primary = primaryStore();
+    const store = new FallbackRateLimitStore(primary, new MemoryRateLimitStore(), 30 * 1000);
+    primary.down = true;
+
+    expect(await store.consume('general:a', 1, 3, MINUTE)).toMatchObject({ allowed: true, used: 1 });
+    expect(await store.consume('general:a', 1, 3, MINUTE)).toMatchObject({ allowed: true, used: 2 });
+
+    expect(primary.calls).toBe(1);
+    expect(fallbacks).toHaveBeenCalledTimes(1);
+  });
+
+  test('tries the primary store again after the retry delay', async () => {
+    const primary = primaryStore();
+    const store = new FallbackRateLimitStore(primary, new MemoryRateLimitStore(), 30 * 1000);
+    primary.down = true;
+    await store.consume('general:a', 1, 3, MINUTE);
+    primary.down = false;
+
+    jest.advanceTimersByTime(29 * 1000);
+    await store.consume('general:a', 1, 3, MINUTE);
+    expect(primary.calls).toBe(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(await store.consume('general:a', 1, 3, MINUTE)).toMatchObject({ used: 1 });
+    await store.consume('general:a', 1, 3, MINUTE);
+    expect(primary.calls).toBe(3);
+  });
+
+  test('prunes only the fallback store while the primary is skipped', async () => {
+    const primary = primaryStore();
+    const store = new FallbackRateLimitStore(primary, new MemoryRateLimitStore(), 30 * 1000);
+    primary.down = true;
+    await store.consume('general:a', 1, 3, MINUTE);
+    jest.advanceTimersByTime(20 * 1000);
+
+    await store.prune();
+    expect(primary.prune).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10 * 1000);
+    await store.prune();
+    expect(primary.prune).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,296 @@
+// Read when RetentionService loads, so it is imported in beforeAll
+process.env.RETENTION_BATCH_SIZE = '2';
+process.env.RETENTION_MAX_AGE_DAYS = '30';
+process.env.RETENTION_MAX_ROWS = '3';
+process.env.RETENTION_REQUEST_IP_MAX_AGE_DAYS = '7';
+process.env.RETENTION_INTERVAL_MS = '0';
+
+type Service = typeof import('../src/services/RetentionService');
+type Rollups = typeof import('../src/services/StatsRollupService');
+
+interface Statement {
+  sql: string;
+  values: unknown[];
+  inTransaction: boolean;
+}
+
+// History rows and every raw statement, standing in for the database
+const mockDb = {
+  rows: [] as any[],
+  statements: [] as Statement[],
+  runs: [] as any[],
+  scrubbedTopLists: [] as string[],
+};
+
+// The subset of Prisma filters the retention queries use
+const mockMatches = (row: any, where: any = {}): boolean => Object.entries(where).every(([field, condition]: [string, any]) => {
+  if (field === 'AND') {
+    return condition.every((part: any) => mockMatches(row, part));
+  }
+  if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+    return row[field] === condition;
+  }
+  return Object.entries(condition).every(([op, value]: [string, any]) => {
+    switch (op) {
+      case 'in': return value.includes(row[field]);
+      case 'notIn': return !value.includes(row[field]);
+      case 'not': return row[field] !== value;
+      case 'lt': return row[field] < value;
+      case 'gte': return row[field] >= value;
+      default: throw new Error(`Unsupported filter ${op}`);
+    }
+  });
+});
+
+jest.mock('../src/services/Database', () => {
+  const { Prisma } = jest.requireActual('@prisma/client');
+
+  const raw = (inTransaction: boolean) => async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const statement = Prisma.sql(strings, ...values);
+    mockDb.statements.push({ sql: statement.sql, values: statement.values, inTransaction });
+
+    if (statement.sql.includes('DELETE FROM "public"."ReversedIP"')) {
+      const deleted = mockDb.rows.filter((row) => statement.values.includes(row.id));
+      mockDb.rows = mockDb.rows.filter((row) => !deleted.includes(row));
+      return deleted;
+    }
+    return [];
+  };
+
+  const reversedIP = {
+    count: async ({ where }: any = {}) => mockDb.rows.filter((row) => mockMatches(row, where)).length,
+    findMany: async ({ where, take }: any) => mockDb.rows
+      .filter((row) => mockMatches(row, where))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))
+      .slice(0, take),
+    updateMany: async ({ where, data }: any) => {
+      const matched = mockDb.rows.filter((row) => mockMatches(row, where));
+      matched.forEach((row) => Object.assign(row, data));
+      return { count: matched.length };
+    },
+  };
+
+  const run = (data: any) => {
+    const existing = mockDb.runs.find((item) => item.id === data.id);
+    return Object.assign(existing ?? mockDb.runs[mockDb.runs.push({ trigger: 'manual', status: 'running', startedAt: new Date(), finishedAt: null }) - 1], data);
+  };
+
+  const client = {
+    reversedIP,
+    retentionRun: {
+      update: async ({ where, data }: any) => run({ ...data, id: where.id }),
+    },
+    dailyStats: {
+      updateMany: async () => {
+        mockDb.scrubbedTopLists.push('DailyStats');
+        return { count: 0 };
+      },
+    },
+    purgedDailyStats: {
+      updateMany: async () => {
+        mockDb.scrubbedTopLists.push('PurgedDailyStats');
+        return { count: 0 };
+      },
+    },
+    $queryRaw: raw(false),
+    $executeRaw: raw(false),
+  };
+
+  return {
+    prisma: {
+      ...client,
+      $transaction: async (fn: (tx: any) => Promise<unknown>) => fn({ ...client, $queryRaw: raw(true), $executeRaw: raw(true) }),
+    },
+  };
+});
+
+let retentionService: Service['retentionService'];
+let statsRollupService: Rollups['statsRollupService'];
+
+beforeAll(async () => {
+  ({ retentionService } = await import('../src/services/RetentionService'));
+  ({ statsRollupService } = await import('../src/services/StatsRollupService'));
+});
+
+const row = (id: string, requestIP: string, createdAt: string): any => ({
+  id,
+  originalIP: '10.0.0.1',
+  requestIP,
+  requestIPHex: 'hex',
+  requestCountry: 'DE',
+  requestAsn: 64500,
+  userAgent: 'jest',
+  createdAt: new Date(createdAt),
+  deletedAt: null,
+});
+
+const statementsLike = (fragment: string): Statement[] => mockDb.statements.filter((s) => s.sql.includes(fragment));
+
+beforeEach(() => {
+  mockDb.rows = [];
+  mockDb.statements = [];
+  mockDb.runs = [];
+  mockDb.scrubbedTopLists = [];
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('RetentionService purge', () => {
+  const now = new Date('2025-10-31T12:00:00Z');
+
+  beforeEach(() => {
+    mockDb.rows = [
+      row('old-1', '198.51.100.7', '2025-09-01T10:00:00Z'),
+      { ...row('old-2', '198.51.100.7', '2025-09-02T10:00:00Z'), deletedAt: new Date('2025-09-03T00:00:00Z') },
+      row('old-3', '198.51.100.8', '2025-09-03T10:00:00Z'),
+      row('week-1', '198.51.100.7', '2025-10-10T10:00:00Z'),
+      row('week-2', '198.51.100.8', '2025-10-11T10:00:00Z'),
+      row('new-1', '198.51.100.7', '2025-10-29T10:00:00Z'),
+      row('new-2', 'redacted', '2025-10-30T10:00:00Z'),
+      row('new-3', '198.51.100.9', '2025-10-31T10:00:00Z'),
+    ];
+  });
+
+  test('a dry run counts each rule on its own and changes nothing', async () => {
+    const counts = await retentionService.preview(now);
+
+    expect(counts).toEqual({
+      deletedByAge: 3,
+      // 8 rows, 3 of them too old, 3 allowed
+      deletedByCount: 2,
+      // Rows the age rule deletes anyway and redacted ones aren't counted
+      scrubbedRequestIPs: 2,
+      scrubbedUserAgents: 0,
+    });
+    expect(mockDb.rows).toHaveLength(8);
+    expect(mockDb.statements).toHaveLength(0);
+  });
+
+  test('deletes by age, then the oldest rows over the limit, then scrubs request IPs', async () => {
+    const run = await retentionService.executeRun('run-1', now);
+
+    expect(run).toMatchObject({
+      id: 'run-1',
+      status: 'completed',
+      deletedByAge: 3,
+      deletedByCount: 2,
+      scrubbedRequestIPs: 0,
+      scrubbedUserAgents: 0,
+    });
+    expect(mockDb.rows.map((r) => r.id)).toEqual(['new-1', 'new-2', 'new-3']);
+    expect(mockDb.scrubbedTopLists).toEqual(['DailyStats', 'PurgedDailyStats']);
+  });
+
+  test('counts deleted rows as purged, except the ones already soft-deleted', async () => {
+    const recordPurged = jest.spyOn(statsRollupService, 'recordPurged');
+
+    await retentionService.executeRun('run-1', now);
+
+    const purged = recordPurged.mock.calls.flatMap(([, rows]) => rows.map((r: any) => r.id));
+    expect(purged).toEqual(['old-1', 'old-3', 'week-1', 'week-2']);
+  });
+
+  test('takes the deleted rows out of their summaries', async () => {
+    const removeHits = jest.spyOn((await import('../src/services/SummaryService')).summaryService, 'removeHits');
+
+    await retentionService.executeRun('run-1', now);
+
+    const removed = removeHits.mock.calls.map(([, counts]) => Object.fromEntries(counts));
+    expect(removed).toEqual([{ '10.0.0.1': 1 }, { '10.0.0.1': 1 }, { '10.0.0.1': 2 }]);
+  });
+
+  test('records a failed run with its progress', async () => {
+    jest.spyOn(statsRollupService, 'recordPurged').mockRejectedValueOnce(new Error('connection lost'));
+
+    const run = await retentionService.executeRun('run-1', now);
+
+    expect(run).toMatchObject({ status: 'failed', error: 'connection lost', deletedByAge: 0 });
+    expect(run?.finishedAt).not.toBeNull();
+  });
+});
+
+describe('RetentionService.eraseRequester', () => {
+  beforeEach(() => {
+    mockDb.rows = [
+      row('a', '198.51.100.7', '2025-10-01T10:00:00Z'),
+      row('b', '198.51.100.8', '2025-10-01T11:00:00Z'),
+      row('c', '198.51.100.7', '2025-10-01T12:00:00Z'),
+      row('d', '198.51.100.7', '2025-10-01T13:00:00Z'),
+    ];
+  });
+
+  test('redacts every row of the requester and nothing else', async () => {
+    const rows = await retentionService.eraseRequester('198.51.100.7', 'redact');
+
+    expect(rows).toBe(3);
+    expect(mockDb.rows.filter((r) => r.requestIP === 'redacted').map((r) => r.id)).toEqual(['a', 'c', 'd']);
+    expect(mockDb.rows.find((r) => r.id === 'a')).toMatchObject({
+      requestIPHex: null,
+      requestCountry: null,
+      requestAsn: null,
+      userAgent: null,
+    });
+    expect(mockDb.rows.find((r) => r.id === 'b')).toMatchObject({ requestIP: '198.51.100.8', userAgent: 'jest' });
+  });
+
+  test('deletes every row of the requester', async () => {
+    const rows = await retentionService.eraseRequester('198.51.100.7', 'delete');
+
+    expect(rows).toBe(3);
+    expect(mockDb.rows.map((r) => r.id)).toEqual(['b']);
+  });
+
+  test('drops the requester from the top lists and stored idempotent responses in one transaction', async () => {
+    await retentionService.eraseRequester('198.51.100.7', 'redact');
+
+    const [topLists] = statementsLike('UPDATE "public"."DailyStats"');
+    const [idempotency] = statementsLike('DELETE FROM "public"."IdempotencyKey"');
+    expect(topLists).toMatchObject({ inTransaction: true });
+    expect(topLists.values).toContainEqual(['198.51.100.7']);
+    expect(idempotency).toMatchObject({ inTransaction: true });
+    expect(idempotency.sql).toContain('$.**.requestIP');
+    expect(idempotency.values).toEqual([['198.51.100.7']]);
+  });
+});
+
+describe('RetentionService.configErrors', () => {
+  // RETENTION_* is read when RetentionService loads, so each test loads its own copy
+  const load = async (env: Record<string, string>) => {
+    const previous = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+      let service!: Service['retentionService'];
+      await jest.isolateModulesAsync(async () => {
+        ({ retentionService: service } = await import('../src/services/RetentionService'));
+      });
+      return service;
+    } finally {
+      process.env = previous;
+    }
+  };
+
+  test('accepts the configured settings', async () => {
+    expect((await load({ RETENTION_USER_AGENT_MAX_AGE_DAYS: '0' })).configErrors()).toEqual([]);
+  });
+
+  test('reports settings that are not whole numbers and falls back to the defaults', async () => {
+    const service = await load({
+      RETENTION_BATCH_SIZE: '0',
+      RETENTION_INTERVAL_MS: '1h',
+      RETENTION_RUN_STALE_MS: '-1',
+      RETENTION_MAX_AGE_DAYS: 'thirty',
+      RETENTION_MAX_ROWS: '1e6',
+    });
+
+    expect(service.configErrors()).toEqual([
+      'RETENTION_RUN_STALE_MS must be a positive integer',
+      'RETENTION_MAX_AGE_DAYS must be a non-negative integer',
+      'RETENTION_MAX_ROWS must be a non-negative integer',
+      'RETENTION_BATCH_SIZE must be a positive integer',
+      'RETENTION_INTERVAL_MS must be a non-negative integer',
+    ]);
+    expect(service.getPolicy()).toMatchObject({ maxAgeDays: null, maxRows: null, batchSize: 1000, intervalMs: 60 * 60 * 1000 });
+  });
+});
@@ -0,0 +1,142 @@
+import { schema } from '../src/utils/Schema';
+import { historyQuerySchema, reverseIPBodySchema, searchQuerySchema, timeSeriesQuerySchema } from '../src/schemas/IpSchemas';
+import { validationError } from '../src/middleware/ValidationMiddleware';
+
+describe('schema', () => {
+  test('reports every problem with the path of its field', () => {
+    const body = schema.object({
+      name: schema.string({ max: 5 }),
+      tags: schema.array(schema.string()),
+      limit: schema.int({ min: 1 }).optional(),
+    });
+
+    const result = body.parse({ name: 'too long', tags: ['ok', 3], limit: 0, extra: true }, 'body');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues).toEqual([
+      { path: 'extra', code: 'UNKNOWN_FIELD', message: 'extra is not a known field' },
+      { path: 'name', code: 'TOO_LONG', message: 'name must be at most 5 characters' },
+      { path: 'tags[1]', code: 'INVALID_TYPE', message: 'tags[1] must be a string' },
+      { path: 'limit', code: 'TOO_SMALL', message: 'limit must be at least 1' },
+    ]);
+  });
+
+  test('names the value itself after the root', () => {
+    const result = schema.object({}).parse('nope', 'body');
+    expect(!result.success && result.issues[0].message).toBe('body must be an object');
+  });
+
+  test('coerces query strings only when asked to', () => {
+    expect(schema.int({ coerce: true }).parse('42')).toEqual({ success: true, data: 42 });
+    expect(schema.int().parse('42').success).toBe(false);
+    expect(schema.int({ coerce: true }).parse('4.2').success).toBe(false);
+    expect(schema.boolean({ coerce: true }).parse('false')).toEqual({ success: true, data: false });
+    expect(schema.boolean().parse('true').success).toBe(false);
+  });
+
+  test('leaves absent fields out and applies defaults', () => {
+    const query = schema.object({ a: schema.string().optional(), b: schema.int().default(10) });
+    const result = query.parse({});
+
+    expect(result.success && Object.keys(result.data)).toEqual(['b']);
+    expect(result.success && result.data.b).toBe(10);
+  });
+
+  test('invalid() and missing() set the codes while refine() codes are kept', () => {
+    const ip = schema.string()
+      .refine((value) => value.includes('.'), 'INVALID_IP', 'not an IP')
+      .invalid('BAD_IP', 'bad')
+      .missing('MISSING_IP', 'missing');
+
+    expect((ip.parse(1) as any).issues[0].code).toBe('BAD_IP');
+    expect((ip.parse('x') as any).issues[0].code).toBe('INVALID_IP');
+    expect((ip.parse(undefined) as any).issues[0].code).toBe('MISSING_IP');
+  });
+
+  test('lists are split, trimmed and deduplicated', () => {
+    const list = schema.list(schema.enum(['a', 'b'] as const, { ignoreCase: true }));
+
+    expect(list.parse(' A, b,a ,')).toEqual({ success: true, data: ['a', 'b'] });
+    expect(list.parse(',').success).toBe(false);
+    expect((list.parse('a,c') as any).issues[0].path).toBe('[1]');
+  });
+});
+
+describe('request schemas', () => {
+  test('reject an IP that is not a string instead of crashing', () => {
+    const result = reverseIPBodySchema.parse({ ip: 123 }, 'body');
+    expect(!result.success && result.issues[0].code).toBe('INVALID_IP');
+  });
+
+  test('default the reverse format', () => {
+    expect(reverseIPBodySchema.parse({ ip: '10.0.0.1' })).toEqual({ success: true, data: { ip: '10.0.0.1', format: 'octets' } });
+  });
+
+  test('reject a limit that is not a number instead of falling back to 10', () => {
+    const result = historyQuerySchema.parse({ limit: 'abc' }, 'query');
+    expect(!result.success && result.issues[0]).toMatchObject({ path: 'limit', code: 'INVALID_PAGINATION' });
+  });
+
+  test('cap the page size', () => {
+    expect(historyQuerySchema.parse({ limit: '500' })).toEqual({ success: true, data: { limit: 100 } });
+  });
+
+  test('parse search filters into their typed form', () => {
+    const result = searchQuerySchema.parse({
+      q: ' 10.0 ',
+      family: 'ipv6',
+      country: 'de,DE,us',
+      asn: 'AS13335,15169',
+      tag: 'Prod, staging',
+      from: '2025-01-01',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        q: '10.0',
+        family: 'IPv6',
+        country: ['DE', 'US'],
+        asn: [13335, 15169],
+        tag: ['prod', 'staging'],
+        from: new Date('2025-01-01'),
+        limit: 10,
+      },
+    });
+  });
+
+  test('check fields against each other', () => {
+    const result = searchQuerySchema.parse({ q: 'x', from: '2025-02-01', to: '2025-01-01' });
+    expect(!result.success && result.issues[0]).toMatchObject({ path: 'from', code: 'INVALID_DATE_RANGE' });
+  });
+
+  test('default the time series range and check its size', () => {
+    const result = timeSeriesQuerySchema.parse({ interval: 'hour', to: '2025-01-02T00:00:00Z' });
+    expect(result.success && result.data.from).toEqual(new Date('2025-01-01T00:00:00Z'));
+
+    const reversed = timeSeriesQuerySchema.parse({ from: '2025-01-02', to: '2025-01-01' });
+    expect(!reversed.success && reversed.issues[0]).toMatchObject({ path: 'from', code: 'INVALID_DATE_RANGE' });
+
+    const tooLarge = timeSeriesQuerySchema.parse({ interval: 'hour', from: '2024-01-01', to: '2025-01-01' });
+    expect(!tooLarge.success && tooLarge.issues[0]).toMatchObject({ path: 'from', code: 'TOO_MANY_BUCKETS' });
+  });
+});
+
+describe('validationError', () => {
+  test('keeps the code the issues share', () => {
+    const error = validationError([{ location: 'body', field: 'ip', code: 'INVALID_IP', message: 'Invalid IP' }]);
+
+    expect(error).toMatchObject({ status: 400, code: 'INVALID_IP', message: 'Invalid IP' });
+    expect(error.details.fields).toHaveLength(1);
+  });
+
+  test('falls back to VALIDATION_ERROR for mixed problems', () => {
+    const error = validationError([
+      { location: 'query', field: 'limit', code: 'INVALID_PAGINATION', message: 'limit must be a positive integer' },
+      { location: 'query', field: 'tz', code: 'INVALID_TIMEZONE', message: 'tz must be an IANA time zone name' },
+    ]);
+
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.message).toBe('Request validation failed (2 problems)');
+  });
+});
@@ -0,0 +1,729 @@
+import { Prisma } from '@prisma/client';
+import { timeSeriesQuerySchema } from '../src/schemas/IpSchemas';
+import { ipService } from '../src/services/IpService';
+import { StatsRollupService, statsRollupService } from '../src/services/StatsRollupService';
+import type { PurgedRow } from '../src/services/StatsRollupService';
+
+// History rows, rollups and purged counts, standing in for the database
+const mockDb = {
+  rows: [] as any[],
+  firstSeen: [] as { ip: string; firstSeenAt: Date }[],
+  daily: new Map<number, any>(),
+  purged: new Map<number, any>(),
+  statements: [] as Prisma.Sql[],
+};
+
+const mockInRange = (date: Date, range: any = {}): boolean =>
+  (!range.gte || date >= range.gte) && (!range.lt || date < range.lt);
+
+const mockEmptyPurged = (day: Date) => ({
+  day,
+  totalEntries: 0,
+  uniqueIPs: 0,
+  ipv4Entries: 0,
+  ipv6Entries: 0,
+  topRequestIPs: [],
+  classEntries: {},
+  countryEntries: {},
+  topAsns: [],
+  updatedAt: day,
+});
+
+jest.mock('../src/services/Database', () => {
+  const { Prisma } = jest.requireActual('@prisma/client');
+  const byDay = (a: any, b: any) => a.day.getTime() - b.day.getTime();
+
+  const $queryRaw = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const statement = Prisma.sql(strings, ...values);
+    mockDb.statements.push(statement);
+
+    // The live buckets of getTimeSeries, computed in UTC: every hour or day of the range, empty ones included
+    if (statement.sql.includes('generate_series')) {
+      const bucketMs = statement.values[0] === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+      const [from, to] = statement.values.filter((value: unknown) => value instanceof Date) as Date[];
+      const bucketOf = (date: Date) => Math.floor(date.getTime() / bucketMs) * bucketMs;
+      const buckets = [];
+      for (let start = bucketOf(from); start <= bucketOf(new Date(to.getTime() - 1)); start += bucketMs) {
+        const rows = mockDb.rows.filter((row) =>
+          !row.deletedAt && mockInRange(row.createdAt, { gte: from, lt: to }) && bucketOf(row.createdAt) === start);
+        buckets.push({
+          start: new Date(start),
+          total: rows.length,
+          ipv4: rows.filter((row) => row.family === 'IPv4').length,
+          ipv6: rows.filter((row) => row.family === 'IPv6').length,
+          uniqueIPs: new Set(rows.map((row) => row.originalIP)).size,
+        });
+      }
+      return buckets;
+    }
+    // The day counts of rollupDay; its first two dates are the day's bounds
+    if (statement.sql.includes('AS "totalEntries"')) {
+      const [start, end] = statement.values.filter((value: unknown) => value instanceof Date);
+      const rows = mockDb.rows.filter((row) => !row.deletedAt && mockInRange(row.createdAt, { gte: start, lt: end }));
+      return [{
+        totalEntries: rows.length,
+        uniqueIPs: new Set(rows.map((row) => row.originalIP)).size,
+        newUniqueIPs: mockDb.firstSeen.filter((item) => mockInRange(item.firstSeenAt, { gte: start, lt: end })).length,
+        ipv4Entries: rows.filter((row) => row.family === 'IPv4').length,
+        ipv6Entries: rows.filter((row) => row.family === 'IPv6').length,
+      }];
+    }
+    // The original IPs left on the purged days
+    if (statement.sql.includes('SELECT DISTINCT date_trunc')) {
+      return mockDb.rows
+        .filter((row) => !row.deletedAt && statement.values.includes(row.originalIP))
+        .map((row) => ({
+          day: new Date(Date.UTC(row.createdAt.getUTCFullYear(), row.createdAt.getUTCMonth(), row.createdAt.getUTCDate())),
+          originalIP: row.originalIP,
+        }));
+    }
+    // Today's entries of getStats
+    if (statement.sql.includes('AS "count"')) {
+      const today = new Date(Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth(), new Date().getUTCDate()));
+      return [{ count: mockDb.rows.filter((row) => !row.deletedAt && row.createdAt >= today).length }];
+    }
+    if (statement.sql.includes('FOR UPDATE')) {
+      return [...mockDb.purged.values()]
+        .filter((row) => statement.values.includes(row.day.toISOString().substring(0, 10)))
+        .sort(byDay);
+    }
+    return [];
+  };
+
+  const $executeRaw = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const statement = Prisma.sql(strings, ...values);
+    mockDb.statements.push(statement);
+
+    if (statement.sql.includes('INSERT INTO "public"."PurgedDailyStats"')) {
+      for (const value of statement.values as string[]) {
+        const day = new Date(`${value}T00:00:00Z`);
+        if (!mockDb.purged.has(day.getTime())) {
+          mockDb.purged.set(day.getTime(), mockEmptyPurged(day));
+        }
+      }
+    }
+    // The new counts of a purged day (forgetRequestIPs updates the table too)
+    if (statement.sql.includes('UPDATE "public"."PurgedDailyStats"') && statement.sql.includes('"totalEntries" = ?')) {
+      const [totalEntries, uniqueIPs, ipv4Entries, ipv6Entries, topRequestIPs, classEntries, countryEntries, topAsns, , day] =
+        statement.values as any[];
+      Object.assign(mockDb.purged.get(new Date(`${day}T00:00:00Z`).getTime()), {
+        totalEntries,
+        uniqueIPs,
+        ipv4Entries,
+        ipv6Entries,
+        topRequestIPs: JSON.parse(topRequestIPs),
+        classEntries: JSON.parse(classEntries),
+        countryEntries: JSON.parse(countryEntries),
+        topAsns: JSON.parse(topAsns),
+      });
+    }
+    return 0;
+  };
+
+  // Counts the live rows of a day per value of one field, like the groupBy queries of rollupDay
+  const groupBy = async ({ by: [field], where }: any) => {
+    const counts = new Map<unknown, { count: number; asOrg: string | null }>();
+    for (const row of mockDb.rows) {
+      if (row.deletedAt || !mockInRange(row.createdAt, where.createdAt) || row[field] === null) {
+        continue;
+      }
+      if (field === 'requestIP' && where.requestIP.notIn.includes(row.requestIP)) {
+        continue;
+      }
+      const previous = counts.get(row[field]);
+      counts.set(row[field], { count: (previous?.count ?? 0) + 1, asOrg: row.asOrg ?? previous?.asOrg ?? null });
+    }
+    return [...counts].map(([value, { count, asOrg }]) => ({
+      [field]: value,
+      _count: { _all: count, requestIP: count },
+      _max: { asOrg },
+    }));
+  };
+
+  const dailyRows = () => [...mockDb.daily.values()].sort(byDay);
+
+  const client = {
+    $queryRaw,
+    $executeRaw,
+    reversedIP: {
+      groupBy,
+      count: async ({ where }: any) =>
+        mockDb.rows.filter((row) => !row.deletedAt && mockInRange(row.createdAt, where.createdAt)).length,
+      findUnique: async ({ where }: any) => mockDb.rows.find((row) => row.id === where.id) ?? null,
+      updateMany: async ({ where, data }: any) => {
+        const matched = mockDb.rows.filter((row) => row.id === where.id && row.deletedAt === where.deletedAt);
+        matched.forEach((row) => Object.assign(row, data));
+        return { count: matched.length };
+      },
+      deleteMany: async ({ where }: any) => {
+        const matched = mockDb.rows.filter((row) => row.id === where.id && row.deletedAt === where.deletedAt);
+        mockDb.rows = mockDb.rows.filter((row) => !matched.includes(row));
+        return { count: matched.length };
+      },
+      findFirst: async () => {
+        const [first] = [...mockDb.rows].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        return first ? { createdAt: first.createdAt } : null;
+      },
+    },
+    firstSeenIP: {
+      groupBy: async () => [],
+      count: async ({ where }: any) => mockDb.firstSeen.filter((item) => mockInRange(item.firstSeenAt, where.firstSeenAt)).length,
+    },
+    retentionRun: {
+      aggregate: async () => ({ _sum: { deletedByAge: null, deletedByCount: null } }),
+    },
+    dailyStats: {
+      upsert: async ({ where, create }: any) => {
+        mockDb.daily.set(where.day.getTime(), create);
+        return create;
+      },
+      findFirst: async () => dailyRows().pop() ?? null,
+      findMany: async () => dailyRows(),
+      deleteMany: async ({ where }: any) => {
+        const deleted = dailyRows().filter((row) => mockInRange(row.day, where.day));
+        deleted.forEach((row) => mockDb.daily.delete(row.day.getTime()));
+        return { count: deleted.length };
+      },
+      aggregate: async () => {
+        const rows = dailyRows();
+        return {
+          _sum: {
+            totalEntries: rows.length ? rows.reduce((sum, row) => sum + row.totalEntries, 0) : null,
+            newUniqueIPs: rows.length ? rows.reduce((sum, row) => sum + row.newUniqueIPs, 0) : null,
+          },
+          _max: { day: rows.length ? rows[rows.length - 1].day : null },
+        };
+      },
+    },
+    purgedDailyStats: {
+      findUnique: async ({ where }: any) => mockDb.purged.get(where.day.getTime()) ?? null,
+      findFirst: async () => [...mockDb.purged.values()].sort(byDay)[0] ?? null,
+      findMany: async () => [...mockDb.purged.values()].sort(byDay),
+    },
+  };
+
+  return {
+    prisma: {
+      ...client,
+      $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(client),
+    },
+  };
+});
+
+const row = (originalIP: string, requestIP: string, createdAt: string, extra: Partial<PurgedRow> & { id?: string } = {}): any => ({
+  originalIP,
+  family: 'IPv4',
+  ipClass: null,
+  country: 'DE',
+  asn: 64500,
+  asOrg: 'Example',
+  requestIP,
+  createdAt: new Date(createdAt),
+  deletedAt: null,
+  ...extra,
+});
+
+// The mocked client, which recordPurged is handed as its transaction
+const tx = () => jest.requireMock('../src/services/Database').prisma;
+
+// Moves rows out of the history and counts them as purged, like a retention run
+const purge = async (service: StatsRollupService, purgedRows: any[]): Promise<void> => {
+  mockDb.rows = mockDb.rows.filter((item) => !purgedRows.includes(item));
+  await service.recordPurged(tx(), purgedRows);
+};
+
+const day = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+beforeEach(() => {
+  mockDb.rows = [];
+  mockDb.firstSeen = [];
+  mockDb.daily = new Map();
+  mockDb.purged = new Map();
+  mockDb.statements = [];
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('StatsRollupService.recordPurged', () => {
+  const service = new StatsRollupService();
+
+  test('adds the purged rows to the counts of their days', async () => {
+    const purged = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z', { ipClass: 'private' }),
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T11:00:00Z'),
+      row('2001:db8::1', 'unknown', '2025-10-02T10:00:00Z', { family: 'IPv6', country: null, asn: null }),
+    ];
+    mockDb.rows = [...purged];
+
+    await purge(service, purged);
+    await service.recordPurged(tx(), [row('10.0.0.2', '198.51.100.8', '2025-10-01T12:00:00Z')]);
+
+    expect(mockDb.purged.get(day('2025-10-01').getTime())).toMatchObject({
+      totalEntries: 3,
+      uniqueIPs: 2,
+      ipv4Entries: 3,
+      ipv6Entries: 0,
+      topRequestIPs: [{ ip: '198.51.100.7', count: 2 }, { ip: '198.51.100.8', count: 1 }],
+      classEntries: { private: 1 },
+      countryEntries: { DE: 3 },
+      topAsns: [{ asn: 64500, asOrg: 'Example', count: 3 }],
+    });
+    // Anonymous request IPs stay out of the top list
+    expect(mockDb.purged.get(day('2025-10-02').getTime())).toMatchObject({
+      totalEntries: 1,
+      uniqueIPs: 1,
+      ipv6Entries: 1,
+      topRequestIPs: [],
+      countryEntries: {},
+      topAsns: [],
+    });
+  });
+
+  test('keeps an original IP in the unique IPs of a day while rows of it are left', async () => {
+    const purged = row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z');
+    mockDb.rows = [purged, row('10.0.0.1', '198.51.100.8', '2025-10-01T11:00:00Z')];
+
+    await purge(service, [purged]);
+
+    expect(mockDb.purged.get(day('2025-10-01').getTime())).toMatchObject({ totalEntries: 1, uniqueIPs: 0 });
+  });
+
+  test('creates and locks the days in order', async () => {
+    await service.recordPurged(tx(), [
+      row('10.0.0.1', '198.51.100.7', '2025-10-03T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.7', '2025-10-01T10:00:00Z'),
+    ]);
+
+    const insert = mockDb.statements.find((statement) => statement.sql.includes('INSERT INTO'));
+    const lock = mockDb.statements.find((statement) => statement.sql.includes('FOR UPDATE'));
+    expect(insert?.values).toEqual(['2025-10-01', '2025-10-03']);
+    expect(lock?.values).toEqual(['2025-10-01', '2025-10-03']);
+  });
+
+  test('does nothing without rows', async () => {
+    await service.recordPurged(tx(), []);
+
+    expect(mockDb.statements).toHaveLength(0);
+  });
+});
+
+describe('StatsRollupService purged rows in rollups', () => {
+  const service = new StatsRollupService();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  test('rollupDay adds the rows purged from the day back', async () => {
+    const old = row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z');
+    mockDb.rows = [old, row('10.0.0.2', '198.51.100.7', '2025-10-01T11:00:00Z', { country: 'FR' })];
+    await purge(service, [old]);
+
+    await service.rollupDay(day('2025-10-01'));
+
+    expect(mockDb.daily.get(day('2025-10-01').getTime())).toMatchObject({
+      totalEntries: 2,
+      uniqueIPs: 2,
+      ipv4Entries: 2,
+      topRequestIPs: [{ ip: '198.51.100.7', count: 2 }],
+      countryEntries: { DE: 1, FR: 1 },
+      topAsns: [{ asn: 64500, asOrg: 'Example', count: 2 }],
+    });
+  });
+
+  test('a backfill keeps the purged rows, also of days with no rows left', async () => {
+    const purged = [
+      row('10.0.0.1', '198.51.100.7', '2025-09-30T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.7', '2025-10-02T10:00:00Z'),
+    ];
+    mockDb.rows = [...purged, row('10.0.0.3', '198.51.100.8', '2025-10-02T11:00:00Z')];
+    await purge(service, purged);
+
+    const written = await service.backfill();
+
+    expect(written).toBe(4);
+    expect([...mockDb.daily.values()].map((item) => [item.day.toISOString().substring(0, 10), item.totalEntries])).toEqual([
+      ['2025-09-30', 1],
+      ['2025-10-01', 0],
+      ['2025-10-02', 2],
+      ['2025-10-03', 0],
+    ]);
+  });
+
+  test('invalidating days keeps their purged rows for the next rollup', async () => {
+    const purged = row('10.0.0.1', '198.51.100.7', '2025-10-02T10:00:00Z');
+    mockDb.rows = [row('10.0.0.2', '198.51.100.7', '2025-10-01T10:00:00Z'), purged];
+    await service.rollupClosedDays();
+    await purge(service, [purged]);
+
+    await service.invalidateFrom(day('2025-10-02'));
+    await service.rollupClosedDays();
+
+    expect(mockDb.daily.get(day('2025-10-02').getTime())).toMatchObject({ totalEntries: 1 });
+  });
+
+  test('deleting an entry from a rolled-up day keeps the rows purged from it', async () => {
+    const purged = row('10.0.0.1', '198.51.100.7', '2025-10-01T09:00:00Z');
+    mockDb.rows = [
+      purged,
+      row('10.0.0.2', '198.51.100.7', '2025-10-01T10:00:00Z', { id: 'soft' }),
+      row('10.0.0.3', '198.51.100.8', '2025-10-01T11:00:00Z', { id: 'hard' }),
+      row('10.0.0.4', '198.51.100.8', '2025-10-01T12:00:00Z'),
+    ];
+    await purge(statsRollupService, [purged]);
+    await statsRollupService.rollupClosedDays();
+    expect(mockDb.daily.get(day('2025-10-01').getTime())).toMatchObject({ totalEntries: 4 });
+
+    await ipService.deleteEntry('soft');
+    await ipService.deleteEntry('hard', true);
+
+    // The purged row and the one row left; the deleted entries are gone from the stats
+    expect(mockDb.daily.get(day('2025-10-01').getTime())).toMatchObject({
+      totalEntries: 2,
+      uniqueIPs: 2,
+      topRequestIPs: [{ ip: '198.51.100.7', count: 1 }, { ip: '198.51.100.8', count: 1 }],
+      countryEntries: { DE: 2 },
+    });
+  });
+
+  test('getTotals adds the rows purged from days that are not rolled up yet', async () => {
+    const purged = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.8', '2025-10-03T10:00:00Z', { country: 'FR' }),
+    ];
+    mockDb.rows = [...purged];
+    await service.rollupDay(day('2025-10-01'));
+    await purge(service, purged);
+    await service.rollupDay(day('2025-10-01'));
+
+    const totals = await service.getTotals();
+
+    // 2025-10-01 is rolled up with its purged row, 2025-10-03 only counted as purged
+    expect(totals.coveredUntil).toEqual(day('2025-10-02'));
+    expect(totals.totalEntries).toBe(2);
+    expect(totals.topRequestIPs).toEqual(new Map([['198.51.100.7', 1], ['198.51.100.8', 1]]));
+    expect(totals.countryEntries).toEqual(new Map([['DE', 1], ['FR', 1]]));
+  });
+});
+
+describe('StatsRollupService.rollupDay', () => {
+  const service = new StatsRollupService();
+
+  test('counts the rows of the day that are not deleted', async () => {
+    mockDb.rows = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z', { ipClass: 'private' }),
+      row('10.0.0.1', 'unknown', '2025-10-01T11:00:00Z'),
+      row('2001:db8::1', '198.51.100.7', '2025-10-01T12:00:00Z', { family: 'IPv6', country: 'FR', asn: null }),
+      { ...row('10.0.0.2', '198.51.100.8', '2025-10-01T13:00:00Z'), deletedAt: new Date('2025-10-02T00:00:00Z') },
+      row('10.0.0.3', '198.51.100.8', '2025-10-02T00:00:00Z'),
+    ];
+    mockDb.firstSeen = [
+      { ip: '10.0.0.1', firstSeenAt: new Date('2025-09-30T10:00:00Z') },
+      { ip: '2001:db8::1', firstSeenAt: new Date('2025-10-01T12:00:00Z') },
+    ];
+
+    await service.rollupDay(new Date('2025-10-01T18:00:00Z'));
+
+    expect(mockDb.daily.get(day('2025-10-01').getTime())).toEqual({
+      day: day('2025-10-01'),
+      totalEntries: 3,
+      uniqueIPs: 2,
+      newUniqueIPs: 1,
+      ipv4Entries: 2,
+      ipv6Entries: 1,
+      // Anonymous request IPs stay out of the top list
+      topRequestIPs: [{ ip: '198.51.100.7', count: 2 }],
+      classEntries: { private: 1 },
+      classNewUniqueIPs: {},
+      countryEntries: { DE: 2, FR: 1 },
+      topAsns: [{ asn: 64500, asOrg: 'Example', count: 2 }],
+    });
+  });
+
+  test('replaces the rollup of the day', async () => {
+    mockDb.rows = [row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z')];
+    await service.rollupDay(day('2025-10-01'));
+    mockDb.rows = [];
+
+    await service.rollupDay(day('2025-10-01'));
+
+    expect(mockDb.daily.size).toBe(1);
+    expect(mockDb.daily.get(day('2025-10-01').getTime())).toMatchObject({ totalEntries: 0, topRequestIPs: [] });
+  });
+});
+
+describe('StatsRollupService.rollupClosedDays', () => {
+  const service = new StatsRollupService();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  const rolledUpDays = () => [...mockDb.daily.values()].map((item) => item.day.toISOString().substring(0, 10));
+
+  test('rolls up every day from the first row up to yesterday, empty days included', async () => {
+    mockDb.rows = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.7', '2025-10-03T10:00:00Z'),
+      row('10.0.0.3', '198.51.100.7', '2025-10-04T10:00:00Z'),
+    ];
+
+    expect(await service.rollupClosedDays()).toBe(3);
+    expect(rolledUpDays()).toEqual(['2025-10-01', '2025-10-02', '2025-10-03']);
+    expect(await service.coveredUntil()).toEqual(day('2025-10-04'));
+  });
+
+  test('continues after the last rolled-up day', async () => {
+    mockDb.rows = [row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z')];
+    await service.rollupDay(day('2025-10-02'));
+
+    expect(await service.rollupClosedDays()).toBe(1);
+    expect(rolledUpDays()).toEqual(['2025-10-02', '2025-10-03']);
+  });
+
+  test('does nothing without history', async () => {
+    expect(await service.rollupClosedDays()).toBe(0);
+    expect(await service.coveredUntil()).toBeNull();
+  });
+});
+
+describe('StatsRollupService.refreshDay', () => {
+  const service = new StatsRollupService();
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  test('rolls up a day again only if it is already rolled up', async () => {
+    mockDb.rows = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-02T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.7', '2025-10-02T11:00:00Z'),
+    ];
+    await service.rollupDay(day('2025-10-02'));
+    mockDb.rows.pop();
+
+    await service.refreshDay(new Date('2025-10-02T11:00:00Z'));
+    await service.refreshDay(new Date('2025-10-03T11:00:00Z'));
+
+    expect(mockDb.daily.get(day('2025-10-02').getTime())).toMatchObject({ totalEntries: 1 });
+    expect(mockDb.daily.has(day('2025-10-03').getTime())).toBe(false);
+  });
+
+  test('leaves days alone while nothing is rolled up', async () => {
+    mockDb.rows = [row('10.0.0.1', '198.51.100.7', '2025-10-02T10:00:00Z')];
+
+    await service.refreshDay(new Date('2025-10-02T10:00:00Z'));
+
+    expect(mockDb.daily.size).toBe(0);
+  });
+});
+
+describe('StatsRollupService.forgetRequestIPs', () => {
+  const service = new StatsRollupService();
+
+  test('removes the request IPs from the top lists of the rollups and the purged rows', async () => {
+    await service.forgetRequestIPs(tx(), ['198.51.100.7']);
+
+    const [rollups, purged] = mockDb.statements;
+    expect(rollups.sql).toContain('UPDATE "public"."DailyStats"');
+    expect(purged.sql).toContain('UPDATE "public"."PurgedDailyStats"');
+    for (const statement of [rollups, purged]) {
+      expect(statement.sql).toContain("t.item->>'ip' = ANY(?)");
+      expect(statement.values).toEqual([['198.51.100.7'], ['198.51.100.7']]);
+    }
+  });
+
+  test('does nothing without request IPs', async () => {
+    await service.forgetRequestIPs(tx(), []);
+
+    expect(mockDb.statements).toHaveLength(0);
+  });
+});
+
+describe('IpService.getStats', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  test('adds the rows after the rolled-up days to the rollups', async () => {
+    const purged = row('10.0.0.9', '198.51.100.9', '2025-10-01T08:00:00Z');
+    mockDb.rows = [
+      purged,
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.8', '2025-10-02T10:00:00Z', { country: 'FR' }),
+      row('10.0.0.1', '198.51.100.7', '2025-10-03T10:00:00Z'),
+      row('10.0.0.3', '198.51.100.7', '2025-10-04T10:00:00Z', { country: null, asn: null }),
+    ];
+    mockDb.firstSeen = [
+      { ip: '10.0.0.9', firstSeenAt: new Date('2025-10-01T08:00:00Z') },
+      { ip: '10.0.0.1', firstSeenAt: new Date('2025-10-01T10:00:00Z') },
+      { ip: '10.0.0.2', firstSeenAt: new Date('2025-10-02T10:00:00Z') },
+      { ip: '10.0.0.3', firstSeenAt: new Date('2025-10-04T10:00:00Z') },
+    ];
+    await purge(statsRollupService, [purged]);
+    // Rolled up until 2025-10-02; the rows from 2025-10-03 on are counted live
+    await statsRollupService.rollupDay(day('2025-10-01'));
+    await statsRollupService.rollupDay(day('2025-10-02'));
+
+    const stats = await ipService.getStats();
+
+    expect(stats).toMatchObject({
+      ipClass: null,
+      totalEntries: 5,
+      uniqueIPs: 4,
+      todayEntries: 1,
+      topRequestIPs: [
+        { ip: '198.51.100.7', count: 3 },
+        { ip: '198.51.100.9', count: 1 },
+        { ip: '198.51.100.8', count: 1 },
+      ],
+      topCountries: [{ country: 'DE', count: 3 }, { country: 'FR', count: 1 }],
+      topAsns: [{ asn: 64500, asOrg: 'Example', count: 4 }],
+    });
+  });
+
+  test('counts everything live while nothing is rolled up', async () => {
+    mockDb.rows = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z'),
+      { ...row('10.0.0.2', '198.51.100.7', '2025-10-02T10:00:00Z'), deletedAt: new Date('2025-10-03T00:00:00Z') },
+    ];
+    mockDb.firstSeen = [{ ip: '10.0.0.1', firstSeenAt: new Date('2025-10-01T10:00:00Z') }];
+
+    const stats = await ipService.getStats();
+
+    expect(stats).toMatchObject({ totalEntries: 1, uniqueIPs: 1, topRequestIPs: [{ ip: '198.51.100.7', count: 1 }] });
+  });
+});
+
+describe('IpService.getTimeSeries', () => {
+  const bucket = (start: string, total = 0, uniqueIPs = total) => ({ start, total, ipv4: total, ipv6: 0, uniqueIPs });
+
+  // The from/to bounds of each live time series query
+  const liveRanges = () => mockDb.statements
+    .filter((statement) => statement.sql.includes('generate_series'))
+    .map((statement) => statement.values.filter((value) => value instanceof Date).slice(0, 2).map((date) => (date as Date).toISOString()));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  test('puts rows into buckets from the start of their hour, up to but excluding `to`', async () => {
+    mockDb.rows = [
+      row('10.0.0.1', '198.51.100.7', '2025-10-03T10:15:00Z'),
+      row('10.0.0.1', '198.51.100.7', '2025-10-03T10:30:00Z'),
+      row('10.0.0.2', '198.51.100.7', '2025-10-03T10:59:59.999Z'),
+      row('10.0.0.3', '198.51.100.7', '2025-10-03T12:59:59.999Z'),
+      row('10.0.0.4', '198.51.100.7', '2025-10-03T13:00:00Z'),
+    ];
+
+    const series = await ipService.getTimeSeries({
+      interval: 'hour',
+      from: new Date('2025-10-03T10:30:00Z'),
+      to: new Date('2025-10-03T13:00:00Z'),
+    });
+
+    expect(series).toEqual({
+      interval: 'hour',
+      tz: 'UTC',
+      from: '2025-10-03T10:30:00.000Z',
+      to: '2025-10-03T13:00:00.000Z',
+      buckets: [
+        bucket('2025-10-03T10:00:00.000Z', 2),
+        bucket('2025-10-03T11:00:00.000Z'),
+        bucket('2025-10-03T12:00:00.000Z', 1),
+      ],
+    });
+  });
+
+  test('reads whole rolled-up days from the rollups and the partial days around them live', async () => {
+    mockDb.rows = [
+      row('10.0.0.1', '198.51.100.7', '2025-09-30T10:00:00Z'),
+      row('10.0.0.1', '198.51.100.7', '2025-09-30T14:00:00Z'),
+      row('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z'),
+      row('10.0.0.2', '198.51.100.7', '2025-10-01T11:00:00Z'),
+      { ...row('10.0.0.3', '198.51.100.7', '2025-10-01T12:00:00Z'), deletedAt: new Date('2025-10-01T13:00:00Z') },
+      row('10.0.0.4', '198.51.100.7', '2025-10-04T05:00:00Z'),
+      row('10.0.0.5', '198.51.100.7', '2025-10-04T07:00:00Z'),
+    ];
+    // Rolled up until 2025-10-02, which had no rows; 2025-10-03 is not rolled up and empty too
+    await statsRollupService.rollupDay(day('2025-10-01'));
+    await statsRollupService.rollupDay(day('2025-10-02'));
+    mockDb.statements = [];
+
+    const series = await ipService.getTimeSeries({
+      interval: 'day',
+      from: new Date('2025-09-30T12:00:00Z'),
+      to: new Date('2025-10-04T06:00:00Z'),
+    });
+
+    expect(series.buckets).toEqual([
+      bucket('2025-09-30T00:00:00.000Z', 1),
+      bucket('2025-10-01T00:00:00.000Z', 2),
+      bucket('2025-10-02T00:00:00.000Z'),
+      bucket('2025-10-03T00:00:00.000Z'),
+      bucket('2025-10-04T00:00:00.000Z', 1),
+    ]);
+    expect(liveRanges()).toEqual([
+      ['2025-09-30T12:00:00.000Z', '2025-10-01T00:00:00.000Z'],
+      ['2025-10-03T00:00:00.000Z', '2025-10-04T06:00:00.000Z'],
+    ]);
+  });
+
+  test('skips the live query before the rollups when the range starts at midnight', async () => {
+    await statsRollupService.rollupDay(day('2025-10-01'));
+    mockDb.statements = [];
+
+    const series = await ipService.getTimeSeries({
+      interval: 'day',
+      from: day('2025-10-01'),
+      to: day('2025-10-03'),
+    });
+
+    expect(series.buckets).toEqual([bucket('2025-10-01T00:00:00.000Z'), bucket('2025-10-02T00:00:00.000Z')]);
+    expect(liveRanges()).toEqual([['2025-10-02T00:00:00.000Z', '2025-10-03T00:00:00.000Z']]);
+  });
+
+  test('counts everything live in other time zones, whose days are not the UTC days of the rollups', async () => {
+    await statsRollupService.rollupDay(day('2025-10-01'));
+    mockDb.statements = [];
+
+    await ipService.getTimeSeries({ interval: 'day', from: day('2025-09-30'), to: day('2025-10-03'), tz: 'Europe/Berlin' });
+
+    expect(liveRanges()).toEqual([['2025-09-30T00:00:00.000Z', '2025-10-03T00:00:00.000Z']]);
+    expect(mockDb.statements[0].values).toContain('Europe/Berlin');
+  });
+});
+
+describe('timeSeriesQuerySchema', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  const issue = (query: Record<string, string>) => {
+    const parsed = timeSeriesQuerySchema.parse(query);
+    return parsed.success ? null : parsed.issues[0];
+  };
+
+  test('defaults to daily buckets ending now', () => {
+    const parsed = timeSeriesQuerySchema.parse({});
+
+    expect(parsed.success && parsed.data).toMatchObject({ interval: 'day', tz: 'UTC', to: new Date('2025-10-04T12:00:00Z') });
+  });
+
+  test('refuses unknown intervals', () => {
+    expect(issue({ interval: 'month' })).toMatchObject({ path: 'interval', code: 'INVALID_INTERVAL' });
+  });
+
+  test('refuses empty and reversed ranges', () => {
+    expect(issue({ from: '2025-10-02T00:00:00Z', to: '2025-10-02T00:00:00Z' })).toMatchObject({ code: 'INVALID_DATE_RANGE' });
+    expect(issue({ from: '2025-10-03T00:00:00Z', to: '2025-10-02T00:00:00Z' })).toMatchObject({ code: 'INVALID_DATE_RANGE' });
+  });
+
+  test('refuses ranges of more than 1000 buckets, counting a partial first one', () => {
+    expect(issue({ interval: 'hour', from: '2025-08-22T09:00:00Z', to: '2025-10-03T00:00:00Z' })).toBeNull();
+    expect(issue({ interval: 'hour', from: '2025-08-22T08:59:59Z', to: '2025-10-03T00:00:00Z' }))
+      .toMatchObject({ path: 'from', code: 'TOO_MANY_BUCKETS' });
+  });
+});
@@ -0,0 +1,154 @@
+import { Prisma } from '@prisma/client';
+import { SummaryService } from '../src/services/SummaryService';
+import type { SummaryHit } from '../src/services/SummaryService';
+
+// Collects every raw statement instead of running it
+const recorder = () => {
+  const statements: Prisma.Sql[] = [];
+  const db = {
+    $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      statements.push(Prisma.sql(strings, ...values));
+      return 0;
+    },
+  };
+  return { statements, db: db as unknown as Prisma.TransactionClient };
+};
+
+const hit = (ip: string, requestIP: string, seenAt: string, format: string = 'octets'): SummaryHit => ({
+  ip,
+  family: 'IPv4',
+  ipClass: null,
+  format,
+  reversedIP: `reversed-${ip}-${format}`,
+  requestIP,
+  seenAt: new Date(seenAt),
+});
+
+// Values of a statement split into its VALUES rows of `width` parameters each
+const rows = (statement: Prisma.Sql, width: number): unknown[][] => {
+  const result: unknown[][] = [];
+  for (let i = 0; i + width <= statement.values.length; i += width) {
+    result.push(statement.values.slice(i, i + width));
+  }
+  return result;
+};
+
+describe('SummaryService.recordHits', () => {
+  const service = new SummaryService();
+
+  test('folds the hits of one IP into a single summary row', async () => {
+    const { statements, db } = recorder();
+
+    await service.recordHits(db, [
+      hit('10.0.0.1', '198.51.100.7', '2025-10-02T10:00:00Z'),
+      hit('10.0.0.1', '198.51.100.7', '2025-10-01T10:00:00Z', 'ptr'),
+      hit('10.0.0.1', '198.51.100.8', '2025-10-03T10:00:00Z'),
+    ]);
+
+    const [summaries, firstSeen, requesters] = statements;
+    expect(summaries.sql).toContain('INSERT INTO "public"."ReversedIPSummary"');
+    expect(rows(summaries, 6)).toEqual([[
+      '10.0.0.1',
+      'IPv4',
+      JSON.stringify({ octets: 'reversed-10.0.0.1-octets', ptr: 'reversed-10.0.0.1-ptr' }),
+      3,
+      new Date('2025-10-01T10:00:00Z'),
+      new Date('2025-10-03T10:00:00Z'),
+    ]]);
+    expect(firstSeen.sql).toContain('INSERT INTO "public"."FirstSeenIP"');
+    expect(rows(firstSeen, 3)).toEqual([['10.0.0.1', null, new Date('2025-10-01T10:00:00Z')]]);
+    // One row per requester, first seen at its earliest hit
+    expect(rows(requesters, 3)).toEqual([
+      ['10.0.0.1', '198.51.100.7', new Date('2025-10-01T10:00:00Z')],
+      ['10.0.0.1', '198.51.100.8', new Date('2025-10-03T10:00:00Z')],
+    ]);
+  });
+
+  test('writes rows in key order whatever the input order', async () => {
+    const first = recorder();
+    const second = recorder();
+    const hits = [
+      hit('10.0.0.3', '198.51.100.9', '2025-10-01T10:00:00Z'),
+      hit('10.0.0.1', '198.51.100.8', '2025-10-01T11:00:00Z'),
+      hit('10.0.0.2', '198.51.100.7', '2025-10-01T12:00:00Z'),
+      hit('10.0.0.1', '198.51.100.7', '2025-10-01T13:00:00Z'),
+    ];
+
+    await service.recordHits(first.db, hits);
+    await service.recordHits(second.db, [...hits].reverse());
+
+    expect(rows(first.statements[0], 6).map((row) => row[0])).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    expect(rows(first.statements[1], 3).map((row) => row[0])).toEqual(['10.0.0.1', '10.0.0.2', '10.0.0.3']);
+    expect(rows(first.statements[2], 3).map((row) => `${row[0]} ${row[1]}`)).toEqual([
+      '10.0.0.1 198.51.100.7',
+      '10.0.0.1 198.51.100.8',
+      '10.0.0.2 198.51.100.7',
+      '10.0.0.3 198.51.100.9',
+    ]);
+    expect(second.statements.map((statement) => statement.values)).toEqual(
+      first.statements.map((statement) => statement.values)
+    );
+  });
+
+  test('leaves anonymous request IPs out of the requesters', async () => {
+    const { statements, db } = recorder();
+
+    await service.recordHits(db, [
+      hit('10.0.0.1', 'unknown', '2025-10-01T10:00:00Z'),
+      hit('10.0.0.1', 'redacted', '2025-10-01T11:00:00Z'),
+    ]);
+
+    expect(statements).toHaveLength(2);
+    expect(rows(statements[0], 6)[0][3]).toBe(2);
+  });
+
+  test('does nothing without hits', async () => {
+    const { statements, db } = recorder();
+
+    await service.recordHits(db, []);
+
+    expect(statements).toHaveLength(0);
+  });
+});
+
+describe('SummaryService.removeHits', () => {
+  const service = new SummaryService();
+
+  test('prunes requesters, subtracts the removed hits and drops emptied summaries', async () => {
+    const { statements, db } = recorder();
+
+    await service.removeHits(db, new Map([['10.0.0.1', 2], ['10.0.0.2', 1]]));
+
+    const [deleteRequesters, recount, subtract, dropEmpty] = statements;
+    expect(deleteRequesters.sql).toContain('DELETE FROM "public"."ReversedIPRequester"');
+    expect(deleteRequesters.values).toEqual(['10.0.0.1', '10.0.0.2']);
+    expect(recount.sql).toContain('"requesterCount" = (SELECT COUNT(*)::int');
+    expect(subtract.sql).toContain('"hitCount" = GREATEST(s."hitCount" - d."count", 0)');
+    expect(subtract.values).toEqual(['10.0.0.1', 2, '10.0.0.2', 1]);
+    expect(dropEmpty.sql).toContain('DELETE FROM "public"."ReversedIPSummary"');
+    expect(dropEmpty.values).toEqual(['10.0.0.1', '10.0.0.2']);
+  });
+
+  test('does nothing when no rows were removed', async () => {
+    const { statements, db } = recorder();
+
+    await service.removeHits(db, new Map());
+
+    expect(statements).toHaveLength(0);
+  });
+});
+
+describe('SummaryService.forgetFirstSeen', () => {
+  test('only moves or drops a first sighting at or after the deleted row', async () => {
+    const { statements, db } = recorder();
+    const seenAt = new Date('2025-10-01T10:00:00Z');
+
+    await new SummaryService().forgetFirstSeen(db, '10.0.0.1', seenAt);
+
+    const [move, drop] = statements;
+    expect(move.sql).toContain('UPDATE "public"."FirstSeenIP"');
+    expect(move.values).toEqual(['10.0.0.1', '10.0.0.1', seenAt]);
+    expect(drop.sql).toContain('DELETE FROM "public"."FirstSeenIP"');
+    expect(drop.values).toEqual(['10.0.0.1', seenAt]);
+  });
+});
@@ -0,0 +1,257 @@
+import { createServer } from 'http';
+import type { IncomingHttpHeaders, Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { IPHistoryEntry } from '../src/types/index';
+
+// Read when WebhookService loads, so it is imported in beforeAll
+process.env.WEBHOOK_POLL_INTERVAL_MS = '10';
+process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+process.env.WEBHOOK_RETRY_BASE_MS = '50';
+process.env.WEBHOOK_DELIVERY_RETENTION_DAYS = '0';
+
+type Service = typeof import('../src/services/WebhookService');
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+  at: number;
+}
+
+// Webhook and delivery rows, standing in for the database
+const mockDb = {
+  webhooks: [] as any[],
+  deliveries: [] as any[],
+};
+
+const mockStoredListeners: ((entries: IPHistoryEntry[]) => void)[] = [];
+
+jest.mock('../src/services/Database', () => {
+  const withWebhook = (delivery: any) => ({ ...delivery, webhook: mockDb.webhooks.find((w) => w.id === delivery.webhookId) });
+  const insert = (data: any) => {
+    const row = {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastAttemptAt: null,
+      responseStatus: null,
+      responseBody: null,
+      error: null,
+      deliveredAt: null,
+      createdAt: new Date(),
+      ...data,
+    };
+    mockDb.deliveries.push(row);
+    return row;
+  };
+
+  return {
+    prisma: {
+      webhook: {
+        findMany: async () => mockDb.webhooks.filter((w) => w.active && w.events.includes('reversal.created')),
+        findUnique: async ({ where }: any) => mockDb.webhooks.find((w) => w.id === where.id) ?? null,
+      },
+      webhookDelivery: {
+        create: async ({ data }: any) => insert(data),
+        createMany: async ({ data }: any) => ({ count: data.map(insert).length }),
+        findMany: async ({ where }: any) => mockDb.deliveries.filter((d) => where.id.in.includes(d.id)).map(withWebhook),
+        update: async ({ where, data }: any) => Object.assign(mockDb.deliveries.find((d) => d.id === where.id), data),
+      },
+      // The claim query: due pending deliveries of active webhooks, with the attempt counted
+      $queryRaw: async () => {
+        const now = Date.now();
+        const due = mockDb.deliveries.filter((d) => (
+          d.status === 'pending' && d.nextAttemptAt.getTime() <= now && withWebhook(d).webhook?.active
+        ));
+        for (const delivery of due) {
+          delivery.attempts += 1;
+          delivery.lastAttemptAt = new Date(now);
+          delivery.nextAttemptAt = new Date(now + 60 * 1000);
+        }
+        return due.map((d) => ({ id: d.id }));
+      },
+    },
+  };
+});
+
+jest.mock('../src/services/IpService', () => ({
+  ipService: {
+    onStored: (listener: (entries: IPHistoryEntry[]) => void) => {
+      mockStoredListeners.push(listener);
+      return () => mockStoredListeners.splice(mockStoredListeners.indexOf(listener), 1);
+    },
+  },
+}));
+
+const entry = (originalIP: string): IPHistoryEntry => ({
+  id: `entry-${originalIP}`,
+  originalIP,
+  reversedIP: originalIP.split('.').reverse().join('.'),
+  requestIP: '198.51.100.7',
+  userAgent: 'jest',
+  requestCountry: 'DE',
+  requestAsn: 64500,
+}) as IPHistoryEntry;
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the webhook worker');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe('WebhookService', () => {
+  let service: Service;
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  let respond: (path: string) => { status: number; headers?: Record<string, string> };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body, at: Date.now() });
+        const { status, headers } = respond(req.url ?? '/');
+        res.writeHead(status, headers).end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+    service = await import('../src/services/WebhookService');
+    service.webhookService.start();
+  });
+
+  afterAll(async () => {
+    service.webhookService.stop();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockDb.webhooks.length = 0;
+    mockDb.deliveries.length = 0;
+    received = [];
+    respond = () => ({ status: 200 });
+  });
+
+  const addWebhook = (cidrs: string[] = []) => {
+    const webhook = {
+      id: `webhook-${mockDb.webhooks.length + 1}`,
+      url,
+      secret: 'whsec_test',
+      events: ['reversal.created'],
+      cidrs,
+      active: true,
+      description: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    mockDb.webhooks.push(webhook);
+    return webhook;
+  };
+
+  const storeReversals = (...ips: string[]): void => {
+    mockStoredListeners.forEach((listener) => listener(ips.map(entry)));
+  };
+
+  test('signs the body with the webhook secret', async () => {
+    const webhook = addWebhook();
+
+    const delivery = await service.webhookService.sendTest(webhook.id);
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    expect(headers['x-webhook-signature']).toBe(service.signWebhookPayload(webhook.secret, timestamp, body));
+    expect(headers['x-webhook-delivery']).toBe(delivery!.id);
+    expect(JSON.parse(body)).toMatchObject({ id: delivery!.id, event: 'webhook.test' });
+  });
+
+  test('retries a failing receiver with backoff, then marks the delivery failed', async () => {
+    addWebhook();
+    respond = () => ({ status: 500 });
+
+    storeReversals('10.0.0.1');
+    await waitFor(() => mockDb.deliveries[0]?.status === 'failed');
+
+    const [delivery] = mockDb.deliveries;
+    expect(delivery).toMatchObject({ attempts: 3, responseStatus: 500, error: 'Receiver responded with HTTP 500' });
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers['x-webhook-delivery']))).toEqual(new Set([delivery.id]));
+    // 50ms before the second attempt, 100ms before the third
+    expect(received[1].at - received[0].at).toBeGreaterThanOrEqual(50);
+    expect(received[2].at - received[1].at).toBeGreaterThanOrEqual(100);
+  });
+
+  test('counts a redirect as a failed attempt without following it', async () => {
+    const webhook = addWebhook();
+    respond = (path) => (path === '/hook' ? { status: 302, headers: { Location: '/elsewhere' } } : { status: 200 });
+
+    const delivery = await service.webhookService.sendTest(webhook.id);
+
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: 302, error: 'Receiver responded with HTTP 302' });
+    expect(received).toHaveLength(1);
+  });
+
+  test('only delivers reversals inside the CIDR filter, without requester data', async () => {
+    addWebhook(['10.0.0.0/8']);
+
+    storeReversals('10.1.2.3', '192.0.2.1');
+    await waitFor(() => mockDb.deliveries.length > 0 && mockDb.deliveries.every((d) => d.status === 'delivered'));
+
+    expect(mockDb.deliveries).toHaveLength(1);
+    expect(received).toHaveLength(1);
+    const { data } = JSON.parse(received[0].body);
+    expect(data).toMatchObject({ originalIP: '10.1.2.3' });
+    expect(data).not.toHaveProperty('requestIP');
+    expect(data).not.toHaveProperty('userAgent');
+  });
+});
+
+describe('WebhookService.configErrors', () => {
+  // WEBHOOK_* is read when WebhookService loads, so each test loads its own copy
+  const load = async (env: Record<string, string>) => {
+    const previous = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+      let service!: Service['webhookService'];
+      await jest.isolateModulesAsync(async () => {
+        ({ webhookService: service } = await import('../src/services/WebhookService'));
+      });
+      return service;
+    } finally {
+      process.env = previous;
+    }
+  };
+
+  test('accepts the configured settings', async () => {
+    expect((await load({})).configErrors()).toEqual([]);
+  });
+
+  test('reports settings that are not whole numbers', async () => {
+    const service = await load({
+      WEBHOOK_POLL_INTERVAL_MS: '5s',
+      WEBHOOK_TIMEOUT_MS: '0',
+      WEBHOOK_MAX_ATTEMPTS: 'eight',
+      WEBHOOK_RETRY_BASE_MS: '-100',
+      WEBHOOK_RETRY_MAX_MS: '',
+    });
+
+    expect(service.configErrors()).toEqual([
+      'WEBHOOK_POLL_INTERVAL_MS must be a non-negative integer',
+      'WEBHOOK_TIMEOUT_MS must be a positive integer',
+      'WEBHOOK_MAX_ATTEMPTS must be a positive integer',
+      'WEBHOOK_RETRY_BASE_MS must be a positive integer',
+    ]);
+  });
+
+  test('reports a retry cap below the first retry delay', async () => {
+    expect((await load({ WEBHOOK_RETRY_BASE_MS: '60000', WEBHOOK_RETRY_MAX_MS: '30000' })).configErrors())
+      .toEqual(['WEBHOOK_RETRY_MAX_MS must not be less than WEBHOOK_RETRY_BASE_MS']);
+  });
+});
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ReversedIP" ADD COLUMN     "format" TEXT NOT NULL DEFAULT 'octets';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ReversedIP" ADD COLUMN     "prefixLength" INTEGER;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ReversedIP_createdAt_id_idx" ON "public"."ReversedIP"("createdAt", "id");
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "public"."ReversedIP" ADD COLUMN     "family" TEXT,
+ADD COLUMN     "originalIPHex" TEXT,
+ADD COLUMN     "requestIPHex" TEXT;
+
+-- Backfill: 128-bit hex key of an address, with IPv4 mapped into ::ffff:0:0/96.
+-- Zone IDs and CIDR suffixes are ignored; anything that isn't an IP yields NULL.
+CREATE FUNCTION pg_temp.ip_search_hex(address TEXT) RETURNS TEXT AS $$
+DECLARE
+  ip INET;
+  text_ip TEXT;
+  v4 TEXT;
+  v4_value BIGINT;
+  head TEXT[];
+  tail TEXT[];
+  parts TEXT[];
+  part TEXT;
+  result TEXT := '';
+BEGIN
+  ip := split_part(split_part(address, '%', 1), '/', 1)::INET;
+
+  IF family(ip) = 4 THEN
+    RETURN '00000000000000000000ffff' || lpad(to_hex(ip - '0.0.0.0'::INET), 8, '0');
+  END IF;
+
+  text_ip := host(ip);
+
+  -- Rewrite a dotted IPv4 tail (e.g. ::ffff:1.2.3.4) as two hextets
+  IF position('.' IN text_ip) > 0 THEN
+    v4 := substring(text_ip FROM '[^:]+$');
+    v4_value := v4::INET - '0.0.0.0'::INET;
+    text_ip := left(text_ip, length(text_ip) - length(v4)) || to_hex(v4_value >> 16) || ':' || to_hex(v4_value & 65535);
+  END IF;
+
+  IF position('::' IN text_ip) > 0 THEN
+    head := coalesce(string_to_array(nullif(split_part(text_ip, '::', 1), ''), ':'), '{}');
+    tail := coalesce(string_to_array(nullif(split_part(text_ip, '::', 2), ''), ':'), '{}');
+    parts := head || array_fill('0'::TEXT, ARRAY[8 - cardinality(head) - cardinality(tail)]) || tail;
+  ELSE
+    parts := string_to_array(text_ip, ':');
+  END IF;
+
+  FOREACH part IN ARRAY parts LOOP
+    result := result || lpad(part, 4, '0');
+  END LOOP;
+
+  RETURN result;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE "public"."ReversedIP"
+SET "originalIPHex" = pg_temp.ip_search_hex("originalIP"),
+    "requestIPHex" = pg_temp.ip_search_hex("requestIP");
+
+UPDATE "public"."ReversedIP"
+SET "family" = CASE WHEN "originalIP" LIKE '%:%' THEN 'IPv6' ELSE 'IPv4' END
+WHERE "originalIPHex" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_originalIPHex_idx" ON "public"."ReversedIP"("originalIPHex");
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_requestIPHex_idx" ON "public"."ReversedIP"("requestIPHex");
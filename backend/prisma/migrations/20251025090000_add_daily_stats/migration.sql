@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."DailyStats" (
+    "day" DATE NOT NULL,
+    "totalEntries" INTEGER NOT NULL,
+    "uniqueIPs" INTEGER NOT NULL,
+    "newUniqueIPs" INTEGER NOT NULL,
+    "ipv4Entries" INTEGER NOT NULL,
+    "ipv6Entries" INTEGER NOT NULL,
+    "topRequestIPs" JSONB NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DailyStats_pkey" PRIMARY KEY ("day")
+);
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_originalIP_createdAt_idx" ON "public"."ReversedIP"("originalIP", "createdAt");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "public"."ReversedIPSummary" (
+    "ip" TEXT NOT NULL,
+    "family" TEXT,
+    "reversedForms" JSONB NOT NULL DEFAULT '{}',
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "requesterCount" INTEGER NOT NULL DEFAULT 0,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReversedIPSummary_pkey" PRIMARY KEY ("ip")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ReversedIPRequester" (
+    "ip" TEXT NOT NULL,
+    "requestIP" TEXT NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReversedIPRequester_pkey" PRIMARY KEY ("ip","requestIP")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."ReversedIPRequester" ADD CONSTRAINT "ReversedIPRequester_ip_fkey" FOREIGN KEY ("ip") REFERENCES "public"."ReversedIPSummary"("ip") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the existing history
+INSERT INTO "public"."ReversedIPSummary" ("ip", "family", "reversedForms", "hitCount", "requesterCount", "firstSeenAt", "lastSeenAt")
+SELECT
+    "originalIP",
+    MAX("family"),
+    jsonb_object_agg("format", "reversedIP"),
+    COUNT(*),
+    COUNT(DISTINCT "requestIP") FILTER (WHERE "requestIP" <> 'unknown'),
+    MIN("createdAt"),
+    MAX("createdAt")
+FROM "public"."ReversedIP"
+GROUP BY "originalIP";
+
+INSERT INTO "public"."ReversedIPRequester" ("ip", "requestIP", "firstSeenAt")
+SELECT "originalIP", "requestIP", MIN("createdAt")
+FROM "public"."ReversedIP"
+WHERE "requestIP" <> 'unknown'
+GROUP BY "originalIP", "requestIP";
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."RetentionRun" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "deletedByAge" INTEGER NOT NULL DEFAULT 0,
+    "deletedByCount" INTEGER NOT NULL DEFAULT 0,
+    "scrubbedRequestIPs" INTEGER NOT NULL DEFAULT 0,
+    "scrubbedUserAgents" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "RetentionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RetentionRun_startedAt_idx" ON "public"."RetentionRun"("startedAt");
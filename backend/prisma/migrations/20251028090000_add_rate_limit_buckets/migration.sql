@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."RateLimitBucket" (
+    "key" TEXT NOT NULL,
+    "used" INTEGER NOT NULL DEFAULT 0,
+    "allowed" BOOLEAN NOT NULL DEFAULT true,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimitBucket_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitBucket_resetAt_idx" ON "public"."RateLimitBucket"("resetAt");
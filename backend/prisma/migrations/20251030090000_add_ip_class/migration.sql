@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "public"."ReversedIP" ADD COLUMN     "ipClass" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."DailyStats" ADD COLUMN     "classEntries" JSONB NOT NULL DEFAULT '{}';
+
+-- Backfill: most specific special-purpose registry block first, as in utils/IpClassifier.
+-- CIDR rows are classified by their network address here.
+UPDATE "public"."ReversedIP"
+SET "ipClass" = CASE
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '00000000000000000000000000000000' AND '00000000000000000000000000000000' THEN 'reserved' -- ::/128
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '00000000000000000000000000000001' AND '00000000000000000000000000000001' THEN 'loopback' -- ::1/128
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '00000000000000000000ffff00000000' AND '00000000000000000000ffffffffffff' THEN 'ipv4-mapped' -- ::ffff:0:0/96
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '0064ff9b000000000000000000000000' AND '0064ff9b0000000000000000ffffffff' THEN 'nat64' -- 64:ff9b::/96
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '01000000000000000000000000000000' AND '0100000000000000ffffffffffffffff' THEN 'reserved' -- 100::/64
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '0064ff9b000100000000000000000000' AND '0064ff9b0001ffffffffffffffffffff' THEN 'nat64' -- 64:ff9b:1::/48
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '20010002000000000000000000000000' AND '200100020000ffffffffffffffffffff' THEN 'reserved' -- 2001:2::/48
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffffffffff' AND '00000000000000000000ffffffffffff' THEN 'reserved' -- 255.255.255.255/32
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '20010000000000000000000000000000' AND '20010000ffffffffffffffffffffffff' THEN 'teredo' -- 2001::/32
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '20010db8000000000000000000000000' AND '20010db8ffffffffffffffffffffffff' THEN 'documentation' -- 2001:db8::/32
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffc0000000' AND '00000000000000000000ffffc00000ff' THEN 'reserved' -- 192.0.0.0/24
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffc0000200' AND '00000000000000000000ffffc00002ff' THEN 'documentation' -- 192.0.2.0/24
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffc0586300' AND '00000000000000000000ffffc05863ff' THEN '6to4' -- 192.88.99.0/24
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffc6336400' AND '00000000000000000000ffffc63364ff' THEN 'documentation' -- 198.51.100.0/24
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffcb007100' AND '00000000000000000000ffffcb0071ff' THEN 'documentation' -- 203.0.113.0/24
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '20010000000000000000000000000000' AND '200101ffffffffffffffffffffffffff' THEN 'reserved' -- 2001::/23
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '3fff0000000000000000000000000000' AND '3fff0fffffffffffffffffffffffffff' THEN 'documentation' -- 3fff::/20
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffa9fe0000' AND '00000000000000000000ffffa9feffff' THEN 'link-local' -- 169.254.0.0/16
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffc0a80000' AND '00000000000000000000ffffc0a8ffff' THEN 'private' -- 192.168.0.0/16
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '20020000000000000000000000000000' AND '2002ffffffffffffffffffffffffffff' THEN '6to4' -- 2002::/16
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '5f000000000000000000000000000000' AND '5f00ffffffffffffffffffffffffffff' THEN 'reserved' -- 5f00::/16
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffc6120000' AND '00000000000000000000ffffc613ffff' THEN 'reserved' -- 198.18.0.0/15
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffac100000' AND '00000000000000000000ffffac1fffff' THEN 'private' -- 172.16.0.0/12
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffff64400000' AND '00000000000000000000ffff647fffff' THEN 'cgnat' -- 100.64.0.0/10
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN 'fe800000000000000000000000000000' AND 'febfffffffffffffffffffffffffffff' THEN 'link-local' -- fe80::/10
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN 'fec00000000000000000000000000000' AND 'feffffffffffffffffffffffffffffff' THEN 'reserved' -- fec0::/10
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffff00000000' AND '00000000000000000000ffff00ffffff' THEN 'reserved' -- 0.0.0.0/8
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffff0a000000' AND '00000000000000000000ffff0affffff' THEN 'private' -- 10.0.0.0/8
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffff7f000000' AND '00000000000000000000ffff7fffffff' THEN 'loopback' -- 127.0.0.0/8
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN 'ff000000000000000000000000000000' AND 'ffffffffffffffffffffffffffffffff' THEN 'multicast' -- ff00::/8
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN 'fc000000000000000000000000000000' AND 'fdffffffffffffffffffffffffffffff' THEN 'private' -- fc00::/7
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffffe0000000' AND '00000000000000000000ffffefffffff' THEN 'multicast' -- 224.0.0.0/4
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000fffff0000000' AND '00000000000000000000ffffffffffff' THEN 'reserved' -- 240.0.0.0/4
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '20000000000000000000000000000000' AND '3fffffffffffffffffffffffffffffff' THEN 'public' -- 2000::/3
+    WHEN "family" = 'IPv4' AND "originalIPHex" BETWEEN '00000000000000000000ffff00000000' AND '00000000000000000000ffffffffffff' THEN 'public' -- 0.0.0.0/0
+    WHEN "family" = 'IPv6' AND "originalIPHex" BETWEEN '00000000000000000000000000000000' AND 'ffffffffffffffffffffffffffffffff' THEN 'reserved' -- ::/0
+  END
+WHERE "originalIPHex" IS NOT NULL;
+
+-- Backfill the per-class counts of the rolled-up days from the rows that are left
+UPDATE "public"."DailyStats" d
+SET "classEntries" = COALESCE((
+  SELECT jsonb_object_agg(c."ipClass", c."count")
+  FROM (
+    SELECT r."ipClass", COUNT(*)::int AS "count"
+    FROM "public"."ReversedIP" r
+    WHERE r."ipClass" IS NOT NULL
+      AND r."createdAt" >= d."day"::timestamp
+      AND r."createdAt" < d."day"::timestamp + interval '1 day'
+    GROUP BY r."ipClass"
+  ) c
+), '{}'::jsonb);
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_ipClass_createdAt_idx" ON "public"."ReversedIP"("ipClass", "createdAt");
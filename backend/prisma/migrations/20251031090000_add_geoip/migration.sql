@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."ReversedIP" ADD COLUMN     "asOrg" TEXT,
+ADD COLUMN     "asn" INTEGER,
+ADD COLUMN     "city" TEXT,
+ADD COLUMN     "country" TEXT,
+ADD COLUMN     "requestAsn" INTEGER,
+ADD COLUMN     "requestCountry" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."DailyStats" ADD COLUMN     "countryEntries" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "topAsns" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_country_createdAt_idx" ON "public"."ReversedIP"("country", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_asn_createdAt_idx" ON "public"."ReversedIP"("asn", "createdAt");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."ReversedIP" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "ReversedIP_tags_idx" ON "public"."ReversedIP" USING GIN ("tags");
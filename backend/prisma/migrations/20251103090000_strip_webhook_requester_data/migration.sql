@@ -0,0 +1,4 @@
+-- Remove requester data from logged reversal payloads; new payloads no longer include it
+UPDATE "public"."WebhookDelivery"
+SET "payload" = "payload" #- '{data,requestIP}' #- '{data,userAgent}' #- '{data,requestCountry}' #- '{data,requestAsn}'
+WHERE "event" = 'reversal.created';
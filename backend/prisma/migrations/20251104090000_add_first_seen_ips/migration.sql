@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "public"."FirstSeenIP" (
+    "ip" TEXT NOT NULL,
+    "ipClass" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FirstSeenIP_pkey" PRIMARY KEY ("ip")
+);
+
+-- CreateIndex
+CREATE INDEX "FirstSeenIP_firstSeenAt_idx" ON "public"."FirstSeenIP"("firstSeenAt");
+
+-- AlterTable
+ALTER TABLE "public"."DailyStats" ADD COLUMN     "classNewUniqueIPs" JSONB NOT NULL DEFAULT '{}';
+
+-- Backfill from the existing history (IPs whose rows were already purged can't be recovered)
+INSERT INTO "public"."FirstSeenIP" ("ip", "ipClass", "firstSeenAt")
+SELECT "originalIP", MAX("ipClass"), MIN("createdAt")
+FROM "public"."ReversedIP"
+WHERE "deletedAt" IS NULL
+GROUP BY "originalIP";
+
+UPDATE "public"."DailyStats" d
+SET "classNewUniqueIPs" = COALESCE((
+    SELECT jsonb_object_agg(c."ipClass", c."count")
+    FROM (
+        SELECT f."ipClass", COUNT(*)::int AS "count"
+        FROM "public"."FirstSeenIP" f
+        WHERE f."ipClass" IS NOT NULL
+          AND f."firstSeenAt" >= d."day" AND f."firstSeenAt" < d."day" + INTERVAL '1 day'
+        GROUP BY f."ipClass"
+    ) c
+), '{}'::jsonb);
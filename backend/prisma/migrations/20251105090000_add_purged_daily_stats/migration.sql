@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "public"."PurgedDailyStats" (
+    "day" DATE NOT NULL,
+    "totalEntries" INTEGER NOT NULL DEFAULT 0,
+    "uniqueIPs" INTEGER NOT NULL DEFAULT 0,
+    "ipv4Entries" INTEGER NOT NULL DEFAULT 0,
+    "ipv6Entries" INTEGER NOT NULL DEFAULT 0,
+    "topRequestIPs" JSONB NOT NULL DEFAULT '[]',
+    "classEntries" JSONB NOT NULL DEFAULT '{}',
+    "countryEntries" JSONB NOT NULL DEFAULT '{}',
+    "topAsns" JSONB NOT NULL DEFAULT '[]',
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PurgedDailyStats_pkey" PRIMARY KEY ("day")
+);
+
+-- Rows purged so far only live on in the rollups: seed each rolled-up day with what its
+-- rollup counts beyond the rows that are left (purged top lists can't be recovered)
+WITH live AS (
+    SELECT "createdAt"::date AS "day",
+        COUNT(*)::int AS "totalEntries",
+        COUNT(DISTINCT "originalIP")::int AS "uniqueIPs",
+        COUNT(*) FILTER (WHERE "family" = 'IPv4')::int AS "ipv4Entries",
+        COUNT(*) FILTER (WHERE "family" = 'IPv6')::int AS "ipv6Entries"
+    FROM "public"."ReversedIP"
+    WHERE "deletedAt" IS NULL
+    GROUP BY 1
+),
+live_classes AS (
+    SELECT "createdAt"::date AS "day", "ipClass" AS "key", COUNT(*)::int AS "count"
+    FROM "public"."ReversedIP"
+    WHERE "deletedAt" IS NULL AND "ipClass" IS NOT NULL
+    GROUP BY 1, 2
+),
+live_countries AS (
+    SELECT "createdAt"::date AS "day", "country" AS "key", COUNT(*)::int AS "count"
+    FROM "public"."ReversedIP"
+    WHERE "deletedAt" IS NULL AND "country" IS NOT NULL
+    GROUP BY 1, 2
+)
+INSERT INTO "public"."PurgedDailyStats"
+    ("day", "totalEntries", "uniqueIPs", "ipv4Entries", "ipv6Entries", "classEntries", "countryEntries")
+SELECT
+    d."day",
+    d."totalEntries" - COALESCE(l."totalEntries", 0),
+    GREATEST(d."uniqueIPs" - COALESCE(l."uniqueIPs", 0), 0),
+    GREATEST(d."ipv4Entries" - COALESCE(l."ipv4Entries", 0), 0),
+    GREATEST(d."ipv6Entries" - COALESCE(l."ipv6Entries", 0), 0),
+    COALESCE((
+        SELECT jsonb_object_agg(c.key, c.value::int - COALESCE(lc."count", 0))
+        FROM jsonb_each_text(d."classEntries") c
+        LEFT JOIN live_classes lc ON lc."day" = d."day" AND lc."key" = c.key
+        WHERE c.value::int > COALESCE(lc."count", 0)
+    ), '{}'::jsonb),
+    COALESCE((
+        SELECT jsonb_object_agg(c.key, c.value::int - COALESCE(lc."count", 0))
+        FROM jsonb_each_text(d."countryEntries") c
+        LEFT JOIN live_countries lc ON lc."day" = d."day" AND lc."key" = c.key
+        WHERE c.value::int > COALESCE(lc."count", 0)
+    ), '{}'::jsonb)
+FROM "public"."DailyStats" d
+LEFT JOIN live l ON l."day" = d."day"
+WHERE d."totalEntries" > COALESCE(l."totalEntries", 0);
@@ -2,19 +2,32 @@ import express from 'express';
 import type { Application } from 'express';
 import helmet from 'helmet';
 import compression from 'compression';
-import morgan from 'morgan';
+import { clientIPMiddleware, isTrustedProxy } from './middleware/ClientIPMiddleware';
 import { corsMiddleware } from './middleware/CorsMiddleware';
-import { errorHandler, notFoundHandler, timeoutHandler } from './middleware/IpMiddleware';
+import { errorHandler, notFoundHandler, problemDetailsNegotiation, timeoutHandler } from './middleware/IpMiddleware';
+import { metricsMiddleware } from './middleware/MetricsMiddleware';
+import { requestContextMiddleware, requestLogger } from './middleware/RequestContextMiddleware';
 import routes from './routes/index';
 
 const app: Application = express();
 
-// Trust proxy - important for getting real client IPs
-app.set('trust proxy', true);
-app.set('trust proxy', 'loopback, linklocal, uniquelocal');
+// Trust proxy - the same TRUSTED_PROXIES list the client IP resolution uses, so req.ip agrees with it
+app.set('trust proxy', (addr: string) => isTrustedProxy(addr));
 
-// Request timeout (30 seconds)
-app.use(timeoutHandler(30000));
+// Request ID and log context (first, so every response and log line carries the ID)
+app.use(requestContextMiddleware);
+
+// Error bodies as application/problem+json for clients that ask for it
+app.use(problemDetailsNegotiation);
+
+// Resolve the client IP through trusted proxies
+app.use(clientIPMiddleware);
+
+// Request timeout (30 seconds); imports answer once the whole file is written, however long that takes
+app.use(timeoutHandler(30000, ['/api/ip/import']));
+
+// Prometheus request metrics
+app.use(metricsMiddleware);
 
 // Security middleware
 app.use(helmet({
@@ -44,24 +57,16 @@ app.use(compression({
     if (req.headers['x-no-compression']) {
       return false;
     }
+    // Compressing would hold live feed events back until a buffer fills
+    if (String(res.getHeader('Content-Type') ?? '').startsWith('text/event-stream')) {
+      return false;
+    }
     return compression.filter(req, res);
   },
 }));
 
-// Logging middleware
-const morganFormat: string = process.env.NODE_ENV === 'production' 
-  ? 'combined' 
-  : 'dev';
-
-app.use(morgan(morganFormat, {
-  skip: (req, res) => {
-    // Skip logging for health checks in production
-    if (process.env.NODE_ENV === 'production' && req.path === '/health') {
-      return true;
-    }
-    return false;
-  },
-}));
+// Request logging (one JSON line per request)
+app.use(requestLogger);
 
 // Body parsing middleware
 app.use(express.json({ 
@@ -77,7 +82,6 @@ app.use(express.urlencoded({
 // Request metadata middleware
 app.use((req, res, next) => {
   (req as any).requestTime = new Date().toISOString();
-  res.locals.requestId = Math.random().toString(36).substring(2, 15);
   next();
 });
 
@@ -0,0 +1,106 @@
+// Load environment variables before the services read them
+import 'dotenv/config';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { geoIpService } from '../services/GeoIpService';
+import { importService } from '../services/ImportService';
+import { prisma } from '../services/Database';
+import { detectImportFormat } from '../utils/ImportUtils';
+import { IMPORT_FORMATS } from '../types/index';
+import type { ImportFormat } from '../types/index';
+
+const USAGE = `Usage: npm run history:import -- <file> [--format csv|ndjson] [--dry-run] [--batch-size <n>]
+
+Imports reversal history from a CSV (with a header row) or NDJSON file.
+Fields: originalIP, requestIP?, userAgent?, timestamp?
+The format is taken from the file extension unless --format is given.`;
+
+interface ImportArgs {
+  file: string;
+  format: ImportFormat;
+  dryRun: boolean;
+  batchSize?: number;
+}
+
+const fail = (message: string): never => {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): ImportArgs => {
+  let file: string | undefined;
+  let format: string | null = null;
+  let dryRun = false;
+  let batchSize: number | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--format') {
+      format = argv[++i];
+    } else if (arg === '--batch-size') {
+      batchSize = parseInt(argv[++i]);
+      if (!Number.isInteger(batchSize) || batchSize < 1) {
+        fail('--batch-size must be a positive integer');
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (!file && !arg.startsWith('--')) {
+      file = arg;
+    } else {
+      fail(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!file) {
+    return fail('Missing file to import');
+  }
+
+  format = format ?? detectImportFormat(file);
+  if (!format || !(IMPORT_FORMATS as readonly string[]).includes(format)) {
+    return fail(`Cannot determine import format; use --format ${IMPORT_FORMATS.join('|')}`);
+  }
+
+  return { file, format: format as ImportFormat, dryRun, batchSize };
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Lines are read one at a time, so files of any size can be imported
+  const lines = createInterface({
+    input: createReadStream(args.file, { encoding: 'utf8' }),
+    crlfDelay: Infinity,
+  });
+
+  console.log(`📥 ${args.dryRun ? 'Validating' : 'Importing'} ${args.file} (${args.format})...`);
+
+  // Imported rows are enriched like live ones when GeoIP databases are configured
+  await geoIpService.load();
+
+  const report = await importService.importHistory(lines, {
+    format: args.format,
+    dryRun: args.dryRun,
+    batchSize: args.batchSize,
+  });
+
+  for (const rejection of report.rejectedLines) {
+    console.log(`  line ${rejection.line}: ${rejection.error.code} - ${rejection.error.message}`);
+  }
+
+  console.log(
+    `${args.dryRun ? '🧪 Dry run:' : '✅ Done:'} ${report.accepted} accepted, ${report.rejected} rejected (${report.total} records)`
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,51 @@
+// Load environment variables before the services read them
+import 'dotenv/config';
+import { statsRollupService } from '../services/StatsRollupService';
+import { prisma } from '../services/Database';
+
+const USAGE = `Usage: npm run stats:backfill -- [--from YYYY-MM-DD]
+
+Recomputes the DailyStats rollups for every closed (UTC) day, or only for
+the days from --from onwards, from the ReversedIP history.`;
+
+const parseArgs = (argv: string[]): { from?: Date } => {
+  let from: Date | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--from') {
+      const value = argv[++i];
+      from = new Date(`${value}T00:00:00Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value || '') || Number.isNaN(from.getTime())) {
+        console.error(`❌ --from must be a date like 2025-01-31\n\n${USAGE}`);
+        process.exit(1);
+      }
+    } else if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else {
+      console.error(`❌ Unknown argument: ${arg}\n\n${USAGE}`);
+      process.exit(1);
+    }
+  }
+
+  return { from };
+};
+
+const main = async (): Promise<void> => {
+  const { from } = parseArgs(process.argv.slice(2));
+
+  console.log(`📈 Backfilling daily stats${from ? ` from ${from.toISOString().substring(0, 10)}` : ''}...`);
+  const written = await statsRollupService.backfill(from);
+  console.log(`✅ Done: ${written} day(s) rolled up`);
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,124 @@
+import type { Request, Response } from 'express';
+import { apiKeyService } from '../services/ApiKeyService';
+import { NotFoundError, toAppError } from '../utils/Errors';
+import type {
+  IdParams,
+  IssueApiKeyRequest,
+  IssueApiKeyResponse,
+} from '../types/index';
+
+const apiKeyNotFound = (id: string): NotFoundError =>
+  new NotFoundError('API key not found or already revoked', 'API_KEY_NOT_FOUND', { details: { id } });
+
+export class ApiKeyController {
+  /**
+   * POST /api/keys
+   * Issue a new API key
+   */
+  async issueKey(req: Request<{}, any, IssueApiKeyRequest>, res: Response): Promise<void> {
+    try {
+      const result = await apiKeyService.issue(req.body);
+
+      const response: IssueApiKeyResponse = {
+        success: true,
+        data: result,
+        message: 'API key issued. Store the key now; it will not be shown again',
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while issuing API key');
+    }
+  }
+
+  /**
+   * GET /api/keys
+   * List all API keys
+   */
+  async listKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const keys = await apiKeyService.list();
+
+      res.status(200).json({
+        success: true,
+        data: {
+          keys,
+          count: keys.length,
+        },
+        message: 'API keys retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while listing API keys');
+    }
+  }
+
+  /**
+   * GET /api/keys/:id
+   * Get one API key with its recent daily usage
+   */
+  async getKey(req: Request<IdParams>, res: Response): Promise<void> {
+    try {
+      const key = await apiKeyService.get(req.params.id);
+
+      if (!key) {
+        throw apiKeyNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: key,
+        message: 'API key retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving API key');
+    }
+  }
+
+  /**
+   * POST /api/keys/:id/rotate
+   * Replace the secret of an API key
+   */
+  async rotateKey(req: Request<IdParams>, res: Response): Promise<void> {
+    try {
+      const result = await apiKeyService.rotate(req.params.id);
+
+      if (!result) {
+        throw apiKeyNotFound(req.params.id);
+      }
+
+      const response: IssueApiKeyResponse = {
+        success: true,
+        data: result,
+        message: 'API key rotated. The previous key no longer works',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while rotating API key');
+    }
+  }
+
+  /**
+   * DELETE /api/keys/:id
+   * Revoke an API key
+   */
+  async revokeKey(req: Request<IdParams>, res: Response): Promise<void> {
+    try {
+      const key = await apiKeyService.revoke(req.params.id);
+
+      if (!key) {
+        throw apiKeyNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: key,
+        message: 'API key revoked',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while revoking API key');
+    }
+  }
+}
+
+export const apiKeyController = new ApiKeyController();
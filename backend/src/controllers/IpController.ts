@@ -1,63 +1,170 @@
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
 import type { Request, Response } from 'express';
+import { WebSocket, WebSocketServer } from 'ws';
 import { ipService } from '../services/IpService';
-import { isValidIP, extractClientIP } from '../utils/IpUtils';
+import type { HistoryPage, HistoryPageOptions } from '../services/IpService';
+import { geoIpService } from '../services/GeoIpService';
+import { logger } from '../services/LoggerService';
+import { liveFeedService } from '../services/LiveFeedService';
+import type { LiveFeedClient } from '../services/LiveFeedService';
+import { hasScope } from '../middleware/AuthMiddleware';
+import { rejectUpgrade } from '../middleware/IpMiddleware';
+import { parseRequestPart, validationError } from '../middleware/ValidationMiddleware';
+import { liveFeedQuerySchema } from '../schemas/IpSchemas';
+import { IPAddress, resolveClientIP, reverseCIDR } from '../utils/IpUtils';
+import { ForbiddenError, NotFoundError, ServiceUnavailableError, ValidationError, toAppError } from '../utils/Errors';
+import { buildLinkHeader, decodeCursor } from '../utils/Pagination';
+import type { HistoryCursor } from '../utils/Pagination';
+import {
+  EXPORT_CONTENT_TYPES,
+  exportEpilogue,
+  exportPrologue,
+  serializeEntries,
+} from '../utils/ExportUtils';
+import { detectImportFormat } from '../utils/ImportUtils';
+import { importService } from '../services/ImportService';
+import { IMPORT_FORMATS } from '../types/index';
 import type { 
   ReverseIPRequest, 
   ReverseIPResponse, 
+  BatchReverseIPRequest,
+  BatchReverseIPResponse,
   GetIPHistoryResponse,
+  GetIPSummaryResponse,
+  HistoryEntryResponse,
+  DeleteHistoryEntryQuery,
+  DeleteHistoryEntryResponse,
+  UpdateHistoryEntryRequest,
   APIError,
+  ExportQuery,
+  HistoryQuery,
+  IdParams,
+  ImportHistoryResponse,
+  ImportQuery,
+  IPFamily,
+  IPHistoryEntry,
+  IPSummaryParams,
+  IPSummaryQuery,
+  LiveFeedFilters,
+  LiveFeedMessage,
+  LiveFeedQuery,
+  SearchIPResponse,
+  SearchQuery,
+  StatsQuery,
+  StatsTimeSeriesResponse,
+  TimeSeriesQuery,
   RequestWithIP 
 } from '../types/index';
 
-interface PaginationQuery {
-  page?: string;
-  limit?: string;
-}
+/**
+ * The page options of a validated history or search query. Offset mode always
+ * counts (existing behaviour); cursor mode only on request.
+ */
+const paginationOptions = (query: HistoryQuery): HistoryPageOptions => {
+  const { page = 1, cursor, limit, includeTotal } = query;
+  return cursor
+    ? { cursor, limit, includeTotal: includeTotal === true }
+    : { page, cursor: null, limit, includeTotal: includeTotal !== false };
+};
 
-interface SearchQuery {
-  q?: string;
-  limit?: string;
-}
+/**
+ * Sets the X-Total-Count, X-Page, X-Per-Page and Link headers of a page of history
+ */
+const setPaginationHeaders = (req: Request<any, any, any, any>, res: Response, result: HistoryPage): void => {
+  if (result.total !== null) {
+    res.setHeader('X-Total-Count', result.total);
+  }
+  if (result.page !== undefined) {
+    res.setHeader('X-Page', result.page);
+  }
+  res.setHeader('X-Per-Page', result.limit);
+
+  const link = buildLinkHeader(req, {
+    next: result.nextCursor ? { cursor: result.nextCursor, limit: result.limit } : undefined,
+    prev: result.prevCursor ? { cursor: result.prevCursor, limit: result.limit } : undefined,
+  }, ['page', 'cursor']);
+  if (link) {
+    res.setHeader('Link', link);
+  }
+};
+
+const historyEntryNotFound = (id: string): NotFoundError =>
+  new NotFoundError('History entry not found', 'HISTORY_ENTRY_NOT_FOUND', { details: { id } });
+
+/**
+ * Entries can be changed by the API key that stored them and by admin keys.
+ * Anonymous entries have no owner, so only admins can change them.
+ */
+const canModifyEntry = (req: Request<any, any, any, any>, entry: IPHistoryEntry): boolean => {
+  const keyId = req.apiKey?.id;
+  return hasScope(req, 'admin') || (!!keyId && entry.apiKeyId === keyId);
+};
+
+const historyEntryForbidden = (id: string): ForbiddenError =>
+  new ForbiddenError('Only the API key that stored this entry, or an admin key, can change it', 'HISTORY_ENTRY_FORBIDDEN', {
+    details: { id },
+  });
+
+/**
+ * Splits a validated live feed query into the filters and the resume position
+ */
+const parseLiveFeedRequest = (
+  query: LiveFeedQuery,
+  lastEventIdHeader: string | undefined
+): { filters: LiveFeedFilters; resumeFrom: HistoryCursor | null } => {
+  const { lastEventId: lastEventIdParam, ...filters } = query;
+
+  const lastEventId = lastEventIdHeader || lastEventIdParam;
+  const resumeFrom = lastEventId ? decodeCursor(lastEventId) : null;
+  if (lastEventId && !resumeFrom) {
+    throw new ValidationError('Last-Event-ID is not an event id of this feed', 'INVALID_LAST_EVENT_ID', {
+      details: { lastEventId },
+    });
+  }
+
+  return { filters, resumeFrom };
+};
+
+const liveFeedFull = (): ServiceUnavailableError =>
+  new ServiceUnavailableError('Too many live feed connections, please try again later', 'LIVE_FEED_FULL');
+
+// Tells EventSource clients how long to wait before reconnecting
+const SSE_RETRY_MS = 5000;
+
+// Clients with more unsent data than this are too slow to keep up and get disconnected
+const LIVE_FEED_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+// WebSockets are accepted on upgrade requests only; clients have nothing to send
+const liveFeedSockets = new WebSocketServer({ noServer: true, maxPayload: 1024 });
+
+/**
+ * Resolves once the response can take more data (or the client has gone away)
+ */
+const waitForDrain = (res: Response): Promise<void> => {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+};
 
 export class IPController {
   /**
    * POST /api/ip/reverse
    * Reverse an IP address and store it in database
    */
-  async reverseIP(req: Request, res: Response): Promise<void> {
+  async reverseIP(req: Request<{}, any, ReverseIPRequest>, res: Response): Promise<void> {
     try {
-      const { ip } = req.body as ReverseIPRequest;
-      
-      // Validate input
-      if (!ip) {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'IP address is required',
-            code: 'MISSING_IP',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(400).json(error);
-        return;
-      }
-
-      if (!isValidIP(ip)) {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'Invalid IP address format',
-            code: 'INVALID_IP',
-            details: { providedIP: ip },
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(400).json(error);
-        return;
-      }
+      const { ip, format } = req.body;
+      const address = IPAddress.tryParse(ip);
 
-      // Process the IP reversal
-      const result = await ipService.reverseAndStore(ip, req);
+      // Process the IP reversal (single addresses are stored in canonical form)
+      const result = await ipService.reverseAndStore(address ? address.toString() : ip, req, format);
       
       const response: ReverseIPResponse = {
         success: true,
@@ -65,29 +172,58 @@ export class IPController {
           id: result.id,
           originalIP: result.originalIP,
           reversedIP: result.reversedIP,
+          format: result.format,
+          prefixLength: result.prefixLength,
+          family: result.family as IPFamily | null,
           requestIP: result.requestIP,
           userAgent: result.userAgent,
+          apiKeyId: result.apiKeyId,
           createdAt: result.createdAt.toString(),
           timestamp: result.timestamp.toISOString(),
+          cidr: result.cidr,
+          ipClass: result.ipClass,
+          country: result.country,
+          city: result.city,
+          asn: result.asn,
+          asOrg: result.asOrg,
+          requestCountry: result.requestCountry,
+          requestAsn: result.requestAsn,
+          classification: result.classification,
         },
         message: 'IP address reversed and stored successfully',
       };
 
       res.status(201).json(response);
     } catch (error) {
-      console.error('Error in reverseIP controller:', error);
-      
-      const errorResponse: APIError = {
-        success: false,
-        error: {
-          message: 'Internal server error while processing IP reversal',
-          code: 'INTERNAL_ERROR',
-          details: process.env.NODE_ENV === 'development' ? error : undefined,
+      throw toAppError(error, 'Internal server error while processing IP reversal');
+    }
+  }
+
+  /**
+   * POST /api/ip/reverse/batch
+   * Reverse a batch of IP addresses and store the valid ones
+   */
+  async reverseBatch(req: Request<{}, any, BatchReverseIPRequest>, res: Response): Promise<void> {
+    try {
+      const { ips, format } = req.body;
+
+      const results = await ipService.reverseAndStoreBatch(ips, req, format);
+      const succeeded = results.filter((result) => result.success).length;
+
+      const response: BatchReverseIPResponse = {
+        success: true,
+        data: {
+          results,
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
         },
-        timestamp: new Date().toISOString(),
+        message: `${succeeded} of ${results.length} IP addresses reversed and stored`,
       };
-      
-      res.status(500).json(errorResponse);
+
+      res.status(succeeded > 0 ? 201 : 200).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while processing batch reversal');
     }
   }
 
@@ -95,25 +231,10 @@ export class IPController {
    * GET /api/ip/history
    * Get paginated history of reversed IPs
    */
-  async getHistory(req: Request<{}, GetIPHistoryResponse, {}, PaginationQuery>, res: Response<GetIPHistoryResponse | APIError>): Promise<void> {
+  async getHistory(req: Request<{}, GetIPHistoryResponse, {}, HistoryQuery>, res: Response<GetIPHistoryResponse | APIError>): Promise<void> {
     try {
-      const page: number = parseInt(req.query.page as string) || 1;
-      const limit: number = Math.min(parseInt(req.query.limit as string) || 10, 100); // Max 100 items per page
-      
-      if (page < 1 || limit < 1) {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'Page and limit must be positive integers',
-            code: 'INVALID_PAGINATION',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(400).json(error);
-        return;
-      }
-
-      const result = await ipService.getHistory(page, limit);
+      const result = await ipService.getHistory(paginationOptions(req.query));
+      setPaginationHeaders(req, res, result);
       
       const response: GetIPHistoryResponse = {
         success: true,
@@ -123,18 +244,98 @@ export class IPController {
 
       res.status(200).json(response);
     } catch (error) {
-      console.error('Error in getHistory controller:', error);
-      
-      const errorResponse: APIError = {
-        success: false,
-        error: {
-          message: 'Internal server error while retrieving history',
-          code: 'INTERNAL_ERROR',
-        },
-        timestamp: new Date().toISOString(),
-      };
-      
-      res.status(500).json(errorResponse);
+      throw toAppError(error, 'Internal server error while retrieving history');
+    }
+  }
+
+  /**
+   * GET /api/ip/history/:id
+   * Get one history entry
+   */
+  async getHistoryEntry(req: Request<IdParams>, res: Response<HistoryEntryResponse | APIError>): Promise<void> {
+    try {
+      const entry = await ipService.getEntry(req.params.id);
+
+      if (!entry) {
+        throw historyEntryNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+        message: 'History entry retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving history entry');
+    }
+  }
+
+  /**
+   * PATCH /api/ip/history/:id
+   * Set the notes and/or tags of a history entry
+   */
+  async updateHistoryEntry(
+    req: Request<IdParams, any, UpdateHistoryEntryRequest>,
+    res: Response<HistoryEntryResponse | APIError>
+  ): Promise<void> {
+    try {
+      const entry = await ipService.getEntry(req.params.id);
+      if (!entry) {
+        throw historyEntryNotFound(req.params.id);
+      }
+      if (!canModifyEntry(req, entry)) {
+        throw historyEntryForbidden(req.params.id);
+      }
+
+      const updated = await ipService.updateEntry(req.params.id, req.body);
+      if (!updated) {
+        throw historyEntryNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: updated,
+        message: 'History entry updated',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while updating history entry');
+    }
+  }
+
+  /**
+   * DELETE /api/ip/history/:id
+   * Soft-delete a history entry, or remove it for good with hard=true (admin)
+   */
+  async deleteHistoryEntry(
+    req: Request<IdParams, any, {}, DeleteHistoryEntryQuery>,
+    res: Response<DeleteHistoryEntryResponse | APIError>
+  ): Promise<void> {
+    try {
+      // The route requires the 'admin' scope for hard deletes, and admins may delete any entry
+      const hard = req.query.hard === true;
+
+      if (!hard) {
+        const entry = await ipService.getEntry(req.params.id);
+        if (!entry) {
+          throw historyEntryNotFound(req.params.id);
+        }
+        if (!canModifyEntry(req, entry)) {
+          throw historyEntryForbidden(req.params.id);
+        }
+      }
+
+      const deleted = await ipService.deleteEntry(req.params.id, hard);
+      if (!deleted) {
+        throw historyEntryNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { id: req.params.id, hard, deletedAt: deleted.deletedAt.toISOString() },
+        message: hard ? 'History entry permanently deleted' : 'History entry deleted',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while deleting history entry');
     }
   }
 
@@ -142,9 +343,11 @@ export class IPController {
    * GET /api/ip/stats
    * Get statistics about stored IPs
    */
-  async getStats(req: Request, res: Response): Promise<void> {
+  async getStats(req: Request<{}, any, {}, StatsQuery>, res: Response): Promise<void> {
     try {
-      const stats = await ipService.getStats();
+      const { tz, ipClass } = req.query;
+
+      const stats = await ipService.getStats(tz, ipClass ?? null);
       
       res.status(200).json({
         success: true,
@@ -152,67 +355,320 @@ export class IPController {
         message: 'Statistics retrieved successfully',
       });
     } catch (error) {
-      console.error('Error in getStats controller:', error);
-      
-      const errorResponse: APIError = {
-        success: false,
-        error: {
-          message: 'Internal server error while retrieving statistics',
-          code: 'INTERNAL_ERROR',
-        },
-        timestamp: new Date().toISOString(),
-      };
-      
-      res.status(500).json(errorResponse);
+      throw toAppError(error, 'Internal server error while retrieving statistics');
+    }
+  }
+
+  /**
+   * GET /api/ip/stats/timeseries
+   * Get reversal counts per hour, day or week, split by IP family
+   */
+  async getTimeSeries(req: Request<{}, any, {}, TimeSeriesQuery>, res: Response<StatsTimeSeriesResponse | APIError>): Promise<void> {
+    try {
+      const { interval, from, to, tz } = req.query;
+
+      const series = await ipService.getTimeSeries({ interval, from, to, tz });
+
+      res.status(200).json({
+        success: true,
+        data: series,
+        message: 'Time series retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving time series');
     }
   }
 
   /**
    * GET /api/ip/search
-   * Search for IPs
+   * Search for IPs by text, CIDR block, date range, family and user agent
    */
-  async searchIPs(req: Request<{}, any, {}, SearchQuery>, res: Response): Promise<void> {
+  async searchIPs(req: Request<{}, SearchIPResponse, {}, SearchQuery>, res: Response<SearchIPResponse | APIError>): Promise<void> {
     try {
-      const query: string | undefined = req.query.q as string;
-      const limit: number = Math.min(parseInt(req.query.limit as string) || 10, 50);
-      
-      if (!query || query.trim().length === 0) {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'Search query is required',
-            code: 'MISSING_QUERY',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(400).json(error);
-        return;
+      const { groupBy, page, cursor, limit, includeTotal, ...filters } = req.query;
+
+      if (Object.keys(filters).every((key) => key === 'match')) {
+        throw new ValidationError('Search query or at least one filter is required', 'MISSING_QUERY');
       }
 
-      const results = await ipService.searchIPs(query.trim(), limit);
+      const [result, groups] = await Promise.all([
+        ipService.searchIPs(filters, paginationOptions({ page, cursor, limit, includeTotal })),
+        groupBy ? ipService.countGroups(filters, groupBy) : undefined,
+      ]);
+      setPaginationHeaders(req, res, result);
       
       res.status(200).json({
         success: true,
         data: {
-          results,
-          query: query.trim(),
-          count: results.length,
+          ...result,
+          // Kept for clients written against the original search response
+          results: result.entries,
+          query: filters.q ?? null,
+          count: result.entries.length,
+          ...(groups && { groups }),
         },
         message: 'Search completed successfully',
       });
     } catch (error) {
-      console.error('Error in searchIPs controller:', error);
-      
-      const errorResponse: APIError = {
-        success: false,
-        error: {
-          message: 'Internal server error while searching',
-          code: 'INTERNAL_ERROR',
+      throw toAppError(error, 'Internal server error while searching');
+    }
+  }
+
+  /**
+   * GET /api/ip/export
+   * Stream the (optionally filtered) history as CSV, NDJSON or JSON
+   */
+  async exportHistory(req: Request<{}, any, {}, ExportQuery>, res: Response): Promise<void> {
+    const { format, ...filters } = req.query;
+
+    const filename = `ip-history-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    res.status(200);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    // Once headers are out, timeoutHandler no longer replaces the response with a 408
+    res.flushHeaders();
+
+    try {
+      let first = true;
+      res.write(exportPrologue(format));
+
+      for await (const entries of ipService.streamHistory(filters)) {
+        if (closed) {
+          return;
+        }
+
+        if (!res.write(serializeEntries(format, entries, first))) {
+          await waitForDrain(res);
+        }
+        first = false;
+      }
+
+      res.end(exportEpilogue(format, first));
+    } catch (error) {
+      logger.error('Error in exportHistory controller', { error });
+
+      // Headers are already sent, so the only way to signal failure is to abort the stream
+      res.destroy(error as Error);
+    }
+  }
+
+  /**
+   * GET /api/ip/stream
+   * Push every new reversal as Server-Sent Events, optionally filtered by cidr and family.
+   * Reconnecting clients send Last-Event-ID and first get the entries they missed.
+   */
+  async streamHistory(req: Request<{}, any, {}, LiveFeedQuery>, res: Response): Promise<void> {
+    const parsed = parseLiveFeedRequest(req.query, req.get('Last-Event-ID'));
+    if (liveFeedService.isFull()) {
+      throw liveFeedFull();
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Keeps nginx from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    // Once headers are out, timeoutHandler no longer replaces the response with a 408
+    res.flushHeaders();
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    const write = (chunk: string): void => {
+      if (res.writableLength > LIVE_FEED_MAX_BUFFERED_BYTES) {
+        logger.warn('Closing slow live feed client', { transport: 'sse' });
+        res.end();
+        return;
+      }
+      res.write(chunk);
+    };
+
+    const client: LiveFeedClient = {
+      transport: 'sse',
+      send: (eventId, entry) => write(`id: ${eventId}\nevent: reversal\ndata: ${JSON.stringify(entry)}\n\n`),
+      truncated: (limit) => write(`event: truncated\ndata: ${JSON.stringify({ limit })}\n\n`),
+      // A comment line: ignored by EventSource, but keeps proxies from timing out the connection
+      heartbeat: () => write(`: heartbeat ${new Date().toISOString()}\n\n`),
+      close: () => res.end(),
+    };
+
+    let closed = false;
+    let unsubscribe: (() => void) | null = null;
+    res.on('close', () => {
+      closed = true;
+      unsubscribe?.();
+    });
+
+    try {
+      unsubscribe = await liveFeedService.open(client, parsed.filters, parsed.resumeFrom);
+      if (closed) {
+        unsubscribe();
+      }
+    } catch (error) {
+      logger.error('Error in streamHistory controller', { error });
+
+      // Headers are already sent, so the only way to signal failure is to abort the stream
+      res.destroy(error as Error);
+    }
+  }
+
+  /**
+   * GET /api/ip/stream with Upgrade: websocket
+   * The live feed over a WebSocket; filters and resume position come from the query string.
+   * Authentication and rate limits are checked before this is called (see handleStreamUpgrade).
+   */
+  upgradeStream(req: IncomingMessage, socket: Duplex, head: Buffer, query: Record<string, string>): void {
+    let parsed: ReturnType<typeof parseLiveFeedRequest>;
+    try {
+      // Upgrade requests bypass Express, so the query is validated here rather than by validate()
+      const validated = parseRequestPart(liveFeedQuerySchema, 'query', query);
+      if (!validated.success) {
+        throw validationError(validated.issues);
+      }
+
+      parsed = parseLiveFeedRequest(validated.data, undefined);
+      if (liveFeedService.isFull()) {
+        throw liveFeedFull();
+      }
+    } catch (error) {
+      // No errorHandler here either: answer on the raw socket
+      const appError = toAppError(error);
+      rejectUpgrade(socket, appError.status, appError.toJSON(), appError.headers);
+      return;
+    }
+
+    liveFeedSockets.handleUpgrade(req, socket, head, (ws: WebSocket) => {
+      const send = (message: LiveFeedMessage): void => {
+        if (ws.readyState !== WebSocket.OPEN) {
+          return;
+        }
+        if (ws.bufferedAmount > LIVE_FEED_MAX_BUFFERED_BYTES) {
+          logger.warn('Closing slow live feed client', { transport: 'websocket' });
+          ws.close(1013, 'Client too slow');
+          return;
+        }
+        ws.send(JSON.stringify(message));
+      };
+
+      // Sockets that miss a whole heartbeat interval without answering the ping are dead
+      let alive = true;
+      ws.on('pong', () => {
+        alive = true;
+      });
+
+      const client: LiveFeedClient = {
+        transport: 'websocket',
+        send: (eventId, entry) => send({ type: 'reversal', id: eventId, data: entry }),
+        truncated: (limit) => send({ type: 'truncated', limit }),
+        heartbeat: () => {
+          if (!alive) {
+            ws.terminate();
+            return;
+          }
+          alive = false;
+          ws.ping();
+          send({ type: 'heartbeat', timestamp: new Date().toISOString() });
         },
-        timestamp: new Date().toISOString(),
+        close: () => ws.close(1001, 'Server shutting down'),
       };
-      
-      res.status(500).json(errorResponse);
+
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      ws.on('close', () => {
+        closed = true;
+        unsubscribe?.();
+      });
+      ws.on('error', (error) => {
+        logger.warn('Live feed socket error', { error });
+      });
+
+      liveFeedService.open(client, parsed.filters, parsed.resumeFrom)
+        .then((remove) => {
+          unsubscribe = remove;
+          if (closed) {
+            remove();
+          }
+        })
+        .catch((error) => {
+          logger.error('Error in upgradeStream controller', { error });
+          ws.close(1011, 'Internal server error');
+        });
+    });
+  }
+
+  /**
+   * POST /api/ip/import
+   * Import history from a CSV or NDJSON request body
+   */
+  async importHistory(req: Request<{}, any, unknown, ImportQuery>, res: Response): Promise<void> {
+    try {
+      const format = req.query.format ?? detectImportFormat(req.get('Content-Type'));
+
+      if (!format) {
+        throw new ValidationError(
+          `Invalid import format. Send text/csv or application/x-ndjson, or set format to one of: ${IMPORT_FORMATS.join(', ')}`,
+          'INVALID_IMPORT_FORMAT',
+          { details: { contentType: req.get('Content-Type') } }
+        );
+      }
+
+      if (typeof req.body !== 'string' || req.body.trim().length === 0) {
+        throw new ValidationError('Request body must contain the CSV or NDJSON file to import', 'MISSING_IMPORT_BODY');
+      }
+
+      const dryRun = req.query.dryRun === true;
+      const report = await importService.importHistory(req.body.split(/\r?\n/), {
+        format,
+        dryRun,
+        apiKeyId: req.apiKey?.id ?? null,
+      });
+
+      const response: ImportHistoryResponse = {
+        success: true,
+        data: report,
+        message: dryRun
+          ? `Dry run: ${report.accepted} rows would be imported, ${report.rejected} rejected`
+          : `${report.accepted} rows imported, ${report.rejected} rejected`,
+      };
+
+      res.status(!dryRun && report.accepted > 0 ? 201 : 200).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while importing history');
+    }
+  }
+
+  /**
+   * GET /api/ip/:ip
+   * Get the deduplicated summary of one IP (or CIDR block) with its recent events
+   */
+  async getIPSummary(req: Request<IPSummaryParams, any, {}, IPSummaryQuery>, res: Response<GetIPSummaryResponse | APIError>): Promise<void> {
+    try {
+      const { ip } = req.params;
+      const { limit } = req.query;
+
+      // Look up the canonical form that history and the summary are keyed by
+      const address = IPAddress.tryParse(ip);
+      const key = address ? address.toString() : reverseCIDR(ip, 'octets', 0).network;
+
+      const summary = await ipService.getIPSummary(key, limit);
+
+      if (!summary) {
+        throw new NotFoundError('IP address has not been reversed yet', 'IP_NOT_FOUND', { details: { ip: key } });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+        message: 'IP summary retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving IP summary');
     }
   }
 
@@ -222,38 +678,26 @@ export class IPController {
    */
   async getMyIP(req: Request, res: Response): Promise<void> {
     try {
-      const clientIP = extractClientIP(req);
-      
+      const resolution = req.resolvedClientIP ?? resolveClientIP(req);
+      const clientIP = resolution.ip;
+
       if (!clientIP || clientIP === 'unknown') {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'Unable to determine client IP address',
-            code: 'IP_DETECTION_FAILED',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(400).json(error);
-        return;
+        throw new ValidationError('Unable to determine client IP address', 'IP_DETECTION_FAILED', {
+          details: { source: resolution.source, trustedHops: resolution.trustedHops },
+        });
       }
 
       // Check if it's a valid IP that we can reverse
-      if (!isValidIP(clientIP)) {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'Detected IP address is not in a valid format',
-            code: 'INVALID_DETECTED_IP',
-            details: { detectedIP: clientIP },
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(400).json(error);
-        return;
+      const address = IPAddress.tryParse(clientIP);
+
+      if (!address) {
+        throw new ValidationError('Detected IP address is not in a valid format', 'INVALID_DETECTED_IP', {
+          details: { detectedIP: clientIP },
+        });
       }
 
       // Store and return the reversed IP
-      const result = await ipService.reverseAndStore(clientIP, req);
+      const result = await ipService.reverseAndStore(address.toString(), req);
       
       const response: ReverseIPResponse = {
         success: true,
@@ -261,28 +705,31 @@ export class IPController {
           id: result.id,
           originalIP: result.originalIP,
           reversedIP: result.reversedIP,
+          format: result.format,
+          prefixLength: result.prefixLength,
+          family: result.family as IPFamily | null,
           requestIP: result.requestIP,
           userAgent: result.userAgent,
+          apiKeyId: result.apiKeyId,
           createdAt: result.createdAt.toString(),
           timestamp: result.timestamp.toISOString(),
+          cidr: result.cidr,
+          ipClass: result.ipClass,
+          country: result.country,
+          city: result.city,
+          asn: result.asn,
+          asOrg: result.asOrg,
+          requestCountry: result.requestCountry,
+          requestAsn: result.requestAsn,
+          classification: result.classification,
+          clientIP: resolution,
         },
         message: 'Your IP address has been reversed and stored',
       };
 
       res.status(200).json(response);
     } catch (error) {
-      console.error('Error in getMyIP controller:', error);
-      
-      const errorResponse: APIError = {
-        success: false,
-        error: {
-          message: 'Internal server error while processing your IP',
-          code: 'INTERNAL_ERROR',
-        },
-        timestamp: new Date().toISOString(),
-      };
-      
-      res.status(500).json(errorResponse);
+      throw toAppError(error, 'Internal server error while processing your IP');
     }
   }
 
@@ -307,13 +754,18 @@ export class IPController {
           uptime: process.uptime(),
           responseTime: Math.round(responseTime * 100) / 100, // Round to 2 decimal places
           environment: process.env.NODE_ENV || 'unknown',
+          // Informational only: a missing GeoIP database doesn't make the service unhealthy
+          geoip: {
+            enabled: geoIpService.isEnabled(),
+            databases: geoIpService.getStatus(),
+          },
         },
       };
 
       const statusCode = dbHealthy ? 200 : 503;
       res.status(statusCode).json(health);
     } catch (error) {
-      console.error('Error in health check:', error);
+      logger.error('Error in health check', { error });
       
       res.status(503).json({
         success: false,
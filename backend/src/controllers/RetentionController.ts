@@ -0,0 +1,108 @@
+import type { Request, Response } from 'express';
+import { privacyService } from '../services/PrivacyService';
+import { retentionService } from '../services/RetentionService';
+import { ConflictError, toAppError } from '../utils/Errors';
+import { normalizeIP } from '../utils/IpUtils';
+import type {
+  EraseRequesterRequest,
+  EraseRequesterResponse,
+  RetentionPurgeQuery,
+  RetentionPurgeResponse,
+  RetentionStatusResponse,
+} from '../types/index';
+
+export class RetentionController {
+  /**
+   * GET /api/retention
+   * Show the retention policy, the rows purged so far and the recent purges
+   */
+  async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const [purgedRows, runs] = await Promise.all([
+        retentionService.getPurgedRows(),
+        retentionService.listRuns(),
+      ]);
+
+      const response: RetentionStatusResponse = {
+        success: true,
+        data: {
+          policy: retentionService.getPolicy(),
+          privacy: privacyService.getPolicy(),
+          purgedRows,
+          runs,
+        },
+        message: 'Retention status retrieved successfully',
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving retention status');
+    }
+  }
+
+  /**
+   * POST /api/retention/purge
+   * Preview a purge (dryRun=true) or start one in the background
+   */
+  async purge(req: Request<{}, any, any, RetentionPurgeQuery>, res: Response): Promise<void> {
+    try {
+      if (req.query.dryRun) {
+        const counts = await retentionService.preview();
+
+        const response: RetentionPurgeResponse = {
+          success: true,
+          data: { dryRun: true, policy: retentionService.getPolicy(), ...counts },
+          message: 'Dry run: nothing was deleted',
+        };
+
+        res.status(200).json(response);
+        return;
+      }
+
+      const run = await retentionService.beginRun('manual');
+
+      if (!run) {
+        throw new ConflictError('A retention purge is already running', 'PURGE_IN_PROGRESS');
+      }
+
+      // Large purges outlast the request timeout; progress shows up in GET /api/retention
+      void retentionService.executeRun(run.id);
+
+      const response: RetentionPurgeResponse = {
+        success: true,
+        data: { dryRun: false, ...run },
+        message: 'Retention purge started',
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while purging history');
+    }
+  }
+
+  /**
+   * POST /api/retention/erasure
+   * Delete or redact every row tied to one requester IP
+   */
+  async eraseRequester(req: Request<{}, any, EraseRequesterRequest>, res: Response): Promise<void> {
+    try {
+      const { requestIP, action } = req.body;
+
+      // Stored request IPs are normalized (IPv4-mapped addresses become plain IPv4)
+      const ip = normalizeIP(requestIP);
+      const rows = await retentionService.eraseRequester(ip, action);
+
+      const response: EraseRequesterResponse = {
+        success: true,
+        data: { requestIP: ip, action, rows },
+        message: action === 'delete' ? `Deleted ${rows} row(s)` : `Redacted ${rows} row(s)`,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while erasing requester data');
+    }
+  }
+}
+
+export const retentionController = new RetentionController();
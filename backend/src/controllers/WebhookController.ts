@@ -0,0 +1,176 @@
+import type { Request, Response } from 'express';
+import { webhookService } from '../services/WebhookService';
+import { NotFoundError, toAppError } from '../utils/Errors';
+import type {
+  CreateWebhookRequest,
+  CreateWebhookResponse,
+  IdParams,
+  UpdateWebhookRequest,
+  WebhookDeliveriesQuery,
+} from '../types/index';
+
+const webhookNotFound = (id: string): NotFoundError =>
+  new NotFoundError('Webhook not found', 'WEBHOOK_NOT_FOUND', { details: { id } });
+
+export class WebhookController {
+  /**
+   * POST /api/webhooks
+   * Register a webhook
+   */
+  async createWebhook(req: Request<{}, any, CreateWebhookRequest>, res: Response): Promise<void> {
+    try {
+      const result = await webhookService.create(req.body);
+
+      const response: CreateWebhookResponse = {
+        success: true,
+        data: result,
+        message: 'Webhook created. Store the secret now; it will not be shown again',
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while creating webhook');
+    }
+  }
+
+  /**
+   * GET /api/webhooks
+   * List all webhooks
+   */
+  async listWebhooks(req: Request, res: Response): Promise<void> {
+    try {
+      const webhooks = await webhookService.list();
+
+      res.status(200).json({
+        success: true,
+        data: {
+          webhooks,
+          count: webhooks.length,
+        },
+        message: 'Webhooks retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while listing webhooks');
+    }
+  }
+
+  /**
+   * GET /api/webhooks/:id
+   * Get one webhook
+   */
+  async getWebhook(req: Request<IdParams>, res: Response): Promise<void> {
+    try {
+      const webhook = await webhookService.get(req.params.id);
+
+      if (!webhook) {
+        throw webhookNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: webhook,
+        message: 'Webhook retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving webhook');
+    }
+  }
+
+  /**
+   * PATCH /api/webhooks/:id
+   * Change the URL, filters, description or active flag of a webhook
+   */
+  async updateWebhook(req: Request<IdParams, any, UpdateWebhookRequest>, res: Response): Promise<void> {
+    try {
+      const webhook = await webhookService.update(req.params.id, req.body);
+
+      if (!webhook) {
+        throw webhookNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: webhook,
+        message: 'Webhook updated',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while updating webhook');
+    }
+  }
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Delete a webhook and its delivery log
+   */
+  async deleteWebhook(req: Request<IdParams>, res: Response): Promise<void> {
+    try {
+      const deleted = await webhookService.remove(req.params.id);
+
+      if (!deleted) {
+        throw webhookNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { id: req.params.id },
+        message: 'Webhook deleted',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while deleting webhook');
+    }
+  }
+
+  /**
+   * POST /api/webhooks/:id/test
+   * Send a test event now and return the logged delivery
+   */
+  async testWebhook(req: Request<IdParams>, res: Response): Promise<void> {
+    try {
+      const delivery = await webhookService.sendTest(req.params.id);
+
+      if (!delivery) {
+        throw webhookNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: delivery,
+        message: delivery.status === 'delivered'
+          ? 'Test event delivered'
+          : 'Test event was not accepted by the receiver; it will be retried',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while testing webhook');
+    }
+  }
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * Query the delivery log of a webhook
+   */
+  async listDeliveries(req: Request<IdParams, any, {}, WebhookDeliveriesQuery>, res: Response): Promise<void> {
+    try {
+      const { status, event, limit } = req.query;
+
+      const deliveries = await webhookService.listDeliveries(req.params.id, { status, event, limit });
+
+      if (!deliveries) {
+        throw webhookNotFound(req.params.id);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          deliveries,
+          count: deliveries.length,
+          limit,
+        },
+        message: 'Webhook deliveries retrieved successfully',
+      });
+    } catch (error) {
+      throw toAppError(error, 'Internal server error while retrieving webhook deliveries');
+    }
+  }
+}
+
+export const webhookController = new WebhookController();
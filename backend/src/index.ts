@@ -1,10 +1,20 @@
-import dotenv from 'dotenv';
+// Load environment variables before any module reads its settings from process.env
+import 'dotenv/config';
 import type { Server } from 'http';
 import app from './app';
+import { trustedProxyErrors } from './middleware/ClientIPMiddleware';
+import { handleStreamUpgrade } from './routes/IpRoute';
+import { geoIpService } from './services/GeoIpService';
+import { idempotencyService } from './services/IdempotencyService';
+import { importService } from './services/ImportService';
 import { ipService } from './services/IpService';
-
-// Load environment variables
-dotenv.config();
+import { liveFeedService } from './services/LiveFeedService';
+import { logger } from './services/LoggerService';
+import { privacyService } from './services/PrivacyService';
+import { rateLimitService } from './services/RateLimitService';
+import { retentionService } from './services/RetentionService';
+import { statsRollupService } from './services/StatsRollupService';
+import { webhookService } from './services/WebhookService';
 
 const PORT: number = parseInt(process.env.PORT || '3001');
 const NODE_ENV: string = process.env.NODE_ENV || 'development';
@@ -14,68 +24,149 @@ const requiredEnvVars: string[] = ['DATABASE_URL'];
 const missingEnvVars: string[] = requiredEnvVars.filter(envVar => !process.env[envVar]);
 
 if (missingEnvVars.length > 0) {
-  console.error('❌ Missing required environment variables:', missingEnvVars);
+  logger.error('Missing required environment variables', { missingEnvVars });
+  process.exit(1);
+}
+
+const privacyErrors: string[] = privacyService.configErrors();
+
+if (privacyErrors.length > 0) {
+  logger.error('Invalid privacy settings', { privacyErrors });
+  process.exit(1);
+}
+
+const proxyErrors: string[] = trustedProxyErrors();
+
+if (proxyErrors.length > 0) {
+  logger.error('Invalid trusted proxy settings', { proxyErrors });
+  process.exit(1);
+}
+
+const rateLimitErrors: string[] = rateLimitService.configErrors();
+
+if (rateLimitErrors.length > 0) {
+  logger.error('Invalid rate limit settings', { rateLimitErrors });
+  process.exit(1);
+}
+
+const importErrors: string[] = importService.configErrors();
+
+if (importErrors.length > 0) {
+  logger.error('Invalid import settings', { importErrors });
+  process.exit(1);
+}
+
+const retentionErrors: string[] = retentionService.configErrors();
+
+if (retentionErrors.length > 0) {
+  logger.error('Invalid retention settings', { retentionErrors });
+  process.exit(1);
+}
+
+const webhookErrors: string[] = webhookService.configErrors();
+
+if (webhookErrors.length > 0) {
+  logger.error('Invalid webhook settings', { webhookErrors });
   process.exit(1);
 }
 
 // Graceful shutdown handling
 const gracefulShutdown = async (signal: string): Promise<void> => {
-  console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
+  logger.info('Starting graceful shutdown', { signal });
+
+  statsRollupService.stop();
+  geoIpService.stop();
+  retentionService.stop();
+  rateLimitService.stop();
+  idempotencyService.stop();
+  webhookService.stop();
+  // Open live feed streams would otherwise keep server.close() waiting
+  liveFeedService.stop();
   
   server.close(async (err) => {
     if (err) {
-      console.error('❌ Error during server shutdown:', err);
+      logger.error('Error during server shutdown', { error: err });
       process.exit(1);
     }
     
-    console.log('🔌 HTTP server closed');
+    logger.info('HTTP server closed');
     
     try {
       // Disconnect from database
       await ipService.disconnect();
-      console.log('🔐 Database connections closed');
+      logger.info('Database connections closed');
       
-      console.log('✅ Graceful shutdown completed');
+      logger.info('Graceful shutdown completed');
       process.exit(0);
     } catch (error) {
-      console.error('❌ Error during database shutdown:', error);
+      logger.error('Error during database shutdown', { error });
       process.exit(1);
     }
   });
   
   // Force shutdown after 10 seconds
   setTimeout(() => {
-    console.error('⚠️  Forcing shutdown after timeout');
+    logger.error('Forcing shutdown after timeout');
     process.exit(1);
   }, 10000);
 };
 
 // Start server
 const server: Server = app.listen(PORT, () => {
-  console.log(`
-🚀 IP Reverser API Server Started
-📍 Environment: ${NODE_ENV}
-🌐 Port: ${PORT}
-🔗 URL: http://localhost:${PORT}
-📊 Health Check: http://localhost:${PORT}/health
-📚 API Docs: http://localhost:${PORT}/
-⏰ Started at: ${new Date().toISOString()}
-`);
+  logger.info('IP Reverser API server started', {
+    environment: NODE_ENV,
+    port: PORT,
+    url: `http://localhost:${PORT}`,
+  });
+
+  // Roll up closed days of history into DailyStats in the background
+  statsRollupService.start();
+
+  // Load the GeoIP databases (if configured) and reload them when their files change
+  geoIpService.start();
+
+  // Purge history past the configured retention limits in the background
+  retentionService.start();
+
+  // Delete ended rate limit windows in the background
+  rateLimitService.start();
+
+  // Delete expired idempotency keys in the background
+  idempotencyService.start();
+
+  // Queue webhook deliveries for new reversals and send them in the background
+  webhookService.start();
 
   if (NODE_ENV === 'development') {
     console.log(`
 📋 Available Endpoints:
   GET  /                    - API information
   GET  /health              - Health check
+  GET  /metrics             - Prometheus metrics
   POST /api/ip/reverse      - Reverse an IP address
+  POST /api/ip/reverse/batch - Reverse a batch of IP addresses
   GET  /api/ip/history      - Get IP history
+  *    /api/ip/history/:id  - Get, annotate, tag or delete one history entry
   GET  /api/ip/stats        - Get statistics
+  GET  /api/ip/stats/timeseries - Get bucketed statistics
   GET  /api/ip/search       - Search IPs
   GET  /api/ip/my-ip        - Get your IP reversed
+  GET  /api/ip/stream       - Live feed of new reversals (SSE or WebSocket)
+  GET  /api/ip/:ip          - Get the summary of an IP
+  GET  /api/ip/export       - Export history (csv, ndjson, json)
+  POST /api/ip/import       - Import history from CSV/NDJSON (admin)
+  *    /api/keys            - Manage API keys (admin)
+  GET  /api/retention       - Retention policy and purges (admin)
+  POST /api/retention/purge - Run or preview a retention purge (admin)
+  POST /api/retention/erasure - Erase a requester's data (admin)
+  *    /api/webhooks        - Manage webhooks and their delivery logs (admin)
 `);
   }
 });
 
+// WebSocket live feed (GET /api/ip/stream with Upgrade: websocket)
+server.on('upgrade', handleStreamUpgrade);
+
 // Handle server errors
 server.on('error', (error: NodeJS.ErrnoException) => {
   if (error.syscall !== 'listen') {
@@ -84,11 +175,11 @@ server.on('error', (error: NodeJS.ErrnoException) => {
 
   switch (error.code) {
     case 'EACCES':
-      console.error(`❌ Port ${PORT} requires elevated privileges`);
+      logger.error('Port requires elevated privileges', { port: PORT });
       process.exit(1);
       break;
     case 'EADDRINUSE':
-      console.error(`❌ Port ${PORT} is already in use`);
+      logger.error('Port is already in use', { port: PORT });
       process.exit(1);
       break;
     default:
@@ -98,13 +189,13 @@ server.on('error', (error: NodeJS.ErrnoException) => {
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error: Error) => {
-  console.error('❌ Uncaught Exception:', error);
+  logger.error('Uncaught exception', { error });
   process.exit(1);
 });
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
-  console.error('❌ Unhandled Rejection at:', promise, 'reason:', reason);
+  logger.error('Unhandled rejection', { error: reason });
   process.exit(1);
 });
 
@@ -0,0 +1,150 @@
+import type { Request, Response, NextFunction } from 'express';
+import { apiKeyService } from '../services/ApiKeyService';
+import { asyncHandler } from './IpMiddleware';
+import { AuthenticationError, ForbiddenError, RateLimitError } from '../utils/Errors';
+import type { AppError } from '../utils/Errors';
+import type { ApiKeyScope } from '../types/index';
+
+// When true, every API route requires a key; otherwise only admin routes do
+const API_KEY_REQUIRED: boolean = process.env.API_KEY_REQUIRED === 'true';
+
+/**
+ * Reads an API key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ * (plain headers only, so it also works on WebSocket upgrade requests)
+ */
+export const extractApiKey = (req: Pick<Request, 'headers'>): string | null => {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  const headerKey = req.headers['x-api-key'];
+  const value = Array.isArray(headerKey) ? headerKey[0] : headerKey;
+  return value ? value.trim() : null;
+};
+
+/**
+ * Resolves the request's API key (if any) into req.apiKey and enforces the key's daily quota.
+ * Returns the error the request must be refused with (by response or upgrade rejection), or null to continue.
+ */
+export const resolveApiKey = async (req: Request): Promise<AppError | null> => {
+  const key = extractApiKey(req);
+  if (!key) {
+    return null;
+  }
+
+  const apiKey = await apiKeyService.verify(key);
+  if (!apiKey) {
+    return new AuthenticationError('Invalid or revoked API key', 'INVALID_API_KEY', {
+      headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' },
+    });
+  }
+
+  if (apiKey.id) {
+    const usedToday = await apiKeyService.recordUsage(apiKey.id);
+
+    if (apiKey.dailyQuota !== null && usedToday > apiKey.dailyQuota) {
+      const now = new Date();
+      const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+      return new RateLimitError('Daily API key quota exceeded', 'QUOTA_EXCEEDED', {
+        details: {
+          dailyQuota: apiKey.dailyQuota,
+          resetsAt: resetsAt.toISOString(),
+        },
+        headers: { 'Retry-After': Math.ceil((resetsAt.getTime() - now.getTime()) / 1000) },
+      });
+    }
+  }
+
+  req.apiKey = apiKey;
+  return null;
+};
+
+/**
+ * Authenticates the request if it carries an API key and enforces the key's daily quota.
+ * Requests without a key continue anonymously; use requireScope to restrict access.
+ */
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const failure = await resolveApiKey(req);
+  if (failure) {
+    throw failure;
+  }
+
+  next();
+});
+
+/**
+ * Whether an authenticated key grants a scope ('admin' grants everything)
+ */
+export const hasScope = (req: Request, scope: ApiKeyScope): boolean => {
+  const scopes = req.apiKey?.scopes || [];
+  return scopes.includes('admin') || scopes.includes(scope);
+};
+
+/**
+ * Why a request lacks the given scope, or null if it has it. Anonymous requests
+ * pass for non-admin scopes unless API_KEY_REQUIRED is set or `anonymousAllowed` is false.
+ */
+export const scopeFailure = (
+  req: Request,
+  scope: ApiKeyScope,
+  anonymousAllowed: boolean = !API_KEY_REQUIRED
+): AppError | null => {
+  if (!req.apiKey) {
+    if (scope !== 'admin' && anonymousAllowed) {
+      return null;
+    }
+
+    return new AuthenticationError('An API key is required for this route', 'API_KEY_REQUIRED', {
+      headers: { 'WWW-Authenticate': 'Bearer' },
+    });
+  }
+
+  if (!hasScope(req, scope)) {
+    return new ForbiddenError(`API key lacks the required '${scope}' scope`, 'INSUFFICIENT_SCOPE', {
+      details: {
+        requiredScope: scope,
+        grantedScopes: req.apiKey.scopes,
+      },
+    });
+  }
+
+  return null;
+};
+
+/**
+ * Requires an API key with the given scope. Anonymous requests are let through
+ * for non-admin scopes unless API_KEY_REQUIRED is set.
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const failure = scopeFailure(req, scope);
+    if (failure) {
+      next(failure);
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Requires an API key with the given scope, also when API_KEY_REQUIRED is off.
+ * For routes that act on data owned by a key, where anonymous callers can't be told apart.
+ */
+export const requireApiKey = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const failure = scopeFailure(req, scope, false);
+    if (failure) {
+      next(failure);
+      return;
+    }
+
+    next();
+  };
+};
+
+export default authenticate;
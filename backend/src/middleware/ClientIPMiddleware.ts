@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from 'express';
+import {
+  DEFAULT_TRUSTED_PROXIES,
+  compileTrustedProxies,
+  isValidTrustedProxy,
+  normalizeIP,
+  resolveClientIP,
+} from '../utils/IpUtils';
+
+// Proxies allowed to set forwarding headers: CIDR blocks, addresses or loopback/linklocal/uniquelocal
+export const TRUSTED_PROXIES: string[] = process.env.TRUSTED_PROXIES
+  ? process.env.TRUSTED_PROXIES.split(',').map((entry) => entry.trim()).filter(Boolean)
+  : DEFAULT_TRUSTED_PROXIES;
+
+// Entries that are neither a CIDR block, an address nor a preset; left out here and
+// reported by trustedProxyErrors() at startup
+const invalidTrustedProxies: string[] = TRUSTED_PROXIES.filter((entry) => !isValidTrustedProxy(entry));
+
+const isTrusted = compileTrustedProxies(TRUSTED_PROXIES.filter((entry) => !invalidTrustedProxies.includes(entry)));
+
+/**
+ * Problems with the TRUSTED_PROXIES setting, checked at startup
+ */
+export const trustedProxyErrors = (): string[] => invalidTrustedProxies.map(
+  (entry) => `TRUSTED_PROXIES: invalid entry '${entry}' (expected a CIDR block, an address, or one of: loopback, linklocal, uniquelocal)`
+);
+
+/**
+ * Whether an address (IPv4-mapped or not) belongs to a trusted proxy
+ */
+export const isTrustedProxy = (ip: string): boolean => isTrusted(normalizeIP(ip));
+
+/**
+ * Resolves the client IP once per request (see resolveClientIP) and stores it on the request
+ */
+export const clientIPMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  req.resolvedClientIP = resolveClientIP(req, isTrustedProxy);
+  next();
+};
@@ -1,5 +1,6 @@
 import cors from 'cors';
 import type { CorsOptions, CorsOptionsDelegate } from 'cors';
+import { logger } from '../services/LoggerService';
 
 // Define allowed origins based on environment
 const getAllowedOrigins = (): string[] => {
@@ -39,7 +40,7 @@ const corsOptions: CorsOptions = {
     if (allowedOrigins.includes(origin) || allowedOrigins.includes('*')) {
       callback(null, true);
     } else {
-      console.warn(`CORS: Blocked origin: ${origin}`);
+      logger.warn('CORS: blocked origin', { origin });
       callback(new Error('Not allowed by CORS'));
     }
   },
@@ -54,6 +55,8 @@ const corsOptions: CorsOptions = {
   allowedHeaders: [
     'Content-Type',
     'Authorization',
+    'X-API-Key',
+    'Idempotency-Key',
     'X-Requested-With',
     'Accept',
     'Origin',
@@ -64,6 +67,8 @@ const corsOptions: CorsOptions = {
     'X-Total-Count',
     'X-Page',
     'X-Per-Page',
+    'Link',
+    'Idempotent-Replayed',
   ],
   credentials: true,
   maxAge: 86400, // 24 hours
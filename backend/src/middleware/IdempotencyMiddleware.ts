@@ -0,0 +1,125 @@
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { Prisma } from '@prisma/client';
+import { idempotencyService } from '../services/IdempotencyService';
+import { privacyService } from '../services/PrivacyService';
+import { logger } from '../services/LoggerService';
+import { normalizeIP } from '../utils/IpUtils';
+import { AppError, ConflictError, ValidationError } from '../utils/Errors';
+
+// Printable ASCII, like the keys clients typically send (UUIDs, request ids)
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * JSON with object keys sorted, so bodies that differ only in key order match
+ */
+const canonicalJSON = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * What a key is bound to: the method, route path, query and body of its first request
+ */
+export const requestFingerprint = (req: Request): string => {
+  return createHash('sha256')
+    .update(canonicalJSON([req.method, req.baseUrl + req.path, req.query, req.body ?? null]))
+    .digest('hex');
+};
+
+/**
+ * Keys are scoped per API key, or per client IP for anonymous callers, so one
+ * client can never replay another's response. The IP is stored as a hash, never
+ * as the address itself: the HMAC keyed with REQUEST_IP_HASH_SECRET when that is
+ * set, otherwise an unkeyed SHA-256.
+ */
+const idempotencyScope = (req: Request): string => {
+  if (req.apiKey?.id) {
+    return `key:${req.apiKey.id}`;
+  }
+
+  const ip = req.resolvedClientIP?.ip ?? req.ip ?? 'unknown';
+  const hash = privacyService.hashRequestIP(ip) ?? `sha256:${createHash('sha256').update(normalizeIP(ip)).digest('hex')}`;
+  return `ip:${hash}`;
+};
+
+/**
+ * Makes a write route safe to retry with an Idempotency-Key header. The first
+ * request with a key runs; its 2xx response is stored and replayed (with
+ * Idempotent-Replayed: true) to later requests with the same key and body.
+ * The same key with another body gets a 422, and one that arrives while the
+ * first is still running gets a 409. Other responses aren't stored, so a
+ * failed request can be retried with the same key. Requests without the
+ * header are unaffected. Must run after authentication and validation, so invalid
+ * requests never claim a key and the body and query are compared normalized.
+ */
+export const idempotency = () => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const header = req.get('Idempotency-Key');
+    if (header === undefined) {
+      next();
+      return;
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(header)) {
+      throw new ValidationError('Idempotency-Key must be 1 to 255 printable ASCII characters', 'INVALID_IDEMPOTENCY_KEY');
+    }
+
+    const key = `${idempotencyScope(req)}:${header}`;
+    const claim = await idempotencyService.begin(key, requestFingerprint(req));
+
+    switch (claim.outcome) {
+      case 'replay':
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(claim.status).json(claim.body);
+        return;
+      case 'mismatch':
+        throw new AppError(422, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used with a different request', {
+          details: { idempotencyKey: header },
+        });
+      case 'in-progress':
+        throw new ConflictError('A request with this Idempotency-Key is still being processed', 'IDEMPOTENCY_REQUEST_IN_PROGRESS', {
+          details: { idempotencyKey: header },
+          headers: { 'Retry-After': 1 },
+        });
+    }
+
+    // Settle the claim with the handler's response before sending it, so a retry never
+    // finds the key in progress once the response is out. This doesn't depend on the
+    // client still being connected: one that gave up (the usual reason to retry) must
+    // still find the response. The timeout handler's 408 doesn't settle the claim,
+    // since the handler is still running.
+    let settled = false;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (settled || res.statusCode === 408) {
+        return json(body);
+      }
+
+      settled = true;
+      const saved = res.statusCode >= 200 && res.statusCode < 300
+        ? idempotencyService.complete(key, claim.owner, res.statusCode, body as Prisma.InputJsonValue)
+        : idempotencyService.release(key, claim.owner);
+      void saved
+        .catch((error) => logger.error('Could not save idempotency key', { error }))
+        .then(() => {
+          if (!res.headersSent) {
+            json(body);
+          }
+        });
+      return res;
+    };
+
+    next();
+  };
+};
+
+export default idempotency;
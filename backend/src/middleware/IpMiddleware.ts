@@ -1,77 +1,90 @@
+import { STATUS_CODES } from 'http';
+import type { Duplex } from 'stream';
 import type { Request, Response, NextFunction } from 'express';
 import type { APIError } from '../types/index';
+import { logger, redactHeaders } from '../services/LoggerService';
+import { metricsService } from '../services/MetricsService';
+import { NotFoundError, RateLimitError, RequestTimeoutError, toAppError, toProblemDetails } from '../utils/Errors';
 
-export interface CustomError extends Error {
-  statusCode?: number;
-  code?: string;
-  details?: any;
-}
+const PROBLEM_JSON = 'application/problem+json';
 
 /**
  * Global error handler middleware
  * Must be the last middleware in the chain
+ *
+ * Anything thrown or passed to next() is answered through toAppError: AppErrors
+ * with their own status and code, Prisma errors mapped (e.g. 503 when the
+ * database is down), and everything else as a 500.
  */
 export const errorHandler = (
-  err: CustomError,
+  err: unknown,
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  // Log error details
-  console.error('Error occurred:', {
-    message: err.message,
-    stack: err.stack,
-    url: req.url,
+  const error = toAppError(err);
+
+  // Log error details (the original error, e.g. the Prisma error behind a 503)
+  const fields = {
+    error: err,
+    code: error.code,
+    status: error.status,
+    url: req.originalUrl,
     method: req.method,
-    ip: req.ip,
-    userAgent: req.get('User-Agent'),
-    timestamp: new Date().toISOString(),
-  });
-
-  // Default error response
-  let statusCode = err.statusCode || 500;
-  let message = err.message || 'Internal Server Error';
-  let code = err.code || 'INTERNAL_ERROR';
-
-  // Handle specific error types
-  if (err.name === 'ValidationError') {
-    statusCode = 400;
-    message = 'Validation failed';
-    code = 'VALIDATION_ERROR';
-  } else if (err.name === 'CastError') {
-    statusCode = 400;
-    message = 'Invalid data format';
-    code = 'CAST_ERROR';
-  } else if (err.name === 'UnauthorizedError') {
-    statusCode = 401;
-    message = 'Unauthorized access';
-    code = 'UNAUTHORIZED';
-  } else if (err.message === 'Not allowed by CORS') {
-    statusCode = 403;
-    message = 'CORS policy violation';
-    code = 'CORS_ERROR';
+    clientIP: req.resolvedClientIP?.ip ?? req.ip,
+    headers: redactHeaders(req.headers),
+  };
+  if (error.status >= 500) {
+    logger.error('Unhandled error', fields);
+  } else {
+    logger.warn('Request failed with a client error', fields);
   }
 
-  // Prepare error response
-  const errorResponse: APIError = {
-    success: false,
-    error: {
-      message,
-      code,
-      details: process.env.NODE_ENV === 'development' ? err.details : undefined,
-    },
-    timestamp: new Date().toISOString(),
-  };
+  // A response that has started (e.g. a stream) can't be replaced; Express closes the connection
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  const errorResponse: APIError = error.toJSON();
 
   // Add stack trace in development
   if (process.env.NODE_ENV === 'development') {
+    const original = err instanceof Error ? err : error;
     errorResponse.error.details = {
       ...errorResponse.error.details,
-      stack: err.stack,
+      stack: original.stack,
     };
   }
 
-  res.status(statusCode).json(errorResponse);
+  res.set(error.headers);
+  res.status(error.status).json(errorResponse);
+};
+
+/**
+ * Sends error responses as RFC 7807 problem documents (application/problem+json)
+ * to clients that prefer that type over application/json in their Accept header.
+ * Every APIError body is converted, whether errorHandler or a handler sent it;
+ * other clients keep getting the APIError shape.
+ */
+export const problemDetailsNegotiation = (req: Request, res: Response, next: NextFunction): void => {
+  const json = res.json.bind(res);
+  res.json = (body?: any): Response => {
+    if (body?.success !== false || !body.error) {
+      return json(body);
+    }
+
+    res.vary('Accept');
+    if (req.accepts(['application/json', PROBLEM_JSON]) !== PROBLEM_JSON) {
+      return json(body);
+    }
+
+    res.type(PROBLEM_JSON);
+    const error: APIError = { ...body, requestId: body.requestId ?? res.locals.requestId };
+    return json(toProblemDetails(error, res.statusCode, req.originalUrl.split('?')[0]));
+  };
+
+  next();
 };
 
 /**
@@ -82,57 +95,74 @@ export const notFoundHandler = (
   res: Response,
   next: NextFunction
 ): void => {
-  const error: APIError = {
-    success: false,
-    error: {
-      message: `Route ${req.method} ${req.originalUrl} not found`,
-      code: 'NOT_FOUND',
-      details: {
-        method: req.method,
-        url: req.originalUrl,
-        availableRoutes: [
-          'GET /health',
-          'POST /api/ip/reverse',
-          'GET /api/ip/history',
-          'GET /api/ip/stats',
-          'GET /api/ip/search',
-          'GET /api/ip/my-ip',
-        ],
-      },
+  next(new NotFoundError(`Route ${req.method} ${req.originalUrl} not found`, 'NOT_FOUND', {
+    details: {
+      method: req.method,
+      url: req.originalUrl,
+      availableRoutes: [
+        'GET /health',
+        'GET /metrics',
+        'POST /api/ip/reverse',
+        'POST /api/ip/reverse/batch',
+        'GET /api/ip/history',
+        'GET /api/ip/history/:id',
+        'PATCH /api/ip/history/:id',
+        'DELETE /api/ip/history/:id',
+        'GET /api/ip/stats',
+        'GET /api/ip/stats/timeseries',
+        'GET /api/ip/search',
+        'GET /api/ip/my-ip',
+        'GET /api/ip/stream',
+        'GET /api/ip/:ip',
+        'GET /api/ip/export',
+        'POST /api/ip/import',
+        'GET /api/keys',
+        'POST /api/keys',
+        'GET /api/keys/:id',
+        'POST /api/keys/:id/rotate',
+        'DELETE /api/keys/:id',
+        'GET /api/retention',
+        'POST /api/retention/purge',
+        'POST /api/retention/erasure',
+        'GET /api/webhooks',
+        'POST /api/webhooks',
+        'GET /api/webhooks/:id',
+        'PATCH /api/webhooks/:id',
+        'DELETE /api/webhooks/:id',
+        'POST /api/webhooks/:id/test',
+        'GET /api/webhooks/:id/deliveries',
+      ],
     },
-    timestamp: new Date().toISOString(),
-  };
-
-  res.status(404).json(error);
+  }));
 };
 
 /**
- * Async error wrapper to catch errors in async route handlers
+ * Async error wrapper to catch errors in async route handlers. Handlers may type
+ * req with the params, body and query their route's validate() produces.
  */
-export const asyncHandler = <T extends Request = Request, U extends Response = Response>(
+export const asyncHandler = <T extends Request<any, any, any, any> = Request, U extends Response = Response>(
   fn: (req: T, res: U, next: NextFunction) => Promise<any>
-): ((req: T, res: U, next: NextFunction) => void) => {
-  return (req: T, res: U, next: NextFunction): void => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+): ((req: Request, res: Response, next: NextFunction) => void) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    Promise.resolve(fn(req as T, res as U, next)).catch(next);
   };
 };
 
 /**
- * Request timeout middleware
+ * Request timeout middleware. Requests to `exemptPaths` run without a timeout, for
+ * handlers whose work would go on after a 408 (and then fail to send their response).
  */
-export const timeoutHandler = (timeout: number = 30000) => {
+export const timeoutHandler = (timeout: number = 30000, exemptPaths: string[] = []) => {
   return (req: Request, res: Response, next: NextFunction): void => {
+    // Routing ignores case and a trailing slash, so the exemption does too
+    if (exemptPaths.includes(req.path.toLowerCase().replace(/\/+$/, ''))) {
+      next();
+      return;
+    }
+
     const timer: NodeJS.Timeout = setTimeout(() => {
       if (!res.headersSent) {
-        const error: APIError = {
-          success: false,
-          error: {
-            message: 'Request timeout',
-            code: 'REQUEST_TIMEOUT',
-          },
-          timestamp: new Date().toISOString(),
-        };
-        res.status(408).json(error);
+        next(new RequestTimeoutError('Request timeout'));
       }
     }, timeout);
 
@@ -150,26 +180,47 @@ export const timeoutHandler = (timeout: number = 30000) => {
 };
 
 /**
- * Rate limiting error handler
+ * Rate limiting error handler for a named limiter
  */
-export const rateLimitHandler = (
+export const createRateLimitHandler = (limiter: string) => (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const error: APIError = {
-    success: false,
-    error: {
-      message: 'Too many requests, please try again later',
-      code: 'RATE_LIMIT_EXCEEDED',
-      details: {
-        retryAfter: res.get('Retry-After') || 60,
-      },
+  metricsService.rateLimitRejectionsTotal.inc({ limiter });
+
+  next(new RateLimitError('Too many requests, please try again later', 'RATE_LIMIT_EXCEEDED', {
+    details: {
+      retryAfter: res.get('Retry-After') || 60,
     },
-    timestamp: new Date().toISOString(),
-  };
+  }));
+};
 
-  res.status(429).json(error);
+/**
+ * Refuse a WebSocket upgrade with a plain HTTP response carrying an APIError body
+ * (upgrade requests never reach Express, so there is no `res` to send it through)
+ */
+export const rejectUpgrade = (
+  socket: Duplex,
+  status: number,
+  error: APIError,
+  headers: Record<string, string | number> = {}
+): void => {
+  const body = JSON.stringify(error);
+  const lines = [
+    `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? 'Error'}`,
+    'Content-Type: application/json; charset=utf-8',
+    `Content-Length: ${Buffer.byteLength(body)}`,
+    'Connection: close',
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+  ];
+
+  socket.end(`${lines.join('\r\n')}\r\n\r\n${body}`);
 };
 
+/**
+ * Rate limiting error handler
+ */
+export const rateLimitHandler = createRateLimitHandler('default');
+
 export default errorHandler;
\ No newline at end of file
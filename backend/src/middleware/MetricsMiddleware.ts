@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction } from 'express';
+import { metricsService } from '../services/MetricsService';
+
+// Status codes whose APIError codes count as validation failures
+const VALIDATION_STATUSES = new Set([400, 422]);
+
+/**
+ * Resolve a low-cardinality route label (the matched route pattern, not the raw URL).
+ * The mount path comes from recordRouteBase: once an error has left a router, Express
+ * has already reset req.baseUrl by the time the response finishes.
+ */
+const resolveRoute = (req: Request, res: Response): string => {
+  if (req.route?.path) {
+    return `${res.locals.routeBase ?? req.baseUrl}${req.route.path}`;
+  }
+  return res.statusCode === 404 ? 'not_found' : 'unmatched';
+};
+
+/**
+ * Remembers the mount path of the router a request enters, for its route label.
+ * Mount it in front of every sub-router: router.use('/api/ip', recordRouteBase, ipRoutes)
+ */
+export const recordRouteBase = (req: Request, res: Response, next: NextFunction): void => {
+  res.locals.routeBase = req.baseUrl;
+  next();
+};
+
+/**
+ * Records request count and latency per route, method and status,
+ * and counts validation failures by APIError code
+ */
+export const metricsMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  // Don't measure the scrape itself
+  if (req.path === '/metrics') {
+    next();
+    return;
+  }
+
+  const endTimer = metricsService.httpRequestDuration.startTimer();
+
+  const json = res.json.bind(res);
+  res.json = (body?: any): Response => {
+    if (body?.success === false && body.error?.code && VALIDATION_STATUSES.has(res.statusCode)) {
+      metricsService.validationFailuresTotal.inc({ code: body.error.code });
+    }
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    const labels = {
+      route: resolveRoute(req, res),
+      method: req.method,
+      status: String(res.statusCode),
+    };
+    endTimer(labels);
+    metricsService.httpRequestsTotal.inc(labels);
+  });
+
+  next();
+};
+
+export default metricsMiddleware;
@@ -0,0 +1,102 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ipKeyGenerator } from 'express-rate-limit';
+import { createRateLimitHandler } from './IpMiddleware';
+import { hasScope } from './AuthMiddleware';
+import { rateLimitService } from '../services/RateLimitService';
+import type { RateLimitClientClass, RateLimitPolicyName } from '../types/index';
+
+/**
+ * Rate limit key: authenticated requests are counted per API key,
+ * anonymous ones per client IP (IPv6 grouped by /56 subnet)
+ */
+export const rateLimitKey = (req: Request): string => {
+  if (req.apiKey?.id) {
+    return `key:${req.apiKey.id}`;
+  }
+  return ipKeyGenerator(req.resolvedClientIP?.ip ?? req.ip ?? 'unknown');
+};
+
+/**
+ * The client class whose points apply to a request
+ */
+export const rateLimitClientClass = (req: Request): RateLimitClientClass => {
+  if (!req.apiKey) {
+    return 'anonymous';
+  }
+  return hasScope(req, 'admin') ? 'admin' : 'apiKey';
+};
+
+export interface RateLimiterOptions {
+  policy: RateLimitPolicyName; // also the label used for rate limit rejection metrics
+  // Points a request spends (default 1); lets expensive endpoints be limited by the work they cause
+  cost?: (req: Request) => number;
+  // Per-client points replacing the policy's class points when it returns a number
+  points?: (req: Request) => number | null | undefined;
+  keyGenerator?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+}
+
+export interface RateLimitCheck {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+/**
+ * Spend a request's points under a policy; null when the request isn't limited by it.
+ * Only reads headers, the client IP and the API key, so it also works on WebSocket upgrade requests.
+ */
+export const checkRateLimit = async (options: RateLimiterOptions, req: Request): Promise<RateLimitCheck | null> => {
+  if (process.env.NODE_ENV === 'development' || options.skip?.(req)) {
+    return null;
+  }
+
+  const policy = rateLimitService.getPolicy(options.policy);
+  const points = options.points?.(req) ?? policy.points[rateLimitClientClass(req)];
+  if (points === null) {
+    return null;
+  }
+
+  const cost = Math.max(1, options.cost?.(req) ?? 1);
+  const keyGenerator = options.keyGenerator || rateLimitKey;
+  const result = await rateLimitService.consume(options.policy, keyGenerator(req), cost, points);
+
+  return {
+    allowed: result.allowed,
+    limit: points,
+    remaining: Math.max(0, points - result.used),
+    resetSeconds: Math.max(0, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000)),
+  };
+};
+
+/**
+ * Rate limiter driven by a configured policy (see RateLimitService)
+ * Each request spends `cost(req)` points from a per-client budget in the shared store.
+ * Clients whose class has no points under the policy aren't limited by it.
+ */
+export const rateLimiter = (options: RateLimiterOptions) => {
+  const rateLimitHandler = createRateLimitHandler(options.policy);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const check = await checkRateLimit(options, req);
+    if (!check) {
+      next();
+      return;
+    }
+
+    res.setHeader('RateLimit-Limit', check.limit);
+    res.setHeader('RateLimit-Remaining', check.remaining);
+    res.setHeader('RateLimit-Reset', check.resetSeconds);
+
+    if (!check.allowed) {
+      res.setHeader('Retry-After', check.resetSeconds);
+      rateLimitHandler(req, res, next);
+      return;
+    }
+
+    next();
+  };
+};
+
+export default rateLimiter;
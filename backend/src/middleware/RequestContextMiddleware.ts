@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { logger, redactHeaders } from '../services/LoggerService';
+
+// Incoming X-Request-Id values are only reused when they are UUIDs
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Accepts the caller's X-Request-Id (or generates one), echoes it in the response
+ * headers and in every APIError body, and runs the rest of the request in a log
+ * context so every log line carries it
+ */
+export const requestContextMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && UUID_REGEX.test(incoming) ? incoming.toLowerCase() : randomUUID();
+
+  req.requestId = requestId;
+  res.locals.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  const json = res.json.bind(res);
+  res.json = (body?: any): Response => {
+    if (body?.success === false && body.error && body.requestId === undefined) {
+      body = { ...body, requestId };
+    }
+    return json(body);
+  };
+
+  logger.runWithContext({ requestId }, next);
+};
+
+/**
+ * Logs one line per finished request: errors for 5xx, warnings for 4xx.
+ * Request headers (with sensitive ones redacted) are only logged at debug level.
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
+  // Skip health checks and metrics scrapes in production
+  if (process.env.NODE_ENV === 'production' && (req.path === '/health' || req.path === '/metrics')) {
+    next();
+    return;
+  }
+
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const fields = {
+      method: req.method,
+      url: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100,
+      contentLength: res.get('Content-Length'),
+      clientIP: req.resolvedClientIP?.ip ?? req.ip,
+      userAgent: req.get('User-Agent'),
+      apiKeyId: req.apiKey?.id,
+    };
+
+    if (res.statusCode >= 500) {
+      logger.error('Request failed', fields);
+    } else if (res.statusCode >= 400) {
+      logger.warn('Request rejected', fields);
+    } else {
+      logger.info('Request completed', fields);
+    }
+    logger.debug('Request headers', { headers: redactHeaders(req.headers) });
+  });
+
+  next();
+};
@@ -0,0 +1,93 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ValidationError } from '../utils/Errors';
+import type { Schema } from '../utils/Schema';
+import type { RequestLocation, ValidationIssue } from '../types/index';
+
+export interface RequestSchemas {
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  body?: Schema<unknown>;
+}
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+/**
+ * The error for a request that failed validation. It carries the code all issues
+ * share (e.g. INVALID_IP), or VALIDATION_ERROR when they differ, and lists every
+ * issue in details.fields.
+ */
+export const validationError = (issues: ValidationIssue[]): ValidationError => {
+  const codes = new Set(issues.map((issue) => issue.code));
+  const code = codes.size === 1 ? issues[0].code : 'VALIDATION_ERROR';
+  const message = issues.length === 1 ? issues[0].message : `Request validation failed (${issues.length} problems)`;
+
+  return new ValidationError(message, code, { details: { fields: issues } });
+};
+
+/**
+ * Parses one part of a request. Empty query parameters (e.g. "?page=") count as absent.
+ */
+export const parseRequestPart = <T>(
+  schema: Schema<T>,
+  location: RequestLocation,
+  value: unknown
+): { success: true; data: T } | { success: false; issues: ValidationIssue[] } => {
+  const input = location === 'query'
+    ? Object.fromEntries(Object.entries((value ?? {}) as Record<string, unknown>).filter(([, item]) => item !== ''))
+    : location === 'body' ? value ?? {} : value;
+
+  const result = schema.parse(input, location);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.issues.map(({ path, code, message }) => ({ location, field: path, code, message })),
+    };
+  }
+  return result;
+};
+
+/**
+ * Validates req.params, req.query and req.body against the given schemas and
+ * replaces them with the parsed values, so handlers get typed, normalized input.
+ * Responds 400 with every problem found when any part is invalid.
+ */
+export const validate = (schemas: RequestSchemas) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const issues: ValidationIssue[] = [];
+    const parsed: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      const result = parseRequestPart(schema, location, req[location]);
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        issues.push(...result.issues);
+      }
+    }
+
+    if (issues.length > 0) {
+      next(validationError(issues));
+      return;
+    }
+
+    if ('params' in parsed) {
+      req.params = parsed.params as Request['params'];
+    }
+    if ('query' in parsed) {
+      // req.query is a getter in Express 5; shadow it for the rest of this request
+      Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true, enumerable: true });
+    }
+    if ('body' in parsed) {
+      req.body = parsed.body;
+    }
+
+    next();
+  };
+};
+
+export default validate;
@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { apiKeyController } from '../controllers/ApiKeyController';
+import { asyncHandler } from '../middleware/IpMiddleware';
+import { authenticate, requireScope } from '../middleware/AuthMiddleware';
+import { rateLimiter } from '../middleware/RateLimitMiddleware';
+import { validate } from '../middleware/ValidationMiddleware';
+import { apiKeyParamsSchema, issueApiKeyBodySchema } from '../schemas/ApiKeySchemas';
+
+const router: Router = Router();
+
+const adminLimiter = rateLimiter({ policy: 'admin' });
+
+// Every key management route requires an API key with the 'admin' scope
+router.use(authenticate);
+router.use(requireScope('admin'));
+router.use(adminLimiter);
+
+/**
+ * @route POST /api/keys
+ * @description Issue a new API key (the plaintext key is only returned here)
+ * @access Admin
+ * @body { name: string, scopes: ('reverse' | 'read-history' | 'admin')[], rateLimit?: number, dailyQuota?: number }
+ */
+router.post(
+  '/',
+  validate({ body: issueApiKeyBodySchema }),
+  asyncHandler(apiKeyController.issueKey.bind(apiKeyController))
+);
+
+/**
+ * @route GET /api/keys
+ * @description List API keys with usage counters
+ * @access Admin
+ */
+router.get(
+  '/',
+  asyncHandler(apiKeyController.listKeys.bind(apiKeyController))
+);
+
+/**
+ * @route GET /api/keys/:id
+ * @description Get one API key with its daily usage for the last 30 days
+ * @access Admin
+ */
+router.get(
+  '/:id',
+  validate({ params: apiKeyParamsSchema }),
+  asyncHandler(apiKeyController.getKey.bind(apiKeyController))
+);
+
+/**
+ * @route POST /api/keys/:id/rotate
+ * @description Replace the secret of an API key
+ * @access Admin
+ */
+router.post(
+  '/:id/rotate',
+  validate({ params: apiKeyParamsSchema }),
+  asyncHandler(apiKeyController.rotateKey.bind(apiKeyController))
+);
+
+/**
+ * @route DELETE /api/keys/:id
+ * @description Revoke an API key
+ * @access Admin
+ */
+router.delete(
+  '/:id',
+  validate({ params: apiKeyParamsSchema }),
+  asyncHandler(apiKeyController.revokeKey.bind(apiKeyController))
+);
+
+export default router;
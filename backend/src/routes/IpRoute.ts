@@ -1,92 +1,349 @@
-import { Router } from 'express';
-import rateLimit from 'express-rate-limit';
-// import rateLimit from 'express-rate-limit';
-import type { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import express, { Router } from 'express';
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import type { NextFunction, Request, Response } from 'express';
 import { ipController } from '../controllers/IpController';
-import { asyncHandler, rateLimitHandler } from '../middleware/IpMiddleware';
+import { asyncHandler, rejectUpgrade } from '../middleware/IpMiddleware';
+import { idempotency } from '../middleware/IdempotencyMiddleware';
+import { validate } from '../middleware/ValidationMiddleware';
+import { checkRateLimit, rateLimiter } from '../middleware/RateLimitMiddleware';
+import type { RateLimiterOptions } from '../middleware/RateLimitMiddleware';
+import { authenticate, requireApiKey, requireScope, resolveApiKey, scopeFailure } from '../middleware/AuthMiddleware';
+import { isTrustedProxy } from '../middleware/ClientIPMiddleware';
+import { logger } from '../services/LoggerService';
+import { metricsService } from '../services/MetricsService';
+import { NotFoundError, RateLimitError, toAppError } from '../utils/Errors';
+import type { AppError } from '../utils/Errors';
+import { resolveClientIP } from '../utils/IpUtils';
+import {
+  deleteHistoryEntryQuerySchema,
+  exportQuerySchema,
+  historyEntryParamsSchema,
+  historyQuerySchema,
+  importQuerySchema,
+  ipSummaryParamsSchema,
+  ipSummaryQuerySchema,
+  liveFeedQuerySchema,
+  reverseBatchBodySchema,
+  reverseIPBodySchema,
+  searchQuerySchema,
+  statsQuerySchema,
+  timeSeriesQuerySchema,
+  updateHistoryEntryBodySchema,
+} from '../schemas/IpSchemas';
 
 const router: Router = Router();
 
-// Rate limiting configuration
-const generalLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: rateLimitHandler,
-  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-  skip: (req: Request): boolean => {
-    // Skip rate limiting in development
-    return process.env.NODE_ENV === 'development';
+// Limits come from the named policies in RateLimitService (RATE_LIMIT_POLICIES)
+
+// Authenticated requests are limited per API key; a key's own rateLimit replaces the policy's
+const apiKeyLimit: RateLimiterOptions = {
+  policy: 'api-key',
+  points: (req: Request): number | undefined => req.apiKey?.rateLimit ?? undefined,
+};
+const apiKeyLimiter = rateLimiter(apiKeyLimit);
+
+const generalLimit: RateLimiterOptions = { policy: 'general' };
+const generalLimiter = rateLimiter(generalLimit);
+
+// Write operations
+const strictLimiter = rateLimiter({ policy: 'strict' });
+
+// Batch reversal is limited by the number of IPs submitted, not by request count.
+// It runs after validation, so a rejected (e.g. oversized) batch costs nothing.
+const batchLimiter = rateLimiter({
+  policy: 'batch',
+  cost: (req: Request): number => {
+    const ips = req.body?.ips;
+    return Array.isArray(ips) ? ips.length : 1;
   },
 });
 
-const strictLimiter = rateLimit({
-  windowMs: 5 * 60 * 1000, // 5 minutes
-  max: 20, // limit each IP to 20 requests per windowMs for write operations
-  message: rateLimitHandler,
-  standardHeaders: true,
-  legacyHeaders: false,
-  skip: (req: Request): boolean => {
-    return process.env.NODE_ENV === 'development';
-  },
+const exportLimiter = rateLimiter({ policy: 'export' });
+
+// Routes that store reversals replay their response to retries with the same Idempotency-Key
+const idempotent = idempotency();
+
+// Hard deletes of history entries need the 'admin' scope on top of the route's own
+const requireAdminForHardDelete = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.query.hard === 'true') {
+    requireScope('admin')(req, res, next);
+    return;
+  }
+  next();
+};
+
+// First segments of the fixed routes; /:ip skips them, so e.g. GET /reverse is a 404, not an invalid IP
+const FIXED_PATHS = new Set(['reverse', 'history', 'stats', 'search', 'export', 'import', 'my-ip', 'stream']);
+
+const skipFixedPaths = (req: Request, res: Response, next: NextFunction): void => {
+  next(FIXED_PATHS.has(req.params.ip) ? 'route' : undefined);
+};
+
+// Import files are sent as raw CSV/NDJSON text; larger files should go through the CLI
+const importBodyParser = express.text({
+  type: ['text/csv', 'application/x-ndjson', 'application/ndjson', 'text/plain'],
+  limit: process.env.IMPORT_MAX_BODY_SIZE || '10mb',
 });
 
-// Apply general rate limiting to all routes
+// Resolve the caller's API key (if any) before rate limiting
+router.use(authenticate);
+
+// Apply per-key and general rate limiting to all routes
+router.use(apiKeyLimiter);
 router.use(generalLimiter);
 
 /**
  * @route POST /api/ip/reverse
- * @description Reverse an IP address and store it
- * @access Public
- * @body { ip: string }
+ * @description Reverse an IP address or CIDR block and store it
+ * @access Public (API key with 'reverse' scope when API_KEY_REQUIRED)
+ * @body { ip: string, format?: 'octets' | 'ptr' | 'nibbles' }
+ * @header { Idempotency-Key?: string }
  */
 router.post(
   '/reverse',
+  requireScope('reverse'),
   strictLimiter,
+  validate({ body: reverseIPBodySchema }),
+  idempotent,
   asyncHandler(ipController.reverseIP.bind(ipController))
 );
 
+/**
+ * @route POST /api/ip/reverse/batch
+ * @description Reverse a batch of IP addresses and store the valid ones
+ * @access Public (API key with 'reverse' scope when API_KEY_REQUIRED)
+ * @body { ips: string[], format?: 'octets' | 'ptr' | 'nibbles' }
+ * @header { Idempotency-Key?: string }
+ */
+router.post(
+  '/reverse/batch',
+  requireScope('reverse'),
+  validate({ body: reverseBatchBodySchema }),
+  batchLimiter,
+  idempotent,
+  asyncHandler(ipController.reverseBatch.bind(ipController))
+);
+
 /**
  * @route GET /api/ip/history
- * @description Get paginated history of reversed IPs
- * @access Public
- * @query { page?: number, limit?: number }
+ * @description Get paginated history of reversed IPs (offset or cursor pagination)
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { page?: number, cursor?: string, limit?: number, includeTotal?: boolean }
  */
 router.get(
   '/history',
+  requireScope('read-history'),
+  validate({ query: historyQuerySchema }),
   asyncHandler(ipController.getHistory.bind(ipController))
 );
 
+/**
+ * @route GET /api/ip/history/:id
+ * @description Get one history entry
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ */
+router.get(
+  '/history/:id',
+  requireScope('read-history'),
+  validate({ params: historyEntryParamsSchema }),
+  asyncHandler(ipController.getHistoryEntry.bind(ipController))
+);
+
+/**
+ * @route PATCH /api/ip/history/:id
+ * @description Set the notes and/or tags of a history entry stored by the caller's key (any entry for admins)
+ * @access API key with 'reverse' scope
+ * @body { notes?: string | null, tags?: string[] }
+ * @header { Idempotency-Key?: string }
+ */
+router.patch(
+  '/history/:id',
+  requireApiKey('reverse'),
+  strictLimiter,
+  validate({ params: historyEntryParamsSchema, body: updateHistoryEntryBodySchema }),
+  idempotent,
+  asyncHandler(ipController.updateHistoryEntry.bind(ipController))
+);
+
+/**
+ * @route DELETE /api/ip/history/:id
+ * @description Soft-delete a history entry stored by the caller's key (any entry for admins), or remove it for good with hard=true
+ * @access API key with 'reverse' scope; Admin for hard=true
+ * @query { hard?: boolean }
+ * @header { Idempotency-Key?: string }
+ */
+router.delete(
+  '/history/:id',
+  requireApiKey('reverse'),
+  requireAdminForHardDelete,
+  strictLimiter,
+  validate({ params: historyEntryParamsSchema, query: deleteHistoryEntryQuerySchema }),
+  idempotent,
+  asyncHandler(ipController.deleteHistoryEntry.bind(ipController))
+);
+
 /**
  * @route GET /api/ip/stats
- * @description Get statistics about stored IPs
- * @access Public
+ * @description Get statistics about stored IPs ("today" is midnight-to-now in tz), optionally only of some IP classes
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { tz?: string, ipClass?: string }
  */
 router.get(
   '/stats',
+  requireScope('read-history'),
+  validate({ query: statsQuerySchema }),
   asyncHandler(ipController.getStats.bind(ipController))
 );
 
+/**
+ * @route GET /api/ip/stats/timeseries
+ * @description Get reversal counts per hour, day or week with IPv4/IPv6 and unique-IP breakdowns
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { interval?: 'hour' | 'day' | 'week', from?: string, to?: string, tz?: string }
+ */
+router.get(
+  '/stats/timeseries',
+  requireScope('read-history'),
+  validate({ query: timeSeriesQuerySchema }),
+  asyncHandler(ipController.getTimeSeries.bind(ipController))
+);
+
 /**
  * @route GET /api/ip/search
- * @description Search for IPs
- * @access Public
- * @query { q: string, limit?: number }
+ * @description Search history by text, CIDR block, date range, family, user agent, IP class, country, ASN and tag (paginated like history)
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { q?: string, match?: 'contains' | 'prefix' | 'exact', cidr?: string, requestCidr?: string, from?: string, to?: string, family?: 'IPv4' | 'IPv6', userAgent?: string, ipClass?: string, country?: string, asn?: string, requestCountry?: string, requestAsn?: string, tag?: string, groupBy?: 'ipClass' | 'country' | 'asn', page?: number, cursor?: string, limit?: number, includeTotal?: boolean }
  */
 router.get(
   '/search',
+  requireScope('read-history'),
+  validate({ query: searchQuerySchema }),
   asyncHandler(ipController.searchIPs.bind(ipController))
 );
 
+/**
+ * @route GET /api/ip/export
+ * @description Stream the history as a CSV, NDJSON or JSON download
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { format?: 'csv' | 'ndjson' | 'json', ...search filters }
+ */
+router.get(
+  '/export',
+  requireScope('read-history'),
+  exportLimiter,
+  validate({ query: exportQuerySchema }),
+  asyncHandler(ipController.exportHistory.bind(ipController))
+);
+
+/**
+ * @route POST /api/ip/import
+ * @description Import history from a CSV or NDJSON file, reporting accepted and rejected lines
+ * @access Admin (API key with 'admin' scope)
+ * @query { format?: 'csv' | 'ndjson', dryRun?: boolean }
+ * @body CSV with a header row or NDJSON; fields originalIP, requestIP?, userAgent?, timestamp?
+ * @header { Idempotency-Key?: string }
+ */
+router.post(
+  '/import',
+  requireScope('admin'),
+  importBodyParser,
+  validate({ query: importQuerySchema }),
+  idempotent,
+  asyncHandler(ipController.importHistory.bind(ipController))
+);
+
 /**
  * @route GET /api/ip/my-ip
  * @description Get and reverse the client's IP address
- * @access Public
+ * @access Public (API key with 'reverse' scope when API_KEY_REQUIRED)
+ * @header { Idempotency-Key?: string }
  */
 router.get(
   '/my-ip',
+  requireScope('reverse'),
   strictLimiter,
+  idempotent,
   asyncHandler(ipController.getMyIP.bind(ipController))
 );
 
-export default router;
\ No newline at end of file
+/**
+ * @route GET /api/ip/stream
+ * @description Live feed of new reversals as Server-Sent Events (WebSocket on the same path, see handleStreamUpgrade)
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { cidr?: string, family?: 'IPv4' | 'IPv6', lastEventId?: string }
+ */
+router.get(
+  '/stream',
+  requireScope('read-history'),
+  validate({ query: liveFeedQuerySchema }),
+  asyncHandler(ipController.streamHistory.bind(ipController))
+);
+
+/**
+ * @route GET /api/ip/:ip
+ * @description Get the deduplicated summary of an IP (or URL-encoded CIDR block) with its recent events
+ * @access Public (API key with 'read-history' scope when API_KEY_REQUIRED)
+ * @query { limit?: number }
+ */
+// Registered last so it never shadows the fixed routes above
+router.get(
+  '/:ip',
+  skipFixedPaths,
+  requireScope('read-history'),
+  validate({ params: ipSummaryParamsSchema, query: ipSummaryQuerySchema }),
+  asyncHandler(ipController.getIPSummary.bind(ipController))
+);
+
+/**
+ * Upgrade requests bypass Express, so this runs the checks the stream route gets from
+ * its middleware (client IP, API key, 'read-history' scope, rate limits) before
+ * handing the socket to the live feed. Attach it to the HTTP server's 'upgrade' event.
+ */
+export const handleStreamUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const request = req as Request;
+  const requestId = randomUUID();
+
+  const reject = (error: AppError): void => {
+    rejectUpgrade(socket, error.status, { ...error.toJSON(), requestId }, { 'X-Request-Id': requestId, ...error.headers });
+  };
+
+  if (url.pathname !== '/api/ip/stream') {
+    reject(new NotFoundError('WebSocket endpoint not found'));
+    return;
+  }
+
+  request.requestId = requestId;
+  request.resolvedClientIP = resolveClientIP(req, isTrustedProxy);
+
+  logger.runWithContext({ requestId }, async () => {
+    try {
+      const failure = (await resolveApiKey(request)) ?? scopeFailure(request, 'read-history');
+      if (failure) {
+        reject(failure);
+        return;
+      }
+
+      for (const limit of [apiKeyLimit, generalLimit]) {
+        const check = await checkRateLimit(limit, request);
+        if (check && !check.allowed) {
+          metricsService.rateLimitRejectionsTotal.inc({ limiter: limit.policy });
+          reject(new RateLimitError('Too many requests, please try again later', 'RATE_LIMIT_EXCEEDED', {
+            details: { retryAfter: check.resetSeconds },
+            headers: { 'Retry-After': check.resetSeconds },
+          }));
+          return;
+        }
+      }
+
+      ipController.upgradeStream(req, socket, head, Object.fromEntries(url.searchParams));
+    } catch (error) {
+      logger.error('Error in stream upgrade', { error });
+      reject(toAppError(error, 'Internal server error while opening the live feed'));
+    }
+  });
+};
+
+export default router;
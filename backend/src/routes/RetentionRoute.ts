@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { retentionController } from '../controllers/RetentionController';
+import { asyncHandler } from '../middleware/IpMiddleware';
+import { authenticate, requireScope } from '../middleware/AuthMiddleware';
+import { rateLimiter } from '../middleware/RateLimitMiddleware';
+import { validate } from '../middleware/ValidationMiddleware';
+import { eraseRequesterBodySchema, retentionPurgeQuerySchema } from '../schemas/RetentionSchemas';
+
+const router: Router = Router();
+
+const adminLimiter = rateLimiter({ policy: 'admin' });
+
+// Retention routes require an API key with the 'admin' scope
+router.use(authenticate);
+router.use(requireScope('admin'));
+router.use(adminLimiter);
+
+/**
+ * @route GET /api/retention
+ * @description Get the retention policy, the number of purged rows and the recent purges
+ * @access Admin
+ */
+router.get(
+  '/',
+  asyncHandler(retentionController.getStatus.bind(retentionController))
+);
+
+/**
+ * @route POST /api/retention/purge
+ * @description Start a retention purge in the background, or preview it with dryRun=true
+ * @access Admin
+ * @query { dryRun?: boolean }
+ */
+router.post(
+  '/purge',
+  validate({ query: retentionPurgeQuerySchema }),
+  asyncHandler(retentionController.purge.bind(retentionController))
+);
+
+/**
+ * @route POST /api/retention/erasure
+ * @description Delete or redact every history row tied to a requester IP (data-subject erasure)
+ * @access Admin
+ * @body { requestIP: string, action?: 'delete' | 'redact' }
+ */
+router.post(
+  '/erasure',
+  validate({ body: eraseRequesterBodySchema }),
+  asyncHandler(retentionController.eraseRequester.bind(retentionController))
+);
+
+export default router;
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { webhookController } from '../controllers/WebhookController';
+import { asyncHandler } from '../middleware/IpMiddleware';
+import { authenticate, requireScope } from '../middleware/AuthMiddleware';
+import { rateLimiter } from '../middleware/RateLimitMiddleware';
+import { validate } from '../middleware/ValidationMiddleware';
+import {
+  createWebhookBodySchema,
+  updateWebhookBodySchema,
+  webhookDeliveriesQuerySchema,
+  webhookParamsSchema,
+} from '../schemas/WebhookSchemas';
+
+const router: Router = Router();
+
+const adminLimiter = rateLimiter({ policy: 'admin' });
+
+// Every webhook route requires an API key with the 'admin' scope
+router.use(authenticate);
+router.use(requireScope('admin'));
+router.use(adminLimiter);
+
+/**
+ * @route POST /api/webhooks
+ * @description Register a webhook (the signing secret is only returned here)
+ * @access Admin
+ * @body { url: string, events?: 'reversal.created'[], cidrs?: string[], secret?: string, description?: string, active?: boolean }
+ */
+router.post(
+  '/',
+  validate({ body: createWebhookBodySchema }),
+  asyncHandler(webhookController.createWebhook.bind(webhookController))
+);
+
+/**
+ * @route GET /api/webhooks
+ * @description List webhooks
+ * @access Admin
+ */
+router.get(
+  '/',
+  asyncHandler(webhookController.listWebhooks.bind(webhookController))
+);
+
+/**
+ * @route GET /api/webhooks/:id
+ * @description Get one webhook
+ * @access Admin
+ */
+router.get(
+  '/:id',
+  validate({ params: webhookParamsSchema }),
+  asyncHandler(webhookController.getWebhook.bind(webhookController))
+);
+
+/**
+ * @route PATCH /api/webhooks/:id
+ * @description Change the URL, filters, description or active flag of a webhook
+ * @access Admin
+ * @body { url?: string, events?: 'reversal.created'[], cidrs?: string[], description?: string | null, active?: boolean }
+ */
+router.patch(
+  '/:id',
+  validate({ params: webhookParamsSchema, body: updateWebhookBodySchema }),
+  asyncHandler(webhookController.updateWebhook.bind(webhookController))
+);
+
+/**
+ * @route DELETE /api/webhooks/:id
+ * @description Delete a webhook and its delivery log
+ * @access Admin
+ */
+router.delete(
+  '/:id',
+  validate({ params: webhookParamsSchema }),
+  asyncHandler(webhookController.deleteWebhook.bind(webhookController))
+);
+
+/**
+ * @route POST /api/webhooks/:id/test
+ * @description Send a signed 'webhook.test' event now and return the delivery
+ * @access Admin
+ */
+router.post(
+  '/:id/test',
+  validate({ params: webhookParamsSchema }),
+  asyncHandler(webhookController.testWebhook.bind(webhookController))
+);
+
+/**
+ * @route GET /api/webhooks/:id/deliveries
+ * @description Get the delivery log of a webhook, newest first
+ * @access Admin
+ * @query { status?: 'pending' | 'delivered' | 'failed', event?: string, limit?: number }
+ */
+router.get(
+  '/:id/deliveries',
+  validate({ params: webhookParamsSchema, query: webhookDeliveriesQuerySchema }),
+  asyncHandler(webhookController.listDeliveries.bind(webhookController))
+);
+
+export default router;
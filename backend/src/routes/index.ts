@@ -1,8 +1,13 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import ipRoutes from './IpRoute';
+import apiKeyRoutes from './ApiKeyRoute';
+import retentionRoutes from './RetentionRoute';
+import webhookRoutes from './WebhookRoute';
 import { ipController } from '../controllers/IpController';
 import { asyncHandler } from '../middleware/IpMiddleware';
+import { recordRouteBase } from '../middleware/MetricsMiddleware';
+import { metricsService } from '../services/MetricsService';
 
 const router: Router = Router();
 
@@ -13,6 +18,16 @@ const router: Router = Router();
  */
 router.get('/health', asyncHandler(ipController.healthCheck.bind(ipController)));
 
+/**
+ * @route GET /metrics
+ * @description Prometheus metrics endpoint
+ * @access Public
+ */
+router.get('/metrics', asyncHandler(async (req: Request, res: Response) => {
+  res.set('Content-Type', metricsService.contentType);
+  res.send(await metricsService.render());
+}));
+
 /**
  * @route GET /
  * @description API info endpoint
@@ -27,41 +42,144 @@ router.get('/', (req: Request, res: Response) => {
       description: 'API for reversing IP addresses and storing them in a database',
       endpoints: {
         health: 'GET /health',
+        metrics: 'GET /metrics',
         reverse: 'POST /api/ip/reverse',
+        reverseBatch: 'POST /api/ip/reverse/batch',
         history: 'GET /api/ip/history',
+        historyEntry: 'GET|PATCH|DELETE /api/ip/history/:id',
         stats: 'GET /api/ip/stats',
+        statsTimeSeries: 'GET /api/ip/stats/timeseries',
         search: 'GET /api/ip/search',
         myIp: 'GET /api/ip/my-ip',
+        stream: 'GET /api/ip/stream (SSE, or WebSocket on upgrade)',
+        ipSummary: 'GET /api/ip/:ip',
+        export: 'GET /api/ip/export',
+        import: 'POST /api/ip/import',
+        apiKeys: 'GET|POST /api/keys, GET|DELETE /api/keys/:id, POST /api/keys/:id/rotate',
+        retention: 'GET /api/retention, POST /api/retention/purge, POST /api/retention/erasure',
+        webhooks: 'GET|POST /api/webhooks, GET|PATCH|DELETE /api/webhooks/:id, POST /api/webhooks/:id/test, GET /api/webhooks/:id/deliveries',
+      },
+      authentication: {
+        headers: ['Authorization: Bearer <key>', 'X-API-Key: <key>'],
+        scopes: ['reverse', 'read-history', 'admin'],
+        required: process.env.API_KEY_REQUIRED === 'true',
+      },
+      errors: {
+        default: '{ success: false, error: { message, code, details? }, timestamp, requestId }',
+        problemJson: 'RFC 7807 application/problem+json with Accept: application/problem+json',
+        validation: 'details.fields: [{ location, field, code, message }]',
+      },
+      idempotency: {
+        header: 'Idempotency-Key: <key>',
+        routes: [
+          'POST /api/ip/reverse',
+          'POST /api/ip/reverse/batch',
+          'GET /api/ip/my-ip',
+          'POST /api/ip/import',
+          'PATCH /api/ip/history/:id',
+          'DELETE /api/ip/history/:id',
+        ],
+        replayHeader: 'Idempotent-Replayed: true',
       },
       documentation: {
         reverse: {
           method: 'POST',
           path: '/api/ip/reverse',
-          body: { ip: 'string' },
-          description: 'Reverse an IP address and store it in the database',
+          body: { ip: 'string', format: "'octets' | 'ptr' | 'nibbles'?" },
+          description: 'Reverse an IP address or CIDR block (e.g. 10.0.0.0/24) and store it in the database',
+        },
+        reverseBatch: {
+          method: 'POST',
+          path: '/api/ip/reverse/batch',
+          body: { ips: 'string[]', format: "'octets' | 'ptr' | 'nibbles'?" },
+          description: 'Reverse a batch of IP addresses with a result for every item',
         },
         history: {
           method: 'GET',
           path: '/api/ip/history',
-          query: { page: 'number?', limit: 'number?' },
-          description: 'Get paginated history of reversed IPs',
+          query: { page: 'number?', cursor: 'string?', limit: 'number?', includeTotal: 'boolean?' },
+          description: 'Get paginated history of reversed IPs; follow nextCursor/prevCursor (or the Link header) for stable paging',
+        },
+        historyEntry: {
+          method: 'GET | PATCH | DELETE',
+          path: '/api/ip/history/:id',
+          query: { hard: 'boolean? (DELETE only, admin)' },
+          body: { notes: 'string | null?', tags: 'string[]?' },
+          description: 'Get one history entry, set its notes and tags (PATCH) or soft-delete it (DELETE); hard=true removes it for good',
         },
         stats: {
           method: 'GET',
           path: '/api/ip/stats',
-          description: 'Get statistics about stored IPs',
+          query: { tz: 'string? (IANA time zone, default UTC)', ipClass: 'comma-separated IP classes?' },
+          description: 'Get statistics about stored IPs, including entries per special-purpose IP class and the top countries and ASNs',
+        },
+        statsTimeSeries: {
+          method: 'GET',
+          path: '/api/ip/stats/timeseries',
+          query: {
+            interval: "'hour' | 'day' | 'week'?",
+            from: 'ISO 8601 date?',
+            to: 'ISO 8601 date?',
+            tz: 'string? (IANA time zone, default UTC)',
+          },
+          description: 'Get reversal counts per bucket split by IP family, with unique IPs per bucket',
         },
         search: {
           method: 'GET',
           path: '/api/ip/search',
-          query: { q: 'string', limit: 'number?' },
-          description: 'Search for IPs by original, reversed, or request IP',
+          query: {
+            q: 'string?',
+            match: "'contains' | 'prefix' | 'exact'?",
+            cidr: 'string?',
+            requestCidr: 'string?',
+            from: 'ISO 8601 date?',
+            to: 'ISO 8601 date?',
+            family: "'IPv4' | 'IPv6'?",
+            userAgent: 'string?',
+            ipClass: 'comma-separated IP classes?',
+            country: 'comma-separated country codes?',
+            asn: 'comma-separated AS numbers?',
+            requestCountry: 'comma-separated country codes?',
+            requestAsn: 'comma-separated AS numbers?',
+            tag: 'comma-separated tags?',
+            groupBy: "'ipClass' | 'country' | 'asn'?",
+            page: 'number?',
+            cursor: 'string?',
+            limit: 'number?',
+            includeTotal: 'boolean?',
+          },
+          description: 'Search history by text (original, reversed or request IP), CIDR block, date range, family, user agent, IP class, country, ASN and tag; paginated like history',
+        },
+        export: {
+          method: 'GET',
+          path: '/api/ip/export',
+          query: { format: "'csv' | 'ndjson' | 'json'?", filters: 'same as search' },
+          description: 'Stream the history (optionally filtered like search) as a file download',
+        },
+        import: {
+          method: 'POST',
+          path: '/api/ip/import',
+          query: { format: "'csv' | 'ndjson'?", dryRun: 'boolean?' },
+          body: 'CSV with a header row or NDJSON: originalIP, requestIP?, userAgent?, timestamp?',
+          description: 'Import history (admin); reversed IPs are recomputed and each line is reported as accepted or rejected',
         },
         myIp: {
           method: 'GET',
           path: '/api/ip/my-ip',
           description: 'Get and reverse your IP address automatically',
         },
+        stream: {
+          method: 'GET',
+          path: '/api/ip/stream',
+          query: { cidr: 'string?', family: "'IPv4' | 'IPv6'?", lastEventId: 'string? (or the Last-Event-ID header)' },
+          description: 'Live feed of new reversals as Server-Sent Events, or JSON messages over a WebSocket on the same path; reconnect with the last event id to get what was missed',
+        },
+        ipSummary: {
+          method: 'GET',
+          path: '/api/ip/:ip',
+          query: { limit: 'number? (recent events, max 100)' },
+          description: 'Get hit count, first/last seen, distinct requesters and reversed forms of an IP (URL-encode CIDR blocks), with its recent events',
+        },
       },
     },
     timestamp: new Date().toISOString(),
@@ -71,6 +189,21 @@ router.get('/', (req: Request, res: Response) => {
 /**
  * IP-related routes
  */
-router.use('/api/ip', ipRoutes);
+router.use('/api/ip', recordRouteBase, ipRoutes);
+
+/**
+ * API key management routes (admin only)
+ */
+router.use('/api/keys', recordRouteBase, apiKeyRoutes);
+
+/**
+ * History retention routes (admin only)
+ */
+router.use('/api/retention', recordRouteBase, retentionRoutes);
+
+/**
+ * Webhook management routes (admin only)
+ */
+router.use('/api/webhooks', recordRouteBase, webhookRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { schema } from '../utils/Schema';
+import { idParamsSchema } from './CommonSchemas';
+import { API_KEY_SCOPES } from '../types/index';
+
+const LIMITS_MESSAGE = 'rateLimit and dailyQuota must be positive integers when provided';
+
+export const issueApiKeyBodySchema = schema.object({
+  name: schema.string({ trim: true, min: 1, max: 100 }).invalid('INVALID_KEY_NAME', 'Key name is required (max 100 characters)'),
+  scopes: schema.array(schema.enum(API_KEY_SCOPES), { min: 1, unique: true })
+    .invalid('INVALID_SCOPES', `Scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`),
+  // null or omitted means unlimited
+  rateLimit: schema.int({ min: 1 }).invalid('INVALID_LIMITS', LIMITS_MESSAGE).nullable().optional(),
+  dailyQuota: schema.int({ min: 1 }).invalid('INVALID_LIMITS', LIMITS_MESSAGE).nullable().optional(),
+});
+
+export const apiKeyParamsSchema = idParamsSchema;
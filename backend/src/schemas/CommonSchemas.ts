@@ -0,0 +1,27 @@
+import { schema } from '../utils/Schema';
+import type { Schema } from '../utils/Schema';
+
+// Most rows a paginated route returns per request
+export const MAX_PAGE_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Params of routes that address a row by its id (history entries, API keys, webhooks)
+ */
+export const idParamsSchema = schema.object({
+  id: schema.string({ pattern: UUID_PATTERN }).invalid('INVALID_ID', 'id must be a UUID'),
+});
+
+/**
+ * An optional true/false query parameter
+ */
+export const queryFlag = (): Schema<boolean | undefined> => schema.boolean({ coerce: true }).optional();
+
+/**
+ * A `limit` query parameter, capped at MAX_PAGE_SIZE
+ */
+export const pageSize = (fallback: number): Schema<number> => schema.int({ min: 1, coerce: true })
+  .invalid('INVALID_PAGINATION', 'limit must be a positive integer')
+  .map((limit) => Math.min(limit, MAX_PAGE_SIZE))
+  .default(fallback);
@@ -0,0 +1,274 @@
+import { IPAddress, isValidCIDR } from '../utils/IpUtils';
+import { decodeCursor } from '../utils/Pagination';
+import { schema } from '../utils/Schema';
+import type { Schema } from '../utils/Schema';
+import { idParamsSchema, pageSize, queryFlag } from './CommonSchemas';
+import {
+  EXPORT_FORMATS,
+  IMPORT_FORMATS,
+  IP_CLASSES,
+  REVERSE_FORMATS,
+  SEARCH_GROUP_BY,
+  SEARCH_MATCH_MODES,
+  STATS_INTERVALS,
+} from '../types/index';
+import type { StatsInterval } from '../types/index';
+
+const DEFAULT_MAX_BATCH_SIZE = 500;
+
+// Maximum number of IPs accepted by a single batch request; a setting that isn't a
+// positive integer falls back to the default instead of disabling the cap (NaN)
+const configuredBatchSize = parseInt(process.env.REVERSE_BATCH_MAX_SIZE || '', 10);
+export const MAX_BATCH_SIZE: number = Number.isFinite(configuredBatchSize) && configuredBatchSize > 0
+  ? configuredBatchSize
+  : DEFAULT_MAX_BATCH_SIZE;
+
+// Annotation limits of a history entry
+export const MAX_NOTES_LENGTH = 2000;
+export const MAX_TAGS_PER_ENTRY = 20;
+
+// Tags are stored lowercase: a letter or digit, then up to 49 of letters, digits and . _ : -
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._:-]{0,49}$/;
+
+const isIPOrCIDR = (value: string): boolean => IPAddress.tryParse(value) !== null || isValidCIDR(value);
+
+/**
+ * Whether a string is an IANA time zone name known to both Node and PostgreSQL
+ * (UTC offsets like "+02:00" are rejected: PostgreSQL reads their sign inverted)
+ */
+const isValidTimeZone = (tz: string): boolean => {
+  if (!/^[A-Za-z][A-Za-z0-9_+\-]*(\/[A-Za-z0-9_+\-]+)*$/.test(tz)) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Upper bound on buckets per time series request
+const MAX_TIMESERIES_BUCKETS = 1000;
+
+// Nominal bucket lengths, used for range defaults and the bucket limit (DST shifts don't matter here)
+const INTERVAL_MS: Record<StatsInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Buckets returned when `from` is omitted: the last 24 hours, 30 days or 12 weeks
+const DEFAULT_TIMESERIES_BUCKETS: Record<StatsInterval, number> = {
+  hour: 24,
+  day: 30,
+  week: 12,
+};
+
+const INVALID_IP_MESSAGE = 'Invalid IP address or CIDR block format';
+
+const FORMAT_MESSAGE = `Invalid format. Supported formats: ${REVERSE_FORMATS.join(', ')}`;
+
+const TAG_MESSAGE = 'Tags are 1 to 50 letters, digits and . _ : - starting with a letter or digit';
+
+// Trimmed free text; blank counts as absent
+const text = (): Schema<string | undefined> => schema.string({ trim: true }).map((value) => value || undefined).optional();
+
+const format = schema.enum(REVERSE_FORMATS).invalid('INVALID_FORMAT', FORMAT_MESSAGE).default('octets');
+
+// Tags are compared and stored trimmed and lowercase
+const tag = schema.string()
+  .invalid('INVALID_TAG', TAG_MESSAGE)
+  .map((value) => value.trim().toLowerCase())
+  .refine((value) => TAG_PATTERN.test(value), 'INVALID_TAG', TAG_MESSAGE);
+
+const timeZone = schema.string()
+  .refine(isValidTimeZone, 'INVALID_TIMEZONE', 'tz must be an IANA time zone name (e.g. Europe/Berlin)')
+  .default('UTC');
+
+const ipClasses = schema.list(schema.enum(IP_CLASSES, { ignoreCase: true }))
+  .invalid('INVALID_IP_CLASS', `ipClass must be a comma-separated list of: ${IP_CLASSES.join(', ')}`);
+
+const date = schema.date().invalid('INVALID_DATE', 'from and to must be ISO 8601 dates');
+
+const cidrFilter = (key: string): Schema<string | undefined> => schema.string({ trim: true })
+  .refine(isIPOrCIDR, 'INVALID_CIDR', `${key} must be a CIDR block or IP address`)
+  .optional();
+
+// ISO 3166-1 alpha-2 codes, case-insensitive
+const countries = (key: string): Schema<string[] | undefined> => schema.list(schema.string({ pattern: /^[A-Z]{2}$/i }))
+  .invalid('INVALID_COUNTRY', `${key} must be a comma-separated list of two-letter country codes`)
+  .map((codes) => [...new Set(codes.map((code) => code.toUpperCase()))])
+  .optional();
+
+// AS numbers with or without the "AS" prefix
+const asns = (key: string): Schema<number[] | undefined> => {
+  const message = `${key} must be a comma-separated list of AS numbers`;
+  return schema.list(
+    schema.string({ pattern: /^(AS)?\d{1,10}$/i })
+      .map((value) => Number(value.replace(/^AS/i, '')))
+      .refine((asn) => asn <= 0xffffffff, 'INVALID_ASN', message)
+  ).invalid('INVALID_ASN', message).optional();
+};
+
+/**
+ * The filters shared by search and export
+ */
+export const searchFilterFields = {
+  q: text(),
+  match: schema.enum(SEARCH_MATCH_MODES)
+    .invalid('INVALID_MATCH_MODE', `Invalid match mode. Supported modes: ${SEARCH_MATCH_MODES.join(', ')}`)
+    .optional(),
+  cidr: cidrFilter('cidr'), // originalIP inside this CIDR block (or equal to this address)
+  requestCidr: cidrFilter('requestCidr'), // requestIP inside this CIDR block (or equal to this address)
+  from: date.optional(),
+  to: date.optional(),
+  family: schema.enum(['IPv4', 'IPv6'] as const, { ignoreCase: true })
+    .invalid('INVALID_FAMILY', 'family must be IPv4 or IPv6')
+    .optional(),
+  userAgent: text(), // case-insensitive substring
+  ipClass: ipClasses.optional(), // original IP in any of these special-purpose classes
+  country: countries('country'), // original IP located in any of these countries
+  asn: asns('asn'), // original IP announced by any of these autonomous systems
+  requestCountry: countries('requestCountry'),
+  requestAsn: asns('requestAsn'),
+  tag: schema.list(tag).optional(), // tagged with any of these tags
+};
+
+/**
+ * Offset (page) or cursor pagination of history and search
+ */
+export const paginationFields = {
+  page: schema.int({ min: 1, coerce: true }).invalid('INVALID_PAGINATION', 'page must be a positive integer').optional(),
+  cursor: schema.string()
+    .refine((token) => decodeCursor(token) !== null, 'INVALID_CURSOR', 'Invalid pagination cursor')
+    .map((token) => decodeCursor(token)!)
+    .optional(),
+  limit: pageSize(10),
+  includeTotal: queryFlag(),
+};
+
+const validDateRange = (query: { from?: Date; to?: Date }): boolean => !query.from || !query.to || query.from <= query.to;
+
+const singlePaginationMode = (query: { page?: number; cursor?: unknown }): boolean => {
+  return query.page === undefined || query.cursor === undefined;
+};
+
+export const reverseIPBodySchema = schema.object({
+  ip: schema.string()
+    .refine(isIPOrCIDR, 'INVALID_IP', INVALID_IP_MESSAGE)
+    .invalid('INVALID_IP', INVALID_IP_MESSAGE)
+    .missing('MISSING_IP', 'IP address is required'),
+  format,
+});
+
+export const reverseBatchBodySchema = schema.object({
+  // Items are checked one by one, each with its own result
+  ips: schema.array(schema.unknown(), { min: 1 })
+    .invalid('MISSING_IPS', 'A non-empty array of IP addresses is required')
+    .missing('MISSING_IPS', 'A non-empty array of IP addresses is required')
+    .refine(
+      (ips) => ips.length <= MAX_BATCH_SIZE,
+      'BATCH_TOO_LARGE',
+      `Batch size exceeds the maximum of ${MAX_BATCH_SIZE} IP addresses`
+    ),
+  format,
+});
+
+export const historyQuerySchema = schema.object(paginationFields)
+  .refine(singlePaginationMode, 'INVALID_PAGINATION', 'Use either page or cursor, not both');
+
+export const historyEntryParamsSchema = idParamsSchema;
+
+// Omitted fields are left as they are
+export const updateHistoryEntryBodySchema = schema.object({
+  // null (or blank) clears the notes
+  notes: schema.string({ max: MAX_NOTES_LENGTH })
+    .invalid('INVALID_NOTES', `notes must be a string of at most ${MAX_NOTES_LENGTH} characters, or null`)
+    .map((notes): string | null => (notes.trim() ? notes : null))
+    .nullable()
+    .optional(),
+  // Replaces the entry's tags
+  tags: schema.array(tag, { unique: true })
+    .invalid('INVALID_TAG', 'tags must be an array of tags')
+    .refine((tags) => tags.length <= MAX_TAGS_PER_ENTRY, 'TOO_MANY_TAGS', `An entry can have at most ${MAX_TAGS_PER_ENTRY} tags`)
+    .optional(),
+}).refine(
+  (body) => body.notes !== undefined || body.tags !== undefined,
+  'INVALID_HISTORY_UPDATE',
+  'Provide notes and/or tags to update'
+);
+
+export const deleteHistoryEntryQuerySchema = schema.object({
+  hard: queryFlag(), // admin only
+});
+
+export const statsQuerySchema = schema.object({
+  tz: timeZone,
+  ipClass: ipClasses.optional(),
+});
+
+export const timeSeriesQuerySchema = schema.object({
+  interval: schema.enum(STATS_INTERVALS)
+    .invalid('INVALID_INTERVAL', `Invalid interval. Supported intervals: ${STATS_INTERVALS.join(', ')}`)
+    .default('day'),
+  from: date.optional(),
+  to: date.optional(),
+  tz: timeZone,
+})
+  // The range ends now unless `to` is given, and spans the interval's default number of buckets unless `from` is
+  .map(({ from, to, ...query }) => {
+    const end = to ?? new Date();
+    return {
+      ...query,
+      from: from ?? new Date(end.getTime() - DEFAULT_TIMESERIES_BUCKETS[query.interval] * INTERVAL_MS[query.interval]),
+      to: end,
+    };
+  })
+  .refine((query) => query.from < query.to, 'INVALID_DATE_RANGE', 'from must be before to', 'from')
+  .refine(
+    // +1 for a partial bucket at the start of the range
+    (query) => Math.ceil((query.to.getTime() - query.from.getTime()) / INTERVAL_MS[query.interval]) + 1 <= MAX_TIMESERIES_BUCKETS,
+    'TOO_MANY_BUCKETS',
+    `Range too large: at most ${MAX_TIMESERIES_BUCKETS} buckets per request. Use a larger interval or a shorter range`,
+    'from'
+  );
+
+export const searchQuerySchema = schema.object({
+  ...searchFilterFields,
+  ...paginationFields,
+  groupBy: schema.enum(SEARCH_GROUP_BY)
+    .invalid('INVALID_GROUP_BY', `groupBy must be one of: ${SEARCH_GROUP_BY.join(', ')}`)
+    .optional(),
+})
+  .refine(validDateRange, 'INVALID_DATE_RANGE', 'from must not be after to', 'from')
+  .refine(singlePaginationMode, 'INVALID_PAGINATION', 'Use either page or cursor, not both');
+
+export const exportQuerySchema = schema.object({
+  ...searchFilterFields,
+  format: schema.enum(EXPORT_FORMATS)
+    .invalid('INVALID_EXPORT_FORMAT', `Invalid export format. Supported formats: ${EXPORT_FORMATS.join(', ')}`)
+    .default('csv'),
+}).refine(validDateRange, 'INVALID_DATE_RANGE', 'from must not be after to', 'from');
+
+export const liveFeedQuerySchema = schema.object({
+  cidr: searchFilterFields.cidr,
+  family: searchFilterFields.family,
+  lastEventId: schema.string().optional(), // for clients that can't send the Last-Event-ID header
+});
+
+export const importQuerySchema = schema.object({
+  // Detected from the Content-Type when omitted
+  format: schema.enum(IMPORT_FORMATS)
+    .invalid('INVALID_IMPORT_FORMAT', `Invalid import format. Supported formats: ${IMPORT_FORMATS.join(', ')}`)
+    .optional(),
+  dryRun: queryFlag(),
+});
+
+export const ipSummaryParamsSchema = schema.object({
+  ip: schema.string().refine(isIPOrCIDR, 'INVALID_IP', INVALID_IP_MESSAGE).invalid('INVALID_IP', INVALID_IP_MESSAGE),
+});
+
+export const ipSummaryQuerySchema = schema.object({
+  limit: pageSize(10), // recent events
+});
@@ -0,0 +1,19 @@
+import { IPAddress } from '../utils/IpUtils';
+import { schema } from '../utils/Schema';
+import { queryFlag } from './CommonSchemas';
+import { ERASURE_ACTIONS } from '../types/index';
+
+const INVALID_IP_MESSAGE = 'requestIP must be a valid IPv4 or IPv6 address';
+
+export const retentionPurgeQuerySchema = schema.object({
+  dryRun: queryFlag(),
+});
+
+export const eraseRequesterBodySchema = schema.object({
+  requestIP: schema.string({ trim: true })
+    .refine((ip) => IPAddress.tryParse(ip) !== null, 'INVALID_IP', INVALID_IP_MESSAGE)
+    .invalid('INVALID_IP', INVALID_IP_MESSAGE),
+  action: schema.enum(ERASURE_ACTIONS)
+    .invalid('INVALID_ERASURE_ACTION', `Invalid action. Supported actions: ${ERASURE_ACTIONS.join(', ')}`)
+    .default('redact'),
+});
@@ -0,0 +1,71 @@
+import { compileCIDRMatcher } from '../utils/IpUtils';
+import { schema } from '../utils/Schema';
+import { idParamsSchema, pageSize } from './CommonSchemas';
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENTS } from '../types/index';
+
+// Most CIDR blocks one webhook can filter on
+export const MAX_WEBHOOK_CIDRS = 100;
+
+const URL_MESSAGE = 'url must be an absolute http or https URL';
+
+const CIDRS_MESSAGE = `cidrs must be an array of at most ${MAX_WEBHOOK_CIDRS} CIDR blocks or IP addresses`;
+
+const isHttpURL = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const compiles = (cidrs: string[]): boolean => {
+  try {
+    compileCIDRMatcher(cidrs);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const url = schema.string().refine(isHttpURL, 'INVALID_WEBHOOK_URL', URL_MESSAGE).invalid('INVALID_WEBHOOK_URL', URL_MESSAGE);
+
+// Fields that can be set when a webhook is created and changed later
+const webhookFields = {
+  events: schema.array(schema.enum(WEBHOOK_EVENTS), { min: 1, unique: true })
+    .invalid('INVALID_WEBHOOK_EVENTS', `events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}`)
+    .optional(), // defaults to every event
+  cidrs: schema.array(schema.string(), { max: MAX_WEBHOOK_CIDRS })
+    .refine(compiles, 'INVALID_WEBHOOK_CIDRS', CIDRS_MESSAGE)
+    .invalid('INVALID_WEBHOOK_CIDRS', CIDRS_MESSAGE)
+    .optional(), // empty or omitted: every reversal is delivered
+  description: schema.string({ max: 200 })
+    .invalid('INVALID_WEBHOOK_DESCRIPTION', 'description must be a string of at most 200 characters')
+    .nullable()
+    .optional(),
+  active: schema.boolean().invalid('INVALID_WEBHOOK_ACTIVE', 'active must be a boolean').optional(),
+};
+
+export const createWebhookBodySchema = schema.object({
+  url: url.missing('INVALID_WEBHOOK_URL', 'url is required'),
+  ...webhookFields,
+  secret: schema.string({ min: 16, max: 256 })
+    .invalid('INVALID_WEBHOOK_SECRET', 'secret must be a string of 16 to 256 characters')
+    .optional(), // generated when omitted
+});
+
+export const updateWebhookBodySchema = schema.object({
+  url: url.optional(),
+  ...webhookFields,
+  secret: schema.absent('INVALID_WEBHOOK_SECRET', 'The secret can only be set when a webhook is created'),
+});
+
+export const webhookParamsSchema = idParamsSchema;
+
+export const webhookDeliveriesQuerySchema = schema.object({
+  status: schema.enum(WEBHOOK_DELIVERY_STATUSES)
+    .invalid('INVALID_DELIVERY_STATUS', `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`)
+    .optional(),
+  event: schema.string().optional(),
+  limit: pageSize(20),
+});
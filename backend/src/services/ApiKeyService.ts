@@ -0,0 +1,250 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { prisma } from './Database';
+import { startOfUTCDay } from '../utils/DateUtils';
+import type {
+  ApiKeyInfo,
+  ApiKeyScope,
+  AuthenticatedApiKey,
+  IssueApiKeyRequest,
+} from '../types/index';
+
+// Keys look like ipr_<prefix>_<secret>; the prefix is stored in clear for lookup
+const KEY_PATTERN = /^ipr_([0-9a-f]{12})_([A-Za-z0-9_-]{32})$/;
+
+// Optional server-side pepper mixed into every secret hash
+const API_KEY_PEPPER: string = process.env.API_KEY_PEPPER || '';
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  rateLimit: true,
+  dailyQuota: true,
+  usageCount: true,
+  lastUsedAt: true,
+  rotatedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  rateLimit: number | null;
+  dailyQuota: number | null;
+  usageCount: number;
+  lastUsedAt: Date | null;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+/**
+ * Maps a database row to the public API key shape (never includes the secret hash)
+ */
+function toApiKeyInfo(row: ApiKeyRow): ApiKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes as ApiKeyScope[],
+    rateLimit: row.rateLimit,
+    dailyQuota: row.dailyQuota,
+    usageCount: row.usageCount,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    rotatedAt: row.rotatedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function hashSecret(secret: string): string {
+  return createHmac('sha256', API_KEY_PEPPER).update(secret).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Generates a new plaintext key with its lookup prefix and secret hash
+ */
+function generateKey(): { key: string; prefix: string; secretHash: string } {
+  const prefix = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  return {
+    key: `ipr_${prefix}_${secret}`,
+    prefix,
+    secretHash: hashSecret(secret),
+  };
+}
+
+export class ApiKeyService {
+  /**
+   * Issue a new API key. The plaintext key is returned once and never stored.
+   */
+  async issue(request: IssueApiKeyRequest): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+    const { key, prefix, secretHash } = generateKey();
+
+    const row = await prisma.apiKey.create({
+      data: {
+        name: request.name,
+        prefix,
+        secretHash,
+        scopes: request.scopes,
+        rateLimit: request.rateLimit ?? null,
+        dailyQuota: request.dailyQuota ?? null,
+      },
+      select: apiKeySelect,
+    });
+
+    return { apiKey: toApiKeyInfo(row), key };
+  }
+
+  /**
+   * List all API keys, newest first
+   */
+  async list(): Promise<ApiKeyInfo[]> {
+    const rows = await prisma.apiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+      select: apiKeySelect,
+    });
+    return rows.map(toApiKeyInfo);
+  }
+
+  /**
+   * Get one API key with its daily usage for the last `days` days
+   */
+  async get(
+    id: string,
+    days: number = 30
+  ): Promise<(ApiKeyInfo & { dailyUsage: { day: string; count: number }[] }) | null> {
+    const since = startOfUTCDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+
+    const row = await prisma.apiKey.findUnique({
+      where: { id },
+      select: {
+        ...apiKeySelect,
+        usage: {
+          where: { day: { gte: since } },
+          orderBy: { day: 'desc' },
+          select: { day: true, count: true },
+        },
+      },
+    });
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      ...toApiKeyInfo(row),
+      dailyUsage: row.usage.map((usage) => ({
+        day: usage.day.toISOString().substring(0, 10),
+        count: usage.count,
+      })),
+    };
+  }
+
+  /**
+   * Replace the secret of an active key. The old key stops working immediately;
+   * the id (and so the history it created) is kept.
+   */
+  async rotate(id: string): Promise<{ apiKey: ApiKeyInfo; key: string } | null> {
+    const existing = await prisma.apiKey.findUnique({ where: { id }, select: { revokedAt: true } });
+    if (!existing || existing.revokedAt) {
+      return null;
+    }
+
+    const { key, prefix, secretHash } = generateKey();
+    const row = await prisma.apiKey.update({
+      where: { id },
+      data: { prefix, secretHash, rotatedAt: new Date() },
+      select: apiKeySelect,
+    });
+
+    return { apiKey: toApiKeyInfo(row), key };
+  }
+
+  /**
+   * Revoke a key. Revoked keys are kept for auditing but can no longer authenticate.
+   */
+  async revoke(id: string): Promise<ApiKeyInfo | null> {
+    const existing = await prisma.apiKey.findUnique({ where: { id }, select: { revokedAt: true } });
+    if (!existing) {
+      return null;
+    }
+
+    const row = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: existing.revokedAt ?? new Date() },
+      select: apiKeySelect,
+    });
+
+    return toApiKeyInfo(row);
+  }
+
+  /**
+   * Resolve a plaintext key to the API key it belongs to, or null if it is
+   * malformed, unknown, revoked or doesn't match the stored hash
+   */
+  async verify(key: string): Promise<AuthenticatedApiKey | null> {
+    const bootstrapKey = process.env.ADMIN_API_KEY;
+    if (bootstrapKey && safeEqual(key, bootstrapKey)) {
+      return { id: null, name: 'bootstrap-admin', scopes: ['admin'], rateLimit: null, dailyQuota: null };
+    }
+
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    const [, prefix, secret] = match;
+    const row = await prisma.apiKey.findUnique({
+      where: { prefix },
+      select: { ...apiKeySelect, secretHash: true },
+    });
+
+    if (!row || row.revokedAt || !safeEqual(hashSecret(secret), row.secretHash)) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      name: row.name,
+      scopes: row.scopes as ApiKeyScope[],
+      rateLimit: row.rateLimit,
+      dailyQuota: row.dailyQuota,
+    };
+  }
+
+  /**
+   * Count one request against a key and return its usage so far today (UTC)
+   */
+  async recordUsage(id: string): Promise<number> {
+    const day = startOfUTCDay();
+
+    const [usage] = await prisma.$transaction([
+      prisma.apiKeyUsage.upsert({
+        where: { apiKeyId_day: { apiKeyId: id, day } },
+        create: { apiKeyId: id, day, count: 1 },
+        update: { count: { increment: 1 } },
+        select: { count: true },
+      }),
+      prisma.apiKey.update({
+        where: { id },
+        data: { usageCount: { increment: 1 }, lastUsedAt: new Date() },
+        select: { id: true },
+      }),
+    ]);
+
+    return usage.count;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,37 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from './LoggerService';
+import { metricsService } from './MetricsService';
+
+const client = new PrismaClient({
+  log: [
+    { emit: 'event', level: 'warn' },
+    { emit: 'event', level: 'error' },
+  ],
+});
+
+// Engine warnings and errors (e.g. lost connections) go to the structured log
+client.$on('warn', (event) => logger.warn('Prisma warning', { target: event.target, detail: event.message }));
+client.$on('error', (event) => logger.error('Prisma error', { target: event.target, detail: event.message }));
+
+// Shared Prisma client; every query is timed for the prisma_query_duration_seconds histogram
+// and failed queries are logged with the request they belong to
+export const prisma = client.$extends({
+  query: {
+    async $allOperations({ model, operation, args, query }) {
+      const endTimer = metricsService.prismaQueryDuration.startTimer({ model: model ?? 'raw', operation });
+      try {
+        const result = await query(args);
+        endTimer({ success: 'true' });
+        return result;
+      } catch (error) {
+        endTimer({ success: 'false' });
+        logger.warn('Prisma query failed', { model: model ?? 'raw', operation, error });
+        throw error;
+      }
+    },
+  },
+});
+
+export type Database = typeof prisma;
+
+export default prisma;
@@ -0,0 +1,165 @@
+import { unwatchFile, watchFile } from 'fs';
+import type { Stats } from 'fs';
+import { open } from 'maxmind';
+import type { AsnResponse, CityResponse, Reader } from 'maxmind';
+import { logger } from './LoggerService';
+import { IPAddress } from '../utils/IpUtils';
+import type { GeoIPDatabaseStatus, GeoIPInfo } from '../types/index';
+
+// MaxMind-format databases on local disk: a City or Country database and an ASN
+// database. Either may be left unset; with neither, enrichment is off.
+const GEOIP_DATABASE_PATH: string = process.env.GEOIP_DATABASE_PATH || '';
+const GEOIP_ASN_DATABASE_PATH: string = process.env.GEOIP_ASN_DATABASE_PATH || '';
+
+// How often the database files are checked for changes (0 disables hot reloading)
+const GEOIP_RELOAD_INTERVAL_MS: number = parseInt(process.env.GEOIP_RELOAD_INTERVAL_MS || '60000');
+
+// Records kept in each reader's lookup cache
+const GEOIP_CACHE_SIZE: number = parseInt(process.env.GEOIP_CACHE_SIZE || '10000');
+
+// One database may hold any of these records (e.g. GeoIP2-City, GeoLite2-ASN, or a combined one)
+type GeoRecord = CityResponse & Partial<AsnResponse>;
+
+class GeoIPDatabase {
+  private reader: Reader<GeoRecord> | null = null;
+  private status: GeoIPDatabaseStatus;
+
+  constructor(readonly path: string) {
+    this.status = { path, loaded: false, databaseType: null, buildEpoch: null, loadedAt: null, error: null };
+  }
+
+  /**
+   * Open the file and swap it in. If that fails, the previously loaded version
+   * (if any) stays in use.
+   */
+  async load(): Promise<void> {
+    try {
+      const reader = await open<GeoRecord>(this.path, { cache: { max: GEOIP_CACHE_SIZE } });
+      this.reader = reader;
+      this.status = {
+        path: this.path,
+        loaded: true,
+        databaseType: reader.metadata.databaseType,
+        buildEpoch: reader.metadata.buildEpoch.toISOString(),
+        loadedAt: new Date().toISOString(),
+        error: null,
+      };
+      logger.info('Loaded GeoIP database', { path: this.path, databaseType: reader.metadata.databaseType });
+    } catch (error) {
+      this.status = { ...this.status, error: error instanceof Error ? error.message : String(error) };
+      logger.warn(
+        this.reader ? 'Could not reload GeoIP database, keeping the loaded version' : 'Could not load GeoIP database',
+        { path: this.path, error }
+      );
+    }
+  }
+
+  get(ip: string): GeoRecord | null {
+    return this.reader?.get(ip) ?? null;
+  }
+
+  getStatus(): GeoIPDatabaseStatus {
+    return { ...this.status };
+  }
+}
+
+export class GeoIPService {
+  private readonly databases: GeoIPDatabase[] = [GEOIP_DATABASE_PATH, GEOIP_ASN_DATABASE_PATH]
+    .filter(Boolean)
+    .map((path) => new GeoIPDatabase(path));
+  private watched: { database: GeoIPDatabase; listener: (curr: Stats, prev: Stats) => void }[] = [];
+
+  /**
+   * Whether any database is configured. Lookups return null until one has loaded.
+   */
+  isEnabled(): boolean {
+    return this.databases.length > 0;
+  }
+
+  /**
+   * Country, city and autonomous system of an IP, merged from every loaded
+   * database. CIDR blocks are looked up by their network address. Returns null
+   * when enrichment is off, `ip` isn't an IP or no database knows it.
+   * Example: 8.8.8.8 -> { country: 'US', city: null, asn: 15169, asOrg: 'GOOGLE' }
+   */
+  lookup(ip: string): GeoIPInfo | null {
+    if (this.databases.length === 0) {
+      return null;
+    }
+
+    const address = IPAddress.tryParse(typeof ip === 'string' ? ip.split('/')[0] : ip);
+    if (!address) {
+      return null;
+    }
+
+    const info: GeoIPInfo = { country: null, city: null, asn: null, asOrg: null };
+    for (const database of this.databases) {
+      let record: GeoRecord | null;
+      try {
+        record = database.get(address.toString());
+      } catch {
+        // e.g. an IPv6 address looked up in an IPv4-only database
+        continue;
+      }
+      if (!record) {
+        continue;
+      }
+      info.country ??= record.country?.iso_code ?? record.registered_country?.iso_code ?? null;
+      info.city ??= record.city?.names?.en ?? null;
+      info.asn ??= record.autonomous_system_number ?? null;
+      info.asOrg ??= record.autonomous_system_organization ?? null;
+    }
+
+    return Object.values(info).some((value) => value !== null) ? info : null;
+  }
+
+  getStatus(): GeoIPDatabaseStatus[] {
+    return this.databases.map((database) => database.getStatus());
+  }
+
+  /**
+   * (Re)load every configured database
+   */
+  async load(): Promise<void> {
+    await Promise.all(this.databases.map((database) => database.load()));
+  }
+
+  /**
+   * Load the databases and reload each one whenever its file changes. The files
+   * are polled, so a database replaced by renaming a new file over it (as
+   * geoipupdate does) or created after startup is picked up too.
+   */
+  start(): void {
+    if (this.databases.length === 0) {
+      logger.info('GeoIP enrichment disabled: GEOIP_DATABASE_PATH and GEOIP_ASN_DATABASE_PATH are not set');
+      return;
+    }
+    if (this.watched.length > 0) {
+      return;
+    }
+
+    void this.load();
+
+    if (GEOIP_RELOAD_INTERVAL_MS > 0) {
+      for (const database of this.databases) {
+        const listener = (curr: Stats, prev: Stats): void => {
+          // A removed file reads as mtime 0; keep serving the loaded version
+          if (curr.mtimeMs !== 0 && curr.mtimeMs !== prev.mtimeMs) {
+            void database.load();
+          }
+        };
+        watchFile(database.path, { interval: GEOIP_RELOAD_INTERVAL_MS, persistent: false }, listener);
+        this.watched.push({ database, listener });
+      }
+    }
+  }
+
+  stop(): void {
+    for (const { database, listener } of this.watched) {
+      unwatchFile(database.path, listener);
+    }
+    this.watched = [];
+  }
+}
+
+export const geoIpService = new GeoIPService();
@@ -0,0 +1,154 @@
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './Database';
+import { logger } from './LoggerService';
+import { utcTimestamp } from '../utils/DateUtils';
+
+// How long a key and its stored response are kept
+const IDEMPOTENCY_KEY_TTL_MS: number = parseInt(process.env.IDEMPOTENCY_KEY_TTL_MS || String(24 * 60 * 60 * 1000));
+
+// How long an in-progress request holds its key before a retry may take it over;
+// keep it above the request timeout
+const IDEMPOTENCY_LOCK_TIMEOUT_MS: number = parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_MS || '60000');
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export type IdempotencyClaim =
+  | { outcome: 'started'; owner: string } // first use (or expired/abandoned key): run the request
+  | { outcome: 'replay'; status: number; body: unknown } // completed before: send the stored response
+  | { outcome: 'mismatch' } // used before with another request
+  | { outcome: 'in-progress' }; // the first request with this key is still running
+
+export class IdempotencyService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Claim `key` for a request with the given fingerprint, or find out what to answer
+   * instead. The claim is one INSERT ... ON CONFLICT statement, so of two concurrent
+   * requests with the same key exactly one gets to run.
+   */
+  async begin(key: string, fingerprint: string): Promise<IdempotencyClaim> {
+    const now = new Date();
+    const owner = randomUUID();
+
+    // Taken over: expired keys, and claims abandoned by a request with the same fingerprint
+    const claimed = await prisma.$queryRaw<{ owner: string }[]>`
+      INSERT INTO "public"."IdempotencyKey" AS k ("key", "fingerprint", "status", "owner", "lockedUntil", "createdAt", "expiresAt")
+      VALUES (
+        ${key}, ${fingerprint}, 'in_progress', ${owner},
+        ${utcTimestamp(new Date(now.getTime() + IDEMPOTENCY_LOCK_TIMEOUT_MS))},
+        ${utcTimestamp(now)},
+        ${utcTimestamp(new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_MS))}
+      )
+      ON CONFLICT ("key") DO UPDATE SET
+        "fingerprint" = EXCLUDED."fingerprint",
+        "status" = EXCLUDED."status",
+        "owner" = EXCLUDED."owner",
+        "lockedUntil" = EXCLUDED."lockedUntil",
+        "responseStatus" = NULL,
+        "responseBody" = NULL,
+        "createdAt" = EXCLUDED."createdAt",
+        "expiresAt" = EXCLUDED."expiresAt"
+      WHERE k."expiresAt" <= ${utcTimestamp(now)}
+        OR (k."status" = 'in_progress' AND k."lockedUntil" <= ${utcTimestamp(now)} AND k."fingerprint" = EXCLUDED."fingerprint")
+      RETURNING "owner"
+    `;
+
+    if (claimed.length > 0) {
+      return { outcome: 'started', owner };
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({ where: { key } });
+    if (!existing) {
+      // Released between the two statements; the retry can simply run
+      return this.begin(key, fingerprint);
+    }
+    if (existing.fingerprint !== fingerprint) {
+      return { outcome: 'mismatch' };
+    }
+    if (existing.status !== 'completed') {
+      return { outcome: 'in-progress' };
+    }
+    return { outcome: 'replay', status: existing.responseStatus!, body: existing.responseBody };
+  }
+
+  /**
+   * Store the response of a claimed request for replays. Does nothing if the claim
+   * was taken over in the meantime.
+   */
+  async complete(key: string, owner: string, status: number, body: Prisma.InputJsonValue): Promise<void> {
+    await prisma.idempotencyKey.updateMany({
+      where: { key, owner, status: 'in_progress' },
+      data: { status: 'completed', responseStatus: status, responseBody: body },
+    });
+  }
+
+  /**
+   * Give up a claim without storing a response, so a retry runs the request again
+   */
+  async release(key: string, owner: string): Promise<void> {
+    await prisma.idempotencyKey.deleteMany({ where: { key, owner, status: 'in_progress' } });
+  }
+
+  /**
+   * Delete the keys whose stored response names one of the given request IPs, e.g.
+   * after a requester's data was erased. Returns the number of keys deleted.
+   */
+  async forgetRequestIPs(db: Pick<Prisma.TransactionClient, '$executeRaw'>, requestIPs: string[]): Promise<number> {
+    if (requestIPs.length === 0) {
+      return 0;
+    }
+
+    // Reverse and batch responses carry the stored requestIP of every entry they return
+    return db.$executeRaw`
+      DELETE FROM "public"."IdempotencyKey"
+      WHERE "responseBody" IS NOT NULL
+        AND jsonb_path_exists(
+          "responseBody",
+          '$.**.requestIP ? (@ == $ips[*])',
+          jsonb_build_object('ips', to_jsonb(${requestIPs}::text[]))
+        )
+    `;
+  }
+
+  /**
+   * Delete expired keys
+   */
+  async prune(): Promise<number> {
+    return prisma.$executeRaw`
+      DELETE FROM "public"."IdempotencyKey" WHERE "expiresAt" <= ${utcTimestamp(new Date())}
+    `;
+  }
+
+  /**
+   * Delete expired keys every hour
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.runPrune(), PRUNE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runPrune(): Promise<void> {
+    try {
+      const pruned = await this.prune();
+      if (pruned > 0) {
+        logger.debug('Pruned expired idempotency keys', { pruned });
+      }
+    } catch (error) {
+      logger.error('Idempotency key prune failed', { error });
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
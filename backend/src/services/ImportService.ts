@@ -0,0 +1,189 @@
+import type { Prisma } from '@prisma/client';
+import { IPAddress, reverseIPWithFormat, normalizeIP } from '../utils/IpUtils';
+import { parseImportLines } from '../utils/ImportUtils';
+import { startOfUTCDay } from '../utils/DateUtils';
+import { integerSetting } from '../utils/EnvUtils';
+import { prisma } from './Database';
+import { geoColumns, searchColumns } from './IpService';
+import { privacyService } from './PrivacyService';
+import { statsRollupService } from './StatsRollupService';
+import { summaryService } from './SummaryService';
+import type { ImportFormat, ImportRejection, ImportReport } from '../types/index';
+
+// Problems with the IMPORT_* settings, reported by configErrors()
+const settingErrors: string[] = [];
+
+// Rows inserted per query when importing history
+const IMPORT_BATCH_SIZE: number = integerSetting(settingErrors, 'IMPORT_BATCH_SIZE', 1000);
+
+// How far ahead of this server's clock an imported timestamp may be, for clock skew
+// between the exporting and importing machines
+const IMPORT_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface ImportOptions {
+  format: ImportFormat;
+  dryRun?: boolean;
+  // API key the imported rows are attributed to
+  apiKeyId?: string | null;
+  batchSize?: number;
+}
+
+type ImportRow = Prisma.ReversedIPCreateManyInput;
+
+/**
+ * Returns the trimmed value of an optional text field, or null when it is absent or empty
+ */
+function optionalText(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const text = value.trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Validates one imported record and builds the row to store.
+ * The reversed IP is always recomputed; any reversedIP in the file is ignored.
+ */
+function toImportRow(
+  fields: Record<string, unknown>,
+  apiKeyId: string | null
+): { row: ImportRow } | { error: ImportRejection['error'] } {
+  const address = IPAddress.tryParse(typeof fields.originalIP === 'string' ? fields.originalIP.trim() : fields.originalIP);
+  if (!address) {
+    return { error: { message: 'originalIP is missing or not a valid IP address', code: 'INVALID_IP' } };
+  }
+
+  const requestIP = optionalText(fields.requestIP);
+  if (requestIP === undefined || (requestIP !== null && !IPAddress.tryParse(requestIP))) {
+    return { error: { message: 'requestIP is not a valid IP address', code: 'INVALID_REQUEST_IP' } };
+  }
+
+  const userAgent = optionalText(fields.userAgent);
+  if (userAgent === undefined) {
+    return { error: { message: 'userAgent must be a string', code: 'INVALID_USER_AGENT' } };
+  }
+
+  let timestamp = new Date();
+  if (fields.timestamp !== undefined && fields.timestamp !== null && fields.timestamp !== '') {
+    timestamp = typeof fields.timestamp === 'number' || typeof fields.timestamp === 'string'
+      ? new Date(fields.timestamp)
+      : new Date(NaN);
+
+    if (Number.isNaN(timestamp.getTime())) {
+      return { error: { message: 'timestamp is not a valid date', code: 'INVALID_TIMESTAMP' } };
+    }
+    // A future row would stay on top of the history and outlive the retention window
+    if (timestamp.getTime() > Date.now() + IMPORT_MAX_CLOCK_SKEW_MS) {
+      return { error: { message: 'timestamp is in the future', code: 'INVALID_TIMESTAMP' } };
+    }
+  }
+
+  const originalIP = address.toString();
+  const storedRequestIP = requestIP ? privacyService.storedRequestIP(normalizeIP(requestIP)) : 'unknown';
+  return {
+    row: {
+      originalIP,
+      reversedIP: reverseIPWithFormat(originalIP, 'octets'),
+      format: 'octets',
+      requestIP: storedRequestIP,
+      userAgent: privacyService.storedUserAgent(userAgent),
+      apiKeyId,
+      // Imported rows keep their original time so history and stats order them correctly
+      timestamp,
+      createdAt: timestamp,
+      ...searchColumns(originalIP, storedRequestIP),
+      // Looked up in the current GeoIP databases, which may differ from when the row was first stored
+      ...geoColumns(originalIP, requestIP, storedRequestIP),
+    },
+  };
+}
+
+export class ImportService {
+  /**
+   * Problems with the import settings, checked at startup
+   */
+  configErrors(): string[] {
+    return [...settingErrors];
+  }
+
+  /**
+   * Import history from the lines of a CSV or NDJSON file. Valid rows are inserted
+   * in batches; invalid rows are skipped and reported with their line number.
+   * In dry-run mode rows are only validated.
+   */
+  async importHistory(
+    lines: AsyncIterable<string> | Iterable<string>,
+    { format, dryRun = false, apiKeyId = null, batchSize = IMPORT_BATCH_SIZE }: ImportOptions
+  ): Promise<ImportReport> {
+    const report: ImportReport = {
+      dryRun,
+      total: 0,
+      accepted: 0,
+      rejected: 0,
+      acceptedLines: [],
+      rejectedLines: [],
+    };
+
+    let batch: { line: number; row: ImportRow }[] = [];
+    let earliest: Date | null = null;
+
+    const flush = async (): Promise<void> => {
+      if (batch.length === 0) {
+        return;
+      }
+      if (!dryRun) {
+        const rows = batch.map((item) => item.row);
+        await prisma.$transaction(async (tx) => {
+          await tx.reversedIP.createMany({ data: rows });
+          await summaryService.recordHits(tx, rows.map((row) => ({
+            ip: row.originalIP,
+            family: row.family ?? null,
+            ipClass: row.ipClass ?? null,
+            format: row.format as string,
+            reversedIP: row.reversedIP,
+            requestIP: row.requestIP,
+            seenAt: row.createdAt as Date,
+          })));
+        });
+      }
+      report.accepted += batch.length;
+      report.acceptedLines.push(...batch.map((item) => item.line));
+      batch = [];
+    };
+
+    for await (const record of parseImportLines(lines, format)) {
+      report.total++;
+
+      const result = 'error' in record ? record : toImportRow(record.fields, apiKeyId);
+      if ('error' in result) {
+        report.rejected++;
+        report.rejectedLines.push({ line: record.line, error: result.error });
+        continue;
+      }
+
+      batch.push({ line: record.line, row: result.row });
+      const createdAt = result.row.createdAt as Date;
+      if (!earliest || createdAt < earliest) {
+        earliest = createdAt;
+      }
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+
+    await flush();
+
+    // Rows landed in days that may already be rolled up; have them recomputed
+    if (!dryRun && earliest && earliest < startOfUTCDay()) {
+      await statsRollupService.invalidateFrom(earliest);
+    }
+
+    return report;
+  }
+}
+
+export const importService = new ImportService();
@@ -1,142 +1,676 @@
-import { PrismaClient } from '@prisma/client';
-import { reverseIP, extractClientIP, normalizeIP } from '../utils/IpUtils.js';
-import type { IPHistoryEntry } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import {
+  IPAddress,
+  cidrSearchRange,
+  toSearchHex,
+  isValidCIDR,
+  reverseCIDR,
+  reverseIPWithFormat,
+  extractClientIP,
+} from '../utils/IpUtils.js';
+import { classifyIP } from '../utils/IpClassifier.js';
+import type {
+  AsnCount,
+  BatchReverseItemResult,
+  CIDRReversal,
+  CountryCount,
+  IPClass,
+  IPClassCount,
+  IPClassification,
+  IPFamily,
+  IPHistoryEntry,
+  IPStats,
+  IPSummary,
+  ReverseFormat,
+  SearchFilters,
+  SearchGroupBy,
+  StatsInterval,
+  StatsTimeSeries,
+  TimeSeriesBucket,
+} from '../types/index.js';
+import { startOfUTCDay, utcTimestamp } from '../utils/DateUtils.js';
+import { encodeCursor } from '../utils/Pagination.js';
+import type { HistoryCursor } from '../utils/Pagination.js';
+import { logger } from './LoggerService.js';
+import { metricsService } from './MetricsService.js';
+import { prisma } from './Database.js';
+import { geoIpService } from './GeoIpService.js';
+import { ANONYMOUS_REQUEST_IPS, privacyService } from './PrivacyService.js';
+import { retentionService } from './RetentionService.js';
+import { summaryService } from './SummaryService.js';
+import type { SummaryHit } from './SummaryService.js';
+import { DAILY_TOP_REQUEST_IPS, statsRollupService } from './StatsRollupService.js';
 
-const prisma = new PrismaClient();
+// Rows fetched per query when streaming exports
+const EXPORT_CHUNK_SIZE: number = parseInt(process.env.EXPORT_CHUNK_SIZE || '1000');
+
+// Maximum number of host addresses expanded for a CIDR reversal
+const CIDR_MAX_HOSTS: number = parseInt(process.env.CIDR_MAX_HOSTS || '256');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Countries and autonomous systems listed in the stats
+const STATS_TOP_GEO = 10;
+
+// Most groups returned by a grouped search, most frequent first
+const SEARCH_GROUPS_LIMIT = 100;
+
+// Zones whose day buckets line up with the UTC days of the DailyStats rollups
+const UTC_TIME_ZONES = ['UTC', 'Etc/UTC', 'Etc/GMT', 'GMT'];
+
+// Columns returned for every history entry
+const historySelect = {
+  id: true,
+  originalIP: true,
+  reversedIP: true,
+  format: true,
+  prefixLength: true,
+  family: true,
+  requestIP: true,
+  userAgent: true,
+  apiKeyId: true,
+  ipClass: true,
+  country: true,
+  city: true,
+  asn: true,
+  asOrg: true,
+  requestCountry: true,
+  requestAsn: true,
+  notes: true,
+  tags: true,
+  timestamp: true,
+  createdAt: true,
+} as const;
+
+type HistoryRow = {
+  id: string;
+  originalIP: string;
+  reversedIP: string;
+  format: string;
+  prefixLength: number | null;
+  family: string | null;
+  requestIP: string;
+  userAgent: string | null;
+  apiKeyId: string | null;
+  ipClass: string | null;
+  country: string | null;
+  city: string | null;
+  asn: number | null;
+  asOrg: string | null;
+  requestCountry: string | null;
+  requestAsn: number | null;
+  notes: string | null;
+  tags: string[];
+  timestamp: Date;
+  createdAt: Date;
+};
+
+export interface HistoryPageOptions {
+  filters?: SearchFilters;
+  page?: number;
+  cursor?: HistoryCursor | null;
+  limit?: number;
+  includeTotal?: boolean;
+}
+
+export interface HistoryPage {
+  entries: IPHistoryEntry[];
+  total: number | null;
+  page?: number;
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Rows strictly after the cursor in the requested direction of (createdAt DESC, id DESC) order
+ */
+function cursorWhere(cursor: HistoryCursor): Prisma.ReversedIPWhereInput {
+  const comparison = cursor.direction === 'next' ? 'lt' : 'gt';
+  return {
+    OR: [
+      { createdAt: { [comparison]: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { [comparison]: cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Search columns stored with every row: the original IP's family and
+ * special-purpose class, and the range keys used for CIDR filters (null when a
+ * value isn't an IP)
+ */
+export function searchColumns(
+  originalIP: string,
+  requestIP: string
+): { family: IPFamily | null; ipClass: IPClass | null; originalIPHex: string | null; requestIPHex: string | null } {
+  // CIDR rows store the network as "address/prefix"
+  const original = IPAddress.tryParse(originalIP.split('/')[0]);
+  const request = IPAddress.tryParse(requestIP);
+
+  return {
+    family: original?.family ?? null,
+    ipClass: classifyIP(originalIP)?.ipClass ?? null,
+    originalIPHex: original ? toSearchHex(original) : null,
+    requestIPHex: request ? toSearchHex(request) : null,
+  };
+}
+
+/**
+ * Condition matching the free-text query against one column in the given mode
+ */
+function textMatch(value: string, match: SearchFilters['match']): Prisma.StringFilter<'ReversedIP'> {
+  switch (match) {
+    case 'exact':
+      return { equals: value, mode: 'insensitive' };
+    case 'prefix':
+      return { startsWith: value, mode: 'insensitive' };
+    default:
+      return { contains: value, mode: 'insensitive' };
+  }
+}
+
+/**
+ * GeoIP columns stored with every row: location and network of the original IP
+ * and of the client IP (as seen before the privacy policy is applied). Requester
+ * columns are left empty when the stored request IP doesn't identify anyone.
+ * All null when GeoIP enrichment is off.
+ */
+export function geoColumns(
+  originalIP: string,
+  clientIP: string | null,
+  requestIP: string
+): Pick<HistoryRow, 'country' | 'city' | 'asn' | 'asOrg' | 'requestCountry' | 'requestAsn'> {
+  const original = geoIpService.lookup(originalIP);
+  const requester = clientIP && !ANONYMOUS_REQUEST_IPS.includes(requestIP) ? geoIpService.lookup(clientIP) : null;
+
+  return {
+    country: original?.country ?? null,
+    city: original?.city ?? null,
+    asn: original?.asn ?? null,
+    asOrg: original?.asOrg ?? null,
+    requestCountry: requester?.country ?? null,
+    requestAsn: requester?.asn ?? null,
+  };
+}
+
+/**
+ * Filter shared by history, search and export; soft-deleted rows never match
+ */
+function searchWhere(filters: SearchFilters): Prisma.ReversedIPWhereInput {
+  const conditions: Prisma.ReversedIPWhereInput[] = [{ deletedAt: null }];
+
+  if (filters.q) {
+    // In exact mode an IP query also matches its canonical form (e.g. 2001:DB8::0001)
+    const canonical = filters.match === 'exact' ? IPAddress.tryParse(filters.q)?.toString() : undefined;
+    const values = canonical && canonical !== filters.q ? [filters.q, canonical] : [filters.q];
+
+    // Request IPs may be stored truncated or hashed, so an IP query also matches those forms
+    const requestIPForms = IPAddress.tryParse(filters.q) ? privacyService.searchForms(filters.q) : [];
+
+    conditions.push({
+      OR: [
+        ...values.flatMap((value) => [
+          { originalIP: textMatch(value, filters.match) },
+          { reversedIP: textMatch(value, filters.match) },
+          { requestIP: textMatch(value, filters.match) },
+        ]),
+        ...(requestIPForms.length > 0 ? [{ requestIP: { in: requestIPForms } }] : []),
+      ],
+    });
+  }
+
+  if (filters.cidr) {
+    const range = cidrSearchRange(filters.cidr);
+    conditions.push({ originalIPHex: { gte: range.start, lte: range.end } });
+  }
+
+  if (filters.requestCidr) {
+    const range = cidrSearchRange(filters.requestCidr);
+    const forms = privacyService.cidrSearchForms(filters.requestCidr);
+    const inRange: Prisma.ReversedIPWhereInput = { requestIPHex: { gte: range.start, lte: range.end } };
+    conditions.push(forms.length > 0 ? { OR: [inRange, { requestIP: { in: forms } }] } : inRange);
+  }
+
+  if (filters.from || filters.to) {
+    conditions.push({ createdAt: { gte: filters.from, lte: filters.to } });
+  }
+
+  if (filters.family) {
+    conditions.push({ family: filters.family });
+  }
+
+  if (filters.userAgent) {
+    conditions.push({ userAgent: { contains: filters.userAgent, mode: 'insensitive' } });
+  }
+
+  if (filters.ipClass) {
+    conditions.push({ ipClass: { in: filters.ipClass } });
+  }
+
+  if (filters.country) {
+    conditions.push({ country: { in: filters.country } });
+  }
+
+  if (filters.asn) {
+    conditions.push({ asn: { in: filters.asn } });
+  }
+
+  if (filters.requestCountry) {
+    conditions.push({ requestCountry: { in: filters.requestCountry } });
+  }
+
+  if (filters.requestAsn) {
+    conditions.push({ requestAsn: { in: filters.requestAsn } });
+  }
+
+  if (filters.tag) {
+    conditions.push({ tags: { hasSome: filters.tag } });
+  }
+
+  return { AND: conditions };
+}
+
+export type StoredReversal = Omit<HistoryRow, 'format' | 'ipClass'> & {
+  format: ReverseFormat;
+  ipClass: IPClass | null;
+  classification: IPClassification | null;
+  cidr?: CIDRReversal;
+};
+
+/**
+ * Maps a database row to the public history entry shape
+ */
+function toHistoryEntry(entry: HistoryRow): IPHistoryEntry {
+  return {
+    id: entry.id,
+    originalIP: entry.originalIP,
+    reversedIP: entry.reversedIP,
+    format: entry.format as ReverseFormat,
+    prefixLength: entry.prefixLength,
+    family: entry.family as IPFamily | null,
+    requestIP: entry.requestIP,
+    userAgent: entry.userAgent,
+    apiKeyId: entry.apiKeyId,
+    ipClass: entry.ipClass as IPClass | null,
+    country: entry.country,
+    city: entry.city,
+    asn: entry.asn,
+    asOrg: entry.asOrg,
+    requestCountry: entry.requestCountry,
+    requestAsn: entry.requestAsn,
+    notes: entry.notes,
+    tags: entry.tags,
+    timestamp: entry.timestamp.toISOString(),
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Class counts, most frequent first (rows without a class are left out)
+ */
+function toClassCounts(counts: Map<string | null, number>): IPClassCount[] {
+  return [...counts]
+    .filter((item): item is [IPClass, number] => item[0] !== null && item[1] > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([ipClass, count]) => ({ ipClass, count }));
+}
+
+/**
+ * Maps a stored history row to the hit recorded in its IP summary
+ */
+function toSummaryHit(row: HistoryRow): SummaryHit {
+  return {
+    ip: row.originalIP,
+    family: row.family,
+    ipClass: row.ipClass,
+    format: row.format,
+    reversedIP: row.reversedIP,
+    requestIP: row.requestIP,
+    seenAt: row.createdAt,
+  };
+}
 
 export class IPService {
+  // Emits 'stored' with the entries of every committed reversal
+  private readonly events = new EventEmitter();
+
+  /**
+   * Listen for newly stored reversals (the live feed is fed from here); returns the unsubscribe function
+   */
+  onStored(listener: (entries: IPHistoryEntry[]) => void): () => void {
+    this.events.on('stored', listener);
+    return () => {
+      this.events.off('stored', listener);
+    };
+  }
+
   async reverseAndStore(
     originalIP: string,
-    req: any
-  ): Promise<{
-    id: string;
-    originalIP: string;
-    reversedIP: string;
-    requestIP: string;
-    timestamp: Date;
-    userAgent: string | null;
-    createdAt: Date;
-  }> {
-    // Reverse the IP address
-    const reversedIP = reverseIP(originalIP);
-
-    // Extract client IP from request, fallback to 'unknown' if null
-    const requestIP = normalizeIP(extractClientIP(req)) || 'unknown';
-    const userAgent = req.headers['user-agent'] || null;
-
-    // Store in database
-    const result = await prisma.reversedIP.create({
-      data: {
-        originalIP,
-        reversedIP,
-        requestIP,
-        userAgent,
-      },
-      select: {
-        id: true,
-        originalIP: true,
-        reversedIP: true,
-        requestIP: true,
-        userAgent: true,   
-        createdAt: true,
-        timestamp: true,
-      },
-    });
+    req: any,
+    format: ReverseFormat = 'octets'
+  ): Promise<StoredReversal> {
+    // CIDR blocks are stored as their network address with the prefix length
+    let cidr: CIDRReversal | undefined;
+    let family: IPFamily;
+    let reversedIP: string;
+    let prefixLength: number | null = null;
 
-    // Ensure requestIP is always a string (never null)
-    if (result.requestIP === null) {
-      result.requestIP = 'unknown';
+    if (isValidCIDR(originalIP)) {
+      cidr = reverseCIDR(originalIP, format, CIDR_MAX_HOSTS);
+      originalIP = cidr.network;
+      reversedIP = cidr.reversedNetwork;
+      prefixLength = cidr.prefixLength;
+      family = cidr.family;
+    } else {
+      // Reverse the IP address in the requested format
+      reversedIP = reverseIPWithFormat(originalIP, format);
+      family = IPAddress.parse(originalIP).family;
     }
 
-    // Type assertion to satisfy return type (requestIP is now string)
-    return result as {
-      id: string;
-      originalIP: string;
-      reversedIP: string;
-      requestIP: string;
-      timestamp: Date;
-      userAgent: string | null;
-      createdAt: Date;
+    // Client IP as resolved through trusted proxies ('unknown' if undetermined); both are stored per the privacy policy
+    const clientIP: string = req.resolvedClientIP?.ip ?? extractClientIP(req);
+    const requestIP = privacyService.storedRequestIP(clientIP);
+    const userAgent = privacyService.storedUserAgent(req.headers['user-agent']);
+
+    // Store the event and fold it into the per-IP summary atomically
+    const result = await prisma.$transaction(async (tx) => {
+      const row = await tx.reversedIP.create({
+        data: {
+          originalIP,
+          reversedIP,
+          format,
+          prefixLength,
+          requestIP,
+          userAgent,
+          apiKeyId: req.apiKey?.id ?? null,
+          ...searchColumns(originalIP, requestIP),
+          ...geoColumns(originalIP, clientIP, requestIP),
+        },
+        select: historySelect,
+      });
+      await summaryService.recordHits(tx, [toSummaryHit(row)]);
+      return row;
+    });
+
+    metricsService.recordReversal(family);
+    this.events.emit('stored', [toHistoryEntry(result)]);
+
+    return {
+      ...result,
+      // Ensure requestIP is always a string (never null)
+      requestIP: result.requestIP ?? 'unknown',
+      format: result.format as ReverseFormat,
+      ipClass: result.ipClass as IPClass | null,
+      classification: classifyIP(originalIP),
+      cidr,
     };
   }
 
   /**
-   * Get paginated history of reversed IPs
+   * Reverse a batch of IP addresses and store the valid ones in a single insert.
+   * Returns one result per input item, in input order.
    */
-  async getHistory(
-    page: number = 1,
-    limit: number = 10
-  ): Promise<{
-    entries: IPHistoryEntry[];
-    total: number;
-    page: number;
-    limit: number;
-  }> {
-    const skip = (page - 1) * limit;
+  async reverseAndStoreBatch(
+    ips: unknown[],
+    req: any,
+    format: ReverseFormat = 'octets'
+  ): Promise<BatchReverseItemResult[]> {
+    const clientIP: string = req.resolvedClientIP?.ip ?? extractClientIP(req);
+    const requestIP = privacyService.storedRequestIP(clientIP);
+    const userAgent = privacyService.storedUserAgent(req.headers['user-agent']);
+    const apiKeyId = req.apiKey?.id ?? null;
 
-    const [entries, total] = await Promise.all([
-      prisma.reversedIP.findMany({
-        skip,
-        take: limit,
-        orderBy: {
-          createdAt: 'desc',
-        },
-        select: {
-          id: true,
-          originalIP: true,
-          reversedIP: true,
-          requestIP: true,
-          userAgent: true,
-          timestamp: true,
-          createdAt: true,
+    const results: BatchReverseItemResult[] = [];
+    const rows: { index: number; family: IPFamily; data: Prisma.ReversedIPCreateManyInput & { id: string } }[] = [];
+
+    ips.forEach((ip, index) => {
+      const address = IPAddress.tryParse(ip);
+
+      if (!address) {
+        results[index] = {
+          index,
+          ip: String(ip),
+          success: false,
+          error: {
+            message: 'Invalid IP address format',
+            code: 'INVALID_IP',
+          },
+        };
+        return;
+      }
+
+      rows.push({
+        index,
+        family: address.family,
+        data: {
+          // Ids are generated here so inserted rows can be matched back to their input index
+          id: randomUUID(),
+          originalIP: address.toString(),
+          reversedIP: reverseIPWithFormat(address.toString(), format),
+          format,
+          prefixLength: null,
+          requestIP,
+          userAgent,
+          apiKeyId,
+          ...searchColumns(address.toString(), requestIP),
+          ...geoColumns(address.toString(), clientIP, requestIP),
         },
+      });
+    });
+
+    if (rows.length > 0) {
+      const created = await prisma.$transaction(async (tx) => {
+        const inserted = await tx.reversedIP.createManyAndReturn({
+          data: rows.map((row) => row.data),
+          select: historySelect,
+        });
+        await summaryService.recordHits(tx, inserted.map(toSummaryHit));
+        return inserted;
+      });
+      const createdById = new Map(created.map((entry) => [entry.id, entry]));
+      this.events.emit('stored', created.map(toHistoryEntry));
+
+      for (const family of ['IPv4', 'IPv6'] as const) {
+        const count = rows.filter((row) => row.family === family).length;
+        if (count > 0) {
+          metricsService.recordReversal(family, count);
+        }
+      }
+
+      for (const row of rows) {
+        const entry = createdById.get(row.data.id)!;
+        results[row.index] = {
+          index: row.index,
+          ip: ips[row.index] as string,
+          success: true,
+          data: toHistoryEntry(entry),
+        };
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get history of reversed IPs, newest first.
+   * Pages either by offset (`page`) or by an opaque cursor keyed on (createdAt, id);
+   * cursors stay stable while new reversals are being inserted.
+   */
+  async getHistory({
+    filters = {},
+    page,
+    cursor = null,
+    limit = 10,
+    includeTotal = true,
+  }: HistoryPageOptions): Promise<HistoryPage> {
+    const ascending = cursor?.direction === 'prev';
+    const order = ascending ? 'asc' : 'desc';
+    const where = searchWhere(filters);
+
+    const [rows, total] = await Promise.all([
+      prisma.reversedIP.findMany({
+        where: cursor ? { AND: [where, cursorWhere(cursor)] } : where,
+        skip: cursor ? undefined : ((page ?? 1) - 1) * limit,
+        // One extra row tells us whether another page exists
+        take: limit + 1,
+        orderBy: [{ createdAt: order }, { id: order }],
+        select: historySelect,
       }),
-      prisma.reversedIP.count(),
+      includeTotal ? prisma.reversedIP.count({ where }) : Promise.resolve(null),
     ]);
 
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    if (ascending) {
+      pageRows.reverse();
+    }
+
+    let hasOlder: boolean;
+    let hasNewer: boolean;
+    if (!cursor) {
+      hasOlder = hasMore;
+      hasNewer = (page ?? 1) > 1;
+    } else if (cursor.direction === 'next') {
+      hasOlder = hasMore;
+      hasNewer = true;
+    } else {
+      hasOlder = true;
+      hasNewer = hasMore;
+    }
+
+    const first = pageRows[0];
+    const last = pageRows[pageRows.length - 1];
+
     return {
-      entries: entries.map((entry) => ({
-        id: entry.id,
-        originalIP: entry.originalIP,
-        reversedIP: entry.reversedIP,
-        requestIP: entry.requestIP,
-        userAgent: entry.userAgent,
-        timestamp: entry.timestamp.toISOString(),
-        createdAt: entry.createdAt.toISOString(),
-      })),
+      entries: pageRows.map(toHistoryEntry),
       total,
-      page,
+      page: cursor ? undefined : (page ?? 1),
       limit,
+      nextCursor: hasOlder && last
+        ? encodeCursor({ createdAt: last.createdAt, id: last.id, direction: 'next' })
+        : null,
+      prevCursor: hasNewer && first
+        ? encodeCursor({ createdAt: first.createdAt, id: first.id, direction: 'prev' })
+        : null,
     };
   }
 
   /**
-   * Get statistics about stored IPs
+   * Get one history entry by id (null if there is none or it was deleted)
+   */
+  async getEntry(id: string): Promise<IPHistoryEntry | null> {
+    const row = await prisma.reversedIP.findFirst({ where: { id, deletedAt: null }, select: historySelect });
+    return row ? toHistoryEntry(row) : null;
+  }
+
+  /**
+   * Set the notes and/or tags of a history entry. Returns the updated entry, or
+   * null if there is none with this id or it was deleted.
    */
-  async getStats(): Promise<{
-    totalEntries: number;
-    uniqueIPs: number;
-    todayEntries: number;
-    topRequestIPs: { ip: string; count: number }[];
-  }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  async updateEntry(id: string, changes: { notes?: string | null; tags?: string[] }): Promise<IPHistoryEntry | null> {
+    const { count } = await prisma.reversedIP.updateMany({ where: { id, deletedAt: null }, data: changes });
+    return count > 0 ? this.getEntry(id) : null;
+  }
+
+  /**
+   * Delete a history entry. By default the row is only marked deleted (and hidden
+   * everywhere from then on); `hard` removes it, also after a soft delete. Either
+   * way the entry is taken out of its IP summary and its day's rollup is redone.
+   * Returns null if there is no such entry (or, without `hard`, it was already deleted).
+   */
+  async deleteEntry(id: string, hard: boolean = false): Promise<{ deletedAt: Date } | null> {
+    const row = await prisma.reversedIP.findUnique({
+      where: { id },
+      select: { originalIP: true, createdAt: true, deletedAt: true },
+    });
+    if (!row || (row.deletedAt && !hard)) {
+      return null;
+    }
 
-    const [totalEntries, uniqueOriginalIPs, todayEntries, topRequestIPs] = await Promise.all([
-      prisma.reversedIP.count(),
+    const deletedAt = new Date();
+    const changed = await prisma.$transaction(async (tx) => {
+      // Only applies if the row is still as read above, so its hit is never removed twice
+      const where = { id, deletedAt: row.deletedAt };
+      const { count } = hard
+        ? await tx.reversedIP.deleteMany({ where })
+        : await tx.reversedIP.updateMany({ where, data: { deletedAt } });
+      // Soft-deleted rows already left their summary
+      if (count > 0 && !row.deletedAt) {
+        await summaryService.removeHits(tx, new Map([[row.originalIP, 1]]));
+        await summaryService.forgetFirstSeen(tx, row.originalIP, row.createdAt);
+      }
+      return count > 0;
+    });
+
+    if (!changed) {
+      // Deleted concurrently; look again
+      return this.deleteEntry(id, hard);
+    }
+
+    if (!row.deletedAt) {
+      await statsRollupService.refreshDay(row.createdAt);
+    }
+
+    return { deletedAt };
+  }
+
+  /**
+   * Get the summary of one original IP (as stored in history) with its most recent events
+   */
+  async getIPSummary(ip: string, limit: number = 10): Promise<(IPSummary & { recentEvents: IPHistoryEntry[] }) | null> {
+    const [summary, events] = await Promise.all([
+      prisma.reversedIPSummary.findUnique({ where: { ip } }),
       prisma.reversedIP.findMany({
-        select: { originalIP: true },
-        distinct: ['originalIP'],
-      }),
-      prisma.reversedIP.count({
-        where: {
-          createdAt: {
-            gte: today,
-          },
-        },
+        where: { originalIP: ip, deletedAt: null },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        select: historySelect,
       }),
+    ]);
+
+    if (!summary) {
+      return null;
+    }
+
+    return {
+      ip: summary.ip,
+      family: summary.family as IPFamily | null,
+      reversedForms: summary.reversedForms as IPSummary['reversedForms'],
+      hitCount: summary.hitCount,
+      requesterCount: summary.requesterCount,
+      firstSeenAt: summary.firstSeenAt.toISOString(),
+      lastSeenAt: summary.lastSeenAt.toISOString(),
+      recentEvents: events.map(toHistoryEntry),
+    };
+  }
+
+  /**
+   * Get statistics about stored IPs. Closed days come from the DailyStats rollups;
+   * only rows after the last rolled-up day are counted live. Rollups outlive the
+   * rows purged by retention, so totals include them; purgedRows says how many.
+   * "Today" starts at midnight in the `tz` time zone. With `ipClass`, only entries
+   * in those classes are counted (see classStats).
+   */
+  async getStats(tz: string = 'UTC', ipClass: IPClass[] | null = null): Promise<IPStats> {
+    if (ipClass) {
+      return this.classStats(tz, ipClass);
+    }
+
+    const rollups = await statsRollupService.getTotals();
+    const since = rollups.coveredUntil;
+    const liveWhere: Prisma.ReversedIPWhereInput = { deletedAt: null, ...(since ? { createdAt: { gte: since } } : {}) };
+
+    const [liveEntries, liveNewUniqueIPs, todayEntries, liveTopRequestIPs, liveClasses, liveGeo, purgedRows] = await Promise.all([
+      prisma.reversedIP.count({ where: liveWhere }),
+      // IPs are counted once, on the day they are first seen
+      prisma.firstSeenIP.count({ where: since ? { firstSeenAt: { gte: since } } : {} }),
+      this.countToday(tz, null),
       prisma.reversedIP.groupBy({
         by: ['requestIP'],
+        where: { ...liveWhere, requestIP: { notIn: ANONYMOUS_REQUEST_IPS } },
         _count: {
           requestIP: true,
         },
@@ -145,74 +679,347 @@ export class IPService {
             requestIP: 'desc',
           },
         },
+        take: DAILY_TOP_REQUEST_IPS,
+      }),
+      prisma.reversedIP.groupBy({
+        by: ['ipClass'],
+        where: liveWhere,
+        _count: { _all: true },
+      }),
+      this.countGeo(liveWhere, DAILY_TOP_REQUEST_IPS),
+      retentionService.getPurgedRows(),
+    ]);
+
+    const requestIPCounts = new Map(rollups.topRequestIPs);
+    for (const item of liveTopRequestIPs) {
+      requestIPCounts.set(item.requestIP, (requestIPCounts.get(item.requestIP) ?? 0) + item._count.requestIP);
+    }
+
+    const classCounts = new Map<string | null, number>(rollups.classEntries);
+    for (const item of liveClasses) {
+      classCounts.set(item.ipClass, (classCounts.get(item.ipClass) ?? 0) + item._count._all);
+    }
+
+    // Country counts are complete per day; ASNs are merged from the per-day top lists like request IPs
+    const countryCounts = new Map<string | null, number>(rollups.countryEntries);
+    for (const { country, count } of liveGeo.countries) {
+      countryCounts.set(country, (countryCounts.get(country) ?? 0) + count);
+    }
+    const asnCounts = new Map<number | null, { asOrg: string | null; count: number }>(rollups.topAsns);
+    for (const { asn, asOrg, count } of liveGeo.asns) {
+      const previous = asnCounts.get(asn);
+      asnCounts.set(asn, { asOrg: asOrg ?? previous?.asOrg ?? null, count: (previous?.count ?? 0) + count });
+    }
+
+    return {
+      ipClass: null,
+      totalEntries: rollups.totalEntries + liveEntries,
+      uniqueIPs: rollups.newUniqueIPs + liveNewUniqueIPs,
+      todayEntries,
+      tz,
+      topRequestIPs: [...requestIPCounts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([ip, count]) => ({ ip, count })),
+      byClass: toClassCounts(classCounts),
+      topCountries: [...countryCounts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, STATS_TOP_GEO)
+        .map(([country, count]) => ({ country, count })),
+      topAsns: [...asnCounts]
+        .sort((a, b) => b[1].count - a[1].count)
+        .slice(0, STATS_TOP_GEO)
+        .map(([asn, { asOrg, count }]) => ({ asn, asOrg, count })),
+      purgedRows,
+    };
+  }
+
+  /**
+   * Statistics of the entries in some special-purpose classes. Totals and unique IPs
+   * come from the daily rollups like in getStats; the rollups don't keep top lists per
+   * class, so top request IPs, countries and ASNs come from the history table and
+   * don't include purged rows.
+   */
+  private async classStats(tz: string, ipClass: IPClass[]): Promise<IPStats> {
+    const where: Prisma.ReversedIPWhereInput = { ipClass: { in: ipClass }, deletedAt: null };
+    const rollups = await statsRollupService.getTotals();
+    const since = rollups.coveredUntil;
+
+    const [liveClasses, liveNewUniqueIPs, todayEntries, topRequestIPs, geo, purgedRows] = await Promise.all([
+      prisma.reversedIP.groupBy({
+        by: ['ipClass'],
+        where: since ? { ...where, createdAt: { gte: since } } : where,
+        _count: { _all: true },
+      }),
+      prisma.firstSeenIP.count({ where: { ipClass: { in: ipClass }, ...(since ? { firstSeenAt: { gte: since } } : {}) } }),
+      this.countToday(tz, ipClass),
+      prisma.reversedIP.groupBy({
+        by: ['requestIP'],
+        where: { ...where, requestIP: { notIn: ANONYMOUS_REQUEST_IPS } },
+        _count: { requestIP: true },
+        orderBy: { _count: { requestIP: 'desc' } },
         take: 5,
       }),
+      this.countGeo(where, STATS_TOP_GEO),
+      retentionService.getPurgedRows(),
     ]);
 
+    const classCounts = new Map<string | null, number>(
+      [...rollups.classEntries].filter(([name]) => (ipClass as string[]).includes(name))
+    );
+    for (const item of liveClasses) {
+      classCounts.set(item.ipClass, (classCounts.get(item.ipClass) ?? 0) + item._count._all);
+    }
+    const byClass = toClassCounts(classCounts);
+
     return {
-      totalEntries,
-      uniqueIPs: uniqueOriginalIPs.length,
+      ipClass,
+      totalEntries: byClass.reduce((sum, item) => sum + item.count, 0),
+      uniqueIPs: [...rollups.classNewUniqueIPs]
+        .filter(([name]) => (ipClass as string[]).includes(name))
+        .reduce((sum, [, count]) => sum + count, liveNewUniqueIPs),
       todayEntries,
-      topRequestIPs: topRequestIPs.map((item) => ({
-        ip: item.requestIP!,
-        count: item._count!.requestIP,
-      })),
+      tz,
+      topRequestIPs: topRequestIPs.map((item) => ({ ip: item.requestIP, count: item._count.requestIP })),
+      byClass,
+      topCountries: geo.countries,
+      topAsns: geo.asns,
+      purgedRows,
     };
   }
 
   /**
-   * Search for IPs by original or reversed IP
+   * Entries since midnight in `tz`, optionally only those in some classes
    */
-  async searchIPs(query: string, limit: number = 10): Promise<IPHistoryEntry[]> {
-    const results = await prisma.reversedIP.findMany({
-      where: {
-        OR: [
-          {
-            originalIP: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-          {
-            reversedIP: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-          {
-            requestIP: {
-              contains: query,
-              mode: 'insensitive',
-            },
-          },
-        ],
-      },
-      take: limit,
-      orderBy: {
-        createdAt: 'desc',
-      },
-      select: {
-        id: true,
-        originalIP: true,
-        reversedIP: true,
-        requestIP: true,
-        userAgent: true,
-        timestamp: true,
-        createdAt: true,
-      },
+  private async countToday(tz: string, ipClass: IPClass[] | null): Promise<number> {
+    // createdAt is stored as UTC without a zone, so local midnight is converted to UTC
+    const [today] = await prisma.$queryRaw<{ count: number }[]>`
+      SELECT COUNT(*)::int AS "count"
+      FROM "public"."ReversedIP"
+      WHERE "createdAt" >= ((date_trunc('day', now() AT TIME ZONE ${tz}) AT TIME ZONE ${tz}) AT TIME ZONE 'UTC')
+        AND "deletedAt" IS NULL
+        ${ipClass ? Prisma.sql`AND "ipClass" = ANY(${ipClass})` : Prisma.empty}
+    `;
+    return today.count;
+  }
+
+  /**
+   * Most frequent countries and ASNs of the original IPs among the rows matching
+   * `where` (rows without a GeoIP match are left out)
+   */
+  private async countGeo(
+    where: Prisma.ReversedIPWhereInput,
+    take: number
+  ): Promise<{ countries: CountryCount[]; asns: AsnCount[] }> {
+    const [countries, asns] = await Promise.all([
+      this.countByCountry({ ...where, country: { not: null } }, take),
+      this.countByAsn({ ...where, asn: { not: null } }, take),
+    ]);
+    return { countries, asns };
+  }
+
+  private async countByCountry(where: Prisma.ReversedIPWhereInput, take: number): Promise<CountryCount[]> {
+    const groups = await prisma.reversedIP.groupBy({
+      by: ['country'],
+      where,
+      _count: { _all: true },
+      orderBy: { _count: { country: 'desc' } },
+      take,
     });
+    return groups.map((group) => ({ country: group.country, count: group._count._all }));
+  }
+
+  private async countByAsn(where: Prisma.ReversedIPWhereInput, take: number): Promise<AsnCount[]> {
+    // The organization name of an ASN can differ between database versions; the latest-sorting one is shown
+    const groups = await prisma.reversedIP.groupBy({
+      by: ['asn'],
+      where,
+      _count: { _all: true },
+      _max: { asOrg: true },
+      orderBy: { _count: { asn: 'desc' } },
+      take,
+    });
+    return groups.map((group) => ({ asn: group.asn, asOrg: group._max.asOrg, count: group._count._all }));
+  }
+
+  /**
+   * Number of entries matching the filters per special-purpose class, country or
+   * ASN of the original IP, most frequent first. Country and ASN groups include
+   * one for the entries without a GeoIP match (null).
+   */
+  async countGroups(filters: SearchFilters, groupBy: SearchGroupBy): Promise<IPClassCount[] | CountryCount[] | AsnCount[]> {
+    const where = searchWhere(filters);
+
+    switch (groupBy) {
+      case 'country':
+        return this.countByCountry(where, SEARCH_GROUPS_LIMIT);
+      case 'asn':
+        return this.countByAsn(where, SEARCH_GROUPS_LIMIT);
+      default: {
+        const groups = await prisma.reversedIP.groupBy({
+          by: ['ipClass'],
+          where,
+          _count: { _all: true },
+        });
+        return toClassCounts(new Map(groups.map((group) => [group.ipClass, group._count._all])));
+      }
+    }
+  }
+
+  /**
+   * Count reversals per hour, day or week between `from` (inclusive) and `to`
+   * (exclusive), split by IP family, with the number of distinct IPs per bucket.
+   * Buckets follow local time in `tz` and empty buckets are included.
+   * Whole UTC days are read from the DailyStats rollups when they line up with the buckets.
+   */
+  async getTimeSeries({
+    interval,
+    from,
+    to,
+    tz = 'UTC',
+  }: {
+    interval: StatsInterval;
+    from: Date;
+    to: Date;
+    tz?: string;
+  }): Promise<StatsTimeSeries> {
+    let buckets: TimeSeriesBucket[] | null = null;
+
+    if (interval === 'day' && UTC_TIME_ZONES.includes(tz)) {
+      const coveredUntil = await statsRollupService.coveredUntil();
+      const firstWholeDay = startOfUTCDay(new Date(from.getTime() + DAY_MS - 1));
+      const rolledEnd = coveredUntil && coveredUntil < startOfUTCDay(to) ? coveredUntil : startOfUTCDay(to);
+
+      if (coveredUntil && firstWholeDay < rolledEnd) {
+        const [head, days, tail] = await Promise.all([
+          from < firstWholeDay ? this.liveTimeSeries(interval, from, firstWholeDay, tz) : [],
+          statsRollupService.getDailyBuckets(firstWholeDay, rolledEnd),
+          rolledEnd < to ? this.liveTimeSeries(interval, rolledEnd, to, tz) : [],
+        ]);
+        buckets = [...head, ...days, ...tail];
+      }
+    }
+
+    return {
+      interval,
+      tz,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      buckets: buckets ?? await this.liveTimeSeries(interval, from, to, tz),
+    };
+  }
 
-    return results.map((entry) => ({
-      id: entry.id,
-      originalIP: entry.originalIP,
-      reversedIP: entry.reversedIP,
-      requestIP: entry.requestIP,
-      userAgent: entry.userAgent,
-      timestamp: entry.timestamp.toISOString(),
-      createdAt: entry.createdAt.toISOString(),
+  /**
+   * Time series buckets computed directly from the history table
+   */
+  private async liveTimeSeries(
+    interval: StatsInterval,
+    from: Date,
+    to: Date,
+    tz: string
+  ): Promise<TimeSeriesBucket[]> {
+    const rows = await prisma.$queryRaw<
+      { start: Date; total: number; ipv4: number; ipv6: number; uniqueIPs: number }[]
+    >`
+      WITH buckets AS (
+        SELECT generate_series(
+          date_trunc(${interval}, ${from}::timestamptz AT TIME ZONE ${tz}),
+          date_trunc(${interval}, (${to}::timestamptz - interval '1 millisecond') AT TIME ZONE ${tz}),
+          ${`1 ${interval}`}::interval
+        ) AS bucket
+      ),
+      entries AS (
+        SELECT
+          date_trunc(${interval}, ("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${tz}) AS bucket,
+          "family",
+          "originalIP"
+        FROM "public"."ReversedIP"
+        WHERE "createdAt" >= ${utcTimestamp(from)}
+          AND "createdAt" < ${utcTimestamp(to)}
+          AND "deletedAt" IS NULL
+      )
+      SELECT
+        b.bucket AT TIME ZONE ${tz} AS "start",
+        COUNT(e."originalIP")::int AS "total",
+        COUNT(e."originalIP") FILTER (WHERE e."family" = 'IPv4')::int AS "ipv4",
+        COUNT(e."originalIP") FILTER (WHERE e."family" = 'IPv6')::int AS "ipv6",
+        COUNT(DISTINCT e."originalIP")::int AS "uniqueIPs"
+      FROM buckets b
+      LEFT JOIN entries e ON e.bucket = b.bucket
+      GROUP BY b.bucket
+      ORDER BY b.bucket
+    `;
+
+    return rows.map((row) => ({
+      start: row.start.toISOString(),
+      total: row.total,
+      ipv4: row.ipv4,
+      ipv6: row.ipv6,
+      uniqueIPs: row.uniqueIPs,
     }));
   }
 
+  /**
+   * Search history by text, CIDR block, date range, family and user agent.
+   * Ordered and paginated exactly like getHistory.
+   */
+  async searchIPs(filters: SearchFilters, options: Omit<HistoryPageOptions, 'filters'> = {}): Promise<HistoryPage> {
+    return this.getHistory({ ...options, filters });
+  }
+
+  /**
+   * Stream matching history entries, newest first, in chunks of `chunkSize`.
+   * Uses keyset pagination so memory stays flat no matter how many rows match.
+   */
+  async *streamHistory(
+    filters: SearchFilters = {},
+    chunkSize: number = EXPORT_CHUNK_SIZE
+  ): AsyncGenerator<IPHistoryEntry[]> {
+    const where = searchWhere(filters);
+    let cursor: HistoryCursor | null = null;
+
+    while (true) {
+      const rows: HistoryRow[] = await prisma.reversedIP.findMany({
+        where: cursor ? { AND: [where, cursorWhere(cursor)] } : where,
+        take: chunkSize,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: historySelect,
+      });
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      yield rows.map(toHistoryEntry);
+
+      if (rows.length < chunkSize) {
+        return;
+      }
+
+      const last = rows[rows.length - 1];
+      cursor = { createdAt: last.createdAt, id: last.id, direction: 'next' };
+    }
+  }
+
+  /**
+   * Matching entries stored after a position in (createdAt, id) order, oldest first.
+   * Used to replay what a live feed client missed and to pick up other replicas' reversals.
+   */
+  async historyAfter(
+    after: { createdAt: Date; id: string },
+    filters: SearchFilters = {},
+    limit: number = 100
+  ): Promise<IPHistoryEntry[]> {
+    const rows = await prisma.reversedIP.findMany({
+      where: { AND: [searchWhere(filters), cursorWhere({ ...after, direction: 'prev' })] },
+      take: limit,
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: historySelect,
+    });
+
+    return rows.map(toHistoryEntry);
+  }
+
   /**
    * Health check - test database connection
    */
@@ -221,7 +1028,7 @@ export class IPService {
       await prisma.$queryRaw`SELECT 1`;
       return true;
     } catch (error) {
-      console.error('Database health check failed:', error);
+      logger.error('Database health check failed', { error });
       return false;
     }
   }
@@ -0,0 +1,270 @@
+import { ipService } from './IpService';
+import { logger } from './LoggerService';
+import { metricsService } from './MetricsService';
+import { IPAddress, cidrSearchRange, toSearchHex } from '../utils/IpUtils';
+import { encodeCursor } from '../utils/Pagination';
+import type { HistoryCursor } from '../utils/Pagination';
+import type { IPHistoryEntry, LiveFeedFilters } from '../types/index';
+
+// How often idle connections get a heartbeat, well below proxy read timeouts
+const LIVE_FEED_HEARTBEAT_MS: number = parseInt(process.env.LIVE_FEED_HEARTBEAT_MS || '15000');
+
+// How often the history table is checked for reversals stored by other replicas (0 disables it)
+const LIVE_FEED_POLL_MS: number = parseInt(process.env.LIVE_FEED_POLL_MS || '2000');
+
+// How far back each check looks, so rows committed late by another replica aren't missed
+const LIVE_FEED_POLL_LOOKBACK_MS: number = parseInt(process.env.LIVE_FEED_POLL_LOOKBACK_MS || '10000');
+
+// Most entries replayed to a client resuming with Last-Event-ID
+const LIVE_FEED_RESUME_LIMIT: number = parseInt(process.env.LIVE_FEED_RESUME_LIMIT || '1000');
+
+// Most open feed connections per replica
+const LIVE_FEED_MAX_CLIENTS: number = parseInt(process.env.LIVE_FEED_MAX_CLIENTS || '1000');
+
+// Rows read per query while polling
+const POLL_PAGE_SIZE = 500;
+const POLL_MAX_PAGES = 10;
+
+export type LiveFeedTransport = 'sse' | 'websocket';
+
+/**
+ * One connected feed client; SSE responses and WebSockets implement it
+ */
+export interface LiveFeedClient {
+  transport: LiveFeedTransport;
+  send(eventId: string, entry: IPHistoryEntry): void;
+  truncated(limit: number): void;
+  heartbeat(): void;
+  close(): void;
+}
+
+interface Subscriber {
+  client: LiveFeedClient;
+  filters: LiveFeedFilters;
+  range: { start: string; end: string } | null;
+  // Entries that arrived while the missed ones were being replayed; null once live
+  pending: IPHistoryEntry[] | null;
+}
+
+/**
+ * Event id of an entry: a history cursor pointing at it, so it works as Last-Event-ID
+ * and as `cursor` for GET /api/ip/history (newer entries)
+ */
+export function liveFeedEventId(entry: IPHistoryEntry): string {
+  return encodeCursor({ createdAt: new Date(entry.createdAt), id: entry.id, direction: 'prev' });
+}
+
+export class LiveFeedService {
+  private subscribers = new Set<Subscriber>();
+  // Ids delivered recently (id -> createdAt ms), so polled rows aren't sent twice
+  private seen = new Map<string, number>();
+  private highWater = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private unsubscribeStored: (() => void) | null = null;
+
+  isFull(): boolean {
+    return this.subscribers.size >= LIVE_FEED_MAX_CLIENTS;
+  }
+
+  /**
+   * Start delivering matching entries to a client. With `resumeFrom`, the entries stored
+   * after that position are replayed first (at most LIVE_FEED_RESUME_LIMIT); entries
+   * stored meanwhile are held back until the replay is done. Returns the function that
+   * removes the client again.
+   */
+  async open(client: LiveFeedClient, filters: LiveFeedFilters, resumeFrom: HistoryCursor | null): Promise<() => void> {
+    const range = filters.cidr ? cidrSearchRange(filters.cidr) : null;
+    const subscriber: Subscriber = { client, filters, range, pending: resumeFrom ? [] : null };
+
+    this.subscribers.add(subscriber);
+    metricsService.liveFeedClients.inc({ transport: client.transport });
+    this.ensureRunning();
+
+    const remove = (): void => {
+      if (this.subscribers.delete(subscriber)) {
+        metricsService.liveFeedClients.dec({ transport: client.transport });
+        this.stopIfIdle();
+      }
+    };
+
+    if (!resumeFrom) {
+      return remove;
+    }
+
+    try {
+      const missed = await ipService.historyAfter(resumeFrom, filters, LIVE_FEED_RESUME_LIMIT + 1);
+      const replayed = new Set<string>();
+
+      for (const entry of missed.slice(0, LIVE_FEED_RESUME_LIMIT)) {
+        replayed.add(entry.id);
+        client.send(liveFeedEventId(entry), entry);
+      }
+      if (missed.length > LIVE_FEED_RESUME_LIMIT) {
+        client.truncated(LIVE_FEED_RESUME_LIMIT);
+      }
+
+      for (const entry of subscriber.pending ?? []) {
+        if (!replayed.has(entry.id)) {
+          client.send(liveFeedEventId(entry), entry);
+        }
+      }
+      subscriber.pending = null;
+    } catch (error) {
+      remove();
+      throw error;
+    }
+
+    return remove;
+  }
+
+  /**
+   * Close every connection (on shutdown, so open streams don't hold the server open)
+   */
+  stop(): void {
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.client.close();
+    }
+    this.subscribers.clear();
+    metricsService.liveFeedClients.reset();
+    this.stopIfIdle();
+  }
+
+  private ensureRunning(): void {
+    if (!this.unsubscribeStored) {
+      this.highWater = Date.now();
+      this.unsubscribeStored = ipService.onStored((entries) => this.dispatch(entries));
+    }
+
+    if (!this.heartbeatTimer && LIVE_FEED_HEARTBEAT_MS > 0) {
+      this.heartbeatTimer = setInterval(() => this.heartbeat(), LIVE_FEED_HEARTBEAT_MS);
+      this.heartbeatTimer.unref();
+    }
+
+    if (!this.pollTimer && LIVE_FEED_POLL_MS > 0) {
+      this.pollTimer = setInterval(() => void this.poll(), LIVE_FEED_POLL_MS);
+      this.pollTimer.unref();
+    }
+  }
+
+  private stopIfIdle(): void {
+    if (this.subscribers.size > 0) {
+      return;
+    }
+
+    this.unsubscribeStored?.();
+    this.unsubscribeStored = null;
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.seen.clear();
+  }
+
+  /**
+   * Send new entries to every subscriber whose filters match, skipping entries already sent
+   */
+  private dispatch(entries: IPHistoryEntry[]): void {
+    for (const entry of entries) {
+      if (this.seen.has(entry.id)) {
+        continue;
+      }
+
+      const createdAt = new Date(entry.createdAt).getTime();
+      this.seen.set(entry.id, createdAt);
+      // A row timestamped ahead of this clock (another replica's skew) must not move the
+      // poll window past the rows stored meanwhile
+      this.highWater = Math.max(this.highWater, Math.min(createdAt, Date.now()));
+
+      const eventId = liveFeedEventId(entry);
+      for (const subscriber of this.subscribers) {
+        if (!this.matches(entry, subscriber)) {
+          continue;
+        }
+        if (subscriber.pending) {
+          subscriber.pending.push(entry);
+          continue;
+        }
+        try {
+          subscriber.client.send(eventId, entry);
+        } catch (error) {
+          logger.warn('Live feed delivery failed', { transport: subscriber.client.transport, error });
+        }
+      }
+    }
+
+    // Ids older than anything a poll can return again are no longer needed
+    const forgetBefore = this.highWater - 2 * LIVE_FEED_POLL_LOOKBACK_MS;
+    for (const [id, createdAt] of this.seen) {
+      if (createdAt < forgetBefore) {
+        this.seen.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Same conditions as the cidr and family search filters
+   */
+  private matches(entry: IPHistoryEntry, subscriber: Subscriber): boolean {
+    if (subscriber.filters.family && entry.family !== subscriber.filters.family) {
+      return false;
+    }
+
+    if (subscriber.range) {
+      // CIDR rows store the network as "address/prefix"
+      const address = IPAddress.tryParse(entry.originalIP.split('/')[0]);
+      const key = address ? toSearchHex(address) : null;
+      if (!key || key < subscriber.range.start || key > subscriber.range.end) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private heartbeat(): void {
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber.client.heartbeat();
+      } catch (error) {
+        logger.warn('Live feed heartbeat failed', { transport: subscriber.client.transport, error });
+      }
+    }
+  }
+
+  /**
+   * Pick up reversals stored by other replicas from the history table
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      let after = { createdAt: new Date(this.highWater - LIVE_FEED_POLL_LOOKBACK_MS), id: '' };
+
+      for (let page = 0; page < POLL_MAX_PAGES && this.subscribers.size > 0; page++) {
+        const entries = await ipService.historyAfter(after, {}, POLL_PAGE_SIZE);
+        this.dispatch(entries);
+
+        if (entries.length < POLL_PAGE_SIZE) {
+          break;
+        }
+        const last = entries[entries.length - 1];
+        after = { createdAt: new Date(last.createdAt), id: last.id };
+      }
+    } catch (error) {
+      logger.error('Live feed poll failed', { error });
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+export const liveFeedService = new LiveFeedService();
@@ -0,0 +1,100 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+const LOG_LEVEL: LogLevel = (LOG_LEVELS as readonly string[]).includes(process.env.LOG_LEVEL || '')
+  ? process.env.LOG_LEVEL as LogLevel
+  : process.env.NODE_ENV === 'development' ? 'debug' : 'info';
+
+// Headers whose values never appear in logs
+const SENSITIVE_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key']);
+
+// Context of the request being handled, attached to every log line written while handling it
+export interface LogContext {
+  requestId: string;
+}
+
+/**
+ * Copy of a header map with the values of sensitive headers replaced
+ */
+export function redactHeaders(headers: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SENSITIVE_HEADERS.has(name.toLowerCase()) ? '[REDACTED]' : value,
+    ])
+  );
+}
+
+/**
+ * JSON-friendly form of an error, keeping Prisma's error code and meta and the
+ * error it wraps (e.g. the Prisma error behind an AppError)
+ */
+function serializeError(error: Error & { code?: unknown; meta?: unknown }): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    code: error.code,
+    meta: error.meta,
+    stack: error.stack,
+    cause: error.cause instanceof Error ? serializeError(error.cause) : error.cause,
+  };
+}
+
+export class LoggerService {
+  private readonly context = new AsyncLocalStorage<LogContext>();
+
+  /**
+   * Run `fn` with a request context; log lines written from it (including
+   * from promises it starts) carry the context's requestId
+   */
+  runWithContext<T>(context: LogContext, fn: () => T): T {
+    return this.context.run(context, fn);
+  }
+
+  get requestId(): string | undefined {
+    return this.context.getStore()?.requestId;
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Write one JSON line to stdout (debug, info) or stderr (warn, error)
+   */
+  private write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(LOG_LEVEL)) {
+      return;
+    }
+
+    const line: Record<string, unknown> = {
+      level,
+      time: new Date().toISOString(),
+      message,
+      requestId: this.requestId,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      line[key] = value instanceof Error ? serializeError(value) : value;
+    }
+
+    const output = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+    output.write(`${JSON.stringify(line, (key, value) => typeof value === 'bigint' ? value.toString() : value)}\n`);
+  }
+}
+
+export const logger = new LoggerService();
@@ -0,0 +1,94 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { IPFamily } from '../types/index';
+
+export class MetricsService {
+  readonly registry: Registry = new Registry();
+
+  readonly httpRequestsTotal = new Counter({
+    name: 'http_requests_total',
+    help: 'Total number of HTTP requests',
+    labelNames: ['route', 'method', 'status'] as const,
+    registers: [this.registry],
+  });
+
+  readonly httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request latency in seconds',
+    labelNames: ['route', 'method', 'status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  readonly ipReversalsTotal = new Counter({
+    name: 'ip_reversals_total',
+    help: 'Total number of stored IP reversals by IP family',
+    labelNames: ['family'] as const,
+    registers: [this.registry],
+  });
+
+  readonly validationFailuresTotal = new Counter({
+    name: 'validation_failures_total',
+    help: 'Total number of requests rejected by validation, by APIError code',
+    labelNames: ['code'] as const,
+    registers: [this.registry],
+  });
+
+  readonly rateLimitRejectionsTotal = new Counter({
+    name: 'rate_limit_rejections_total',
+    help: 'Total number of requests rejected by a rate limiter',
+    labelNames: ['limiter'] as const,
+    registers: [this.registry],
+  });
+
+  readonly rateLimitStoreFallbacksTotal = new Counter({
+    name: 'rate_limit_store_fallbacks_total',
+    help: 'Total number of times the shared rate limit store failed and the in-memory store took over',
+    registers: [this.registry],
+  });
+
+  readonly liveFeedClients = new Gauge({
+    name: 'live_feed_clients',
+    help: 'Open live feed connections by transport',
+    labelNames: ['transport'] as const,
+    registers: [this.registry],
+  });
+
+  readonly webhookDeliveriesTotal = new Counter({
+    name: 'webhook_deliveries_total',
+    help: 'Total number of webhook delivery attempts by outcome (delivered, retrying, failed)',
+    labelNames: ['outcome'] as const,
+    registers: [this.registry],
+  });
+
+  readonly prismaQueryDuration = new Histogram({
+    name: 'prisma_query_duration_seconds',
+    help: 'Prisma query latency in seconds',
+    labelNames: ['model', 'operation', 'success'] as const,
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Record stored reversals for an IP family
+   */
+  recordReversal(family: IPFamily, count: number = 1): void {
+    this.ipReversalsTotal.inc({ family }, count);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+}
+
+export const metricsService = new MetricsService();
@@ -0,0 +1,136 @@
+import { createHmac } from 'crypto';
+import { IPAddress, normalizeIP, truncateIP } from '../utils/IpUtils';
+import { REQUEST_IP_PRIVACY_MODES, USER_AGENT_PRIVACY_MODES } from '../types/index';
+import type { PrivacyPolicy, RequestIPPrivacyMode, UserAgentPrivacyMode } from '../types/index';
+
+const REQUEST_IP_PRIVACY = (process.env.REQUEST_IP_PRIVACY || 'raw') as RequestIPPrivacyMode;
+const USER_AGENT_PRIVACY = (process.env.USER_AGENT_PRIVACY || 'raw') as UserAgentPrivacyMode;
+
+// Key of the request IP hash; rotating it makes earlier hashes unsearchable and unerasable
+const REQUEST_IP_HASH_SECRET: string = process.env.REQUEST_IP_HASH_SECRET || '';
+
+// Prefix lengths kept in 'truncate' mode
+const TRUNCATE_IPV4_PREFIX = 24;
+const TRUNCATE_IPV6_PREFIX = 48;
+
+// Stored instead of a request IP that was erased, expired or isn't kept at all
+export const REDACTED_REQUEST_IP = 'redacted';
+
+// Stored request IP values that don't identify any requester
+export const ANONYMOUS_REQUEST_IPS = ['unknown', REDACTED_REQUEST_IP];
+
+export class PrivacyService {
+  getPolicy(): PrivacyPolicy {
+    return { requestIP: REQUEST_IP_PRIVACY, userAgent: USER_AGENT_PRIVACY };
+  }
+
+  /**
+   * Problems with the privacy settings, checked at startup
+   */
+  configErrors(): string[] {
+    const errors: string[] = [];
+
+    if (!(REQUEST_IP_PRIVACY_MODES as readonly string[]).includes(REQUEST_IP_PRIVACY)) {
+      errors.push(`REQUEST_IP_PRIVACY must be one of: ${REQUEST_IP_PRIVACY_MODES.join(', ')}`);
+    }
+    if (!(USER_AGENT_PRIVACY_MODES as readonly string[]).includes(USER_AGENT_PRIVACY)) {
+      errors.push(`USER_AGENT_PRIVACY must be one of: ${USER_AGENT_PRIVACY_MODES.join(', ')}`);
+    }
+    if (REQUEST_IP_PRIVACY === 'hash' && !REQUEST_IP_HASH_SECRET) {
+      errors.push('REQUEST_IP_HASH_SECRET is required when REQUEST_IP_PRIVACY=hash');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Keyed hash of a request IP, or null if no secret is configured.
+   * Example: 203.0.113.7 -> 'hash:3f1c...' (32 hex digits)
+   */
+  hashRequestIP(ip: string): string | null {
+    if (!REQUEST_IP_HASH_SECRET) {
+      return null;
+    }
+    const digest = createHmac('sha256', REQUEST_IP_HASH_SECRET).update(normalizeIP(ip)).digest('hex');
+    return `hash:${digest.slice(0, 32)}`;
+  }
+
+  /**
+   * The value stored as requestIP for a client IP under the configured mode.
+   * 'unknown' (client IP not determined) is kept as is.
+   */
+  storedRequestIP(ip: string): string {
+    if (!IPAddress.tryParse(ip)) {
+      return ip;
+    }
+
+    switch (REQUEST_IP_PRIVACY) {
+      case 'truncate':
+        return truncateIP(ip, TRUNCATE_IPV4_PREFIX, TRUNCATE_IPV6_PREFIX);
+      case 'hash': {
+        const hash = this.hashRequestIP(ip);
+        if (!hash) {
+          throw new Error('REQUEST_IP_HASH_SECRET is required when REQUEST_IP_PRIVACY=hash');
+        }
+        return hash;
+      }
+      case 'none':
+        return REDACTED_REQUEST_IP;
+      default:
+        return normalizeIP(ip);
+    }
+  }
+
+  /**
+   * The value stored as userAgent under the configured mode
+   */
+  storedUserAgent(userAgent: string | null | undefined): string | null {
+    return USER_AGENT_PRIVACY === 'none' ? null : userAgent || null;
+  }
+
+  /**
+   * Stored requestIP values that identify exactly this requester: the address
+   * itself (rows stored in 'raw' mode) and its hash (rows stored in 'hash' mode).
+   * Truncated values are shared with other requesters, so they aren't included.
+   */
+  requesterForms(ip: string): string[] {
+    const hash = this.hashRequestIP(ip);
+    return hash ? [normalizeIP(ip), hash] : [normalizeIP(ip)];
+  }
+
+  /**
+   * Stored requestIP values a search for this address should match: its exact
+   * forms plus, in 'truncate' mode, the truncated network it is stored as
+   */
+  searchForms(ip: string): string[] {
+    const forms = this.requesterForms(ip);
+    if (REQUEST_IP_PRIVACY === 'truncate') {
+      forms.push(truncateIP(ip, TRUNCATE_IPV4_PREFIX, TRUNCATE_IPV6_PREFIX));
+    }
+    return forms;
+  }
+
+  /**
+   * Stored requestIP values a requester CIDR filter should match besides its
+   * address range: the forms of a single address, or in 'truncate' mode the
+   * truncated network of a block narrower than the truncation prefix
+   */
+  cidrSearchForms(cidr: string): string[] {
+    if (IPAddress.tryParse(cidr)) {
+      return this.searchForms(cidr);
+    }
+
+    const [network, prefix] = cidr.split('/');
+    const address = IPAddress.tryParse(network);
+    if (REQUEST_IP_PRIVACY !== 'truncate' || !address) {
+      return [];
+    }
+
+    const truncatePrefix = address.family === 'IPv4' ? TRUNCATE_IPV4_PREFIX : TRUNCATE_IPV6_PREFIX;
+    return parseInt(prefix, 10) > truncatePrefix
+      ? [truncateIP(network, TRUNCATE_IPV4_PREFIX, TRUNCATE_IPV6_PREFIX)]
+      : [];
+  }
+}
+
+export const privacyService = new PrivacyService();
@@ -0,0 +1,189 @@
+import { logger } from './LoggerService';
+import {
+  FallbackRateLimitStore,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+} from './RateLimitStore';
+import type { RateLimitResult, RateLimitStore } from './RateLimitStore';
+import { RATE_LIMIT_CLIENT_CLASSES, RATE_LIMIT_POLICY_NAMES } from '../types/index';
+import type {
+  RateLimitClientClass,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  RateLimitStoreKind,
+} from '../types/index';
+
+const RATE_LIMIT_STORE = (process.env.RATE_LIMIT_STORE || 'postgres') as RateLimitStoreKind;
+
+// How long the in-memory store stands in after the shared store fails
+const RATE_LIMIT_FALLBACK_RETRY_MS: number = parseInt(process.env.RATE_LIMIT_FALLBACK_RETRY_MS || '30000');
+
+// How often ended windows are deleted (0 disables the in-process job)
+const RATE_LIMIT_PRUNE_INTERVAL_MS: number = parseInt(process.env.RATE_LIMIT_PRUNE_INTERVAL_MS || String(5 * 60 * 1000));
+
+// Default per-minute request limit for API keys without their own rateLimit
+const API_KEY_DEFAULT_RATE_LIMIT: number = parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT || '600');
+
+const BATCH_RATE_LIMIT_POINTS: number = parseInt(process.env.BATCH_RATE_LIMIT_POINTS || '2000');
+const EXPORT_RATE_LIMIT_MAX: number = parseInt(process.env.EXPORT_RATE_LIMIT_MAX || '5');
+
+const everyone = (points: number): RateLimitPolicy['points'] => ({ anonymous: points, apiKey: points, admin: points });
+
+const DEFAULT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // Authenticated requests are limited per API key instead of per client IP
+  'api-key': {
+    windowMs: 60 * 1000, // 1 minute
+    points: { anonymous: null, apiKey: API_KEY_DEFAULT_RATE_LIMIT, admin: API_KEY_DEFAULT_RATE_LIMIT },
+  },
+  // Every IP route; API keys are covered by 'api-key' instead
+  general: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    points: { anonymous: 100, apiKey: null, admin: null },
+  },
+  // Routes that store a reversal
+  strict: {
+    windowMs: 5 * 60 * 1000, // 5 minutes
+    points: { anonymous: 20, apiKey: null, admin: null },
+  },
+  // Batch reversal costs one point per submitted IP
+  batch: {
+    windowMs: parseInt(process.env.BATCH_RATE_LIMIT_WINDOW_MS || String(5 * 60 * 1000)), // 5 minutes
+    points: everyone(BATCH_RATE_LIMIT_POINTS),
+  },
+  // Exports are long-running streams, so only a handful are allowed per window
+  export: {
+    windowMs: parseInt(process.env.EXPORT_RATE_LIMIT_WINDOW_MS || String(15 * 60 * 1000)), // 15 minutes
+    points: everyone(EXPORT_RATE_LIMIT_MAX),
+  },
+  // Key management, retention and webhook routes
+  admin: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    points: everyone(100),
+  },
+};
+
+const isPoints = (value: unknown): value is number | null => {
+  return value === null || (Number.isInteger(value) && (value as number) >= 0);
+};
+
+/**
+ * Apply RATE_LIMIT_POLICIES on top of the defaults. The variable holds JSON like
+ * {"general":{"windowMs":60000,"points":{"anonymous":30}}}; omitted fields keep their default.
+ */
+function loadPolicies(raw: string | undefined): { policies: Record<RateLimitPolicyName, RateLimitPolicy>; errors: string[] } {
+  const policies = Object.fromEntries(
+    RATE_LIMIT_POLICY_NAMES.map((name) => [
+      name,
+      { windowMs: DEFAULT_POLICIES[name].windowMs, points: { ...DEFAULT_POLICIES[name].points } },
+    ])
+  ) as Record<RateLimitPolicyName, RateLimitPolicy>;
+  const errors: string[] = [];
+
+  if (!raw || !raw.trim()) {
+    return { policies, errors };
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch {
+    return { policies, errors: ['RATE_LIMIT_POLICIES must be valid JSON'] };
+  }
+
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return { policies, errors: ['RATE_LIMIT_POLICIES must be a JSON object keyed by policy name'] };
+  }
+
+  for (const [name, override] of Object.entries(overrides as Record<string, any>)) {
+    if (!(RATE_LIMIT_POLICY_NAMES as readonly string[]).includes(name)) {
+      errors.push(`RATE_LIMIT_POLICIES: unknown policy '${name}' (policies: ${RATE_LIMIT_POLICY_NAMES.join(', ')})`);
+      continue;
+    }
+
+    const policy = policies[name as RateLimitPolicyName];
+
+    if (override?.windowMs !== undefined) {
+      if (Number.isInteger(override.windowMs) && override.windowMs > 0) {
+        policy.windowMs = override.windowMs;
+      } else {
+        errors.push(`RATE_LIMIT_POLICIES: ${name}.windowMs must be a positive integer`);
+      }
+    }
+
+    for (const [clientClass, points] of Object.entries(override?.points ?? {})) {
+      if (!(RATE_LIMIT_CLIENT_CLASSES as readonly string[]).includes(clientClass)) {
+        errors.push(`RATE_LIMIT_POLICIES: unknown client class '${name}.points.${clientClass}' (classes: ${RATE_LIMIT_CLIENT_CLASSES.join(', ')})`);
+      } else if (!isPoints(points)) {
+        errors.push(`RATE_LIMIT_POLICIES: ${name}.points.${clientClass} must be a non-negative integer or null`);
+      } else {
+        policy.points[clientClass as RateLimitClientClass] = points;
+      }
+    }
+  }
+
+  return { policies, errors };
+}
+
+const { policies: RATE_LIMIT_POLICIES, errors: policyErrors } = loadPolicies(process.env.RATE_LIMIT_POLICIES);
+
+export class RateLimitService {
+  private readonly store: RateLimitStore = RATE_LIMIT_STORE === 'memory'
+    ? new MemoryRateLimitStore()
+    : new FallbackRateLimitStore(new PostgresRateLimitStore(), new MemoryRateLimitStore(), RATE_LIMIT_FALLBACK_RETRY_MS);
+
+  private timer: NodeJS.Timeout | null = null;
+
+  getPolicy(name: RateLimitPolicyName): RateLimitPolicy {
+    const policy = RATE_LIMIT_POLICIES[name];
+    return { windowMs: policy.windowMs, points: { ...policy.points } };
+  }
+
+  /**
+   * Problems with the rate limit settings, checked at startup
+   */
+  configErrors(): string[] {
+    const errors = [...policyErrors];
+
+    if (RATE_LIMIT_STORE !== 'postgres' && RATE_LIMIT_STORE !== 'memory') {
+      errors.push('RATE_LIMIT_STORE must be one of: postgres, memory');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Spend `cost` points of a client's budget under a policy
+   */
+  consume(policy: RateLimitPolicyName, clientKey: string, cost: number, points: number): Promise<RateLimitResult> {
+    return this.store.consume(`${policy}:${clientKey}`, cost, points, RATE_LIMIT_POLICIES[policy].windowMs);
+  }
+
+  start(): void {
+    if (RATE_LIMIT_PRUNE_INTERVAL_MS <= 0 || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.prune(), RATE_LIMIT_PRUNE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    try {
+      const pruned = await this.store.prune();
+      if (pruned > 0) {
+        logger.debug('Pruned ended rate limit windows', { pruned });
+      }
+    } catch (error) {
+      logger.error('Rate limit window pruning failed', { error });
+    }
+  }
+}
+
+export const rateLimitService = new RateLimitService();
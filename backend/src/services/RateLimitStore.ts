@@ -0,0 +1,144 @@
+import { prisma } from './Database';
+import { logger } from './LoggerService';
+import { metricsService } from './MetricsService';
+import { utcTimestamp } from '../utils/DateUtils';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  used: number; // points spent in the window, including this request if it was allowed
+  resetAt: Date;
+}
+
+/**
+ * Fixed-window counters keyed by policy and client. `consume` spends `cost` points
+ * only if the window has room for all of them; rejected requests cost nothing.
+ */
+export interface RateLimitStore {
+  consume(key: string, cost: number, points: number, windowMs: number): Promise<RateLimitResult>;
+  // Drop windows that have ended
+  prune(): Promise<number>;
+}
+
+interface MemoryWindow {
+  used: number;
+  resetAt: number;
+}
+
+/**
+ * Per-process store; every replica keeps its own counts
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, MemoryWindow>();
+
+  async consume(key: string, cost: number, points: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { used: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+
+    const allowed = window.used + cost <= points;
+    if (allowed) {
+      window.used += cost;
+    }
+
+    return { allowed, used: window.used, resetAt: new Date(window.resetAt) };
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+/**
+ * Store shared by all replicas through the RateLimitBucket table. Each request is
+ * one INSERT ... ON CONFLICT statement, so concurrent requests never overspend.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async consume(key: string, cost: number, points: number, windowMs: number): Promise<RateLimitResult> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    const fits = cost <= points;
+
+    // Every SET expression sees the row as it was before the statement
+    const rows = await prisma.$queryRaw<RateLimitResult[]>`
+      INSERT INTO "public"."RateLimitBucket" AS b ("key", "used", "allowed", "resetAt")
+      VALUES (${key}, ${fits ? cost : 0}, ${fits}, ${utcTimestamp(resetAt)})
+      ON CONFLICT ("key") DO UPDATE SET
+        "used" = CASE
+          WHEN b."resetAt" <= ${utcTimestamp(now)} THEN EXCLUDED."used"
+          WHEN b."used" + ${cost} <= ${points} THEN b."used" + ${cost}
+          ELSE b."used"
+        END,
+        "allowed" = CASE
+          WHEN b."resetAt" <= ${utcTimestamp(now)} THEN EXCLUDED."allowed"
+          ELSE b."used" + ${cost} <= ${points}
+        END,
+        "resetAt" = CASE
+          WHEN b."resetAt" <= ${utcTimestamp(now)} THEN EXCLUDED."resetAt"
+          ELSE b."resetAt"
+        END
+      RETURNING "allowed", "used", "resetAt"
+    `;
+
+    return rows[0];
+  }
+
+  async prune(): Promise<number> {
+    return prisma.$executeRaw`
+      DELETE FROM "public"."RateLimitBucket" WHERE "resetAt" <= ${utcTimestamp(new Date())}
+    `;
+  }
+}
+
+/**
+ * Uses the primary store and falls back to a memory store while it fails, so an
+ * unreachable database degrades limits to per-replica instead of failing requests
+ */
+export class FallbackRateLimitStore implements RateLimitStore {
+  private failedUntil = 0;
+
+  constructor(
+    private readonly primary: RateLimitStore,
+    private readonly fallback: RateLimitStore,
+    private readonly retryMs: number,
+  ) {}
+
+  async consume(key: string, cost: number, points: number, windowMs: number): Promise<RateLimitResult> {
+    if (Date.now() >= this.failedUntil) {
+      try {
+        const result = await this.primary.consume(key, cost, points, windowMs);
+        if (this.failedUntil > 0) {
+          this.failedUntil = 0;
+          logger.info('Rate limit store recovered');
+        }
+        return result;
+      } catch (error) {
+        // Skip the primary for a while instead of paying a failed query on every request
+        this.failedUntil = Date.now() + this.retryMs;
+        metricsService.rateLimitStoreFallbacksTotal.inc();
+        logger.warn('Rate limit store failed, using the in-memory store', { error, retryMs: this.retryMs });
+      }
+    }
+
+    return this.fallback.consume(key, cost, points, windowMs);
+  }
+
+  async prune(): Promise<number> {
+    const [primary, fallback] = await Promise.all([
+      Date.now() >= this.failedUntil ? this.primary.prune() : Promise.resolve(0),
+      this.fallback.prune(),
+    ]);
+    return primary + fallback;
+  }
+}
@@ -0,0 +1,417 @@
+import { Prisma } from '@prisma/client';
+import type { RetentionRun } from '@prisma/client';
+import { prisma } from './Database';
+import { logger } from './LoggerService';
+import { statsRollupService } from './StatsRollupService';
+import type { PurgedRow } from './StatsRollupService';
+import { ANONYMOUS_REQUEST_IPS, REDACTED_REQUEST_IP, privacyService } from './PrivacyService';
+import { idempotencyService } from './IdempotencyService';
+import { summaryService } from './SummaryService';
+import { startOfUTCDay } from '../utils/DateUtils';
+import { integerSetting } from '../utils/EnvUtils';
+import type {
+  ErasureAction,
+  RetentionCounts,
+  RetentionPolicy,
+  RetentionRunInfo,
+  RetentionTrigger,
+} from '../types/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Advisory lock key taken while a replica checks for a running purge and records its own
+const RETENTION_LOCK_KEY = 0x52544e;
+
+// Problems with the RETENTION_* settings, reported by configErrors()
+const settingErrors: string[] = [];
+
+// A run still 'running' after this is taken to be from a replica that died mid-purge
+const RETENTION_RUN_STALE_MS: number = integerSetting(settingErrors, 'RETENTION_RUN_STALE_MS', 6 * 60 * 60 * 1000);
+
+/**
+ * A positive limit from the environment, or null when it is unset or 0 (rule disabled)
+ */
+function retentionLimit(name: string): number | null {
+  const limit = integerSetting(settingErrors, name, 0, { allowZero: true });
+  return limit > 0 ? limit : null;
+}
+
+const RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: retentionLimit('RETENTION_MAX_AGE_DAYS'),
+  maxRows: retentionLimit('RETENTION_MAX_ROWS'),
+  requestIPMaxAgeDays: retentionLimit('RETENTION_REQUEST_IP_MAX_AGE_DAYS'),
+  userAgentMaxAgeDays: retentionLimit('RETENTION_USER_AGENT_MAX_AGE_DAYS'),
+  // Rows deleted or scrubbed per statement, so a purge never holds long locks
+  batchSize: integerSetting(settingErrors, 'RETENTION_BATCH_SIZE', 1000),
+  // How often the purge runs (0 disables the in-process job)
+  intervalMs: integerSetting(settingErrors, 'RETENTION_INTERVAL_MS', 60 * 60 * 1000, { allowZero: true }),
+};
+
+/**
+ * Maps a database row to the public run shape
+ */
+function toRunInfo(run: RetentionRun): RetentionRunInfo {
+  return {
+    id: run.id,
+    trigger: run.trigger as RetentionTrigger,
+    status: run.status as RetentionRunInfo['status'],
+    deletedByAge: run.deletedByAge,
+    deletedByCount: run.deletedByCount,
+    scrubbedRequestIPs: run.scrubbedRequestIPs,
+    scrubbedUserAgents: run.scrubbedUserAgents,
+    error: run.error,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  getPolicy(): RetentionPolicy {
+    return { ...RETENTION_POLICY };
+  }
+
+  /**
+   * Problems with the retention settings, checked at startup
+   */
+  configErrors(): string[] {
+    return [...settingErrors];
+  }
+
+  /**
+   * Whether any retention rule is configured
+   */
+  isEnabled(): boolean {
+    const { maxAgeDays, maxRows, requestIPMaxAgeDays, userAgentMaxAgeDays } = RETENTION_POLICY;
+    return [maxAgeDays, maxRows, requestIPMaxAgeDays, userAgentMaxAgeDays].some((limit) => limit !== null);
+  }
+
+  /**
+   * Count what a purge would delete and scrub right now without changing anything.
+   * Each rule is counted on its own, so a row can show up under more than one of them.
+   */
+  async preview(now: Date = new Date()): Promise<RetentionCounts> {
+    const { maxAgeDays, maxRows, requestIPMaxAgeDays, userAgentMaxAgeDays } = RETENTION_POLICY;
+    const ageCutoff = maxAgeDays ? this.cutoff(now, maxAgeDays) : null;
+    // Rows that the age rule deletes anyway aren't counted as scrubbed
+    const kept: Prisma.ReversedIPWhereInput = ageCutoff ? { createdAt: { gte: ageCutoff } } : {};
+
+    const [deletedByAge, total, scrubbedRequestIPs, scrubbedUserAgents] = await Promise.all([
+      ageCutoff ? prisma.reversedIP.count({ where: { createdAt: { lt: ageCutoff } } }) : Promise.resolve(0),
+      maxRows ? prisma.reversedIP.count() : Promise.resolve(0),
+      requestIPMaxAgeDays
+        ? prisma.reversedIP.count({
+          where: { AND: [kept, this.requestIPWhere(this.cutoff(now, requestIPMaxAgeDays))] },
+        })
+        : Promise.resolve(0),
+      userAgentMaxAgeDays
+        ? prisma.reversedIP.count({
+          where: { AND: [kept, this.userAgentWhere(this.cutoff(now, userAgentMaxAgeDays))] },
+        })
+        : Promise.resolve(0),
+    ]);
+
+    return {
+      deletedByAge,
+      deletedByCount: maxRows ? Math.max(total - deletedByAge - maxRows, 0) : 0,
+      scrubbedRequestIPs,
+      scrubbedUserAgents,
+    };
+  }
+
+  /**
+   * Record the start of a purge. Returns null if one is already running, in this
+   * process or on another replica.
+   */
+  async beginRun(trigger: RetentionTrigger): Promise<RetentionRunInfo | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const run = await prisma.$transaction(async (tx) => {
+        // Every replica runs its own schedule; the lock makes checking and recording atomic across them
+        const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(${RETENTION_LOCK_KEY}::bigint) AS "locked"
+        `;
+        if (!locked) {
+          return null;
+        }
+
+        const active = await tx.retentionRun.findFirst({
+          where: { status: 'running', startedAt: { gt: new Date(Date.now() - RETENTION_RUN_STALE_MS) } },
+          select: { id: true },
+        });
+        return active ? null : tx.retentionRun.create({ data: { trigger } });
+      });
+
+      if (!run) {
+        this.running = false;
+        return null;
+      }
+      return toRunInfo(run);
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a purge started with beginRun(). Rows past the age limit are deleted,
+   * then the oldest rows over the row limit, then request IPs and user agents past
+   * their limits are scrubbed, all in batches. Progress is saved on the run after
+   * every rule. Never rejects: failures are logged and recorded on the run.
+   */
+  async executeRun(id: string, now: Date = new Date()): Promise<RetentionRunInfo | null> {
+    const { maxAgeDays, maxRows, requestIPMaxAgeDays, userAgentMaxAgeDays } = RETENTION_POLICY;
+    const counts: RetentionCounts = {
+      deletedByAge: 0,
+      deletedByCount: 0,
+      scrubbedRequestIPs: 0,
+      scrubbedUserAgents: 0,
+    };
+
+    try {
+      if (maxAgeDays) {
+        const cutoff = this.cutoff(now, maxAgeDays);
+        counts.deletedByAge = await this.deleteInBatches({ createdAt: { lt: cutoff } }, Infinity);
+        await prisma.retentionRun.update({ where: { id }, data: counts });
+      }
+
+      if (maxRows) {
+        const excess = (await prisma.reversedIP.count()) - maxRows;
+        if (excess > 0) {
+          counts.deletedByCount = await this.deleteInBatches({}, excess);
+          await prisma.retentionRun.update({ where: { id }, data: counts });
+        }
+      }
+
+      if (requestIPMaxAgeDays) {
+        const cutoff = this.cutoff(now, requestIPMaxAgeDays);
+        counts.scrubbedRequestIPs = await this.scrubInBatches(
+          this.requestIPWhere(cutoff),
+          { requestIP: REDACTED_REQUEST_IP, requestIPHex: null, requestCountry: null, requestAsn: null }
+        );
+        // Rolled-up and purged days before the cutoff day only hold scrubbed rows by now
+        const scrubbedDays = { where: { day: { lt: startOfUTCDay(cutoff) } }, data: { topRequestIPs: [] } };
+        await prisma.dailyStats.updateMany(scrubbedDays);
+        await prisma.purgedDailyStats.updateMany(scrubbedDays);
+        await prisma.retentionRun.update({ where: { id }, data: counts });
+      }
+
+      if (userAgentMaxAgeDays) {
+        const cutoff = this.cutoff(now, userAgentMaxAgeDays);
+        counts.scrubbedUserAgents = await this.scrubInBatches(this.userAgentWhere(cutoff), { userAgent: null });
+      }
+
+      return toRunInfo(await prisma.retentionRun.update({
+        where: { id },
+        data: { ...counts, status: 'completed', finishedAt: new Date() },
+      }));
+    } catch (error) {
+      logger.error('Retention purge failed', { error });
+      return prisma.retentionRun.update({
+        where: { id },
+        data: {
+          ...counts,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date(),
+        },
+      }).then(toRunInfo).catch(() => null);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Erase the data of one requester: every row whose request IP is this address
+   * (stored raw or hashed) is deleted, or redacted by replacing the request IP and
+   * clearing its GeoIP columns and the user agent. The address is also removed from the per-day top lists,
+   * and stored idempotent responses that name it are deleted, so replaying their key can't return it.
+   * Rows stored truncated are shared with other requesters and left alone.
+   * Returns the number of rows deleted or redacted.
+   */
+  async eraseRequester(ip: string, action: ErasureAction): Promise<number> {
+    const forms = privacyService.requesterForms(ip);
+    const where: Prisma.ReversedIPWhereInput = { requestIP: { in: forms } };
+
+    const rows = action === 'delete'
+      ? await this.deleteInBatches(where, Infinity)
+      : await this.scrubInBatches(where, {
+        requestIP: REDACTED_REQUEST_IP,
+        requestIPHex: null,
+        requestCountry: null,
+        requestAsn: null,
+        userAgent: null,
+      });
+
+    await prisma.$transaction(async (tx) => {
+      await statsRollupService.forgetRequestIPs(tx, forms);
+      await idempotencyService.forgetRequestIPs(tx, forms);
+    });
+
+    return rows;
+  }
+
+  /**
+   * Total history rows deleted by retention purges so far
+   */
+  async getPurgedRows(): Promise<number> {
+    const aggregate = await prisma.retentionRun.aggregate({
+      _sum: { deletedByAge: true, deletedByCount: true },
+    });
+    return (aggregate._sum.deletedByAge ?? 0) + (aggregate._sum.deletedByCount ?? 0);
+  }
+
+  /**
+   * Most recent purges, newest first
+   */
+  async listRuns(limit: number = 20): Promise<RetentionRunInfo[]> {
+    const runs = await prisma.retentionRun.findMany({ orderBy: { startedAt: 'desc' }, take: limit });
+    return runs.map(toRunInfo);
+  }
+
+  /**
+   * Run the purge now and then every RETENTION_INTERVAL_MS, if any rule is configured
+   */
+  start(): void {
+    if (RETENTION_POLICY.intervalMs <= 0 || !this.isEnabled() || this.timer) {
+      return;
+    }
+
+    void this.runScheduled();
+    this.timer = setInterval(() => void this.runScheduled(), RETENTION_POLICY.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    try {
+      // Skips the tick if a purge (scheduled or manual) is still going
+      const run = await this.beginRun('scheduled');
+      if (!run) {
+        return;
+      }
+
+      const result = await this.executeRun(run.id);
+      const deleted = (result?.deletedByAge ?? 0) + (result?.deletedByCount ?? 0);
+      const scrubbed = (result?.scrubbedRequestIPs ?? 0) + (result?.scrubbedUserAgents ?? 0);
+      if (deleted > 0 || scrubbed > 0) {
+        logger.info('Retention purge finished', { deletedRows: deleted, scrubbedFields: scrubbed });
+      }
+    } catch (error) {
+      logger.error('Retention purge failed', { error });
+    }
+  }
+
+  private cutoff(now: Date, days: number): Date {
+    return new Date(now.getTime() - days * DAY_MS);
+  }
+
+  private requestIPWhere(cutoff: Date): Prisma.ReversedIPWhereInput {
+    // Hashed and truncated request IPs are scrubbed too
+    return { createdAt: { lt: cutoff }, requestIP: { notIn: ANONYMOUS_REQUEST_IPS } };
+  }
+
+  private userAgentWhere(cutoff: Date): Prisma.ReversedIPWhereInput {
+    return { createdAt: { lt: cutoff }, userAgent: { not: null } };
+  }
+
+  /**
+   * Delete up to `limit` of the oldest rows matching `where`, one batch per
+   * transaction, take them out of the IP summaries and add them to the purged
+   * day counts. Both are worked out from the rows the delete returns, so rows a
+   * concurrent purge or erasure deleted first aren't counted twice.
+   */
+  private async deleteInBatches(where: Prisma.ReversedIPWhereInput, limit: number): Promise<number> {
+    let deleted = 0;
+
+    while (deleted < limit) {
+      const rows = await prisma.reversedIP.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: Math.min(RETENTION_POLICY.batchSize, limit - deleted),
+        select: { id: true },
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      deleted += await prisma.$transaction(async (tx) => {
+        const deletedRows = await tx.$queryRaw<(PurgedRow & { deletedAt: Date | null })[]>`
+          DELETE FROM "public"."ReversedIP"
+          WHERE "id" IN (${Prisma.join(rows.map((row) => row.id))})
+          RETURNING "originalIP", "family", "ipClass", "country", "asn", "asOrg", "requestIP", "createdAt", "deletedAt"
+        `;
+
+        // Soft-deleted rows already left their summaries and the stats
+        const purged = deletedRows.filter((item) => !item.deletedAt);
+        const removed = new Map<string, number>();
+        for (const row of purged) {
+          removed.set(row.originalIP, (removed.get(row.originalIP) ?? 0) + 1);
+        }
+        await summaryService.removeHits(tx, removed);
+        await statsRollupService.recordPurged(tx, purged);
+
+        return deletedRows.length;
+      });
+
+      if (rows.length < RETENTION_POLICY.batchSize) {
+        break;
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Apply `data` to every row matching `where`, one batch per statement. `where`
+   * must stop matching a row once it is scrubbed. When request IPs change, requesters
+   * no longer backed by any row are dropped from the IP summaries.
+   */
+  private async scrubInBatches(
+    where: Prisma.ReversedIPWhereInput,
+    data: Prisma.ReversedIPUpdateManyMutationInput
+  ): Promise<number> {
+    let scrubbed = 0;
+
+    for (;;) {
+      const rows = await prisma.reversedIP.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: RETENTION_POLICY.batchSize,
+        select: { id: true, originalIP: true },
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      const { count } = await prisma.$transaction(async (tx) => {
+        const result = await tx.reversedIP.updateMany({ where: { id: { in: rows.map((row) => row.id) } }, data });
+        if (data.requestIP !== undefined) {
+          await summaryService.pruneRequesters(tx, [...new Set(rows.map((row) => row.originalIP))]);
+        }
+        return result;
+      });
+      scrubbed += count;
+
+      if (rows.length < RETENTION_POLICY.batchSize) {
+        break;
+      }
+    }
+
+    return scrubbed;
+  }
+}
+
+export const retentionService = new RetentionService();
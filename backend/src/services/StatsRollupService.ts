@@ -0,0 +1,520 @@
+import { Prisma } from '@prisma/client';
+import type { PurgedDailyStats } from '@prisma/client';
+import { prisma } from './Database';
+import { logger } from './LoggerService';
+import { ANONYMOUS_REQUEST_IPS } from './PrivacyService';
+import { startOfUTCDay, utcTimestamp } from '../utils/DateUtils';
+import type { TimeSeriesBucket } from '../types/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often closed days are rolled up (0 disables the in-process job)
+const STATS_ROLLUP_INTERVAL_MS: number = parseInt(process.env.STATS_ROLLUP_INTERVAL_MS || String(60 * 60 * 1000));
+
+// Request IPs kept per day; all-time top lists are merged from these, so they are approximate
+export const DAILY_TOP_REQUEST_IPS: number = parseInt(process.env.STATS_ROLLUP_TOP_N || '20');
+
+// A history row deleted by retention or erasure, as counted in PurgedDailyStats
+export interface PurgedRow {
+  originalIP: string;
+  family: string | null;
+  ipClass: string | null;
+  country: string | null;
+  asn: number | null;
+  asOrg: string | null;
+  requestIP: string;
+  createdAt: Date;
+}
+
+// The counts of one day that rows add up to, in DailyStats and PurgedDailyStats alike
+type DayCounts = {
+  totalEntries: number;
+  uniqueIPs: number;
+  ipv4Entries: number;
+  ipv6Entries: number;
+  topRequestIPs: { ip: string; count: number }[];
+  classEntries: Record<string, number>;
+  countryEntries: Record<string, number>;
+  topAsns: { asn: number; asOrg: string | null; count: number }[];
+};
+
+/**
+ * The DAILY_TOP_REQUEST_IPS largest counts, most frequent first
+ */
+function topCounts<K, V extends { count: number }>(counts: Map<K, V>): [K, V][] {
+  return [...counts].sort((a, b) => b[1].count - a[1].count).slice(0, DAILY_TOP_REQUEST_IPS);
+}
+
+function addCounts(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+  const sum = { ...a };
+  for (const [key, count] of Object.entries(b)) {
+    sum[key] = (sum[key] ?? 0) + count;
+  }
+  return sum;
+}
+
+/**
+ * The counts of two sets of rows from the same day added up. Top lists are merged
+ * and cut back to DAILY_TOP_REQUEST_IPS; ASN names from `b` win.
+ */
+function addDayCounts(a: DayCounts, b: DayCounts): DayCounts {
+  const requestIPs = new Map<string, { count: number }>();
+  for (const { ip, count } of [...a.topRequestIPs, ...b.topRequestIPs]) {
+    requestIPs.set(ip, { count: (requestIPs.get(ip)?.count ?? 0) + count });
+  }
+  const asns = new Map<number, { asOrg: string | null; count: number }>();
+  for (const { asn, asOrg, count } of [...a.topAsns, ...b.topAsns]) {
+    const previous = asns.get(asn);
+    asns.set(asn, { asOrg: asOrg ?? previous?.asOrg ?? null, count: (previous?.count ?? 0) + count });
+  }
+
+  return {
+    totalEntries: a.totalEntries + b.totalEntries,
+    uniqueIPs: a.uniqueIPs + b.uniqueIPs,
+    ipv4Entries: a.ipv4Entries + b.ipv4Entries,
+    ipv6Entries: a.ipv6Entries + b.ipv6Entries,
+    topRequestIPs: topCounts(requestIPs).map(([ip, { count }]) => ({ ip, count })),
+    classEntries: addCounts(a.classEntries, b.classEntries),
+    countryEntries: addCounts(a.countryEntries, b.countryEntries),
+    topAsns: topCounts(asns).map(([asn, { asOrg, count }]) => ({ asn, asOrg, count })),
+  };
+}
+
+/**
+ * Counts of the rows purged from one day; `remaining` holds the original IPs that
+ * still have undeleted rows that day, which don't drop out of its unique IPs
+ */
+function countPurged(rows: PurgedRow[], remaining: Set<string>): DayCounts {
+  const requestIPs = new Map<string, { count: number }>();
+  const asns = new Map<number, { asOrg: string | null; count: number }>();
+  const classEntries: Record<string, number> = {};
+  const countryEntries: Record<string, number> = {};
+
+  for (const row of rows) {
+    if (!ANONYMOUS_REQUEST_IPS.includes(row.requestIP)) {
+      requestIPs.set(row.requestIP, { count: (requestIPs.get(row.requestIP)?.count ?? 0) + 1 });
+    }
+    if (row.asn !== null) {
+      const previous = asns.get(row.asn);
+      asns.set(row.asn, { asOrg: row.asOrg ?? previous?.asOrg ?? null, count: (previous?.count ?? 0) + 1 });
+    }
+    if (row.ipClass) {
+      classEntries[row.ipClass] = (classEntries[row.ipClass] ?? 0) + 1;
+    }
+    if (row.country) {
+      countryEntries[row.country] = (countryEntries[row.country] ?? 0) + 1;
+    }
+  }
+
+  return {
+    totalEntries: rows.length,
+    uniqueIPs: new Set(rows.map((row) => row.originalIP).filter((ip) => !remaining.has(ip))).size,
+    ipv4Entries: rows.filter((row) => row.family === 'IPv4').length,
+    ipv6Entries: rows.filter((row) => row.family === 'IPv6').length,
+    topRequestIPs: topCounts(requestIPs).map(([ip, { count }]) => ({ ip, count })),
+    classEntries,
+    countryEntries,
+    topAsns: topCounts(asns).map(([asn, { asOrg, count }]) => ({ asn, asOrg, count })),
+  };
+}
+
+function toDayCounts(row: PurgedDailyStats): DayCounts {
+  return {
+    totalEntries: row.totalEntries,
+    uniqueIPs: row.uniqueIPs,
+    ipv4Entries: row.ipv4Entries,
+    ipv6Entries: row.ipv6Entries,
+    topRequestIPs: row.topRequestIPs as DayCounts['topRequestIPs'],
+    classEntries: row.classEntries as DayCounts['classEntries'],
+    countryEntries: row.countryEntries as DayCounts['countryEntries'],
+    topAsns: row.topAsns as DayCounts['topAsns'],
+  };
+}
+
+function isoDay(day: Date): string {
+  return day.toISOString().substring(0, 10);
+}
+
+export interface RollupTotals {
+  // Exclusive end of the rolled-up days; rows from here on must be counted live
+  coveredUntil: Date | null;
+  totalEntries: number;
+  newUniqueIPs: number;
+  topRequestIPs: Map<string, number>;
+  // Entries and first seen original IPs per special-purpose class (unclassified rows aren't counted)
+  classEntries: Map<string, number>;
+  classNewUniqueIPs: Map<string, number>;
+  // Entries per country of the original IP, and per ASN merged from the per-day top lists
+  countryEntries: Map<string, number>;
+  topAsns: Map<number, { asOrg: string | null; count: number }>;
+}
+
+export class StatsRollupService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Aggregate one UTC day of history (without soft-deleted rows) plus the rows
+   * purged from it into DailyStats, replacing any existing row
+   */
+  async rollupDay(day: Date): Promise<void> {
+    const start = startOfUTCDay(day);
+    const end = new Date(start.getTime() + DAY_MS);
+
+    const [[counts], topRequestIPs, classes, newClasses, countries, topAsns, purged] = await Promise.all([
+      prisma.$queryRaw<
+        { totalEntries: number; uniqueIPs: number; newUniqueIPs: number; ipv4Entries: number; ipv6Entries: number }[]
+      >`
+        SELECT
+          COUNT(*)::int AS "totalEntries",
+          COUNT(DISTINCT r."originalIP")::int AS "uniqueIPs",
+          (
+            SELECT COUNT(*) FROM "public"."FirstSeenIP" f
+            WHERE f."firstSeenAt" >= ${utcTimestamp(start)} AND f."firstSeenAt" < ${utcTimestamp(end)}
+          )::int AS "newUniqueIPs",
+          COUNT(*) FILTER (WHERE r."family" = 'IPv4')::int AS "ipv4Entries",
+          COUNT(*) FILTER (WHERE r."family" = 'IPv6')::int AS "ipv6Entries"
+        FROM "public"."ReversedIP" r
+        WHERE r."createdAt" >= ${utcTimestamp(start)} AND r."createdAt" < ${utcTimestamp(end)}
+          AND r."deletedAt" IS NULL
+      `,
+      prisma.reversedIP.groupBy({
+        by: ['requestIP'],
+        where: { createdAt: { gte: start, lt: end }, deletedAt: null, requestIP: { notIn: ANONYMOUS_REQUEST_IPS } },
+        _count: { requestIP: true },
+        orderBy: { _count: { requestIP: 'desc' } },
+        take: DAILY_TOP_REQUEST_IPS,
+      }),
+      prisma.reversedIP.groupBy({
+        by: ['ipClass'],
+        where: { createdAt: { gte: start, lt: end }, deletedAt: null, ipClass: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.firstSeenIP.groupBy({
+        by: ['ipClass'],
+        where: { firstSeenAt: { gte: start, lt: end }, ipClass: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.reversedIP.groupBy({
+        by: ['country'],
+        where: { createdAt: { gte: start, lt: end }, deletedAt: null, country: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.reversedIP.groupBy({
+        by: ['asn'],
+        where: { createdAt: { gte: start, lt: end }, deletedAt: null, asn: { not: null } },
+        _count: { _all: true },
+        _max: { asOrg: true },
+        orderBy: { _count: { asn: 'desc' } },
+        take: DAILY_TOP_REQUEST_IPS,
+      }),
+      prisma.purgedDailyStats.findUnique({ where: { day: start } }),
+    ]);
+
+    const { newUniqueIPs, ...liveCounts } = counts;
+    const live: DayCounts = {
+      ...liveCounts,
+      topRequestIPs: topRequestIPs.map((item) => ({ ip: item.requestIP, count: item._count.requestIP })),
+      classEntries: Object.fromEntries(classes.map((item) => [item.ipClass, item._count._all])),
+      countryEntries: Object.fromEntries(countries.map((item) => [item.country, item._count._all])),
+      topAsns: topAsns.map((item) => ({ asn: item.asn!, asOrg: item._max.asOrg, count: item._count._all })),
+    };
+
+    const data = {
+      ...(purged ? addDayCounts(toDayCounts(purged), live) : live),
+      newUniqueIPs,
+      classNewUniqueIPs: Object.fromEntries(newClasses.map((item) => [item.ipClass, item._count._all])),
+    };
+
+    await prisma.dailyStats.upsert({
+      where: { day: start },
+      create: { day: start, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Roll up every closed day after the last rolled-up one (or from the first day
+   * with data, purged rows included). Rollups therefore always cover a contiguous
+   * run of days. Returns the number of days written.
+   */
+  async rollupClosedDays(): Promise<number> {
+    const today = startOfUTCDay();
+    const last = await prisma.dailyStats.findFirst({ orderBy: { day: 'desc' }, select: { day: true } });
+
+    let day: Date;
+    if (last) {
+      day = new Date(last.day.getTime() + DAY_MS);
+    } else {
+      const [first, firstPurged] = await Promise.all([
+        prisma.reversedIP.findFirst({ orderBy: { createdAt: 'asc' }, select: { createdAt: true } }),
+        prisma.purgedDailyStats.findFirst({ orderBy: { day: 'asc' }, select: { day: true } }),
+      ]);
+      const starts = [first && startOfUTCDay(first.createdAt), firstPurged?.day].filter((start): start is Date => !!start);
+      if (starts.length === 0) {
+        return 0;
+      }
+      day = new Date(Math.min(...starts.map((start) => start.getTime())));
+    }
+
+    let written = 0;
+    for (; day < today; day = new Date(day.getTime() + DAY_MS)) {
+      await this.rollupDay(day);
+      written++;
+    }
+
+    return written;
+  }
+
+  /**
+   * Drop rollups from the day containing `date` onwards, e.g. after rows were
+   * inserted into closed days. The next run recomputes them, purged rows included.
+   */
+  async invalidateFrom(date: Date): Promise<void> {
+    await prisma.dailyStats.deleteMany({ where: { day: { gte: startOfUTCDay(date) } } });
+  }
+
+  /**
+   * Roll up the day containing `date` again if it is already rolled up, e.g. after
+   * one of its rows was deleted. Later days keep their newUniqueIPs, so an IP whose
+   * first row was deleted isn't counted as new on a later day until a backfill.
+   */
+  async refreshDay(date: Date): Promise<void> {
+    const coveredUntil = await this.coveredUntil();
+    if (coveredUntil && date < coveredUntil) {
+      await this.rollupDay(date);
+    }
+  }
+
+  /**
+   * Remove the given request IPs from the per-day top lists of the rollups and of
+   * the purged rows, e.g. after a requester's data was erased. The day totals are
+   * left as they are.
+   */
+  async forgetRequestIPs(db: Pick<Prisma.TransactionClient, '$executeRaw'>, requestIPs: string[]): Promise<void> {
+    if (requestIPs.length === 0) {
+      return;
+    }
+
+    for (const table of ['DailyStats', 'PurgedDailyStats']) {
+      await db.$executeRaw`
+        UPDATE ${Prisma.raw(`"public"."${table}"`)}
+        SET "topRequestIPs" = COALESCE((
+          SELECT jsonb_agg(t.item ORDER BY t.position)
+          FROM jsonb_array_elements("topRequestIPs") WITH ORDINALITY AS t(item, position)
+          WHERE NOT (t.item->>'ip' = ANY(${requestIPs}))
+        ), '[]'::jsonb)
+        WHERE EXISTS (
+          SELECT 1 FROM jsonb_array_elements("topRequestIPs") AS e(item)
+          WHERE e.item->>'ip' = ANY(${requestIPs})
+        )
+      `;
+    }
+  }
+
+  /**
+   * Add history rows deleted by retention or erasure to PurgedDailyStats, so their
+   * days keep counting them whenever they are rolled up again. Soft-deleted rows
+   * are already out of the stats and must be left out. Call it inside the
+   * transaction that deletes the rows, after the delete.
+   */
+  async recordPurged(tx: Pick<Prisma.TransactionClient, '$queryRaw' | '$executeRaw'>, rows: PurgedRow[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const byDay = new Map<number, PurgedRow[]>();
+    for (const row of rows) {
+      const day = startOfUTCDay(row.createdAt).getTime();
+      byDay.set(day, [...(byDay.get(day) ?? []), row]);
+    }
+    const days = [...byDay.keys()].sort((a, b) => a - b).map((day) => new Date(day));
+    const from = days[0];
+    const to = new Date(days[days.length - 1].getTime() + DAY_MS);
+
+    // An original IP only drops out of a day's unique IPs once none of its rows that day is left
+    const left = await tx.$queryRaw<{ day: Date; originalIP: string }[]>`
+      SELECT DISTINCT date_trunc('day', "createdAt") AS "day", "originalIP"
+      FROM "public"."ReversedIP"
+      WHERE "originalIP" IN (${Prisma.join([...new Set(rows.map((row) => row.originalIP))])})
+        AND "createdAt" >= ${utcTimestamp(from)} AND "createdAt" < ${utcTimestamp(to)}
+        AND "deletedAt" IS NULL
+    `;
+
+    // Day rows are created and locked in order, so a purge and a concurrent erasure can't deadlock
+    await tx.$executeRaw`
+      INSERT INTO "public"."PurgedDailyStats" ("day")
+      VALUES ${Prisma.join(days.map((day) => Prisma.sql`(${isoDay(day)}::date)`))}
+      ON CONFLICT ("day") DO NOTHING
+    `;
+    const existing = await tx.$queryRaw<PurgedDailyStats[]>`
+      SELECT * FROM "public"."PurgedDailyStats"
+      WHERE "day" IN (${Prisma.join(days.map((day) => Prisma.sql`${isoDay(day)}::date`))})
+      ORDER BY "day"
+      FOR UPDATE
+    `;
+
+    for (const row of existing) {
+      const remaining = new Set(
+        left.filter((item) => item.day.getTime() === row.day.getTime()).map((item) => item.originalIP)
+      );
+      const counts = addDayCounts(toDayCounts(row), countPurged(byDay.get(row.day.getTime()) ?? [], remaining));
+      await tx.$executeRaw`
+        UPDATE "public"."PurgedDailyStats"
+        SET
+          "totalEntries" = ${counts.totalEntries},
+          "uniqueIPs" = ${counts.uniqueIPs},
+          "ipv4Entries" = ${counts.ipv4Entries},
+          "ipv6Entries" = ${counts.ipv6Entries},
+          "topRequestIPs" = ${JSON.stringify(counts.topRequestIPs)}::jsonb,
+          "classEntries" = ${JSON.stringify(counts.classEntries)}::jsonb,
+          "countryEntries" = ${JSON.stringify(counts.countryEntries)}::jsonb,
+          "topAsns" = ${JSON.stringify(counts.topAsns)}::jsonb,
+          "updatedAt" = ${utcTimestamp(new Date())}
+        WHERE "day" = ${isoDay(row.day)}::date
+      `;
+    }
+  }
+
+  /**
+   * Recompute rollups from `from` (default: all of them) up to yesterday, from the
+   * rows that are left plus the rows purged from each day
+   */
+  async backfill(from?: Date): Promise<number> {
+    await this.invalidateFrom(from ?? new Date(0));
+    return this.rollupClosedDays();
+  }
+
+  /**
+   * Exclusive end of the rolled-up days, or null if nothing is rolled up yet
+   */
+  async coveredUntil(): Promise<Date | null> {
+    const last = await prisma.dailyStats.findFirst({ orderBy: { day: 'desc' }, select: { day: true } });
+    return last ? new Date(last.day.getTime() + DAY_MS) : null;
+  }
+
+  /**
+   * All-time totals of the rolled-up days, plus the rows purged from days that
+   * aren't rolled up yet (the live query after coveredUntil can't see those)
+   */
+  async getTotals(): Promise<RollupTotals> {
+    const [aggregate, rolledUp, purged] = await Promise.all([
+      prisma.dailyStats.aggregate({
+        _sum: { totalEntries: true, newUniqueIPs: true },
+        _max: { day: true },
+      }),
+      prisma.dailyStats.findMany({
+        select: { topRequestIPs: true, classEntries: true, classNewUniqueIPs: true, countryEntries: true, topAsns: true },
+        orderBy: { day: 'asc' },
+      }),
+      prisma.purgedDailyStats.findMany({ orderBy: { day: 'asc' } }),
+    ]);
+
+    const coveredUntil = aggregate._max.day ? new Date(aggregate._max.day.getTime() + DAY_MS) : null;
+    const purgedLater = purged.filter((row) => !coveredUntil || row.day >= coveredUntil);
+    const days = [...rolledUp, ...purgedLater.map((row) => ({ ...row, classNewUniqueIPs: {} }))];
+
+    const topRequestIPs = new Map<string, number>();
+    const classEntries = new Map<string, number>();
+    const classNewUniqueIPs = new Map<string, number>();
+    const countryEntries = new Map<string, number>();
+    const topAsns = new Map<number, { asOrg: string | null; count: number }>();
+    for (const day of days) {
+      for (const { ip, count } of day.topRequestIPs as { ip: string; count: number }[]) {
+        topRequestIPs.set(ip, (topRequestIPs.get(ip) ?? 0) + count);
+      }
+      for (const [ipClass, count] of Object.entries(day.classEntries as Record<string, number>)) {
+        classEntries.set(ipClass, (classEntries.get(ipClass) ?? 0) + count);
+      }
+      for (const [ipClass, count] of Object.entries(day.classNewUniqueIPs as Record<string, number>)) {
+        classNewUniqueIPs.set(ipClass, (classNewUniqueIPs.get(ipClass) ?? 0) + count);
+      }
+      for (const [country, count] of Object.entries(day.countryEntries as Record<string, number>)) {
+        countryEntries.set(country, (countryEntries.get(country) ?? 0) + count);
+      }
+      // Days are read oldest first, so the latest organization name wins
+      for (const { asn, asOrg, count } of day.topAsns as { asn: number; asOrg: string | null; count: number }[]) {
+        const previous = topAsns.get(asn);
+        topAsns.set(asn, { asOrg: asOrg ?? previous?.asOrg ?? null, count: (previous?.count ?? 0) + count });
+      }
+    }
+
+    return {
+      coveredUntil,
+      totalEntries: purgedLater.reduce((sum, row) => sum + row.totalEntries, aggregate._sum.totalEntries ?? 0),
+      newUniqueIPs: aggregate._sum.newUniqueIPs ?? 0,
+      topRequestIPs,
+      classEntries,
+      classNewUniqueIPs,
+      countryEntries,
+      topAsns,
+    };
+  }
+
+  /**
+   * Daily time series buckets for the UTC days in [from, to), both day-aligned.
+   * Days without a rollup row had no history and are returned as zeros.
+   */
+  async getDailyBuckets(from: Date, to: Date): Promise<TimeSeriesBucket[]> {
+    const rows = await prisma.dailyStats.findMany({
+      where: { day: { gte: from, lt: to } },
+      orderBy: { day: 'asc' },
+    });
+    const byDay = new Map(rows.map((row) => [row.day.getTime(), row]));
+
+    const buckets: TimeSeriesBucket[] = [];
+    for (let day = from.getTime(); day < to.getTime(); day += DAY_MS) {
+      const row = byDay.get(day);
+      buckets.push({
+        start: new Date(day).toISOString(),
+        total: row?.totalEntries ?? 0,
+        ipv4: row?.ipv4Entries ?? 0,
+        ipv6: row?.ipv6Entries ?? 0,
+        uniqueIPs: row?.uniqueIPs ?? 0,
+      });
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Run the rollup now and then every STATS_ROLLUP_INTERVAL_MS
+   */
+  start(): void {
+    if (STATS_ROLLUP_INTERVAL_MS <= 0 || this.timer) {
+      return;
+    }
+
+    void this.runScheduled();
+    this.timer = setInterval(() => void this.runScheduled(), STATS_ROLLUP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    // Skip a tick if the previous run (e.g. a long first backfill) is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const written = await this.rollupClosedDays();
+      if (written > 0) {
+        logger.info('Rolled up daily stats', { days: written });
+      }
+    } catch (error) {
+      logger.error('Stats rollup failed', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const statsRollupService = new StatsRollupService();
@@ -0,0 +1,213 @@
+import { Prisma } from '@prisma/client';
+import { ANONYMOUS_REQUEST_IPS } from './PrivacyService';
+import { utcTimestamp } from '../utils/DateUtils';
+
+// One stored reversal, as seen by the summary table
+export interface SummaryHit {
+  ip: string; // originalIP as stored in history
+  family: string | null;
+  ipClass: string | null;
+  format: string;
+  reversedIP: string;
+  requestIP: string;
+  seenAt: Date;
+}
+
+// Anything that can run raw queries: the client itself or an interactive transaction
+type RawClient = Pick<Prisma.TransactionClient, '$executeRaw'>;
+
+/**
+ * Map entries ordered by key
+ */
+function sortedByKey<T>(map: Map<string, T>): [string, T][] {
+  return [...map].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+export class SummaryService {
+  /**
+   * Fold a set of stored reversals into ReversedIPSummary, ReversedIPRequester and FirstSeenIP.
+   * Every update is a single INSERT ... ON CONFLICT statement, so concurrent writers
+   * never lose hits; call it inside the transaction that inserts the history rows.
+   * Rows are written in key order, so two writers with overlapping IPs lock them in
+   * the same order and can't deadlock.
+   */
+  async recordHits(db: RawClient, hits: SummaryHit[]): Promise<void> {
+    if (hits.length === 0) {
+      return;
+    }
+
+    const summaries = new Map<string, {
+      family: string | null;
+      ipClass: string | null;
+      forms: Record<string, string>;
+      hitCount: number;
+      first: Date;
+      last: Date;
+    }>();
+    const requesters = new Map<string, { ip: string; requestIP: string; first: Date }>();
+
+    for (const hit of hits) {
+      const summary = summaries.get(hit.ip);
+      if (summary) {
+        summary.forms[hit.format] = hit.reversedIP;
+        summary.hitCount++;
+        summary.first = hit.seenAt < summary.first ? hit.seenAt : summary.first;
+        summary.last = hit.seenAt > summary.last ? hit.seenAt : summary.last;
+      } else {
+        summaries.set(hit.ip, {
+          family: hit.family,
+          ipClass: hit.ipClass,
+          forms: { [hit.format]: hit.reversedIP },
+          hitCount: 1,
+          first: hit.seenAt,
+          last: hit.seenAt,
+        });
+      }
+
+      // 'unknown' and 'redacted' don't identify anyone, so they aren't requesters
+      if (!ANONYMOUS_REQUEST_IPS.includes(hit.requestIP)) {
+        const key = `${hit.ip} ${hit.requestIP}`;
+        const requester = requesters.get(key);
+        if (!requester || hit.seenAt < requester.first) {
+          requesters.set(key, { ip: hit.ip, requestIP: hit.requestIP, first: hit.seenAt });
+        }
+      }
+    }
+
+    const summaryRows = sortedByKey(summaries);
+
+    await db.$executeRaw`
+      INSERT INTO "public"."ReversedIPSummary"
+        ("ip", "family", "reversedForms", "hitCount", "requesterCount", "firstSeenAt", "lastSeenAt")
+      VALUES ${Prisma.join(
+        summaryRows.map(([ip, summary]) => Prisma.sql`(
+          ${ip}, ${summary.family}, ${JSON.stringify(summary.forms)}::jsonb, ${summary.hitCount}, 0,
+          ${utcTimestamp(summary.first)}, ${utcTimestamp(summary.last)}
+        )`)
+      )}
+      ON CONFLICT ("ip") DO UPDATE SET
+        "family" = COALESCE("ReversedIPSummary"."family", EXCLUDED."family"),
+        "reversedForms" = "ReversedIPSummary"."reversedForms" || EXCLUDED."reversedForms",
+        "hitCount" = "ReversedIPSummary"."hitCount" + EXCLUDED."hitCount",
+        "firstSeenAt" = LEAST("ReversedIPSummary"."firstSeenAt", EXCLUDED."firstSeenAt"),
+        "lastSeenAt" = GREATEST("ReversedIPSummary"."lastSeenAt", EXCLUDED."lastSeenAt")
+    `;
+
+    await db.$executeRaw`
+      INSERT INTO "public"."FirstSeenIP" ("ip", "ipClass", "firstSeenAt")
+      VALUES ${Prisma.join(
+        summaryRows.map(([ip, summary]) => Prisma.sql`(${ip}, ${summary.ipClass}, ${utcTimestamp(summary.first)})`)
+      )}
+      ON CONFLICT ("ip") DO UPDATE SET
+        "firstSeenAt" = LEAST("FirstSeenIP"."firstSeenAt", EXCLUDED."firstSeenAt")
+    `;
+
+    if (requesters.size === 0) {
+      return;
+    }
+
+    // Only pairs that weren't known yet are inserted, and only those bump requesterCount
+    await db.$executeRaw`
+      WITH inserted AS (
+        INSERT INTO "public"."ReversedIPRequester" ("ip", "requestIP", "firstSeenAt")
+        VALUES ${Prisma.join(
+          sortedByKey(requesters).map(([, requester]) => Prisma.sql`(
+            ${requester.ip}, ${requester.requestIP}, ${utcTimestamp(requester.first)}
+          )`)
+        )}
+        ON CONFLICT ("ip", "requestIP") DO NOTHING
+        RETURNING "ip"
+      )
+      UPDATE "public"."ReversedIPSummary" s
+      SET "requesterCount" = s."requesterCount" + n."count"
+      FROM (SELECT "ip", COUNT(*)::int AS "count" FROM inserted GROUP BY "ip") n
+      WHERE s."ip" = n."ip"
+    `;
+  }
+
+  /**
+   * Take deleted history rows out of their summaries: `removed` maps each original
+   * IP to the number of its rows that were deleted (or soft-deleted; those count as
+   * gone here). Summaries without any history left are dropped; the others get
+   * their hit count, first seen time and requesters recomputed. Call it inside the
+   * transaction that deletes the rows.
+   */
+  async removeHits(db: RawClient, removed: Map<string, number>): Promise<void> {
+    if (removed.size === 0) {
+      return;
+    }
+
+    const ips = [...removed.keys()];
+    await this.pruneRequesters(db, ips);
+
+    await db.$executeRaw`
+      UPDATE "public"."ReversedIPSummary" s
+      SET
+        "hitCount" = GREATEST(s."hitCount" - d."count", 0),
+        "firstSeenAt" = COALESCE(
+          (SELECT MIN(r."createdAt") FROM "public"."ReversedIP" r WHERE r."originalIP" = s."ip" AND r."deletedAt" IS NULL),
+          s."firstSeenAt"
+        )
+      FROM (VALUES ${Prisma.join(
+        [...removed].map(([ip, count]) => Prisma.sql`(${ip}, ${count}::int)`)
+      )}) AS d("ip", "count")
+      WHERE s."ip" = d."ip"
+    `;
+
+    await db.$executeRaw`
+      DELETE FROM "public"."ReversedIPSummary" s
+      WHERE s."ip" IN (${Prisma.join(ips)})
+        AND NOT EXISTS (SELECT 1 FROM "public"."ReversedIP" r WHERE r."originalIP" = s."ip" AND r."deletedAt" IS NULL)
+    `;
+  }
+
+  /**
+   * Undo the first sighting of `ip` after a user deleted its row stored at `seenAt`.
+   * If that was the IP's first row, it is first seen at its next undeleted row, or
+   * not at all when none is left. Rows purged by retention don't come through here,
+   * so an IP whose old rows were purged keeps its original first sighting.
+   */
+  async forgetFirstSeen(db: RawClient, ip: string, seenAt: Date): Promise<void> {
+    await db.$executeRaw`
+      UPDATE "public"."FirstSeenIP" f
+      SET "firstSeenAt" = r."first"
+      FROM (
+        SELECT MIN("createdAt") AS "first" FROM "public"."ReversedIP" WHERE "originalIP" = ${ip} AND "deletedAt" IS NULL
+      ) r
+      WHERE f."ip" = ${ip} AND f."firstSeenAt" >= ${utcTimestamp(seenAt)} AND r."first" IS NOT NULL
+    `;
+
+    await db.$executeRaw`
+      DELETE FROM "public"."FirstSeenIP" f
+      WHERE f."ip" = ${ip} AND f."firstSeenAt" >= ${utcTimestamp(seenAt)}
+        AND NOT EXISTS (SELECT 1 FROM "public"."ReversedIP" r WHERE r."originalIP" = f."ip" AND r."deletedAt" IS NULL)
+    `;
+  }
+
+  /**
+   * Drop requesters of the given IPs that no undeleted history row still names
+   * (after rows were deleted or their request IP was redacted), and recount them
+   */
+  async pruneRequesters(db: RawClient, ips: string[]): Promise<void> {
+    if (ips.length === 0) {
+      return;
+    }
+
+    await db.$executeRaw`
+      DELETE FROM "public"."ReversedIPRequester" q
+      WHERE q."ip" IN (${Prisma.join(ips)})
+        AND NOT EXISTS (
+          SELECT 1 FROM "public"."ReversedIP" r
+          WHERE r."originalIP" = q."ip" AND r."requestIP" = q."requestIP" AND r."deletedAt" IS NULL
+        )
+    `;
+
+    await db.$executeRaw`
+      UPDATE "public"."ReversedIPSummary" s
+      SET "requesterCount" = (SELECT COUNT(*)::int FROM "public"."ReversedIPRequester" q WHERE q."ip" = s."ip")
+      WHERE s."ip" IN (${Prisma.join(ips)})
+    `;
+  }
+}
+
+export const summaryService = new SummaryService();
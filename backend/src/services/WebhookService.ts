@@ -0,0 +1,496 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import type { Prisma, Webhook, WebhookDelivery } from '@prisma/client';
+import { prisma } from './Database';
+import { ipService } from './IpService';
+import { logger } from './LoggerService';
+import { metricsService } from './MetricsService';
+import { utcTimestamp } from '../utils/DateUtils';
+import { integerSetting } from '../utils/EnvUtils';
+import { compileCIDRMatcher } from '../utils/IpUtils';
+import { WEBHOOK_EVENTS } from '../types/index';
+import type {
+  CreateWebhookRequest,
+  IPHistoryEntry,
+  UpdateWebhookRequest,
+  WebhookDeliveryInfo,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookInfo,
+  WebhookPayload,
+  WebhookReversal,
+} from '../types/index';
+
+// Problems with the WEBHOOK_* settings, reported by configErrors()
+const settingErrors: string[] = [];
+
+// How often due deliveries are picked up (0 disables the in-process worker, e.g. when
+// another replica delivers)
+const WEBHOOK_POLL_INTERVAL_MS: number = integerSetting(settingErrors, 'WEBHOOK_POLL_INTERVAL_MS', 5000, { allowZero: true });
+
+// How long a receiver gets to answer one attempt
+const WEBHOOK_TIMEOUT_MS: number = integerSetting(settingErrors, 'WEBHOOK_TIMEOUT_MS', 10000);
+
+// Attempts before a delivery is marked failed
+const WEBHOOK_MAX_ATTEMPTS: number = integerSetting(settingErrors, 'WEBHOOK_MAX_ATTEMPTS', 8);
+
+// Delay before the first retry, doubled for every further attempt up to WEBHOOK_RETRY_MAX_MS
+const WEBHOOK_RETRY_BASE_MS: number = integerSetting(settingErrors, 'WEBHOOK_RETRY_BASE_MS', 30000);
+const WEBHOOK_RETRY_MAX_MS: number = integerSetting(settingErrors, 'WEBHOOK_RETRY_MAX_MS', 60 * 60 * 1000);
+
+// Deliveries claimed per query
+const WEBHOOK_BATCH_SIZE: number = integerSetting(settingErrors, 'WEBHOOK_BATCH_SIZE', 20);
+
+// Delivery log entries older than this are deleted (0 keeps them forever)
+const WEBHOOK_DELIVERY_RETENTION_DAYS: number = integerSetting(settingErrors, 'WEBHOOK_DELIVERY_RETENTION_DAYS', 30, { allowZero: true });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Characters of the receiver's response kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+// A claimed delivery is retried after this if the replica working on it dies mid-attempt
+const CLAIM_LEASE_MS = WEBHOOK_TIMEOUT_MS + 60 * 1000;
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 of "<timestamp>.<body>" with the
+ * webhook secret, as 'sha256=<hex>'. Receivers recompute it over the raw body.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Maps a database row to the public webhook shape (never includes the secret)
+ */
+function toWebhookInfo(row: Webhook): WebhookInfo {
+  return {
+    id: row.id,
+    description: row.description,
+    url: row.url,
+    events: row.events as WebhookEvent[],
+    cidrs: row.cidrs,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toDeliveryInfo(row: WebhookDelivery): WebhookDeliveryInfo {
+  return {
+    id: row.id,
+    webhookId: row.webhookId,
+    event: row.event,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.status === 'pending' ? row.nextAttemptAt.toISOString() : null,
+    lastAttemptAt: row.lastAttemptAt?.toISOString() ?? null,
+    responseStatus: row.responseStatus,
+    responseBody: row.responseBody,
+    error: row.error,
+    deliveredAt: row.deliveredAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    payload: row.payload as unknown as WebhookPayload,
+  };
+}
+
+/**
+ * The entry as sent to receivers. Payloads are kept in the delivery log, so the
+ * request IP, user agent and requester location are left out.
+ */
+function toWebhookReversal(entry: IPHistoryEntry): WebhookReversal {
+  const { requestIP, userAgent, requestCountry, requestAsn, ...reversal } = entry;
+  return reversal;
+}
+
+/**
+ * Delay before the attempt after `attempts` failed ones
+ */
+function retryDelay(attempts: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_MS);
+}
+
+/**
+ * The start of a response body, without reading the rest of a large response
+ */
+async function readStart(response: Response): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while (text.length < RESPONSE_BODY_LIMIT) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+
+  return text.slice(0, RESPONSE_BODY_LIMIT);
+}
+
+export interface DeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  event?: string;
+  limit: number;
+}
+
+export class WebhookService {
+  private timer: NodeJS.Timeout | null = null;
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private unsubscribeStored: (() => void) | null = null;
+  private processing = false;
+  // Set when deliveries are queued while a run is going, so it goes round again
+  private requeued = false;
+
+  /**
+   * Problems with the webhook settings, checked at startup
+   */
+  configErrors(): string[] {
+    const errors = [...settingErrors];
+
+    if (WEBHOOK_RETRY_MAX_MS < WEBHOOK_RETRY_BASE_MS) {
+      errors.push('WEBHOOK_RETRY_MAX_MS must not be less than WEBHOOK_RETRY_BASE_MS');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Register a webhook. The signing secret is returned once; a random one is
+   * generated when none is given.
+   */
+  async create(request: CreateWebhookRequest): Promise<{ webhook: WebhookInfo; secret: string }> {
+    const secret = request.secret ?? generateSecret();
+
+    const row = await prisma.webhook.create({
+      data: {
+        url: request.url,
+        secret,
+        events: request.events ?? [...WEBHOOK_EVENTS],
+        cidrs: request.cidrs ?? [],
+        description: request.description ?? null,
+        active: request.active ?? true,
+      },
+    });
+
+    return { webhook: toWebhookInfo(row), secret };
+  }
+
+  /**
+   * List all webhooks, newest first
+   */
+  async list(): Promise<WebhookInfo[]> {
+    const rows = await prisma.webhook.findMany({ orderBy: { createdAt: 'desc' } });
+    return rows.map(toWebhookInfo);
+  }
+
+  async get(id: string): Promise<WebhookInfo | null> {
+    const row = await prisma.webhook.findUnique({ where: { id } });
+    return row ? toWebhookInfo(row) : null;
+  }
+
+  async update(id: string, request: UpdateWebhookRequest): Promise<WebhookInfo | null> {
+    const { count } = await prisma.webhook.updateMany({ where: { id }, data: request });
+    return count > 0 ? this.get(id) : null;
+  }
+
+  /**
+   * Delete a webhook together with its delivery log
+   */
+  async remove(id: string): Promise<boolean> {
+    const { count } = await prisma.webhook.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  /**
+   * Send a 'webhook.test' event to a webhook right away (even if it is inactive) and
+   * return the logged delivery. A failed test is retried like any other delivery.
+   */
+  async sendTest(id: string): Promise<WebhookDeliveryInfo | null> {
+    const webhook = await prisma.webhook.findUnique({ where: { id } });
+    if (!webhook) {
+      return null;
+    }
+
+    const now = new Date();
+    const deliveryId = randomUUID();
+    const payload: WebhookPayload = {
+      id: deliveryId,
+      event: 'webhook.test',
+      createdAt: now.toISOString(),
+      data: { message: 'Test delivery from IP Reverser' },
+    };
+
+    // Created already claimed, so the worker doesn't pick it up as well
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        id: deliveryId,
+        webhookId: id,
+        event: payload.event,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        attempts: 1,
+        lastAttemptAt: now,
+        nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS),
+        createdAt: now,
+      },
+    });
+
+    return toDeliveryInfo(await this.attempt({ ...delivery, webhook }));
+  }
+
+  /**
+   * Deliveries of a webhook, newest first, or null if the webhook doesn't exist
+   */
+  async listDeliveries(webhookId: string, query: DeliveryQuery): Promise<WebhookDeliveryInfo[] | null> {
+    const webhook = await prisma.webhook.findUnique({ where: { id: webhookId }, select: { id: true } });
+    if (!webhook) {
+      return null;
+    }
+
+    const rows = await prisma.webhookDelivery.findMany({
+      where: { webhookId, status: query.status, event: query.event },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: query.limit,
+    });
+
+    return rows.map(toDeliveryInfo);
+  }
+
+  /**
+   * Queue new reversals for delivery as they are stored, and deliver due
+   * deliveries now and then every WEBHOOK_POLL_INTERVAL_MS
+   */
+  start(): void {
+    if (this.unsubscribeStored) {
+      return;
+    }
+
+    this.unsubscribeStored = ipService.onStored((entries) => void this.enqueueReversals(entries));
+
+    if (WEBHOOK_POLL_INTERVAL_MS > 0) {
+      void this.processDue();
+      this.timer = setInterval(() => void this.processDue(), WEBHOOK_POLL_INTERVAL_MS);
+      this.timer.unref();
+    }
+
+    if (WEBHOOK_DELIVERY_RETENTION_DAYS > 0) {
+      this.pruneTimer = setInterval(() => void this.prune(), PRUNE_INTERVAL_MS);
+      this.pruneTimer.unref();
+    }
+  }
+
+  stop(): void {
+    this.unsubscribeStored?.();
+    this.unsubscribeStored = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  /**
+   * Queue a 'reversal.created' delivery for every active webhook whose CIDR filter
+   * matches, then start delivering
+   */
+  private async enqueueReversals(entries: IPHistoryEntry[]): Promise<void> {
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { active: true, events: { has: 'reversal.created' } },
+        select: { id: true, cidrs: true },
+      });
+      if (webhooks.length === 0) {
+        return;
+      }
+
+      const data: Prisma.WebhookDeliveryCreateManyInput[] = [];
+      for (const webhook of webhooks) {
+        const matches = webhook.cidrs.length > 0 ? compileCIDRMatcher(webhook.cidrs) : null;
+
+        for (const entry of entries) {
+          // CIDR rows store the network as "address/prefix"
+          if (matches && !matches(entry.originalIP.split('/')[0])) {
+            continue;
+          }
+
+          const id = randomUUID();
+          const payload: WebhookPayload = {
+            id,
+            event: 'reversal.created',
+            createdAt: new Date().toISOString(),
+            data: toWebhookReversal(entry),
+          };
+          data.push({
+            id,
+            webhookId: webhook.id,
+            event: payload.event,
+            payload: payload as unknown as Prisma.InputJsonValue,
+          });
+        }
+      }
+
+      if (data.length > 0) {
+        await prisma.webhookDelivery.createMany({ data });
+        if (this.timer) {
+          void this.processDue();
+        }
+      }
+    } catch (error) {
+      logger.error('Queueing webhook deliveries failed', { error });
+    }
+  }
+
+  /**
+   * Deliver everything that is due, one claimed batch at a time
+   */
+  private async processDue(): Promise<void> {
+    if (this.processing) {
+      this.requeued = true;
+      return;
+    }
+    this.processing = true;
+
+    try {
+      do {
+        this.requeued = false;
+        for (;;) {
+          const claimed = await this.claim();
+          await Promise.all(claimed.map((delivery) => this.attempt(delivery)));
+          if (claimed.length < WEBHOOK_BATCH_SIZE) {
+            break;
+          }
+        }
+      } while (this.requeued);
+    } catch (error) {
+      logger.error('Webhook delivery run failed', { error });
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Claim due deliveries of active webhooks. Claiming counts the attempt and moves
+   * nextAttemptAt past the lease, so other replicas skip them meanwhile.
+   */
+  private async claim(): Promise<(WebhookDelivery & { webhook: Webhook })[]> {
+    const now = new Date();
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      UPDATE "public"."WebhookDelivery"
+      SET "attempts" = "attempts" + 1,
+          "lastAttemptAt" = ${utcTimestamp(now)},
+          "nextAttemptAt" = ${utcTimestamp(new Date(now.getTime() + CLAIM_LEASE_MS))}
+      WHERE "id" IN (
+        SELECT d."id" FROM "public"."WebhookDelivery" d
+        JOIN "public"."Webhook" w ON w."id" = d."webhookId"
+        WHERE d."status" = 'pending' AND d."nextAttemptAt" <= ${utcTimestamp(now)} AND w."active"
+        ORDER BY d."nextAttemptAt"
+        LIMIT ${WEBHOOK_BATCH_SIZE}
+        FOR UPDATE OF d SKIP LOCKED
+      )
+      RETURNING "id"
+    `;
+    if (rows.length === 0) {
+      return [];
+    }
+
+    return prisma.webhookDelivery.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: { webhook: true },
+    });
+  }
+
+  /**
+   * POST a claimed delivery and record the outcome: delivered on a 2xx response,
+   * otherwise retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS
+   */
+  private async attempt(delivery: WebhookDelivery & { webhook: Webhook }): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'IP-Reverser-Webhook/1.0',
+          'X-Webhook-Id': delivery.webhookId,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(delivery.webhook.secret, timestamp, body),
+        },
+        body,
+        // A redirect counts as a failed attempt instead of re-sending the payload elsewhere
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = await readStart(response);
+      if (response.status < 200 || response.status >= 300) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (caught) {
+      // fetch() reports network errors as 'fetch failed' with the reason as the cause
+      const cause = caught instanceof Error && caught.cause instanceof Error ? `: ${caught.cause.message}` : '';
+      error = caught instanceof Error ? `${caught.message}${cause}` : String(caught);
+    }
+
+    const now = new Date();
+    let data: Prisma.WebhookDeliveryUpdateInput;
+
+    if (!error) {
+      data = { status: 'delivered', deliveredAt: now, nextAttemptAt: now };
+      metricsService.webhookDeliveriesTotal.inc({ outcome: 'delivered' });
+    } else if (delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      data = { status: 'failed', nextAttemptAt: now };
+      metricsService.webhookDeliveriesTotal.inc({ outcome: 'failed' });
+      logger.warn('Webhook delivery failed', {
+        webhookId: delivery.webhookId,
+        deliveryId: delivery.id,
+        attempts: delivery.attempts,
+        error,
+      });
+    } else {
+      data = { nextAttemptAt: new Date(now.getTime() + retryDelay(delivery.attempts)) };
+      metricsService.webhookDeliveriesTotal.inc({ outcome: 'retrying' });
+    }
+
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...data, responseStatus, responseBody, error },
+    });
+  }
+
+  private async prune(): Promise<void> {
+    try {
+      const { count } = await prisma.webhookDelivery.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - WEBHOOK_DELIVERY_RETENTION_DAYS * DAY_MS) } },
+      });
+      if (count > 0) {
+        logger.debug('Pruned webhook deliveries', { pruned: count });
+      }
+    } catch (error) {
+      logger.error('Webhook delivery pruning failed', { error });
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,13 @@
+import type { AuthenticatedApiKey, ClientIPResolution } from './index';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: AuthenticatedApiKey;
+      requestId?: string;
+      resolvedClientIP?: ClientIPResolution;
+    }
+  }
+}
+
+export {};
@@ -1,6 +1,90 @@
-export interface ReverseIPRequest {
-    ip: string;
-  }
+import type { Infer, ObjectOutput } from '../utils/Schema';
+import type { idParamsSchema } from '../schemas/CommonSchemas';
+import type { issueApiKeyBodySchema } from '../schemas/ApiKeySchemas';
+import type {
+  deleteHistoryEntryQuerySchema,
+  exportQuerySchema,
+  historyQuerySchema,
+  importQuerySchema,
+  ipSummaryParamsSchema,
+  ipSummaryQuerySchema,
+  liveFeedQuerySchema,
+  reverseBatchBodySchema,
+  reverseIPBodySchema,
+  searchFilterFields,
+  searchQuerySchema,
+  statsQuerySchema,
+  timeSeriesQuerySchema,
+  updateHistoryEntryBodySchema,
+} from '../schemas/IpSchemas';
+import type { eraseRequesterBodySchema, retentionPurgeQuerySchema } from '../schemas/RetentionSchemas';
+import type {
+  createWebhookBodySchema,
+  updateWebhookBodySchema,
+  webhookDeliveriesQuerySchema,
+} from '../schemas/WebhookSchemas';
+
+// Request bodies, query strings and params are inferred from the schemas in src/schemas
+// that validate them (see ValidationMiddleware), so the two can't drift apart
+
+// Supported output formats for IP reversal
+export const REVERSE_FORMATS = ['octets', 'ptr', 'nibbles'] as const;
+
+export type ReverseFormat = typeof REVERSE_FORMATS[number];
+
+export type IPFamily = 'IPv4' | 'IPv6';
+
+// Permissions that can be granted to an API key ('admin' implies all others)
+export const API_KEY_SCOPES = ['reverse', 'read-history', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// API key attached to an authenticated request
+export interface AuthenticatedApiKey {
+  id: string | null; // null for the ADMIN_API_KEY bootstrap token
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number | null;
+  dailyQuota: number | null;
+}
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number | null;
+  dailyQuota: number | null;
+  usageCount: number;
+  lastUsedAt: string | null;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export type IssueApiKeyRequest = Infer<typeof issueApiKeyBodySchema>;
+
+export interface IssueApiKeyResponse {
+  success: boolean;
+  data: {
+    apiKey: ApiKeyInfo;
+    key: string; // plaintext key, only ever returned at issue/rotation time
+  };
+  message?: string;
+}
+
+export interface CIDRReversal {
+  network: string;
+  prefixLength: number;
+  family: IPFamily;
+  reversedNetwork: string;
+  reverseZone: string;
+  hostCount: string; // string because IPv6 host counts exceed Number.MAX_SAFE_INTEGER
+  hosts: string[];
+  truncated: boolean;
+}
+
+export type ReverseIPRequest = Infer<typeof reverseIPBodySchema>;
   
   export interface ReverseIPResponse {
     success: boolean;
@@ -8,21 +92,67 @@ export interface ReverseIPRequest {
       id: string;
       originalIP: string;
       reversedIP: string;
+      format: ReverseFormat;
+      prefixLength: number | null;
+      family: IPFamily | null;
       requestIP: string | null;
       userAgent: string | null;
+      apiKeyId: string | null;
+      ipClass: IPClass | null;
+      country: string | null;
+      city: string | null;
+      asn: number | null;
+      asOrg: string | null;
+      requestCountry: string | null;
+      requestAsn: number | null;
       timestamp: string;
       createdAt: string;
+      classification: IPClassification | null; // of the address, or of the whole CIDR block
+      cidr?: CIDRReversal;
+      clientIP?: ClientIPResolution; // /my-ip only: how the caller's IP was determined
     };
     message?: string;
   }
   
+  export type BatchReverseIPRequest = Infer<typeof reverseBatchBodySchema>;
+
+  export type BatchReverseItemResult =
+    | {
+        index: number;
+        ip: string;
+        success: true;
+        data: IPHistoryEntry;
+      }
+    | {
+        index: number;
+        ip: string;
+        success: false;
+        error: {
+          message: string;
+          code: string;
+        };
+      };
+
+  export interface BatchReverseIPResponse {
+    success: boolean;
+    data: {
+      results: BatchReverseItemResult[];
+      total: number;
+      succeeded: number;
+      failed: number;
+    };
+    message?: string;
+  }
+
   export interface GetIPHistoryResponse {
     success: boolean;
     data: {
       entries: IPHistoryEntry[];
-      total: number;
-      page: number;
+      total: number | null; // null in cursor mode unless includeTotal=true
+      page?: number; // offset mode only
       limit: number;
+      nextCursor: string | null;
+      prevCursor: string | null;
     };
     message?: string;
   }
@@ -31,13 +161,392 @@ export interface ReverseIPRequest {
     id: string;
     originalIP: string;
     reversedIP: string;
+    format: ReverseFormat;
+    prefixLength: number | null;
+    family: IPFamily | null;
     requestIP: string | null;
     userAgent: string | null;
+    apiKeyId: string | null;
+    ipClass: IPClass | null;
+    // GeoIP enrichment of the original IP and of the requester (null without a database or a match)
+    country: string | null; // ISO 3166-1 alpha-2 code
+    city: string | null; // English name
+    asn: number | null;
+    asOrg: string | null;
+    requestCountry: string | null;
+    requestAsn: number | null;
+    notes: string | null;
+    tags: string[];
     timestamp: string;
     createdAt: string;
   }
+
+  // Body of PATCH /api/ip/history/:id
+  export type UpdateHistoryEntryRequest = Infer<typeof updateHistoryEntryBodySchema>;
+
+  export interface HistoryEntryResponse {
+    success: boolean;
+    data: IPHistoryEntry;
+    message?: string;
+  }
+
+  export interface DeleteHistoryEntryResponse {
+    success: boolean;
+    data: {
+      id: string;
+      hard: boolean; // true when the row itself was removed
+      deletedAt: string;
+    };
+    message?: string;
+  }
   
-  
+  // How the free-text query `q` is matched against originalIP, reversedIP and requestIP
+  export const SEARCH_MATCH_MODES = ['contains', 'prefix', 'exact'] as const;
+
+  export type SearchMatchMode = typeof SEARCH_MATCH_MODES[number];
+
+  // Filters shared by search and export
+  export type SearchFilters = ObjectOutput<typeof searchFilterFields>;
+
+  // Dimensions search results can be counted by
+  export const SEARCH_GROUP_BY = ['ipClass', 'country', 'asn'] as const;
+
+  export type SearchGroupBy = typeof SEARCH_GROUP_BY[number];
+
+  // Classes of the IANA special-purpose address registries; 'public' is everything else
+  export const IP_CLASSES = [
+    'public',
+    'private',
+    'loopback',
+    'link-local',
+    'multicast',
+    'cgnat',
+    'documentation',
+    'reserved',
+    'ipv4-mapped',
+    '6to4',
+    'teredo',
+    'nat64',
+  ] as const;
+
+  export type IPClass = typeof IP_CLASSES[number];
+
+  export interface IPClassification {
+    ipClass: IPClass;
+    name: string; // registry entry name, e.g. 'Private-Use'
+    range: string; // most specific registry block containing the address
+    reference: string | null; // defining RFC
+    globallyReachable: boolean;
+    embeddedIPv4: string | null; // IPv4 address carried by IPv4-mapped, NAT64, 6to4 and Teredo addresses
+  }
+
+  // Server-side filters of a live feed subscription
+  export type LiveFeedFilters = Pick<SearchFilters, 'cidr' | 'family'>;
+
+  // Messages of the WebSocket live feed; over SSE `type` is the event name, `id` the event id
+  // and the data is the entry (reversal) or the remaining fields (heartbeats are comments)
+  export type LiveFeedMessage =
+    | { type: 'reversal'; id: string; data: IPHistoryEntry } // id doubles as the resume position
+    | { type: 'truncated'; limit: number } // more entries were missed than a resume replays
+    | { type: 'heartbeat'; timestamp: string };
+
+  export interface SearchIPResponse {
+    success: boolean;
+    data: GetIPHistoryResponse['data'] & {
+      results: IPHistoryEntry[];
+      query: string | null;
+      count: number;
+      groups?: IPClassCount[] | CountryCount[] | AsnCount[]; // with groupBy: matching entries per class, country or ASN
+    };
+    message?: string;
+  }
+
+  // Deduplicated registry entry for one original IP (or CIDR network)
+  export interface IPSummary {
+    ip: string;
+    family: IPFamily | null;
+    reversedForms: Partial<Record<ReverseFormat, string>>;
+    hitCount: number;
+    requesterCount: number;
+    firstSeenAt: string;
+    lastSeenAt: string;
+  }
+
+  export interface GetIPSummaryResponse {
+    success: boolean;
+    data: IPSummary & {
+      recentEvents: IPHistoryEntry[];
+    };
+    message?: string;
+  }
+
+  export interface IPClassCount {
+    ipClass: IPClass;
+    count: number;
+  }
+
+  export interface CountryCount {
+    country: string | null; // null for entries without a GeoIP match
+    count: number;
+  }
+
+  export interface AsnCount {
+    asn: number | null;
+    asOrg: string | null;
+    count: number;
+  }
+
+  // Location and network of an IP as found in the GeoIP databases
+  export interface GeoIPInfo {
+    country: string | null;
+    city: string | null;
+    asn: number | null;
+    asOrg: string | null;
+  }
+
+  export interface GeoIPDatabaseStatus {
+    path: string;
+    loaded: boolean;
+    databaseType: string | null; // from the database metadata, e.g. 'GeoLite2-City'
+    buildEpoch: string | null;
+    loadedAt: string | null;
+    error: string | null; // why the last (re)load failed
+  }
+
+  export interface IPStats {
+    ipClass: IPClass[] | null; // classes the stats are limited to, null for all
+    totalEntries: number;
+    uniqueIPs: number;
+    todayEntries: number; // since midnight in `tz`
+    tz: string;
+    topRequestIPs: { ip: string; count: number }[];
+    byClass: IPClassCount[]; // entries per special-purpose class, most frequent first
+    topCountries: CountryCount[]; // most frequent countries of the original IPs
+    topAsns: AsnCount[];
+    purgedRows: number; // history rows deleted by the retention purge so far
+  }
+
+  export const STATS_INTERVALS = ['hour', 'day', 'week'] as const;
+
+  export type StatsInterval = typeof STATS_INTERVALS[number];
+
+  export interface TimeSeriesBucket {
+    start: string; // bucket start (local midnight/hour in `tz`) as an ISO 8601 instant
+    total: number;
+    ipv4: number;
+    ipv6: number;
+    uniqueIPs: number;
+  }
+
+  export interface StatsTimeSeries {
+    interval: StatsInterval;
+    tz: string;
+    from: string;
+    to: string;
+    buckets: TimeSeriesBucket[];
+  }
+
+  export interface StatsTimeSeriesResponse {
+    success: boolean;
+    data: StatsTimeSeries;
+    message?: string;
+  }
+
+  export const EXPORT_FORMATS = ['csv', 'ndjson', 'json'] as const;
+
+  export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+  export const IMPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+  export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+  // A line of an import that was not stored, with the reason
+  export interface ImportRejection {
+    line: number;
+    error: {
+      message: string;
+      code: string;
+    };
+  }
+
+  export interface ImportReport {
+    dryRun: boolean;
+    total: number;
+    accepted: number;
+    rejected: number;
+    acceptedLines: number[];
+    rejectedLines: ImportRejection[];
+  }
+
+  export interface ImportHistoryResponse {
+    success: boolean;
+    data: ImportReport;
+    message: string;
+  }
+
+  // How the requester IP of a reversal is stored
+  export const REQUEST_IP_PRIVACY_MODES = ['raw', 'truncate', 'hash', 'none'] as const;
+
+  export type RequestIPPrivacyMode = typeof REQUEST_IP_PRIVACY_MODES[number];
+
+  // How the user agent of a reversal is stored
+  export const USER_AGENT_PRIVACY_MODES = ['raw', 'none'] as const;
+
+  export type UserAgentPrivacyMode = typeof USER_AGENT_PRIVACY_MODES[number];
+
+  export interface PrivacyPolicy {
+    requestIP: RequestIPPrivacyMode;
+    userAgent: UserAgentPrivacyMode;
+  }
+
+  export const ERASURE_ACTIONS = ['delete', 'redact'] as const;
+
+  export type ErasureAction = typeof ERASURE_ACTIONS[number];
+
+  export type EraseRequesterRequest = Infer<typeof eraseRequesterBodySchema>;
+
+  export interface EraseRequesterResponse {
+    success: boolean;
+    data: {
+      requestIP: string;
+      action: ErasureAction;
+      rows: number; // history rows deleted or redacted
+    };
+    message: string;
+  }
+
+  // Retention limits; null means the rule is disabled
+  export interface RetentionPolicy {
+    maxAgeDays: number | null;
+    maxRows: number | null;
+    requestIPMaxAgeDays: number | null; // request IPs are replaced by 'redacted' after this
+    userAgentMaxAgeDays: number | null; // user agents are cleared after this
+    batchSize: number;
+    intervalMs: number; // 0 when the scheduled purge is off
+  }
+
+  export interface RetentionCounts {
+    deletedByAge: number;
+    deletedByCount: number;
+    scrubbedRequestIPs: number;
+    scrubbedUserAgents: number;
+  }
+
+  export type RetentionTrigger = 'scheduled' | 'manual';
+
+  export interface RetentionRunInfo extends RetentionCounts {
+    id: string;
+    trigger: RetentionTrigger;
+    status: 'running' | 'completed' | 'failed';
+    error: string | null;
+    startedAt: string;
+    finishedAt: string | null;
+  }
+
+  export interface RetentionStatusResponse {
+    success: boolean;
+    data: {
+      policy: RetentionPolicy;
+      privacy: PrivacyPolicy;
+      purgedRows: number;
+      runs: RetentionRunInfo[];
+    };
+    message?: string;
+  }
+
+  export interface RetentionPurgeResponse {
+    success: boolean;
+    data: (RetentionCounts & { dryRun: true; policy: RetentionPolicy }) | (RetentionRunInfo & { dryRun: false });
+    message: string;
+  }
+
+  // Where the client IP of a request was taken from
+  export type ClientIPSource = 'forwarded' | 'x-forwarded-for' | 'x-real-ip' | 'socket';
+
+  export interface ClientIPResolution {
+    ip: string; // 'unknown' when it couldn't be determined
+    source: ClientIPSource;
+    trustedHops: number; // trusted proxies the request passed through
+  }
+
+  // Named rate limit policies; each route group is limited by one or more of them
+  export const RATE_LIMIT_POLICY_NAMES = ['api-key', 'general', 'strict', 'batch', 'export', 'admin'] as const;
+
+  export type RateLimitPolicyName = typeof RATE_LIMIT_POLICY_NAMES[number];
+
+  // Who is calling: no API key, an API key, or an API key with the 'admin' scope
+  export const RATE_LIMIT_CLIENT_CLASSES = ['anonymous', 'apiKey', 'admin'] as const;
+
+  export type RateLimitClientClass = typeof RATE_LIMIT_CLIENT_CLASSES[number];
+
+  export interface RateLimitPolicy {
+    windowMs: number;
+    // Points each client of a class may spend per window; null leaves the class unlimited
+    points: Record<RateLimitClientClass, number | null>;
+  }
+
+  export type RateLimitStoreKind = 'postgres' | 'memory';
+
+  // Events a webhook can subscribe to; test deliveries are sent as 'webhook.test'
+  export const WEBHOOK_EVENTS = ['reversal.created'] as const;
+
+  export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+  export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+  export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+  export interface WebhookInfo {
+    id: string;
+    description: string | null;
+    url: string;
+    events: WebhookEvent[];
+    cidrs: string[]; // empty when every reversal is delivered
+    active: boolean;
+    createdAt: string;
+    updatedAt: string;
+  }
+
+  export type CreateWebhookRequest = Infer<typeof createWebhookBodySchema>;
+
+  export type UpdateWebhookRequest = Infer<typeof updateWebhookBodySchema>;
+
+  export interface CreateWebhookResponse {
+    success: boolean;
+    data: {
+      webhook: WebhookInfo;
+      secret: string; // signing secret, only ever returned at creation time
+    };
+    message?: string;
+  }
+
+  // Body POSTed to a webhook; X-Webhook-Signature signs "<X-Webhook-Timestamp>.<body>"
+  // A history entry without the requester's data, which erasure and retention can't reach in the delivery log
+  export type WebhookReversal = Omit<IPHistoryEntry, 'requestIP' | 'userAgent' | 'requestCountry' | 'requestAsn'>;
+
+  export interface WebhookPayload {
+    id: string; // delivery id, stable across retries
+    event: WebhookEvent | 'webhook.test';
+    createdAt: string;
+    data: WebhookReversal | { message: string };
+  }
+
+  export interface WebhookDeliveryInfo {
+    id: string;
+    webhookId: string;
+    event: string;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: string | null; // null once delivered or failed
+    lastAttemptAt: string | null;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    deliveredAt: string | null;
+    createdAt: string;
+    payload: WebhookPayload;
+  }
+
   export interface APIError {
     success: false;
     error: {
@@ -46,6 +555,45 @@ export interface ReverseIPRequest {
       details?: any;
     };
     timestamp: string;
+    requestId?: string; // added to every error response by the request context middleware
+  }
+
+  export type RequestLocation = 'params' | 'query' | 'body';
+
+  // A problem of a request that failed validation; listed in APIError.error.details.fields
+  export interface ValidationIssue {
+    location: RequestLocation;
+    field: string; // e.g. "limit" or "ips[2]"; empty for the body or query as a whole
+    code: string;
+    message: string;
+  }
+
+  // Parsed query strings and params of the routes
+  export type IdParams = Infer<typeof idParamsSchema>;
+  export type HistoryQuery = Infer<typeof historyQuerySchema>;
+  export type DeleteHistoryEntryQuery = Infer<typeof deleteHistoryEntryQuerySchema>;
+  export type StatsQuery = Infer<typeof statsQuerySchema>;
+  export type TimeSeriesQuery = Infer<typeof timeSeriesQuerySchema>;
+  export type SearchQuery = Infer<typeof searchQuerySchema>;
+  export type ExportQuery = Infer<typeof exportQuerySchema>;
+  export type LiveFeedQuery = Infer<typeof liveFeedQuerySchema>;
+  export type ImportQuery = Infer<typeof importQuerySchema>;
+  export type IPSummaryParams = Infer<typeof ipSummaryParamsSchema>;
+  export type IPSummaryQuery = Infer<typeof ipSummaryQuerySchema>;
+  export type RetentionPurgeQuery = Infer<typeof retentionPurgeQuerySchema>;
+  export type WebhookDeliveriesQuery = Infer<typeof webhookDeliveriesQuerySchema>;
+
+  // RFC 7807 form of an APIError, sent as application/problem+json to clients that ask for it
+  export interface ProblemDetails {
+    type: string; // urn:problem-type:ip-reverser:<code in kebab case>
+    title: string; // HTTP reason phrase of the status
+    status: number;
+    detail: string;
+    instance?: string; // request path
+    code: string;
+    details?: any;
+    requestId?: string;
+    timestamp: string;
   }
   
   export interface HealthCheckResponse {
@@ -56,6 +604,10 @@ export interface ReverseIPRequest {
       version: string;
       database: 'connected' | 'disconnected';
       uptime: number;
+      geoip: {
+        enabled: boolean;
+        databases: GeoIPDatabaseStatus[];
+      };
     };
   }
   
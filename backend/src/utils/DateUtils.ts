@@ -0,0 +1,15 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Start of the UTC day containing `date`
+ */
+export function startOfUTCDay(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * A JS date as the UTC timestamp (without zone) that createdAt is stored as
+ */
+export function utcTimestamp(date: Date): Prisma.Sql {
+  return Prisma.sql`(${date}::timestamptz AT TIME ZONE 'UTC')`;
+}
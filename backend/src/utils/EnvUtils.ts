@@ -0,0 +1,25 @@
+/**
+ * Reads an integer setting from the environment. Unset or empty means `fallback`; a value
+ * that isn't a whole number (parseInt would give NaN or read '10s' as 10) or is below the
+ * minimum is reported in `errors`, for the owning service's configErrors(), and replaced
+ * by `fallback`.
+ */
+export function integerSetting(
+  errors: string[],
+  name: string,
+  fallback: number,
+  { allowZero = false }: { allowZero?: boolean } = {}
+): number {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return fallback;
+  }
+
+  const setting = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isSafeInteger(setting) || (setting === 0 && !allowZero)) {
+    errors.push(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer`);
+    return fallback;
+  }
+
+  return setting;
+}
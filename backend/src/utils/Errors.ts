@@ -0,0 +1,251 @@
+import { STATUS_CODES } from 'http';
+import { Prisma } from '@prisma/client';
+import type { APIError, ProblemDetails } from '../types/index';
+
+// Seconds clients are asked to wait before retrying when the database is unavailable
+const DATABASE_RETRY_AFTER_SECONDS = 5;
+
+export interface AppErrorOptions {
+  details?: any;
+  headers?: Record<string, string | number>;
+  cause?: unknown;
+}
+
+/**
+ * An error with the HTTP status and stable code it is answered with. Thrown from
+ * controllers, middleware and services; errorHandler turns it into the response.
+ * `details` is sent to the client, `cause` is only logged.
+ */
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: any;
+  readonly headers: Record<string, string | number>;
+
+  constructor(status: number, code: string, message: string, options: AppErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.details = options.details;
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * The response body in the APIError shape
+   */
+  toJSON(): APIError {
+    return {
+      success: false,
+      error: {
+        message: this.message,
+        code: this.code,
+        details: this.details,
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, code: string = 'VALIDATION_ERROR', options?: AppErrorOptions) {
+    super(400, code, message, options);
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(message: string, code: string = 'UNAUTHORIZED', options?: AppErrorOptions) {
+    super(401, code, message, options);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: string = 'FORBIDDEN', options?: AppErrorOptions) {
+    super(403, code, message, options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code: string = 'NOT_FOUND', options?: AppErrorOptions) {
+    super(404, code, message, options);
+  }
+}
+
+export class RequestTimeoutError extends AppError {
+  constructor(message: string, code: string = 'REQUEST_TIMEOUT', options?: AppErrorOptions) {
+    super(408, code, message, options);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code: string = 'CONFLICT', options?: AppErrorOptions) {
+    super(409, code, message, options);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string, code: string = 'PAYLOAD_TOO_LARGE', options?: AppErrorOptions) {
+    super(413, code, message, options);
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(message: string, code: string = 'RATE_LIMIT_EXCEEDED', options?: AppErrorOptions) {
+    super(429, code, message, options);
+  }
+}
+
+export class InternalError extends AppError {
+  constructor(message: string = 'Internal Server Error', code: string = 'INTERNAL_ERROR', options?: AppErrorOptions) {
+    super(500, code, message, options);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string, code: string = 'SERVICE_UNAVAILABLE', options?: AppErrorOptions) {
+    super(503, code, message, options);
+  }
+}
+
+const databaseUnavailable = (cause: unknown): ServiceUnavailableError =>
+  new ServiceUnavailableError('The database is unavailable, please try again later', 'DATABASE_UNAVAILABLE', {
+    headers: { 'Retry-After': DATABASE_RETRY_AFTER_SECONDS },
+    cause,
+  });
+
+const databaseTimeout = (cause: unknown): ServiceUnavailableError =>
+  new ServiceUnavailableError('The database did not respond in time, please try again later', 'DATABASE_TIMEOUT', {
+    headers: { 'Retry-After': DATABASE_RETRY_AFTER_SECONDS },
+    cause,
+  });
+
+/**
+ * Maps the PostgreSQL error (SQLSTATE) behind a failed raw query
+ */
+const fromSQLState = (sqlState: string, error: unknown): AppError | null => {
+  if (sqlState === '23505') {
+    return new ConflictError('A record with these values already exists', 'DUPLICATE_RECORD', { cause: error });
+  }
+  if (sqlState === '23503') {
+    return new ConflictError('The record references a record that does not exist', 'INVALID_REFERENCE', { cause: error });
+  }
+  if (sqlState === '40001' || sqlState === '40P01') {
+    return new ConflictError('The request conflicted with a concurrent change, please retry', 'TRANSACTION_CONFLICT', {
+      cause: error,
+    });
+  }
+  // Statement timeout or cancellation
+  if (sqlState === '57014') {
+    return databaseTimeout(error);
+  }
+  // Connection exceptions, shutdowns and too many connections
+  if (sqlState.startsWith('08') || sqlState.startsWith('57P') || sqlState === '53300') {
+    return databaseUnavailable(error);
+  }
+  return null;
+};
+
+/**
+ * The AppError a Prisma error is answered with, or null if it isn't one Prisma
+ * raised for a client-visible reason (e.g. a validation error is a bug: 500)
+ */
+export function fromPrismaError(error: unknown): AppError | null {
+  if (error instanceof Prisma.PrismaClientInitializationError) {
+    return databaseUnavailable(error);
+  }
+
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) {
+    return null;
+  }
+
+  // https://www.prisma.io/docs/orm/reference/error-reference
+  switch (error.code) {
+    case 'P1001': // Can't reach database server
+    case 'P1002': // Database server timed out while connecting
+    case 'P1017': // Server has closed the connection
+      return databaseUnavailable(error);
+    case 'P1008': // Operations timed out
+    case 'P2024': // Timed out fetching a connection from the pool
+      return databaseTimeout(error);
+    case 'P2002':
+      return new ConflictError('A record with these values already exists', 'DUPLICATE_RECORD', {
+        details: { fields: error.meta?.target },
+        cause: error,
+      });
+    case 'P2003':
+      return new ConflictError('The record references a record that does not exist', 'INVALID_REFERENCE', {
+        details: { field: error.meta?.field_name },
+        cause: error,
+      });
+    case 'P2025':
+      return new NotFoundError('Record not found', 'RECORD_NOT_FOUND', { cause: error });
+    case 'P2034':
+      return new ConflictError('The request conflicted with a concurrent change, please retry', 'TRANSACTION_CONFLICT', {
+        cause: error,
+      });
+    case 'P2000':
+      return new ValidationError('A value is too long for its field', 'VALUE_TOO_LONG', { cause: error });
+    case 'P2010': {
+      // Raw query failed; meta.code is the PostgreSQL SQLSTATE
+      const sqlState = error.meta?.code;
+      return typeof sqlState === 'string' ? fromSQLState(sqlState, error) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Any thrown value as an AppError: AppErrors as they are, Prisma and body parser
+ * errors mapped to their statuses, everything else a 500 with `fallbackMessage`
+ */
+export function toAppError(error: unknown, fallbackMessage?: string): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const prismaError = fromPrismaError(error);
+  if (prismaError) {
+    return prismaError;
+  }
+
+  const err = error as { type?: string; status?: number; message?: string } | null;
+  // Errors of express.json() and friends
+  switch (err?.type) {
+    case 'entity.parse.failed':
+      return new ValidationError('Request body is not valid JSON', 'INVALID_JSON', { cause: error });
+    case 'entity.too.large':
+      return new PayloadTooLargeError('Request body is too large', 'PAYLOAD_TOO_LARGE', { cause: error });
+    case 'encoding.unsupported':
+    case 'charset.unsupported':
+      return new AppError(415, 'UNSUPPORTED_ENCODING', 'Request body encoding is not supported', { cause: error });
+  }
+  if (err?.message === 'Not allowed by CORS') {
+    return new ForbiddenError('CORS policy violation', 'CORS_ERROR', { cause: error });
+  }
+  // Other client errors raised with an HTTP status (e.g. by http-errors)
+  if (typeof err?.status === 'number' && err.status >= 400 && err.status < 500) {
+    return new AppError(err.status, 'BAD_REQUEST', err.message || STATUS_CODES[err.status] || 'Bad Request', { cause: error });
+  }
+
+  return new InternalError(fallbackMessage, 'INTERNAL_ERROR', { cause: error });
+}
+
+/**
+ * Converts an APIError body into an RFC 7807 problem document. The stable code
+ * becomes the problem type; code, details and requestId are kept as extension members.
+ */
+export function toProblemDetails(body: APIError, status: number, instance?: string): ProblemDetails {
+  const code = body.error.code ?? 'ERROR';
+  return {
+    type: `urn:problem-type:ip-reverser:${code.toLowerCase().replace(/_/g, '-')}`,
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail: body.error.message,
+    ...(instance !== undefined && { instance }),
+    code,
+    ...(body.error.details !== undefined && { details: body.error.details }),
+    ...(body.requestId !== undefined && { requestId: body.requestId }),
+    timestamp: body.timestamp,
+  };
+}
@@ -0,0 +1,91 @@
+import type { ExportFormat, IPHistoryEntry } from '../types/index';
+
+// Column order of CSV exports
+export const CSV_COLUMNS: (keyof IPHistoryEntry)[] = [
+  'id',
+  'originalIP',
+  'reversedIP',
+  'format',
+  'prefixLength',
+  'family',
+  'ipClass',
+  'country',
+  'city',
+  'asn',
+  'asOrg',
+  'requestIP',
+  'userAgent',
+  'apiKeyId',
+  'requestCountry',
+  'requestAsn',
+  'notes',
+  'tags',
+  'timestamp',
+  'createdAt',
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * Escapes a CSV field (RFC 4180). Values starting with a formula character are
+ * prefixed with a quote so spreadsheets don't evaluate user-controlled input.
+ * Lists (tags) are written space-separated.
+ */
+export function escapeCSVField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = Array.isArray(value) ? value.join(' ') : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Text written before the first entry of an export
+ */
+export function exportPrologue(format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return `${CSV_COLUMNS.join(',')}\r\n`;
+    case 'json':
+      return '[';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Text written after the last entry of an export
+ */
+export function exportEpilogue(format: ExportFormat, empty: boolean): string {
+  if (format === 'json') {
+    return empty ? ']' : '\n]';
+  }
+  return '';
+}
+
+/**
+ * Serializes a chunk of entries; `first` tells the JSON format whether a separator is needed
+ */
+export function serializeEntries(format: ExportFormat, entries: IPHistoryEntry[], first: boolean): string {
+  switch (format) {
+    case 'csv':
+      return entries
+        .map((entry) => `${CSV_COLUMNS.map((column) => escapeCSVField(entry[column])).join(',')}\r\n`)
+        .join('');
+    case 'ndjson':
+      return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    case 'json':
+      return entries
+        .map((entry, i) => `${first && i === 0 ? '\n' : ',\n'}${JSON.stringify(entry)}`)
+        .join('');
+  }
+}
@@ -0,0 +1,170 @@
+import type { ImportFormat, ImportRejection } from '../types/index';
+
+// One record read from an import file, tagged with the line it starts on
+export type ParsedImportRecord =
+  | { line: number; fields: Record<string, unknown> }
+  | { line: number; error: ImportRejection['error'] };
+
+/**
+ * Splits one CSV record (RFC 4180) into fields. Returns null while a quoted
+ * field is still open, so the caller can append the next line and retry.
+ */
+export function parseCSVRecord(text: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0 && !quoted) {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+      quoted = false;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return null;
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Parses the lines of a CSV file with a header row into records keyed by column name
+ */
+async function* parseCSVLines(lines: AsyncIterable<string> | Iterable<string>): AsyncGenerator<ParsedImportRecord> {
+  let header: string[] | null = null;
+  let pending = '';
+  let startLine = 0;
+  let lineNumber = 0;
+
+  for await (const raw of lines) {
+    lineNumber++;
+    const line = lineNumber === 1 ? raw.replace(/^\uFEFF/, '') : raw;
+
+    if (!pending && line.trim().length === 0) {
+      continue;
+    }
+
+    if (!pending) {
+      startLine = lineNumber;
+    }
+
+    const text = pending ? `${pending}\n${line}` : line;
+    const values = parseCSVRecord(text);
+    if (!values) {
+      pending = text;
+      continue;
+    }
+    pending = '';
+
+    if (!header) {
+      header = values.map((column) => column.trim());
+      if (!header.includes('originalIP')) {
+        yield {
+          line: startLine,
+          error: { message: 'CSV header must include an originalIP column', code: 'INVALID_HEADER' },
+        };
+        return;
+      }
+      continue;
+    }
+
+    if (values.length !== header.length) {
+      yield {
+        line: startLine,
+        error: {
+          message: `Expected ${header.length} columns, got ${values.length}`,
+          code: 'INVALID_CSV_ROW',
+        },
+      };
+      continue;
+    }
+
+    const fields: Record<string, unknown> = {};
+    header.forEach((column, i) => {
+      fields[column] = values[i];
+    });
+    yield { line: startLine, fields };
+  }
+
+  if (pending) {
+    yield { line: startLine, error: { message: 'Unterminated quoted field', code: 'INVALID_CSV_ROW' } };
+  }
+}
+
+/**
+ * Parses NDJSON lines, one JSON object per line
+ */
+async function* parseNDJSONLines(lines: AsyncIterable<string> | Iterable<string>): AsyncGenerator<ParsedImportRecord> {
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      yield { line: lineNumber, error: { message: 'Line is not valid JSON', code: 'INVALID_JSON' } };
+      continue;
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      yield { line: lineNumber, error: { message: 'Line must be a JSON object', code: 'INVALID_JSON' } };
+      continue;
+    }
+
+    yield { line: lineNumber, fields: value as Record<string, unknown> };
+  }
+}
+
+/**
+ * Parses the lines of an import file. Line numbers are 1-based and refer to
+ * the line a record starts on; blank lines are skipped.
+ */
+export function parseImportLines(
+  lines: AsyncIterable<string> | Iterable<string>,
+  format: ImportFormat
+): AsyncGenerator<ParsedImportRecord> {
+  return format === 'csv' ? parseCSVLines(lines) : parseNDJSONLines(lines);
+}
+
+/**
+ * Picks the import format from a Content-Type header or file name, if it names one
+ */
+export function detectImportFormat(hint: string | undefined): ImportFormat | null {
+  if (!hint) {
+    return null;
+  }
+
+  const value = hint.toLowerCase();
+  if (value.includes('text/csv') || value.endsWith('.csv')) {
+    return 'csv';
+  }
+  if (value.includes('ndjson') || value.endsWith('.ndjson') || value.endsWith('.jsonl')) {
+    return 'ndjson';
+  }
+  return null;
+}
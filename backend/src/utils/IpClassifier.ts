@@ -0,0 +1,131 @@
+import { IPAddress, cidrSearchRange, isValidCIDR, toSearchHex } from './IpUtils';
+import type { IPClass, IPClassification, IPFamily } from '../types/index';
+
+interface RegistryBlock {
+  cidr: string;
+  ipClass: IPClass;
+  name: string;
+  reference: string | null;
+  globallyReachable: boolean;
+}
+
+/**
+ * IANA IPv4 and IPv6 Special-Purpose Address Registries, plus multicast, the
+ * reserved space around them and catch-all entries for public addresses.
+ * The most specific block containing an address decides its class.
+ */
+const REGISTRY: RegistryBlock[] = [
+  // IPv4
+  { cidr: '0.0.0.0/0', ipClass: 'public', name: 'Public', reference: null, globallyReachable: true },
+  { cidr: '0.0.0.0/8', ipClass: 'reserved', name: '"This network"', reference: 'RFC 791', globallyReachable: false },
+  { cidr: '10.0.0.0/8', ipClass: 'private', name: 'Private-Use', reference: 'RFC 1918', globallyReachable: false },
+  { cidr: '100.64.0.0/10', ipClass: 'cgnat', name: 'Shared Address Space', reference: 'RFC 6598', globallyReachable: false },
+  { cidr: '127.0.0.0/8', ipClass: 'loopback', name: 'Loopback', reference: 'RFC 1122', globallyReachable: false },
+  { cidr: '169.254.0.0/16', ipClass: 'link-local', name: 'Link Local', reference: 'RFC 3927', globallyReachable: false },
+  { cidr: '172.16.0.0/12', ipClass: 'private', name: 'Private-Use', reference: 'RFC 1918', globallyReachable: false },
+  { cidr: '192.0.0.0/24', ipClass: 'reserved', name: 'IETF Protocol Assignments', reference: 'RFC 6890', globallyReachable: false },
+  { cidr: '192.0.2.0/24', ipClass: 'documentation', name: 'Documentation (TEST-NET-1)', reference: 'RFC 5737', globallyReachable: false },
+  { cidr: '192.88.99.0/24', ipClass: '6to4', name: '6to4 Relay Anycast (deprecated)', reference: 'RFC 7526', globallyReachable: false },
+  { cidr: '192.168.0.0/16', ipClass: 'private', name: 'Private-Use', reference: 'RFC 1918', globallyReachable: false },
+  { cidr: '198.18.0.0/15', ipClass: 'reserved', name: 'Benchmarking', reference: 'RFC 2544', globallyReachable: false },
+  { cidr: '198.51.100.0/24', ipClass: 'documentation', name: 'Documentation (TEST-NET-2)', reference: 'RFC 5737', globallyReachable: false },
+  { cidr: '203.0.113.0/24', ipClass: 'documentation', name: 'Documentation (TEST-NET-3)', reference: 'RFC 5737', globallyReachable: false },
+  { cidr: '224.0.0.0/4', ipClass: 'multicast', name: 'Multicast', reference: 'RFC 5771', globallyReachable: false },
+  { cidr: '240.0.0.0/4', ipClass: 'reserved', name: 'Reserved', reference: 'RFC 1112', globallyReachable: false },
+  { cidr: '255.255.255.255/32', ipClass: 'reserved', name: 'Limited Broadcast', reference: 'RFC 919', globallyReachable: false },
+
+  // IPv6: everything outside 2000::/3 is reserved by the IETF unless listed
+  { cidr: '::/0', ipClass: 'reserved', name: 'Reserved by IETF', reference: 'RFC 4291', globallyReachable: false },
+  { cidr: '2000::/3', ipClass: 'public', name: 'Global Unicast', reference: 'RFC 4291', globallyReachable: true },
+  { cidr: '::/128', ipClass: 'reserved', name: 'Unspecified Address', reference: 'RFC 4291', globallyReachable: false },
+  { cidr: '::1/128', ipClass: 'loopback', name: 'Loopback Address', reference: 'RFC 4291', globallyReachable: false },
+  { cidr: '::ffff:0:0/96', ipClass: 'ipv4-mapped', name: 'IPv4-mapped Address', reference: 'RFC 4291', globallyReachable: false },
+  { cidr: '64:ff9b::/96', ipClass: 'nat64', name: 'IPv4-IPv6 Translation', reference: 'RFC 6052', globallyReachable: true },
+  { cidr: '64:ff9b:1::/48', ipClass: 'nat64', name: 'IPv4-IPv6 Translation (local use)', reference: 'RFC 8215', globallyReachable: false },
+  { cidr: '100::/64', ipClass: 'reserved', name: 'Discard-Only Address Block', reference: 'RFC 6666', globallyReachable: false },
+  { cidr: '2001::/23', ipClass: 'reserved', name: 'IETF Protocol Assignments', reference: 'RFC 2928', globallyReachable: false },
+  { cidr: '2001::/32', ipClass: 'teredo', name: 'TEREDO', reference: 'RFC 4380', globallyReachable: true },
+  { cidr: '2001:2::/48', ipClass: 'reserved', name: 'Benchmarking', reference: 'RFC 5180', globallyReachable: false },
+  { cidr: '2001:db8::/32', ipClass: 'documentation', name: 'Documentation', reference: 'RFC 3849', globallyReachable: false },
+  { cidr: '2002::/16', ipClass: '6to4', name: '6to4', reference: 'RFC 3056', globallyReachable: true },
+  { cidr: '3fff::/20', ipClass: 'documentation', name: 'Documentation', reference: 'RFC 9637', globallyReachable: false },
+  { cidr: '5f00::/16', ipClass: 'reserved', name: 'Segment Routing (SRv6) SIDs', reference: 'RFC 9602', globallyReachable: false },
+  { cidr: 'fc00::/7', ipClass: 'private', name: 'Unique-Local', reference: 'RFC 4193', globallyReachable: false },
+  { cidr: 'fe80::/10', ipClass: 'link-local', name: 'Link-Local Unicast', reference: 'RFC 4291', globallyReachable: false },
+  { cidr: 'fec0::/10', ipClass: 'reserved', name: 'Site-Local Unicast (deprecated)', reference: 'RFC 3879', globallyReachable: false },
+  { cidr: 'ff00::/8', ipClass: 'multicast', name: 'Multicast', reference: 'RFC 4291', globallyReachable: false },
+];
+
+interface CompiledBlock extends RegistryBlock {
+  family: IPFamily;
+  start: string;
+  end: string;
+  prefixLength: number;
+}
+
+// Most specific blocks first, so the first block containing an address wins
+const COMPILED_REGISTRY: CompiledBlock[] = REGISTRY
+  .map((block) => ({
+    ...block,
+    ...cidrSearchRange(block.cidr),
+    prefixLength: parseInt(block.cidr.split('/')[1], 10),
+  }))
+  .sort((a, b) => b.prefixLength - a.prefixLength);
+
+/**
+ * The IPv4 address embedded in an IPv4-mapped, NAT64 (64:ff9b::/96), 6to4 or
+ * Teredo (client address, stored inverted) address
+ */
+function embeddedIPv4(address: IPAddress, ipClass: IPClass): string | null {
+  const bytes = address.toBytes();
+
+  switch (ipClass) {
+    case 'ipv4-mapped':
+    case 'nat64':
+      return address.embeddedIPv4?.toString() ?? null;
+    case '6to4':
+      return address.family === 'IPv6' ? bytes.slice(2, 6).join('.') : null;
+    case 'teredo':
+      return bytes.slice(12).map((byte) => byte ^ 0xff).join('.');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Classifies an address, or a CIDR block as a whole, using the special-purpose
+ * registries. A block gets the class of the most specific registry block that
+ * contains all of it. Returns null for anything that isn't an IP or CIDR block.
+ * Example: 10.1.2.3 -> { ipClass: 'private', range: '10.0.0.0/8', reference: 'RFC 1918', ... }
+ */
+export function classifyIP(input: string): IPClassification | null {
+  const address = IPAddress.tryParse(input);
+  let range: { family: IPFamily; start: string; end: string };
+
+  if (address) {
+    const key = toSearchHex(address);
+    range = { family: address.family, start: key, end: key };
+  } else if (typeof input === 'string' && isValidCIDR(input)) {
+    range = cidrSearchRange(input);
+  } else {
+    return null;
+  }
+
+  const block = COMPILED_REGISTRY.find((candidate) => {
+    return candidate.family === range.family && candidate.start <= range.start && range.end <= candidate.end;
+  });
+
+  // The catch-all entries cover every address of both families
+  if (!block) {
+    return null;
+  }
+
+  return {
+    ipClass: block.ipClass,
+    name: block.name,
+    range: block.cidr,
+    reference: block.reference,
+    globallyReachable: block.globallyReachable,
+    embeddedIPv4: address ? embeddedIPv4(address, block.ipClass) : null,
+  };
+}
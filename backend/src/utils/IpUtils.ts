@@ -1,122 +1,775 @@
+import { REVERSE_FORMATS } from '../types/index';
+import type { CIDRReversal, ClientIPResolution, ClientIPSource, IPFamily, ReverseFormat } from '../types/index';
+
+// Characters allowed in an IPv6 zone ID (RFC 6874 unreserved characters)
+const ZONE_ID_REGEX = /^[0-9A-Za-z._~-]+$/;
+
 /**
- * Validates if a string is a valid IPv4 address
+ * Parses dotted-quad IPv4 text into 4 bytes, or returns null if invalid.
+ * Leading zeros are rejected because they are ambiguous (octal vs decimal).
  */
-export function isValidIPv4(ip: string): boolean {
-    const ipv4Regex = /^(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-    return ipv4Regex.test(ip);
+function parseIPv4Bytes(text: string): number[] | null {
+  const parts = text.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^(0|[1-9][0-9]{0,2})$/.test(part)) {
+      return null;
+    }
+    const value = parseInt(part, 10);
+    if (value > 255) {
+      return null;
+    }
+    bytes.push(value);
+  }
+
+  return bytes;
+}
+
+/**
+ * Parses IPv6 text (without zone ID) into 16 bytes, or returns null if invalid.
+ * Accepts '::' compression and an embedded dotted-quad IPv4 tail.
+ */
+function parseIPv6Bytes(text: string): number[] | null {
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (part: string, allowIPv4Tail: boolean): number[] | null => {
+    if (part === '') {
+      return [];
+    }
+
+    const groups = part.split(':');
+    const hextets: number[] = [];
+
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+
+      if (allowIPv4Tail && i === groups.length - 1 && group.includes('.')) {
+        const ipv4 = parseIPv4Bytes(group);
+        if (!ipv4) {
+          return null;
+        }
+        hextets.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+        continue;
+      }
+
+      if (!/^[0-9A-Fa-f]{1,4}$/.test(group)) {
+        return null;
+      }
+      hextets.push(parseInt(group, 16));
+    }
+
+    return hextets;
+  };
+
+  const compressed = halves.length === 2;
+  const head = parseGroups(halves[0], !compressed);
+  const tail = compressed ? parseGroups(halves[1], true) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  const missing = 8 - head.length - tail.length;
+  if (compressed ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const hextets = [...head, ...Array(compressed ? missing : 0).fill(0), ...tail];
+  return hextets.flatMap((hextet) => [hextet >> 8, hextet & 0xff]);
+}
+
+/**
+ * Immutable IP address value object
+ * Parses IPv4 and IPv6 text (including zone IDs and embedded IPv4 tails) into bytes,
+ * and renders canonical (RFC 5952) and fully expanded text.
+ */
+export class IPAddress {
+  private readonly bytes: Uint8Array;
+
+  readonly family: IPFamily;
+  readonly zoneId: string | null;
+
+  private constructor(bytes: Uint8Array, zoneId: string | null = null) {
+    this.bytes = bytes;
+    this.family = bytes.length === 4 ? 'IPv4' : 'IPv6';
+    this.zoneId = zoneId;
+  }
+
+  /**
+   * Parses an IP address, throwing if the text is not a valid IPv4 or IPv6 address
+   */
+  static parse(input: string): IPAddress {
+    const address = IPAddress.tryParse(input);
+    if (!address) {
+      throw new Error('Invalid IP address format');
+    }
+    return address;
+  }
+
+  /**
+   * Parses an IP address, returning null for invalid input (including non-strings)
+   */
+  static tryParse(input: unknown): IPAddress | null {
+    if (typeof input !== 'string' || input.length === 0 || input.length > 256) {
+      return null;
+    }
+
+    if (!input.includes(':')) {
+      const ipv4 = parseIPv4Bytes(input);
+      return ipv4 ? new IPAddress(Uint8Array.from(ipv4)) : null;
+    }
+
+    let text = input;
+    let zoneId: string | null = null;
+    const zoneIndex = input.indexOf('%');
+    if (zoneIndex !== -1) {
+      text = input.substring(0, zoneIndex);
+      zoneId = input.substring(zoneIndex + 1);
+      if (!ZONE_ID_REGEX.test(zoneId)) {
+        return null;
+      }
+    }
+
+    const ipv6 = parseIPv6Bytes(text);
+    return ipv6 ? new IPAddress(Uint8Array.from(ipv6), zoneId) : null;
+  }
+
+  /**
+   * Builds an address from its numeric value
+   */
+  static fromBigInt(value: bigint, family: IPFamily): IPAddress {
+    const length = family === 'IPv4' ? 4 : 16;
+    const bytes = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i--) {
+      bytes[i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+    return new IPAddress(bytes);
+  }
+
+  /**
+   * Number of bits in the address (32 or 128)
+   */
+  get bitLength(): number {
+    return this.bytes.length * 8;
   }
-  
+
   /**
-   * Validates if a string is a valid IPv6 address
+   * Copy of the raw address bytes in network order
    */
-  export function isValidIPv6(ip: string): boolean {
-    const ipv6Regex = /^(([0-9a-fA-F]{1,4}:){7,7}[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,7}:|([0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,5}(:[0-9a-fA-F]{1,4}){1,2}|([0-9a-fA-F]{1,4}:){1,4}(:[0-9a-fA-F]{1,4}){1,3}|([0-9a-fA-F]{1,4}:){1,3}(:[0-9a-fA-F]{1,4}){1,4}|([0-9a-fA-F]{1,4}:){1,2}(:[0-9a-fA-F]{1,4}){1,5}|[0-9a-fA-F]{1,4}:((:[0-9a-fA-F]{1,4}){1,6})|:((:[0-9a-fA-F]{1,4}){1,7}|:)|fe80:(:[0-9a-fA-F]{0,4}){0,4}%[0-9a-zA-Z]{1,}|::(ffff(:0{1,4}){0,1}:){0,1}((25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])\.){3,3}(25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])|([0-9a-fA-F]{1,4}:){1,4}:((25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])\.){3,3}(25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9]))$/;
-    return ipv6Regex.test(ip);
+  toBytes(): number[] {
+    return Array.from(this.bytes);
   }
-  
+
   /**
-   * Validates if a string is a valid IP address (IPv4 or IPv6)
+   * Numeric value of the address
    */
-  export function isValidIP(ip: string): boolean {
-    return isValidIPv4(ip) || isValidIPv6(ip);
+  toBigInt(): bigint {
+    return this.bytes.reduce((value, byte) => (value << 8n) + BigInt(byte), 0n);
   }
-  
+
   /**
-   * Reverses an IPv4 address
-   * Example: 192.168.1.1 -> 1.1.168.192
+   * The eight 16-bit groups of an IPv6 address
    */
-  export function reverseIPv4(ip: string): string {
-    if (!isValidIPv4(ip)) {
-      throw new Error('Invalid IPv4 address');
+  toHextets(): number[] {
+    const hextets: number[] = [];
+    for (let i = 0; i < this.bytes.length; i += 2) {
+      hextets.push((this.bytes[i] << 8) | this.bytes[i + 1]);
     }
-    
-    return ip.split('.').reverse().join('.');
+    return hextets;
   }
-  
+
   /**
-   * Reverses an IPv6 address by reversing the order of groups
-   * Example: 2001:0db8:85a3:0000:0000:8a2e:0370:7334 -> 7334:0370:8a2e:0000:0000:85a3:0db8:2001
+   * Whether this is an IPv4-mapped IPv6 address (::ffff:0:0/96)
    */
-  export function reverseIPv6(ip: string): string {
-    if (!isValidIPv6(ip)) {
-      throw new Error('Invalid IPv6 address');
-    }
-    
-    // Expand the IPv6 address to full form first
-    const expandedIP = expandIPv6(ip);
-    
-    // Split by colons and reverse
-    return expandedIP.split(':').reverse().join(':');
-  }
-  
+  isIPv4Mapped(): boolean {
+    return this.family === 'IPv6'
+      && this.bytes.slice(0, 10).every((byte) => byte === 0)
+      && this.bytes[10] === 0xff
+      && this.bytes[11] === 0xff;
+  }
+
   /**
-   * Expands a compressed IPv6 address to its full form
+   * The IPv4 address carried in the low 32 bits of an IPv4-mapped (::ffff:0:0/96)
+   * or NAT64 well-known prefix (64:ff9b::/96) address, or null for any other address
    */
-  function expandIPv6(ip: string): string {
-    // Handle :: compression
-    if (ip.includes('::')) {
-      const parts = ip.split('::');
-      const leftPart = parts[0] ? parts[0].split(':') : [];
-      const rightPart = parts[1] ? parts[1].split(':') : [];
-      
-      const totalGroups = 8;
-      const missingGroups = totalGroups - leftPart.length - rightPart.length;
-      const zeroGroups = Array(missingGroups).fill('0000');
-      
-      const fullParts = [...leftPart, ...zeroGroups, ...rightPart];
-      ip = fullParts.join(':');
-    }
-    
-    // Pad each group to 4 characters
-    return ip.split(':').map(group => group.padStart(4, '0')).join(':');
-  }
-  
+  get embeddedIPv4(): IPAddress | null {
+    if (this.family !== 'IPv6') {
+      return null;
+    }
+
+    const isNAT64 = this.bytes[0] === 0x00
+      && this.bytes[1] === 0x64
+      && this.bytes[2] === 0xff
+      && this.bytes[3] === 0x9b
+      && this.bytes.slice(4, 12).every((byte) => byte === 0);
+
+    if (!this.isIPv4Mapped() && !isNAT64) {
+      return null;
+    }
+
+    return new IPAddress(this.bytes.slice(12));
+  }
+
   /**
-   * Reverses any valid IP address (IPv4 or IPv6)
+   * Canonical text representation (RFC 5952 for IPv6): lowercase, no leading zeros,
+   * the longest run of two or more zero groups compressed, IPv4-mapped addresses
+   * in mixed notation, and the zone ID appended when present
    */
-  export function reverseIP(ip: string): string {
-    if (isValidIPv4(ip)) {
-      return reverseIPv4(ip);
-    } else if (isValidIPv6(ip)) {
-      return reverseIPv6(ip);
+  toString(): string {
+    if (this.family === 'IPv4') {
+      return this.bytes.join('.');
+    }
+
+    const hextets = this.toHextets();
+    let text: string;
+
+    if (this.isIPv4Mapped()) {
+      text = `::ffff:${this.bytes.slice(12).join('.')}`;
     } else {
-      throw new Error('Invalid IP address format');
+      // Find the first longest run of zero groups (length >= 2)
+      let bestStart = -1;
+      let bestLength = 1;
+      for (let i = 0; i < 8; ) {
+        if (hextets[i] !== 0) {
+          i++;
+          continue;
+        }
+        let j = i;
+        while (j < 8 && hextets[j] === 0) j++;
+        if (j - i > bestLength) {
+          bestStart = i;
+          bestLength = j - i;
+        }
+        i = j;
+      }
+
+      const groups = hextets.map((hextet) => hextet.toString(16));
+      text = bestStart === -1
+        ? groups.join(':')
+        : `${groups.slice(0, bestStart).join(':')}::${groups.slice(bestStart + bestLength).join(':')}`;
     }
+
+    return this.zoneId ? `${text}%${this.zoneId}` : text;
   }
-  
+
   /**
-   * Extracts the real client IP from request headers
-   * Handles proxy headers and forwarded IPs
+   * Fully expanded text: dotted-quad for IPv4, eight zero-padded groups for IPv6
+   * Example: 2001:db8::1 -> 2001:0db8:0000:0000:0000:0000:0000:0001
    */
-  export function extractClientIP(req: any): string {
-    const forwarded = req.headers['x-forwarded-for'];
-    const realIP = req.headers['x-real-ip'];
-    const clientIP = req.connection?.remoteAddress || req.socket?.remoteAddress;
-    
-    // Priority: x-forwarded-for -> x-real-ip -> connection IP
-    if (forwarded) {
-      // x-forwarded-for can be a comma-separated list, take the first one
-      return forwarded.split(',')[0].trim();
-    }
-    
-    if (realIP) {
-      return realIP;
-    }
-    
-    // Remove IPv6 prefix if present (::ffff:192.168.1.1 -> 192.168.1.1)
-    if (clientIP && clientIP.startsWith('::ffff:')) {
-      return clientIP.substring(7);
-    }
-    
-    return clientIP || 'unknown';
-  }
-  
+  toExpandedString(): string {
+    if (this.family === 'IPv4') {
+      return this.bytes.join('.');
+    }
+
+    const text = this.toHextets().map((hextet) => hextet.toString(16).padStart(4, '0')).join(':');
+    return this.zoneId ? `${text}%${this.zoneId}` : text;
+  }
+
   /**
-   * Normalizes an IP address (removes IPv6 prefix if IPv4-mapped)
+   * Lowercase hex digits of the address, most significant first (zone ID excluded)
    */
-  export function normalizeIP(ip: string): string {
-    if (ip.startsWith('::ffff:')) {
-      return ip.substring(7);
+  toHex(): string {
+    return Array.from(this.bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  equals(other: IPAddress): boolean {
+    return this.family === other.family
+      && this.zoneId === other.zoneId
+      && this.bytes.every((byte, i) => byte === other.bytes[i]);
+  }
+}
+
+/**
+ * Validates if a string is a valid IPv4 address
+ */
+export function isValidIPv4(ip: string): boolean {
+  return IPAddress.tryParse(ip)?.family === 'IPv4';
+}
+
+/**
+ * Validates if a string is a valid IPv6 address (zone IDs and embedded IPv4 tails allowed)
+ */
+export function isValidIPv6(ip: string): boolean {
+  return IPAddress.tryParse(ip)?.family === 'IPv6';
+}
+
+/**
+ * Validates if a string is a valid IP address (IPv4 or IPv6)
+ */
+export function isValidIP(ip: string): boolean {
+  return IPAddress.tryParse(ip) !== null;
+}
+
+/**
+ * Reverses an IPv4 address
+ * Example: 192.168.1.1 -> 1.1.168.192
+ */
+export function reverseIPv4(ip: string): string {
+  const address = IPAddress.tryParse(ip);
+  if (address?.family !== 'IPv4') {
+    throw new Error('Invalid IPv4 address');
+  }
+
+  return address.toBytes().reverse().join('.');
+}
+
+/**
+ * Reverses an IPv6 address by reversing the order of its expanded groups.
+ * Embedded IPv4 tails are reversed as the two groups they occupy, and a zone ID is kept as a suffix.
+ * Example: 2001:0db8:85a3:0000:0000:8a2e:0370:7334 -> 7334:0370:8a2e:0000:0000:85a3:0db8:2001
+ * Example: fe80::1%eth0 -> 0001:0000:0000:0000:0000:0000:0000:fe80%eth0
+ */
+export function reverseIPv6(ip: string): string {
+  const address = IPAddress.tryParse(ip);
+  if (address?.family !== 'IPv6') {
+    throw new Error('Invalid IPv6 address');
+  }
+
+  const reversed = address.toHextets()
+    .reverse()
+    .map((hextet) => hextet.toString(16).padStart(4, '0'))
+    .join(':');
+
+  return address.zoneId ? `${reversed}%${address.zoneId}` : reversed;
+}
+
+/**
+ * Reverses any valid IP address (IPv4 or IPv6)
+ */
+export function reverseIP(ip: string): string {
+  const address = IPAddress.parse(ip);
+  return address.family === 'IPv4' ? reverseIPv4(ip) : reverseIPv6(ip);
+}
+
+/**
+ * Builds the nibble-reversed form of an IP address (one hex digit per label).
+ * Zone IDs are dropped since they have no place in DNS names.
+ * Example: 2001:db8::1 -> 1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2
+ */
+export function toNibbles(ip: string): string {
+  return IPAddress.parse(ip).toHex().split('').reverse().join('.');
+}
+
+/**
+ * Builds the reverse-DNS (PTR) name of an IP address
+ * Example: 192.168.1.1 -> 1.1.168.192.in-addr.arpa
+ * Example: 2001:db8::1 -> 1.0.0.0. ... .8.b.d.0.1.0.0.2.ip6.arpa
+ */
+export function toPTRName(ip: string): string {
+  const address = IPAddress.parse(ip);
+  if (address.family === 'IPv4') {
+    return `${reverseIPv4(ip)}.in-addr.arpa`;
+  }
+  return `${toNibbles(ip)}.ip6.arpa`;
+}
+
+/**
+ * Reverses an IP address using the requested output format
+ * - octets:  reverse octets (IPv4) or hextets (IPv6)
+ * - ptr:     full reverse-DNS name under in-addr.arpa / ip6.arpa
+ * - nibbles: nibble-reversed address without the reverse zone suffix
+ */
+export function reverseIPWithFormat(ip: string, format: ReverseFormat = 'octets'): string {
+  switch (format) {
+    case 'ptr':
+      return toPTRName(ip);
+    case 'nibbles':
+      return toNibbles(ip);
+    case 'octets':
+      return reverseIP(ip);
+    default:
+      throw new Error(`Unsupported reverse format: ${format}`);
+  }
+}
+
+/**
+ * Checks whether a value is a supported reverse output format
+ */
+export function isValidReverseFormat(format: unknown): format is ReverseFormat {
+  return typeof format === 'string' && (REVERSE_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Validates if a string is a valid CIDR block (e.g. 10.0.0.0/24 or 2001:db8::/48)
+ */
+export function isValidCIDR(cidr: string): boolean {
+  if (typeof cidr !== 'string') {
+    return false;
+  }
+
+  const match = /^([^/]+)\/(0|[1-9][0-9]{0,2})$/.exec(cidr);
+  if (!match) {
+    return false;
+  }
+
+  const address = IPAddress.tryParse(match[1]);
+  if (!address || address.zoneId) {
+    return false;
+  }
+
+  return parseInt(match[2], 10) <= address.bitLength;
+}
+
+// IPv4 addresses are keyed inside the IPv4-mapped range ::ffff:0:0/96
+const IPV4_SEARCH_PREFIX = '00000000000000000000ffff';
+
+/**
+ * 128-bit hex key of an address for range queries. IPv4 addresses are mapped
+ * into ::ffff:0:0/96, so keys of both families sort in one space without overlap.
+ */
+export function toSearchHex(address: IPAddress): string {
+  return address.family === 'IPv4' ? `${IPV4_SEARCH_PREFIX}${address.toHex()}` : address.toHex();
+}
+
+/**
+ * First and last search keys of a CIDR block (or of a single address)
+ * Example: 10.0.0.0/8 -> { family: 'IPv4', start: '...ffff0a000000', end: '...ffff0affffff' }
+ */
+export function cidrSearchRange(cidr: string): { family: IPFamily; start: string; end: string } {
+  const single = IPAddress.tryParse(cidr);
+  if (single && !single.zoneId) {
+    return { family: single.family, start: toSearchHex(single), end: toSearchHex(single) };
+  }
+
+  if (!isValidCIDR(cidr)) {
+    throw new Error('Invalid CIDR block');
+  }
+
+  const [text, prefix] = cidr.split('/');
+  const address = IPAddress.parse(text);
+  const hostBits = BigInt(address.bitLength - parseInt(prefix, 10));
+  const first = (address.toBigInt() >> hostBits) << hostBits;
+  const last = first + (1n << hostBits) - 1n;
+
+  return {
+    family: address.family,
+    start: toSearchHex(IPAddress.fromBigInt(first, address.family)),
+    end: toSearchHex(IPAddress.fromBigInt(last, address.family)),
+  };
+}
+
+/**
+ * Zeroes the host part of an address, keeping the first ipv4Prefix / ipv6Prefix bits.
+ * IPv4-mapped addresses are treated as IPv4. Invalid input is returned unchanged.
+ * Example: 203.0.113.77 -> 203.0.113.0, 2001:db8:1:2::5 -> 2001:db8:1::
+ */
+export function truncateIP(ip: string, ipv4Prefix: number = 24, ipv6Prefix: number = 48): string {
+  const normalized = normalizeIP(ip);
+  const address = IPAddress.tryParse(normalized);
+  if (!address) {
+    return ip;
+  }
+
+  const prefix = address.family === 'IPv4' ? ipv4Prefix : ipv6Prefix;
+  const hostBits = BigInt(address.bitLength - prefix);
+  return IPAddress.fromBigInt((address.toBigInt() >> hostBits) << hostBits, address.family).toString();
+}
+
+/**
+ * Builds the reverse-DNS zone name that covers a network
+ * IPv4 prefixes longer than /24 that aren't octet-aligned use RFC 2317 classless notation;
+ * shorter ones use the enclosing octet zone (RFC 2317 only delegates within a /24)
+ * Example: 192.0.2.0/24    -> 2.0.192.in-addr.arpa
+ * Example: 192.0.2.64/26   -> 64/26.2.0.192.in-addr.arpa
+ * Example: 192.168.16.0/20 -> 168.192.in-addr.arpa
+ * IPv6 prefixes that aren't nibble-aligned use the enclosing nibble zone
+ * Example: 2001:db8::/32 -> 8.b.d.0.1.0.0.2.ip6.arpa
+ */
+export function toReverseZone(network: string, prefixLength: number): string {
+  const address = IPAddress.parse(network);
+
+  if (address.family === 'IPv4') {
+    const octets = address.toBytes();
+    const alignedOctets = Math.floor(prefixLength / 8);
+    const labels = octets.slice(0, alignedOctets).reverse().map(String);
+
+    if (prefixLength > 24 && prefixLength % 8 !== 0) {
+      labels.unshift(`${octets[alignedOctets]}/${prefixLength}`);
+    }
+
+    return [...labels, 'in-addr.arpa'].join('.');
+  }
+
+  const nibbles = address.toHex().split('');
+  const labels = nibbles.slice(0, Math.floor(prefixLength / 4)).reverse();
+  return [...labels, 'ip6.arpa'].join('.');
+}
+
+/**
+ * Reverses a CIDR block: the network address, its reverse zone and,
+ * up to maxHosts entries, the reversed host addresses in the block.
+ * IPv4 blocks larger than /31 exclude the network and broadcast addresses.
+ */
+export function reverseCIDR(
+  cidr: string,
+  format: ReverseFormat = 'octets',
+  maxHosts: number = 256
+): CIDRReversal {
+  if (!isValidCIDR(cidr)) {
+    throw new Error('Invalid CIDR block');
+  }
+
+  const [text, prefix] = cidr.split('/');
+  const prefixLength = parseInt(prefix, 10);
+  const address = IPAddress.parse(text);
+  const isV4 = address.family === 'IPv4';
+
+  const hostBits = BigInt(address.bitLength - prefixLength);
+  const size = 1n << hostBits;
+  const networkValue = (address.toBigInt() >> hostBits) << hostBits;
+  const network = IPAddress.fromBigInt(networkValue, address.family).toString();
+  const reverseZone = toReverseZone(network, prefixLength);
+
+  let firstHost = networkValue;
+  let hostCount = size;
+  if (isV4 && prefixLength < 31) {
+    firstHost += 1n;
+    hostCount -= 2n;
+  }
+
+  const hosts: string[] = [];
+  for (let i = 0n; i < hostCount && i < BigInt(maxHosts); i++) {
+    hosts.push(reverseIPWithFormat(IPAddress.fromBigInt(firstHost + i, address.family).toString(), format));
+  }
+
+  // A '/len' suffix is meaningless on a DNS name, so the ptr form is the zone itself
+  const reversedNetwork = format === 'ptr'
+    ? reverseZone
+    : `${reverseIPWithFormat(network, format)}/${prefixLength}`;
+
+  return {
+    network: `${network}/${prefixLength}`,
+    prefixLength,
+    family: address.family,
+    reversedNetwork,
+    reverseZone,
+    hostCount: hostCount.toString(),
+    hosts,
+    truncated: hostCount > BigInt(hosts.length),
+  };
+}
+
+/**
+ * Matcher for addresses inside any of the given search ranges
+ */
+function rangeMatcher(ranges: { start: string; end: string }[]): (ip: string) => boolean {
+  return (ip: string): boolean => {
+    const address = IPAddress.tryParse(ip);
+    if (!address) {
+      return false;
+    }
+    const key = toSearchHex(address);
+    return ranges.some((range) => key >= range.start && key <= range.end);
+  };
+}
+
+/**
+ * Compiles CIDR blocks (or single addresses) into a matcher that is true for
+ * addresses inside any of them. Throws 'Invalid CIDR block' for a bad entry.
+ * Example: compileCIDRMatcher(['10.0.0.0/8'])('10.1.2.3') -> true
+ */
+export function compileCIDRMatcher(blocks: string[]): (ip: string) => boolean {
+  return rangeMatcher(blocks.map((block) => cidrSearchRange(block)));
+}
+
+// Named ranges accepted in trusted proxy lists (the same names Express uses for 'trust proxy')
+const TRUSTED_PROXY_PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+export const DEFAULT_TRUSTED_PROXIES = ['loopback', 'linklocal', 'uniquelocal'];
+
+/**
+ * Whether a trusted proxy entry is a CIDR block, a single address or a preset name
+ */
+export function isValidTrustedProxy(entry: string): boolean {
+  if (Object.hasOwn(TRUSTED_PROXY_PRESETS, entry)) {
+    return true;
+  }
+  try {
+    cidrSearchRange(entry);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compiles trusted proxies (CIDR blocks, single addresses or the preset names
+ * loopback, linklocal and uniquelocal) into a matcher for normalized addresses
+ */
+export function compileTrustedProxies(entries: string[]): (ip: string) => boolean {
+  const ranges = entries
+    .flatMap((entry) => TRUSTED_PROXY_PRESETS[entry] ?? [entry])
+    .map((entry) => {
+      try {
+        return cidrSearchRange(entry);
+      } catch {
+        throw new Error(`Invalid trusted proxy: ${entry}`);
+      }
+    });
+
+  return rangeMatcher(ranges);
+}
+
+/**
+ * Splits a header value on a delimiter, ignoring delimiters inside quoted strings
+ */
+function splitOutsideQuotes(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted && char === '\\' && i + 1 < value.length) {
+      current += char + value[++i];
+    } else if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (char === delimiter && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Returns the `for` node of every element of an RFC 7239 Forwarded header, in
+ * order (client first). Quotes are removed; elements without `for` yield 'unknown'.
+ * Example: 'for=192.0.2.60;proto=http, for="[2001:db8::17]:4711"' -> ['192.0.2.60', '[2001:db8::17]:4711']
+ */
+export function parseForwardedHeader(header: string | string[]): string[] {
+  const value = Array.isArray(header) ? header.join(',') : header;
+
+  return splitOutsideQuotes(value, ',')
+    .filter((element) => element.trim().length > 0)
+    .map((element) => {
+      for (const pair of splitOutsideQuotes(element, ';')) {
+        const separator = pair.indexOf('=');
+        if (separator === -1 || pair.slice(0, separator).trim().toLowerCase() !== 'for') {
+          continue;
+        }
+
+        const node = pair.slice(separator + 1).trim();
+        return node.startsWith('"') && node.endsWith('"') && node.length >= 2
+          ? node.slice(1, -1).replace(/\\(.)/g, '$1')
+          : node;
+      }
+      return 'unknown';
+    });
+}
+
+/**
+ * Address of a forwarding node (IPv4 with an optional port, bracketed IPv6 with
+ * an optional port, or bare IPv6), normalized; null for 'unknown', obfuscated
+ * identifiers and anything else that isn't an address
+ */
+function toNodeAddress(node: string): string | null {
+  let text = node.trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(text);
+  if (bracketed) {
+    text = bracketed[1];
+  } else if (/^[0-9.]+:\d+$/.test(text)) {
+    text = text.slice(0, text.indexOf(':'));
+  }
+
+  return IPAddress.tryParse(text) ? normalizeIP(text) : null;
+}
+
+let isDefaultTrustedProxy: ((ip: string) => boolean) | null = null;
+
+/**
+ * Resolves the client IP of a request. Forwarding headers are only honoured when
+ * the connection comes from a trusted proxy; the chain (Forwarded, else
+ * X-Forwarded-For, else X-Real-IP) is then walked from the right, skipping trusted
+ * proxies, and the first untrusted address is the client. Every hop is normalized,
+ * so IPv4-mapped addresses match IPv4 ranges.
+ */
+export function resolveClientIP(req: any, isTrusted?: (ip: string) => boolean): ClientIPResolution {
+  if (!isTrusted) {
+    isDefaultTrustedProxy ??= compileTrustedProxies(DEFAULT_TRUSTED_PROXIES);
+    isTrusted = isDefaultTrustedProxy;
+  }
+
+  const remote = req.socket?.remoteAddress || req.connection?.remoteAddress;
+  const remoteIP = remote ? toNodeAddress(remote) : null;
+  if (!remoteIP) {
+    return { ip: 'unknown', source: 'socket', trustedHops: 0 };
+  }
+  if (!isTrusted(remoteIP)) {
+    return { ip: remoteIP, source: 'socket', trustedHops: 0 };
+  }
+
+  const headers = req.headers ?? {};
+  let source: ClientIPSource;
+  let chain: string[];
+
+  if (headers.forwarded) {
+    source = 'forwarded';
+    chain = parseForwardedHeader(headers.forwarded);
+  } else if (headers['x-forwarded-for']) {
+    source = 'x-forwarded-for';
+    chain = [headers['x-forwarded-for']].flat().join(',').split(',').map((hop: string) => hop.trim()).filter(Boolean);
+  } else if (headers['x-real-ip']) {
+    source = 'x-real-ip';
+    chain = [[headers['x-real-ip']].flat()[0].trim()];
+  } else {
+    return { ip: remoteIP, source: 'socket', trustedHops: 0 };
+  }
+
+  let trustedHops = 1;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const hop = toNodeAddress(chain[i]);
+
+    // A hop that isn't an address (for=unknown, an obfuscated node) ends what can be verified
+    if (!hop) {
+      return { ip: 'unknown', source, trustedHops };
     }
+    if (!isTrusted(hop) || i === 0) {
+      return { ip: hop, source, trustedHops };
+    }
+    trustedHops++;
+  }
+
+  return { ip: remoteIP, source: 'socket', trustedHops: 0 };
+}
+
+/**
+ * Extracts the real client IP of a request (see resolveClientIP)
+ */
+export function extractClientIP(req: any, isTrusted?: (ip: string) => boolean): string {
+  return resolveClientIP(req, isTrusted).ip;
+}
+
+/**
+ * Normalizes an IP address: IPv4-mapped addresses become plain IPv4 and
+ * everything else is rendered in canonical form. Invalid input is returned unchanged.
+ */
+export function normalizeIP(ip: string): string {
+  const address = IPAddress.tryParse(ip);
+  if (!address) {
     return ip;
-  }
\ No newline at end of file
+  }
+
+  if (address.isIPv4Mapped()) {
+    return address.embeddedIPv4!.toString();
+  }
+
+  return address.toString();
+}
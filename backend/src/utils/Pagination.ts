@@ -0,0 +1,78 @@
+import type { Request } from 'express';
+
+export type CursorDirection = 'next' | 'prev';
+
+// Position of a row in (createdAt DESC, id DESC) order plus the direction to page in
+export interface HistoryCursor {
+  createdAt: Date;
+  id: string;
+  direction: CursorDirection;
+}
+
+/**
+ * Encodes a cursor as an opaque base64url token
+ */
+export function encodeCursor(cursor: HistoryCursor): string {
+  const payload = JSON.stringify({
+    c: cursor.createdAt.toISOString(),
+    i: cursor.id,
+    d: cursor.direction,
+  });
+  return Buffer.from(payload).toString('base64url');
+}
+
+/**
+ * Decodes an opaque cursor token, returning null if it is malformed
+ */
+export function decodeCursor(token: string): HistoryCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    const createdAt = new Date(payload.c);
+
+    if (
+      typeof payload.c !== 'string'
+      || Number.isNaN(createdAt.getTime())
+      || typeof payload.i !== 'string'
+      || payload.i.length === 0
+      || (payload.d !== 'next' && payload.d !== 'prev')
+    ) {
+      return null;
+    }
+
+    return { createdAt, id: payload.i, direction: payload.d };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds an RFC 8288 Link header for the current route, replacing the given
+ * query parameters per relation and keeping every other query parameter as is
+ */
+export function buildLinkHeader(
+  req: Request<any, any, any, any>,
+  links: Partial<Record<'next' | 'prev' | 'first', Record<string, string | number>>>,
+  dropParams: string[] = []
+): string | null {
+  const parts: string[] = [];
+
+  for (const [rel, params] of Object.entries(links)) {
+    if (!params) continue;
+
+    const url = new URL(`${req.baseUrl}${req.path}`, `${req.protocol}://${req.get('host') || 'localhost'}`);
+    // The query as sent: req.query may hold the parsed values of validate()
+    const sent = new URL(req.originalUrl, 'http://localhost').searchParams;
+    for (const [key, value] of sent) {
+      if (!dropParams.includes(key)) {
+        url.searchParams.set(key, value);
+      }
+    }
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value));
+    }
+
+    parts.push(`<${url.pathname}${url.search}>; rel="${rel}"`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
@@ -0,0 +1,364 @@
+/**
+ * Declarative schemas for request validation. A schema parses an unknown value
+ * into a typed one and reports every problem it finds with the path of the field;
+ * Infer<typeof someSchema> is the type of what it produces, so request types can
+ * be derived from the schemas that check them.
+ *
+ * Example:
+ *   const body = schema.object({ ip: schema.string({ max: 64 }), limit: schema.int({ min: 1 }).optional() });
+ *   body.parse({ ip: 1 }) -> { success: false, issues: [{ path: 'ip', code: 'INVALID_TYPE', message: 'ip must be a string' }] }
+ */
+
+export interface SchemaIssue {
+  path: string; // e.g. "ips[2]" or "filters.from"; empty for the value itself
+  code: string;
+  message: string;
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+interface Issue extends SchemaIssue {
+  // Set for codes chosen by the schema's author (.invalid(), .missing(), .refine()),
+  // which outer .invalid() calls leave alone
+  custom: boolean;
+}
+
+interface Context {
+  issues: Issue[];
+  root: string; // name of the value itself in messages, e.g. "body"
+}
+
+const INVALID: unique symbol = Symbol('invalid');
+
+type Parser<T> = (value: unknown, path: string, ctx: Context) => T | typeof INVALID;
+
+const fieldName = (path: string, ctx: Context): string => path || ctx.root;
+
+const childPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+};
+
+const fail = (ctx: Context, path: string, code: string, message: string, custom = false): typeof INVALID => {
+  ctx.issues.push({ path, code, message, custom });
+  return INVALID;
+};
+
+export class Schema<T> {
+  /**
+   * Parses a value at `path`, adding its problems to ctx. Used by composite
+   * schemas; call parse() instead.
+   */
+  readonly run: Parser<T>;
+
+  constructor(run: Parser<T>) {
+    this.run = run;
+  }
+
+  /**
+   * Parses a value, naming it `root` in the messages of problems with the value itself
+   */
+  parse(value: unknown, root: string = 'value'): ParseResult<T> {
+    const ctx: Context = { issues: [], root };
+    const data = this.run(value, '', ctx);
+
+    if (data === INVALID || ctx.issues.length > 0) {
+      return { success: false, issues: ctx.issues.map(({ path, code, message }) => ({ path, code, message })) };
+    }
+    return { success: true, data };
+  }
+
+  /**
+   * Accepts undefined (an absent field)
+   */
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>((value, path, ctx) => (value === undefined ? undefined : this.run(value, path, ctx)));
+  }
+
+  /**
+   * Accepts null
+   */
+  nullable(): Schema<T | null> {
+    return new Schema<T | null>((value, path, ctx) => (value === null ? null : this.run(value, path, ctx)));
+  }
+
+  /**
+   * Uses `fallback` when the value is undefined
+   */
+  default(fallback: Exclude<T, undefined>): Schema<Exclude<T, undefined>> {
+    return new Schema((value, path, ctx) => (
+      value === undefined ? fallback : this.run(value, path, ctx) as Exclude<T, undefined> | typeof INVALID
+    ));
+  }
+
+  /**
+   * Converts the parsed value
+   */
+  map<U>(convert: (value: T) => U): Schema<U> {
+    return new Schema((value, path, ctx) => {
+      const parsed = this.run(value, path, ctx);
+      return parsed === INVALID ? INVALID : convert(parsed);
+    });
+  }
+
+  /**
+   * Adds a check of the parsed value. `field` names a field of an object schema
+   * the problem is reported at (e.g. "from" for a date range check).
+   */
+  refine(check: (value: T) => boolean, code: string, message: string, field?: string): Schema<T> {
+    return new Schema((value, path, ctx) => {
+      const parsed = this.run(value, path, ctx);
+      if (parsed === INVALID) {
+        return INVALID;
+      }
+      return check(parsed) ? parsed : fail(ctx, field ? childPath(path, field) : path, code, message, true);
+    });
+  }
+
+  /**
+   * Reports the problems this schema finds itself (wrong type, too long, ...) with
+   * one code and message; codes set on nested schemas are kept
+   */
+  invalid(code: string, message: string): Schema<T> {
+    return new Schema((value, path, ctx) => {
+      const inner: Context = { issues: [], root: ctx.root };
+      const parsed = this.run(value, path, inner);
+      ctx.issues.push(...inner.issues.map((issue) => (issue.custom ? issue : { ...issue, code, message, custom: true })));
+      return parsed;
+    });
+  }
+
+  /**
+   * Reports an absent value with this code and message instead of REQUIRED
+   */
+  missing(code: string, message: string): Schema<T> {
+    return new Schema((value, path, ctx) => (
+      value === undefined ? fail(ctx, path, code, message, true) : this.run(value, path, ctx)
+    ));
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Fields that accept undefined become optional properties
+export type ObjectOutput<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/**
+ * A schema for a defined value; undefined is reported as REQUIRED
+ */
+const required = <T>(parse: Parser<T>): Schema<T> => {
+  return new Schema((value, path, ctx) => (
+    value === undefined ? fail(ctx, path, 'REQUIRED', `${fieldName(path, ctx)} is required`) : parse(value, path, ctx)
+  ));
+};
+
+export interface StringOptions {
+  trim?: boolean; // trims before the length and pattern checks
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+}
+
+const string = (options: StringOptions = {}): Schema<string> => required((value, path, ctx) => {
+  if (typeof value !== 'string') {
+    return fail(ctx, path, 'INVALID_TYPE', `${fieldName(path, ctx)} must be a string`);
+  }
+  const text = options.trim ? value.trim() : value;
+  if (options.min !== undefined && text.length < options.min) {
+    return fail(ctx, path, 'TOO_SHORT', options.min === 1
+      ? `${fieldName(path, ctx)} must not be empty`
+      : `${fieldName(path, ctx)} must be at least ${options.min} characters`);
+  }
+  if (options.max !== undefined && text.length > options.max) {
+    return fail(ctx, path, 'TOO_LONG', `${fieldName(path, ctx)} must be at most ${options.max} characters`);
+  }
+  if (options.pattern && !options.pattern.test(text)) {
+    return fail(ctx, path, 'INVALID_FORMAT', `${fieldName(path, ctx)} has an invalid format`);
+  }
+  return text;
+});
+
+export interface IntOptions {
+  min?: number;
+  max?: number;
+  coerce?: boolean; // accepts decimal strings, for query parameters
+}
+
+const int = (options: IntOptions = {}): Schema<number> => required((value, path, ctx) => {
+  const number = options.coerce && typeof value === 'string' && /^-?\d{1,16}$/.test(value) ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isSafeInteger(number)) {
+    return fail(ctx, path, 'INVALID_TYPE', `${fieldName(path, ctx)} must be an integer`);
+  }
+  if (options.min !== undefined && number < options.min) {
+    return fail(ctx, path, 'TOO_SMALL', `${fieldName(path, ctx)} must be at least ${options.min}`);
+  }
+  if (options.max !== undefined && number > options.max) {
+    return fail(ctx, path, 'TOO_BIG', `${fieldName(path, ctx)} must be at most ${options.max}`);
+  }
+  return number;
+});
+
+export interface BooleanOptions {
+  coerce?: boolean; // accepts "true" and "false", for query parameters
+}
+
+const boolean = (options: BooleanOptions = {}): Schema<boolean> => required((value, path, ctx) => {
+  if (options.coerce && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (typeof value !== 'boolean') {
+    return fail(ctx, path, 'INVALID_TYPE', `${fieldName(path, ctx)} must be true or false`);
+  }
+  return value;
+});
+
+/**
+ * An ISO 8601 date string, parsed into a Date
+ */
+const date = (): Schema<Date> => required((value, path, ctx) => {
+  const parsed = typeof value === 'string' ? new Date(value) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    return fail(ctx, path, 'INVALID_FORMAT', `${fieldName(path, ctx)} must be an ISO 8601 date`);
+  }
+  return parsed;
+});
+
+export interface EnumOptions {
+  ignoreCase?: boolean; // matches case-insensitively and returns the value as listed
+}
+
+const enumOf = <const V extends readonly string[]>(values: V, options: EnumOptions = {}): Schema<V[number]> => {
+  return required((value, path, ctx) => {
+    const match = typeof value === 'string'
+      ? values.find((item) => (options.ignoreCase ? item.toLowerCase() === value.toLowerCase() : item === value))
+      : undefined;
+    if (match === undefined) {
+      return fail(ctx, path, 'INVALID_VALUE', `${fieldName(path, ctx)} must be one of: ${values.join(', ')}`);
+    }
+    return match;
+  });
+};
+
+export interface ArrayOptions {
+  min?: number;
+  max?: number; // checked after duplicates are removed
+  unique?: boolean; // removes duplicate items (after parsing them)
+}
+
+const parseItems = <T>(item: Schema<T>, values: unknown[], path: string, ctx: Context, options: ArrayOptions): T[] | typeof INVALID => {
+  let valid = true;
+  const items: T[] = [];
+  values.forEach((value, index) => {
+    const parsed = item.run(value, childPath(path, index), ctx);
+    if (parsed === INVALID) {
+      valid = false;
+    } else {
+      items.push(parsed);
+    }
+  });
+  if (!valid) {
+    return INVALID;
+  }
+
+  const result = options.unique ? [...new Set(items)] : items;
+  if (options.min !== undefined && result.length < options.min) {
+    return fail(ctx, path, 'TOO_SHORT', `${fieldName(path, ctx)} must have at least ${options.min} item(s)`);
+  }
+  if (options.max !== undefined && result.length > options.max) {
+    return fail(ctx, path, 'TOO_LONG', `${fieldName(path, ctx)} must have at most ${options.max} item(s)`);
+  }
+  return result;
+};
+
+const array = <T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> => required((value, path, ctx) => {
+  if (!Array.isArray(value)) {
+    return fail(ctx, path, 'INVALID_TYPE', `${fieldName(path, ctx)} must be an array`);
+  }
+  return parseItems(item, value, path, ctx, options);
+});
+
+/**
+ * A comma-separated list in a query parameter (e.g. "private,cgnat"); items are
+ * trimmed, empty items dropped and duplicates removed. At least one item by default.
+ */
+const list = <T>(item: Schema<T>, options: Omit<ArrayOptions, 'unique'> = {}): Schema<T[]> => {
+  return required((value, path, ctx) => {
+    if (typeof value !== 'string') {
+      return fail(ctx, path, 'INVALID_TYPE', `${fieldName(path, ctx)} must be a comma-separated list`);
+    }
+    const items = value.split(',').map((part) => part.trim()).filter(Boolean);
+    return parseItems(item, items, path, ctx, { min: 1, ...options, unique: true });
+  });
+};
+
+/**
+ * An object with exactly the fields of `shape`: unknown fields are rejected and
+ * absent (undefined) fields are left out of the result
+ */
+const object = <S extends Shape>(shape: S): Schema<ObjectOutput<S>> => required((value, path, ctx) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(ctx, path, 'INVALID_TYPE', `${fieldName(path, ctx)} must be an object`);
+  }
+
+  let valid = true;
+  const input = value as Record<string, unknown>;
+
+  for (const key of Object.keys(input)) {
+    if (!Object.hasOwn(shape, key)) {
+      valid = false;
+      fail(ctx, childPath(path, key), 'UNKNOWN_FIELD', `${childPath(path, key)} is not a known field`);
+    }
+  }
+
+  const output: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(shape)) {
+    const parsed = field.run(input[key], childPath(path, key), ctx);
+    if (parsed === INVALID) {
+      valid = false;
+    } else if (parsed !== undefined) {
+      output[key] = parsed;
+    }
+  }
+
+  return valid ? output as ObjectOutput<S> : INVALID;
+});
+
+/**
+ * Any defined value, for input checked further on (e.g. the items of a batch,
+ * which are reported one by one)
+ */
+const unknown = (): Schema<unknown> => required((value) => value);
+
+/**
+ * A field that must not be sent
+ */
+const absent = (code: string, message: string): Schema<undefined> => {
+  return new Schema((value, path, ctx) => (value === undefined ? undefined : fail(ctx, path, code, message, true)));
+};
+
+export const schema = {
+  string,
+  int,
+  boolean,
+  date,
+  enum: enumOf,
+  array,
+  list,
+  object,
+  unknown,
+  absent,
+};